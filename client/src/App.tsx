@@ -10,6 +10,7 @@ import Results from "@/pages/results";
 import Pricing from "@/pages/pricing";
 import Deletion from "@/pages/deletion";
 import DeletionManagePage from "@/pages/deletion-manage";
+import MonitoringPage from "@/pages/monitoring";
 import Checkout from "@/pages/checkout";
 import Subscribe from "@/pages/subscribe";
 import PaymentSuccess from "@/pages/payment-success";
@@ -49,9 +50,12 @@ function Router() {
         <Route path="/auth" component={AuthPage} />
         <Route path="/search" component={Search} />
         <Route path="/results" component={Results} />
+        <Route path="/results/job/:jobId" component={Results} />
+        <Route path="/results/:searchId" component={Results} />
         <Route path="/pricing" component={Pricing} />
         <ProtectedRoute path="/deletion" component={Deletion} />
         <ProtectedRoute path="/deletion-manage" component={DeletionManagePage} />
+        <ProtectedRoute path="/monitoring" component={MonitoringPage} />
         <ProtectedRoute path="/checkout" component={Checkout} />
         <ProtectedRoute path="/subscribe" component={Subscribe} />
         <ProtectedRoute path="/payment-success" component={PaymentSuccess} />
@@ -0,0 +1,429 @@
+import { useState } from "react";
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  DeletionPolicy,
+  DeletionPolicyConditions,
+  DeletionPolicyPreview,
+  DeletionQuota,
+  Platform,
+  platformEnum,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Switch } from "@/components/ui/switch";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { useToast } from "@/hooks/use-toast";
+import { Eye, Loader2, Trash2 } from "lucide-react";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+
+const ANY = "any";
+
+const OUTCOME_LABELS: Record<DeletionPolicyPreview["matches"][number]["outcome"], string> = {
+  queue: "Will be queued",
+  already_requested: "Already requested",
+  over_quota: "Over monthly limit",
+};
+
+const deletionPolicyFormSchema = z.object({
+  name: z.string().min(1, "Name is required"),
+  platform: z.string(),
+  contentType: z.string(),
+  olderThanDays: z.string().optional(),
+  minPiiSeverity: z.string(),
+  sentiment: z.string(),
+  maxEngagement: z.string().optional(),
+});
+
+type DeletionPolicyFormValues = z.infer<typeof deletionPolicyFormSchema>;
+
+// Turn the form fields into policy conditions, leaving out the ones set to "any"
+function toConditions(values: DeletionPolicyFormValues): DeletionPolicyConditions {
+  const olderThanDays = parseInt(values.olderThanDays || "", 10);
+  const maxEngagement = parseInt(values.maxEngagement || "", 10);
+  return {
+    platforms: values.platform !== ANY ? [values.platform as Exclude<Platform, "all">] : undefined,
+    contentTypes: values.contentType !== ANY ? [values.contentType as "post" | "comment" | "like" | "share"] : undefined,
+    olderThanDays: olderThanDays > 0 ? olderThanDays : undefined,
+    minPiiSeverity: values.minPiiSeverity !== ANY ? values.minPiiSeverity as "low" | "medium" | "high" : undefined,
+    sentiments: values.sentiment !== ANY ? [values.sentiment as "positive" | "neutral" | "negative"] : undefined,
+    maxEngagement: maxEngagement >= 0 ? maxEngagement : undefined,
+  };
+}
+
+// One line summary of a policy's conditions, e.g. "Reddit comments older than 90 days"
+function describeConditions(conditions: DeletionPolicyConditions): string {
+  const parts: string[] = [];
+  const platforms = conditions.platforms?.map(platform => PLATFORM_CONFIG[platform]?.name ?? platform).join(" or ");
+  const types = conditions.contentTypes?.map(type => `${type}s`).join(" or ");
+  parts.push([platforms, types ?? "items"].filter(Boolean).join(" "));
+  if (conditions.sentiments?.length) parts.push(`with ${conditions.sentiments.join(" or ")} sentiment`);
+  if (conditions.minPiiSeverity) parts.push(`with ${conditions.minPiiSeverity}-severity personal information or worse`);
+  if (conditions.maxEngagement !== undefined) parts.push(`with at most ${conditions.maxEngagement} engagement`);
+  if (conditions.olderThanDays !== undefined) parts.push(`older than ${conditions.olderThanDays} days`);
+  return parts.join(" ");
+}
+
+function QuotaSummary({ quota }: { quota: DeletionQuota }) {
+  if (quota.monthlyLimit === 0) {
+    return (
+      <p className="text-sm text-muted-foreground">
+        Subscribe to a cleanup plan for policies to delete items; until then you can preview what they match.
+      </p>
+    );
+  }
+  return (
+    <p className="text-sm text-muted-foreground">
+      {quota.planName}: {quota.used} item{quota.used === 1 ? "" : "s"} queued this month
+      {quota.monthlyLimit !== null && ` of ${quota.monthlyLimit}`}. Resets {new Date(quota.resetsAt).toLocaleDateString()}.
+    </p>
+  );
+}
+
+function PreviewResults({ preview }: { preview: DeletionPolicyPreview }) {
+  const queued = preview.matches.filter(match => match.outcome === "queue").length;
+
+  return (
+    <div className="space-y-2">
+      <p className="text-sm">
+        {preview.matches.length} matching item{preview.matches.length === 1 ? "" : "s"} in your latest search; {queued} would
+        be queued for deletion.
+      </p>
+      {preview.matches.length > 0 && (
+        <ScrollArea className="h-64 rounded-md border">
+          <ul className="divide-y text-sm">
+            {preview.matches.map(match => (
+              <li key={match.item.url} className="p-3 space-y-1">
+                <div className="flex flex-wrap items-center gap-2 text-xs">
+                  <Badge variant="outline">{match.platform}</Badge>
+                  <Badge variant="outline">{match.item.type}</Badge>
+                  <span className="text-muted-foreground">{new Date(match.item.timestamp).toLocaleDateString()}</span>
+                  <Badge variant={match.outcome === "queue" ? "default" : "secondary"}>{OUTCOME_LABELS[match.outcome]}</Badge>
+                </div>
+                <p className="line-clamp-2 text-gray-700">
+                  {match.item.content || <a href={match.item.url} target="_blank" rel="noopener noreferrer" className="underline">{match.item.url}</a>}
+                </p>
+              </li>
+            ))}
+          </ul>
+        </ScrollArea>
+      )}
+    </div>
+  );
+}
+
+/**
+ * Standing rules that delete matching items from every monitoring scan, with a
+ * dry-run preview against the latest search
+ */
+export function DeletionPolicies() {
+  const { toast } = useToast();
+  const [preview, setPreview] = useState<DeletionPolicyPreview | null>(null);
+
+  const { data: policies, isLoading } = useQuery({
+    queryKey: ["/api/deletion-policies"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/deletion-policies");
+      return res.json() as Promise<DeletionPolicy[]>;
+    },
+  });
+
+  const { data: quota } = useQuery({
+    queryKey: ["/api/deletion-policies/quota"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/deletion-policies/quota");
+      return res.json() as Promise<DeletionQuota>;
+    },
+  });
+
+  const form = useForm<DeletionPolicyFormValues>({
+    resolver: zodResolver(deletionPolicyFormSchema),
+    defaultValues: {
+      name: "",
+      platform: ANY,
+      contentType: ANY,
+      olderThanDays: "",
+      minPiiSeverity: ANY,
+      sentiment: ANY,
+      maxEngagement: "",
+    }
+  });
+
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const previewMutation = useMutation({
+    mutationFn: async (conditions?: DeletionPolicyConditions) => {
+      const res = await apiRequest("POST", "/api/deletion-policies/preview", { conditions });
+      return res.json() as Promise<DeletionPolicyPreview>;
+    },
+    onSuccess: setPreview,
+    onError: onError("Could not preview"),
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: DeletionPolicyFormValues) => {
+      const res = await apiRequest("POST", "/api/deletion-policies", {
+        name: values.name,
+        conditions: toConditions(values),
+      });
+      return res.json() as Promise<DeletionPolicy>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deletion-policies"] });
+      toast({ title: "Policy saved", description: "It will run against every new monitoring scan." });
+      form.reset();
+      setPreview(null);
+    },
+    onError: onError("Could not save policy"),
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number; active: boolean }) => {
+      const res = await apiRequest("PATCH", `/api/deletion-policies/${id}`, { active });
+      return res.json() as Promise<DeletionPolicy>;
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/deletion-policies"] }),
+    onError: onError("Could not update policy"),
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/deletion-policies/${id}`);
+    },
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: ["/api/deletion-policies"] }),
+    onError: onError("Could not delete policy"),
+  });
+
+  const platforms = platformEnum.options.filter(platform => platform !== "all");
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle>Auto-deletion Policies</CardTitle>
+          <CardDescription>
+            Each time a watched identity is scanned, items matching an active policy are queued for deletion.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {quota && <QuotaSummary quota={quota} />}
+
+          {isLoading ? (
+            <Loader2 className="h-6 w-6 animate-spin text-primary" />
+          ) : !policies || policies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No policies yet.</p>
+          ) : (
+            <ul className="space-y-2">
+              {policies.map(policy => (
+                <li key={policy.id} className="flex items-center justify-between gap-4 rounded-md border p-3">
+                  <div className="min-w-0">
+                    <div className="font-medium">{policy.name}</div>
+                    <div className="text-sm text-muted-foreground">Delete {describeConditions(policy.conditions)}</div>
+                    {policy.lastAppliedAt && (
+                      <div className="text-xs text-muted-foreground">
+                        Last queued items {new Date(policy.lastAppliedAt).toLocaleString()}
+                      </div>
+                    )}
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <Switch
+                      checked={policy.active}
+                      onCheckedChange={active => toggleMutation.mutate({ id: policy.id, active })}
+                      aria-label="Active"
+                    />
+                    <Button variant="ghost" size="icon" onClick={() => deleteMutation.mutate(policy.id)} aria-label="Delete policy">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+
+          {policies && policies.some(policy => policy.active) && (
+            <Button variant="outline" size="sm" className="gap-2" onClick={() => previewMutation.mutate(undefined)} disabled={previewMutation.isPending}>
+              <Eye className="h-4 w-4" />
+              Preview active policies
+            </Button>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>New Policy</CardTitle>
+          <CardDescription>Leave a condition on "Any" to ignore it. Preview shows what it would delete from your latest search.</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Old Reddit comments" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <FormField
+                  control={form.control}
+                  name="platform"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Platform</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any platform</SelectItem>
+                          {platforms.map(platform => (
+                            <SelectItem key={platform} value={platform}>{PLATFORM_CONFIG[platform]?.name ?? platform}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="contentType"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Content type</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any type</SelectItem>
+                          <SelectItem value="post">Posts</SelectItem>
+                          <SelectItem value="comment">Comments</SelectItem>
+                          <SelectItem value="like">Likes</SelectItem>
+                          <SelectItem value="share">Shares</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="sentiment"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Sentiment</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any sentiment</SelectItem>
+                          <SelectItem value="positive">Positive</SelectItem>
+                          <SelectItem value="neutral">Neutral</SelectItem>
+                          <SelectItem value="negative">Negative</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="minPiiSeverity"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Personal information</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={ANY}>Any item</SelectItem>
+                          <SelectItem value="low">Any personal information</SelectItem>
+                          <SelectItem value="medium">Medium severity or worse</SelectItem>
+                          <SelectItem value="high">High severity only</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="olderThanDays"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Older than (days)</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={1} placeholder="90" {...field} />
+                      </FormControl>
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="maxEngagement"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Engagement at most</FormLabel>
+                      <FormControl>
+                        <Input type="number" min={0} placeholder="0" {...field} />
+                      </FormControl>
+                      <FormDescription>Likes, comments and shares combined</FormDescription>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <div className="flex gap-2">
+                <Button
+                  type="button"
+                  variant="outline"
+                  className="gap-2"
+                  onClick={() => previewMutation.mutate(toConditions(form.getValues()))}
+                  disabled={previewMutation.isPending}
+                >
+                  {previewMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <Eye className="h-4 w-4" />}
+                  Preview
+                </Button>
+                <Button type="submit" disabled={createMutation.isPending}>
+                  {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+                  Save policy
+                </Button>
+              </div>
+            </form>
+          </Form>
+
+          {preview && <PreviewResults preview={preview} />}
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
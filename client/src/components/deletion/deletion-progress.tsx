@@ -0,0 +1,265 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import {
+  DeletionItem,
+  DeletionItemResult,
+  DeletionPlatformProgress,
+  DeletionRequest,
+  DeletionRequestDetails,
+  DeletionStep,
+  DeletionWorkflow,
+} from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Separator } from "@/components/ui/separator";
+import { CheckCircle2, Circle, Clock, ExternalLink, Loader2, XCircle } from "lucide-react";
+
+const STEPS: { step: DeletionStep; label: string }[] = [
+  { step: "verify_ownership", label: "Verify ownership" },
+  { step: "execute", label: "Delete" },
+  { step: "await_confirmation", label: "Confirm" },
+  { step: "verify_rescan", label: "Re-scan" },
+];
+
+// Events shown before the rest are hidden behind "Show all"
+const RECENT_EVENTS = 5;
+
+/**
+ * Share of the request's steps that are done, from 0 to 100
+ */
+function deletionProgressValue(workflow: DeletionWorkflow): number {
+  if (workflow.platforms.length === 0) return 0;
+
+  const done = workflow.platforms.reduce((sum, progress) => {
+    if (progress.status === "completed" || progress.status === "failed" || progress.status === "cancelled") {
+      return sum + STEPS.length;
+    }
+    return sum + STEPS.findIndex(({ step }) => step === progress.step);
+  }, 0);
+  return Math.round((done / (workflow.platforms.length * STEPS.length)) * 100);
+}
+
+function StepIcon({ progress, index }: { progress: DeletionPlatformProgress; index: number }) {
+  const current = STEPS.findIndex(({ step }) => step === progress.step);
+  if (index < current || (index === current && progress.status === "completed")) {
+    return <CheckCircle2 className="h-4 w-4 text-green-600" />;
+  }
+  if (index > current) return <Circle className="h-4 w-4 text-muted-foreground" />;
+  if (progress.status === "failed" || progress.status === "cancelled") return <XCircle className="h-4 w-4 text-red-600" />;
+  if (progress.status === "waiting") return <Clock className="h-4 w-4 text-amber-500" />;
+  return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+}
+
+// Counts of items deleted through the API, with the ones that couldn't be
+function ItemResults({ results }: { results: DeletionItemResult[] }) {
+  const deleted = results.filter(result => result.status === "deleted");
+  const pending = results.filter(result => result.status === "pending");
+  const failed = results.filter(result => result.status === "failed");
+
+  return (
+    <div className="text-sm space-y-1">
+      <p>
+        {deleted.length} item{deleted.length === 1 ? "" : "s"} deleted
+        {deleted.some(result => result.edited) && ", text overwritten first"}
+        {pending.length > 0 && `, ${pending.length} waiting for a re-scan`}
+        {failed.length > 0 && `, ${failed.length} could not be deleted`}
+      </p>
+      {failed.length > 0 && (
+        <ul className="text-xs space-y-0.5">
+          {failed.slice(0, RECENT_EVENTS).map(result => (
+            <li key={result.url} className="truncate">
+              <a href={result.url} target="_blank" rel="noopener noreferrer" className="underline">{result.url}</a>
+              {result.error && <span className="text-muted-foreground"> ({result.error})</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+// Each item picked for deletion with how it stands
+function SelectedItems({ items, results }: { items: DeletionItem[]; results: DeletionItemResult[] }) {
+  const [showAll, setShowAll] = useState(false);
+  const byUrl = new Map(results.map(result => [result.url, result]));
+  const deleted = items.filter(item => byUrl.get(item.url)?.status === "deleted").length;
+  const shown = showAll ? items : items.slice(0, RECENT_EVENTS);
+
+  return (
+    <div className="text-sm space-y-1">
+      <p>{deleted} of {items.length} selected item{items.length === 1 ? "" : "s"} deleted</p>
+      <ul className="text-xs space-y-0.5">
+        {shown.map(item => {
+          const result = byUrl.get(item.url);
+          return (
+            <li key={item.url} className="flex items-center gap-1">
+              {result?.status === "deleted"
+                ? <CheckCircle2 className="h-3 w-3 shrink-0 text-green-600" />
+                : result?.status === "failed"
+                  ? <XCircle className="h-3 w-3 shrink-0 text-red-600" />
+                  : result?.status === "pending"
+                    ? <Clock className="h-3 w-3 shrink-0 text-amber-500" />
+                    : <Circle className="h-3 w-3 shrink-0 text-muted-foreground" />}
+              <a href={item.url} target="_blank" rel="noopener noreferrer" className="truncate underline">{item.url}</a>
+              {result?.error && <span className="text-muted-foreground whitespace-nowrap"> ({result.error})</span>}
+            </li>
+          );
+        })}
+      </ul>
+      {items.length > RECENT_EVENTS && (
+        <Button variant="link" size="sm" className="px-0 h-auto" onClick={() => setShowAll(!showAll)}>
+          {showAll ? "Show fewer" : `Show all ${items.length} items`}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+interface PlatformProgressProps {
+  requestId: number;
+  progress: DeletionPlatformProgress;
+  verificationCode: string;
+}
+
+function PlatformProgress({ requestId, progress, verificationCode }: PlatformProgressProps) {
+  const { toast } = useToast();
+
+  const confirmMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/deletion-requests/${requestId}/confirm`, { platform: progress.platform });
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deletion-requests"] });
+      toast({ title: "Deletion confirmed", description: "We'll re-scan the platform to check your content is gone." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not confirm", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const waitingForCode = progress.step === "verify_ownership" && progress.status === "waiting";
+  const waitingForConfirmation = progress.step === "await_confirmation" && progress.status === "waiting";
+
+  return (
+    <div className="rounded-md border p-3 space-y-3">
+      <div className="flex items-center justify-between">
+        <div className="font-medium capitalize">
+          {progress.platform} <span className="text-muted-foreground font-normal">@{progress.username}</span>
+        </div>
+        <Badge variant="outline" className="capitalize">{progress.status.replace("_", " ")}</Badge>
+      </div>
+
+      <ol className="flex flex-wrap gap-4 text-xs">
+        {STEPS.map(({ step, label }, index) => (
+          <li key={step} className="flex items-center gap-1">
+            <StepIcon progress={progress} index={index} />
+            {label}
+          </li>
+        ))}
+      </ol>
+
+      {waitingForCode && (
+        <p className="text-sm">
+          Add <span className="font-mono font-semibold">{verificationCode}</span> to your {progress.platform} bio.
+          We check for it automatically and you can remove it once ownership is verified.
+        </p>
+      )}
+
+      {waitingForConfirmation && progress.instructions && (
+        <div className="space-y-2">
+          <ol className="list-decimal pl-5 text-sm space-y-1">
+            {progress.instructions.map((instruction, i) => (
+              <li key={i}>{instruction}</li>
+            ))}
+          </ol>
+          <div className="flex flex-wrap gap-2">
+            {progress.settingsUrl && (
+              <Button variant="outline" size="sm" asChild>
+                <a href={progress.settingsUrl} target="_blank" rel="noopener noreferrer" className="gap-1">
+                  Open settings <ExternalLink className="h-3 w-3" />
+                </a>
+              </Button>
+            )}
+            <Button size="sm" onClick={() => confirmMutation.mutate()} disabled={confirmMutation.isPending}>
+              {confirmMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+              I've deleted it
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {progress.selectedItems && progress.selectedItems.length > 0 ? (
+        <SelectedItems items={progress.selectedItems} results={progress.itemResults ?? []} />
+      ) : (
+        progress.itemResults && progress.itemResults.length > 0 && <ItemResults results={progress.itemResults} />
+      )}
+
+      {progress.remainingItems !== undefined && progress.status !== "completed" && (
+        <p className="text-xs text-muted-foreground">
+          {progress.remainingItems} of {progress.baselineItems ?? "the"} items still visible at the last re-scan
+        </p>
+      )}
+      {progress.lastError && <p className="text-xs text-red-600">{progress.lastError}</p>}
+      {progress.nextAttemptAt && progress.status !== "waiting" && (
+        <p className="text-xs text-muted-foreground">Next check {new Date(progress.nextAttemptAt).toLocaleString()}</p>
+      )}
+    </div>
+  );
+}
+
+interface DeletionProgressProps {
+  request: DeletionRequest;
+}
+
+/**
+ * Per-platform steps of a deletion request and its event history
+ */
+export function DeletionProgress({ request }: DeletionProgressProps) {
+  const [showAllEvents, setShowAllEvents] = useState(false);
+  const workflow = (request.details as DeletionRequestDetails | null)?.workflow;
+  if (!workflow) return null;
+
+  const events = workflow.events.slice().reverse();
+  const shownEvents = showAllEvents ? events : events.slice(0, RECENT_EVENTS);
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Progress value={deletionProgressValue(workflow)} className="h-2" />
+        <div className="space-y-2">
+          {workflow.platforms.map(progress => (
+            <PlatformProgress
+              key={progress.platform}
+              requestId={request.id}
+              progress={progress}
+              verificationCode={workflow.verificationCode}
+            />
+          ))}
+        </div>
+      </div>
+
+      <Separator />
+
+      <div>
+        <h4 className="text-sm font-medium mb-2">History</h4>
+        <ul className="space-y-1 text-xs">
+          {shownEvents.map((event, i) => (
+            <li key={`${event.at}-${i}`} className="flex gap-2">
+              <span className="text-muted-foreground whitespace-nowrap">{new Date(event.at).toLocaleString()}</span>
+              <span>{event.message}</span>
+            </li>
+          ))}
+        </ul>
+        {events.length > RECENT_EVENTS && (
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowAllEvents(!showAllEvents)}>
+            {showAllEvents ? "Show recent" : `Show all ${events.length} events`}
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+}
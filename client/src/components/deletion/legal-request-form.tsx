@@ -0,0 +1,216 @@
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { DeletionRequest, LegalRequestType, legalRequestResponseDays, legalRequestTypeEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { FileText, Loader2 } from "lucide-react";
+
+interface LegalRecipient {
+  id: string;
+  name: string;
+  kind: "platform" | "data_broker";
+  entities: { gdpr: string; ccpa: string };
+  contactUrl: string;
+}
+
+export const LEGAL_REQUEST_LABELS: Record<LegalRequestType, string> = {
+  gdpr_access: "GDPR Article 15: access my data",
+  gdpr_erasure: "GDPR Article 17: erase my data",
+  ccpa_delete: "CCPA: delete my data",
+  ccpa_opt_out: "CCPA: opt out of sale or sharing",
+};
+
+const legalRequestFormSchema = z.object({
+  recipientId: z.string().min(1, "Choose who to send the letter to"),
+  type: legalRequestTypeEnum,
+  fullName: z.string().max(200).optional(),
+  postalAddress: z.string().max(500).optional(),
+});
+
+type LegalRequestFormValues = z.infer<typeof legalRequestFormSchema>;
+
+interface LegalRequestFormProps {
+  onCreated?: (request: DeletionRequest) => void;
+}
+
+/**
+ * Generate a GDPR or CCPA request letter for a platform or data broker with no
+ * deletion API. The letter lists the identifiers found in the latest search.
+ */
+export function LegalRequestForm({ onCreated }: LegalRequestFormProps) {
+  const { toast } = useToast();
+
+  const { data: recipients, isLoading } = useQuery({
+    queryKey: ["/api/legal-requests/recipients"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/legal-requests/recipients");
+      return res.json() as Promise<LegalRecipient[]>;
+    },
+  });
+
+  const form = useForm<LegalRequestFormValues>({
+    resolver: zodResolver(legalRequestFormSchema),
+    defaultValues: {
+      recipientId: "",
+      type: "gdpr_erasure",
+      fullName: "",
+      postalAddress: "",
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: LegalRequestFormValues) => {
+      const res = await apiRequest("POST", "/api/legal-requests", {
+        recipientId: values.recipientId,
+        type: values.type,
+        fullName: values.fullName || undefined,
+        postalAddress: values.postalAddress || undefined,
+      });
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deletion-requests"] });
+      toast({ title: "Letter ready", description: "Send it to the recipient, then mark it as sent to start the deadline." });
+      form.reset();
+      onCreated?.(request);
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not generate letter", description: error.message, variant: "destructive" });
+    },
+  });
+
+  const type = form.watch("type");
+  const recipient = recipients?.find(r => r.id === form.watch("recipientId"));
+  const law = type.startsWith("gdpr") ? "gdpr" : "ccpa";
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Legal Request Letter</CardTitle>
+        <CardDescription>
+          Where there is no way to delete your data through an API, a formal request under the GDPR or the CCPA
+          obliges the company to respond within {legalRequestResponseDays.gdpr_erasure} or {legalRequestResponseDays.ccpa_delete} days.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <Loader2 className="h-6 w-6 animate-spin text-primary" />
+        ) : (
+          <Form {...form}>
+            <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4">
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+                <FormField
+                  control={form.control}
+                  name="recipientId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Recipient</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue placeholder="Choose a company" /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectGroup>
+                            <SelectLabel>Platforms</SelectLabel>
+                            {recipients?.filter(r => r.kind === "platform").map(r => (
+                              <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                          <SelectGroup>
+                            <SelectLabel>Data brokers</SelectLabel>
+                            {recipients?.filter(r => r.kind === "data_broker").map(r => (
+                              <SelectItem key={r.id} value={r.id}>{r.name}</SelectItem>
+                            ))}
+                          </SelectGroup>
+                        </SelectContent>
+                      </Select>
+                      {recipient && <FormDescription>Addressed to {recipient.entities[law]}</FormDescription>}
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Request</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger><SelectValue /></SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {legalRequestTypeEnum.options.map(option => (
+                            <SelectItem key={option} value={option}>{LEGAL_REQUEST_LABELS[option]}</SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        The GDPR covers people in the EU and UK; the CCPA covers California residents.
+                      </FormDescription>
+                    </FormItem>
+                  )}
+                />
+              </div>
+
+              <FormField
+                control={form.control}
+                name="fullName"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Full name (optional)</FormLabel>
+                    <FormControl>
+                      <Input placeholder="Used to sign the letter and find your records" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="postalAddress"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Postal address (optional)</FormLabel>
+                    <FormControl>
+                      <Textarea rows={2} {...field} />
+                    </FormControl>
+                    <FormDescription>Data brokers often index people by address, so include it for them.</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <p className="text-sm text-muted-foreground">
+                Your account email and the usernames found in your latest search are added to the letter.
+              </p>
+
+              <Button type="submit" className="gap-2" disabled={createMutation.isPending}>
+                {createMutation.isPending ? <Loader2 className="h-4 w-4 animate-spin" /> : <FileText className="h-4 w-4" />}
+                Generate letter
+              </Button>
+            </form>
+          </Form>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
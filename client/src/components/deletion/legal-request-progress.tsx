@@ -0,0 +1,177 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { DeletionRequest, DeletionRequestDetails, LegalRequest } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Separator } from "@/components/ui/separator";
+import { AlertTriangle, Copy, ExternalLink, Loader2 } from "lucide-react";
+import { LEGAL_REQUEST_LABELS } from "./legal-request-form";
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Days until the deadline, negative once it has passed
+function daysLeft(legalRequest: LegalRequest): number | null {
+  if (!legalRequest.deadline) return null;
+  return Math.ceil((new Date(legalRequest.deadline).getTime() - Date.now()) / DAY);
+}
+
+interface LegalRequestProgressProps {
+  request: DeletionRequest;
+}
+
+/**
+ * A generated GDPR or CCPA letter with its statutory deadline, any reminders
+ * raised since it passed, and the recipient's response
+ */
+export function LegalRequestProgress({ request }: LegalRequestProgressProps) {
+  const { toast } = useToast();
+  const [showLetter, setShowLetter] = useState(request.status === "pending");
+  const [notes, setNotes] = useState("");
+  const legalRequest = (request.details as DeletionRequestDetails | null)?.legalRequest;
+
+  const onSuccess = (title: string) => () => {
+    queryClient.invalidateQueries({ queryKey: ["/api/deletion-requests"] });
+    toast({ title });
+  };
+  const onError = (title: string) => (error: Error) => {
+    toast({ title, description: error.message, variant: "destructive" });
+  };
+
+  const sentMutation = useMutation({
+    mutationFn: async () => {
+      const res = await apiRequest("POST", `/api/legal-requests/${request.id}/sent`, {});
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: onSuccess("Letter marked as sent"),
+    onError: onError("Could not mark as sent"),
+  });
+
+  const responseMutation = useMutation({
+    mutationFn: async (outcome: "complied" | "refused") => {
+      const res = await apiRequest("POST", `/api/legal-requests/${request.id}/response`, {
+        outcome,
+        notes: notes || undefined,
+      });
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: onSuccess("Response recorded"),
+    onError: onError("Could not record response"),
+  });
+
+  if (!legalRequest) return null;
+
+  const remaining = daysLeft(legalRequest);
+  const overdue = remaining !== null && remaining < 0 && !legalRequest.response;
+
+  const copyLetter = async () => {
+    try {
+      await navigator.clipboard.writeText(`${legalRequest.subject}\n\n${legalRequest.body}`);
+      toast({ title: "Letter copied" });
+    } catch {
+      toast({ title: "Could not copy the letter", variant: "destructive" });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div>
+          <div className="font-medium">{legalRequest.recipientName}</div>
+          <div className="text-sm text-muted-foreground">
+            {LEGAL_REQUEST_LABELS[legalRequest.type]}, addressed to {legalRequest.addressee}
+          </div>
+        </div>
+        {overdue && (
+          <Badge variant="destructive" className="gap-1">
+            <AlertTriangle className="h-3 w-3" /> Overdue
+          </Badge>
+        )}
+      </div>
+
+      {request.status === "pending" && (
+        <div className="space-y-2 text-sm">
+          <p>
+            Send this letter through the privacy contact listed by {legalRequest.recipientName}, then mark it as sent
+            to start the response deadline.
+          </p>
+          <div className="flex flex-wrap gap-2">
+            <Button variant="outline" size="sm" asChild>
+              <a href={legalRequest.contactUrl} target="_blank" rel="noopener noreferrer" className="gap-1">
+                Find the privacy contact <ExternalLink className="h-3 w-3" />
+              </a>
+            </Button>
+            <Button size="sm" onClick={() => sentMutation.mutate()} disabled={sentMutation.isPending}>
+              {sentMutation.isPending && <Loader2 className="mr-2 h-3 w-3 animate-spin" />}
+              I've sent it
+            </Button>
+          </div>
+        </div>
+      )}
+
+      {legalRequest.sentAt && (
+        <p className="text-sm">
+          Sent {new Date(legalRequest.sentAt).toLocaleDateString()}.{" "}
+          {legalRequest.response
+            ? `${legalRequest.recipientName} ${legalRequest.response.outcome === "complied" ? "complied" : "refused"} on ${new Date(legalRequest.response.at).toLocaleDateString()}.`
+            : remaining !== null && remaining >= 0
+              ? `Response due by ${new Date(legalRequest.deadline!).toLocaleDateString()} (${remaining} day${remaining === 1 ? "" : "s"} left).`
+              : `The deadline passed on ${new Date(legalRequest.deadline!).toLocaleDateString()}.`}
+        </p>
+      )}
+      {legalRequest.response?.notes && (
+        <p className="text-sm text-muted-foreground">{legalRequest.response.notes}</p>
+      )}
+
+      {legalRequest.reminders.length > 0 && !legalRequest.response && (
+        <ul className="space-y-1 text-sm">
+          {legalRequest.reminders.slice().reverse().map(reminder => (
+            <li key={reminder.at} className="flex gap-2">
+              <span className="text-muted-foreground whitespace-nowrap">{new Date(reminder.at).toLocaleDateString()}</span>
+              <span>{reminder.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {request.status === "in_progress" && (
+        <div className="space-y-2">
+          <Input
+            placeholder="Notes on the response (optional)"
+            value={notes}
+            onChange={event => setNotes(event.target.value)}
+          />
+          <div className="flex flex-wrap gap-2">
+            <Button size="sm" onClick={() => responseMutation.mutate("complied")} disabled={responseMutation.isPending}>
+              They complied
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => responseMutation.mutate("refused")} disabled={responseMutation.isPending}>
+              They refused
+            </Button>
+          </div>
+        </div>
+      )}
+
+      <Separator />
+
+      <div className="space-y-2">
+        <div className="flex gap-2">
+          <Button variant="link" size="sm" className="px-0" onClick={() => setShowLetter(!showLetter)}>
+            {showLetter ? "Hide letter" : "Show letter"}
+          </Button>
+          <Button variant="ghost" size="sm" className="gap-1" onClick={copyLetter}>
+            <Copy className="h-3 w-3" /> Copy
+          </Button>
+        </div>
+        {showLetter && (
+          <div className="rounded-md border bg-muted/40 p-3 text-sm">
+            <p className="font-medium mb-2">{legalRequest.subject}</p>
+            <pre className="whitespace-pre-wrap font-sans">{legalRequest.body}</pre>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
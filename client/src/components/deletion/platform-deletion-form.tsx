@@ -24,6 +24,7 @@ import { useToast } from "@/hooks/use-toast";
 import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import { AlertCircle, Loader2 } from "lucide-react";
 import { motion } from "framer-motion";
+import { RedditConnection } from "./reddit-connection";
 
 // Form schema for platform deletion
 const platformDeletionSchema = z.object({
@@ -43,7 +44,8 @@ export function PlatformDeletionForm() {
   const [submissionResult, setSubmissionResult] = useState<{
     success: boolean;
     message: string;
-    requestId?: string;
+    verificationCode?: string;
+    deletionId?: number;
   } | null>(null);
   
   const { toast } = useToast();
@@ -99,7 +101,8 @@ export function PlatformDeletionForm() {
         setSubmissionResult({
           success: true,
           message: data.message,
-          requestId: data.requestId
+          verificationCode: data.verificationCode,
+          deletionId: data.deletionId
         });
         
         // Invalidate deletion requests cache
@@ -206,6 +209,7 @@ export function PlatformDeletionForm() {
                           <SelectItem value="instagram" disabled={!isPlatformSupported("instagram")}>
                             Instagram
                           </SelectItem>
+                          <SelectItem value="reddit">Reddit</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormDescription>
@@ -216,6 +220,8 @@ export function PlatformDeletionForm() {
                   )}
                 />
                 
+                {watchPlatform === "reddit" && <RedditConnection />}
+                
                 <FormField
                   control={form.control}
                   name="username"
@@ -321,6 +327,52 @@ export function PlatformDeletionForm() {
                       />
                     </>
                   )}
+                  
+                  {!watchDeleteAll && watchPlatform === "reddit" && (
+                    <>
+                      <FormField
+                        control={form.control}
+                        name="options.deleteTweets"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel>Delete posts</FormLabel>
+                              <FormDescription>
+                                Overwrite and delete your Reddit submissions
+                              </FormDescription>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                      
+                      <FormField
+                        control={form.control}
+                        name="options.deleteComments"
+                        render={({ field }) => (
+                          <FormItem className="flex flex-row items-start space-x-3 space-y-0 rounded-md border p-4">
+                            <FormControl>
+                              <Checkbox
+                                checked={field.value}
+                                onCheckedChange={field.onChange}
+                              />
+                            </FormControl>
+                            <div className="space-y-1 leading-none">
+                              <FormLabel>Delete comments</FormLabel>
+                              <FormDescription>
+                                Overwrite and delete your Reddit comments
+                              </FormDescription>
+                            </div>
+                          </FormItem>
+                        )}
+                      />
+                    </>
+                  )}
                 </div>
                 
                 <Button 
@@ -352,9 +404,14 @@ export function PlatformDeletionForm() {
                   <AlertTitle>{submissionResult.success ? "Success" : "Error"}</AlertTitle>
                   <AlertDescription>
                     {submissionResult.message}
-                    {submissionResult.requestId && (
-                      <p className="mt-2 text-sm font-mono">
-                        Request ID: {submissionResult.requestId}
+                    {submissionResult.verificationCode && (
+                      <p className="mt-2 text-sm">
+                        Verification code: <span className="font-mono font-semibold">{submissionResult.verificationCode}</span>
+                      </p>
+                    )}
+                    {submissionResult.deletionId && (
+                      <p className="mt-1 text-sm">
+                        Follow request #{submissionResult.deletionId} under Existing Requests.
                       </p>
                     )}
                   </AlertDescription>
@@ -0,0 +1,87 @@
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useToast } from "@/hooks/use-toast";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
+import { Button } from "@/components/ui/button";
+import { Link2, Loader2 } from "lucide-react";
+
+interface RedditStatus {
+  configured: boolean;
+  connected: boolean;
+  username: string | null;
+  scopes: string[];
+}
+
+/**
+ * Connect or disconnect the user's Reddit account. Once connected, deletion
+ * requests for that account overwrite and delete posts and comments through
+ * Reddit's API instead of handing over instructions.
+ */
+export function RedditConnection() {
+  const { toast } = useToast();
+
+  const { data: status, isLoading } = useQuery({
+    queryKey: ["/api/reddit/status"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/reddit/status");
+      return res.json() as Promise<RedditStatus>;
+    },
+  });
+
+  const disconnectMutation = useMutation({
+    mutationFn: async () => {
+      await apiRequest("DELETE", "/api/reddit/connection");
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/reddit/status"] });
+      toast({ title: "Reddit disconnected", description: "We no longer have access to your Reddit account." });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not disconnect Reddit", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (isLoading || !status) {
+    return <Loader2 className="h-4 w-4 animate-spin text-primary" />;
+  }
+
+  if (!status.configured) {
+    return (
+      <Alert>
+        <AlertTitle>Reddit</AlertTitle>
+        <AlertDescription>
+          Reddit API deletion isn't set up on this server, so you'll get step-by-step instructions instead.
+        </AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <Alert>
+      <Link2 className="h-4 w-4" />
+      <AlertTitle>{status.connected ? `Connected as u/${status.username}` : "Connect your Reddit account"}</AlertTitle>
+      <AlertDescription className="space-y-2">
+        <p>
+          {status.connected
+            ? "Posts and comments are overwritten, then deleted, through Reddit's API. Use this username below."
+            : "Connecting lets us overwrite and delete your posts and comments for you. Without it you'll get instructions to delete them yourself."}
+        </p>
+        {status.connected ? (
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => disconnectMutation.mutate()}
+            disabled={disconnectMutation.isPending}
+          >
+            Disconnect
+          </Button>
+        ) : (
+          <Button size="sm" asChild>
+            {/* A full page load, since the server redirects to Reddit */}
+            <a href="/api/reddit/auth">Connect Reddit</a>
+          </Button>
+        )}
+      </AlertDescription>
+    </Alert>
+  );
+}
@@ -0,0 +1,220 @@
+import { z } from "zod";
+import { zodResolver } from "@hookform/resolvers/zod";
+import { useForm } from "react-hook-form";
+import { useMutation } from "@tanstack/react-query";
+import { AlertRule, Platform, platformEnum } from "@shared/schema";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage
+} from "@/components/ui/form";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { Loader2 } from "lucide-react";
+
+// Parse "reddit: johndoe, twitter: jdoe" into platform/username pairs
+function parsePlatformUsernames(value: string): { platform: Platform, username: string }[] {
+  return value
+    .split(",")
+    .map(pair => pair.split(":").map(part => part.trim()))
+    .filter(([platform, username]) =>
+      !!username && platform !== "all" && platformEnum.safeParse(platform.toLowerCase()).success
+    )
+    .map(([platform, username]) => ({ platform: platform.toLowerCase() as Platform, username }));
+}
+
+const watchedIdentityFormSchema = z.object({
+  label: z.string().min(1, "Label is required"),
+  accounts: z.string().refine(
+    value => parsePlatformUsernames(value).length > 0,
+    "Enter at least one account as platform: username"
+  ),
+  cadence: z.enum(["hourly", "daily", "weekly"]),
+  exposureThreshold: z.string().optional(),
+  alertOnHighSeverity: z.boolean(),
+  watchTerms: z.string().optional(),
+});
+
+type WatchedIdentityFormValues = z.infer<typeof watchedIdentityFormSchema>;
+
+export function WatchedIdentityForm() {
+  const { toast } = useToast();
+
+  const form = useForm<WatchedIdentityFormValues>({
+    resolver: zodResolver(watchedIdentityFormSchema),
+    defaultValues: {
+      label: "",
+      accounts: "",
+      cadence: "daily",
+      exposureThreshold: "10",
+      alertOnHighSeverity: true,
+      watchTerms: "",
+    }
+  });
+
+  const createMutation = useMutation({
+    mutationFn: async (values: WatchedIdentityFormValues) => {
+      // Turn the form fields into alert rules
+      const alertRules: AlertRule[] = [];
+      const threshold = parseInt(values.exposureThreshold || "", 10);
+      if (!isNaN(threshold)) {
+        alertRules.push({ type: "exposure_score_increase", threshold });
+      }
+      if (values.alertOnHighSeverity) {
+        alertRules.push({ type: "new_high_severity_concern" });
+      }
+      for (const term of (values.watchTerms || "").split(",").map(t => t.trim()).filter(Boolean)) {
+        alertRules.push({ type: "content_mentions", term, label: `"${term}"` });
+      }
+
+      const res = await apiRequest("POST", "/api/monitoring/identities", {
+        label: values.label,
+        platformUsernames: parsePlatformUsernames(values.accounts),
+        cadence: values.cadence,
+        alertRules,
+      });
+      return res.json();
+    },
+    onSuccess: () => {
+      toast({
+        title: "Monitoring Enabled",
+        description: "The first scan will run shortly and establish a baseline.",
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/identities"] });
+      form.reset();
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Could Not Start Monitoring",
+        description: error.message,
+        variant: "destructive"
+      });
+    }
+  });
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Watch an Identity</CardTitle>
+        <CardDescription>
+          We re-scan these accounts on a schedule and alert you when something changes.
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(values => createMutation.mutate(values))} className="space-y-4">
+            <FormField
+              control={form.control}
+              name="label"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Label</FormLabel>
+                  <FormControl>
+                    <Input placeholder="My personal accounts" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="accounts"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Accounts</FormLabel>
+                  <FormControl>
+                    <Input placeholder="reddit: johndoe, twitter: jdoe" {...field} />
+                  </FormControl>
+                  <FormDescription>Comma-separated platform: username pairs</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="cadence"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Scan frequency</FormLabel>
+                  <Select onValueChange={field.onChange} value={field.value}>
+                    <FormControl>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                    </FormControl>
+                    <SelectContent>
+                      <SelectItem value="hourly">Hourly</SelectItem>
+                      <SelectItem value="daily">Daily</SelectItem>
+                      <SelectItem value="weekly">Weekly</SelectItem>
+                    </SelectContent>
+                  </Select>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="exposureThreshold"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alert when exposure score rises by more than</FormLabel>
+                  <FormControl>
+                    <Input type="number" min={0} placeholder="Leave empty to skip" {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="alertOnHighSeverity"
+              render={({ field }) => (
+                <FormItem className="flex flex-row items-center space-x-3 space-y-0">
+                  <FormControl>
+                    <Checkbox checked={field.value} onCheckedChange={field.onChange} />
+                  </FormControl>
+                  <FormLabel className="font-normal">Alert on new high-severity privacy concerns</FormLabel>
+                </FormItem>
+              )}
+            />
+
+            <FormField
+              control={form.control}
+              name="watchTerms"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Alert on new posts mentioning</FormLabel>
+                  <FormControl>
+                    <Input placeholder="555-123-4567, 42 Main Street" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Comma-separated terms such as your phone number or address
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <Button type="submit" disabled={createMutation.isPending}>
+              {createMutation.isPending && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
+              Start Monitoring
+            </Button>
+          </form>
+        </Form>
+      </CardContent>
+    </Card>
+  );
+}
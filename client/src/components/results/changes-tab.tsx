@@ -0,0 +1,215 @@
+import { useEffect, useState } from "react";
+import { useQuery } from "@tanstack/react-query";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Skeleton } from "@/components/ui/skeleton";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { TabContentProps } from "@/lib/types";
+import { apiRequest } from "@/lib/queryClient";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { ContentItem, FootprintDiff, SearchHistory } from "@shared/schema";
+
+// Format a signed change so growth and shrinkage are easy to tell apart
+function formatChange(change: number) {
+  if (change > 0) return `+${change}`;
+  return `${change}`;
+}
+
+function changeColor(change: number, lowerIsBetter: boolean) {
+  if (change === 0) return "text-gray-500";
+  const improved = lowerIsBetter ? change < 0 : change > 0;
+  return improved ? "text-green-600" : "text-red-600";
+}
+
+function ContentList({ title, items }: { title: string; items: ContentItem[] }) {
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mt-3">
+      <p className="text-sm font-medium text-gray-700 mb-1">{title} ({items.length})</p>
+      <ul className="space-y-1">
+        {items.slice(0, 10).map((item, index) => (
+          <li key={`${item.timestamp}-${index}`} className="text-sm text-gray-600 flex gap-2">
+            <Badge variant="outline" className="capitalize">{item.type}</Badge>
+            <span className="truncate">{item.content || item.url || "Untitled item"}</span>
+          </li>
+        ))}
+      </ul>
+      {items.length > 10 && (
+        <p className="text-xs text-gray-500 mt-1">and {items.length - 10} more</p>
+      )}
+    </div>
+  );
+}
+
+export default function ChangesTab({ data, isLoading }: TabContentProps) {
+  const searchId = data?.searchId;
+  const [fromId, setFromId] = useState<string>();
+
+  // Earlier searches by the same user are the candidates for comparison
+  const { data: history, isLoading: isLoadingHistory } = useQuery({
+    queryKey: ["/api/search-history"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/search-history");
+      return res.json() as Promise<SearchHistory[]>;
+    },
+    enabled: !!searchId,
+  });
+
+  const earlierSearches = (history || [])
+    .filter(search => searchId !== undefined && search.id < searchId)
+    .sort((a, b) => b.id - a.id);
+
+  // Default to the most recent earlier scan of the same username
+  useEffect(() => {
+    if (fromId || earlierSearches.length === 0) return;
+    const sameUsername = earlierSearches.find(search => search.username === data?.username);
+    setFromId(String((sameUsername || earlierSearches[0]).id));
+  }, [earlierSearches, fromId, data?.username]);
+
+  const { data: diff, isLoading: isLoadingDiff, error } = useQuery({
+    queryKey: [`/api/footprints/diff?from=${fromId}&to=${searchId}`],
+    queryFn: async () => {
+      const res = await apiRequest("GET", `/api/footprints/diff?from=${fromId}&to=${searchId}`);
+      return res.json() as Promise<FootprintDiff>;
+    },
+    enabled: !!searchId && !!fromId,
+  });
+
+  if (isLoading || (searchId && isLoadingHistory)) {
+    return (
+      <div className="space-y-4">
+        <Skeleton className="h-10 w-1/2" />
+        <Skeleton className="h-32" />
+        <Skeleton className="h-32" />
+      </div>
+    );
+  }
+
+  if (!searchId) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">
+          Sign in and run a search to save it. Saved searches can be compared to see what changed between scans.
+        </p>
+      </div>
+    );
+  }
+
+  if (earlierSearches.length === 0) {
+    return (
+      <div className="text-center py-12">
+        <p className="text-gray-500">
+          This is your first saved scan. Run the search again later to see what changed.
+        </p>
+      </div>
+    );
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
+        <div>
+          <h3 className="text-lg font-semibold">What changed since an earlier scan</h3>
+          <p className="text-sm text-gray-500">Compare this search with one of your previous searches.</p>
+        </div>
+        <Select value={fromId} onValueChange={setFromId}>
+          <SelectTrigger className="w-full md:w-72">
+            <SelectValue placeholder="Choose an earlier search" />
+          </SelectTrigger>
+          <SelectContent>
+            {earlierSearches.map(search => (
+              <SelectItem key={search.id} value={String(search.id)}>
+                {search.username} · {new Date(search.timestamp).toLocaleString()}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      {isLoadingDiff ? (
+        <Skeleton className="h-48" />
+      ) : error ? (
+        <p className="text-red-600">Failed to compare searches: {(error as Error).message}</p>
+      ) : diff ? (
+        <div className="space-y-4">
+          <Card>
+            <CardContent className="p-4 flex items-center justify-between">
+              <div>
+                <p className="text-sm text-gray-500">Exposure score</p>
+                <p className="text-2xl font-semibold">
+                  {diff.exposureScore.from ?? 0} → {diff.exposureScore.to ?? 0}
+                </p>
+              </div>
+              <span className={`text-xl font-semibold ${changeColor(diff.exposureScore.change, true)}`}>
+                {formatChange(diff.exposureScore.change)}
+              </span>
+            </CardContent>
+          </Card>
+
+          {diff.platforms.map(platform => (
+            <Card key={platform.platformId}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-base flex items-center gap-2">
+                  {PLATFORM_CONFIG[platform.platformId]?.name || platform.platformId}
+                  {platform.presence !== "unchanged" && (
+                    <Badge variant={platform.presence === "added" ? "destructive" : "secondary"}>
+                      {platform.presence === "added" ? "Newly found" : "No longer found"}
+                    </Badge>
+                  )}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className="grid grid-cols-3 gap-4 text-sm">
+                  <div>
+                    <p className="text-gray-500">Followers</p>
+                    <p className={changeColor(platform.followers.change, false)}>
+                      {formatChange(platform.followers.change)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Following</p>
+                    <p className={changeColor(platform.following.change, false)}>
+                      {formatChange(platform.following.change)}
+                    </p>
+                  </div>
+                  <div>
+                    <p className="text-gray-500">Exposure</p>
+                    <p className={changeColor(platform.exposureScore.change, true)}>
+                      {formatChange(platform.exposureScore.change)}
+                    </p>
+                  </div>
+                </div>
+
+                <ContentList title="New content" items={platform.newContent} />
+                <ContentList title="Removed content" items={platform.removedContent} />
+
+                {platform.newPrivacyConcerns.length > 0 && (
+                  <div className="mt-3">
+                    <p className="text-sm font-medium text-gray-700 mb-1">New privacy concerns</p>
+                    <ul className="space-y-1">
+                      {platform.newPrivacyConcerns.map(concern => (
+                        <li key={concern.type} className="text-sm text-gray-600">
+                          <Badge variant={concern.severity === "high" ? "destructive" : "outline"} className="mr-2">
+                            {concern.severity}
+                          </Badge>
+                          {concern.type}: {concern.description}
+                        </li>
+                      ))}
+                    </ul>
+                  </div>
+                )}
+
+                {platform.newContent.length === 0 &&
+                  platform.removedContent.length === 0 &&
+                  platform.newPrivacyConcerns.length === 0 && (
+                  <p className="mt-3 text-sm text-gray-500">No content changes detected.</p>
+                )}
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -4,13 +4,26 @@ import { TabContentProps } from "@/lib/types";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
-import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Badge } from "@/components/ui/badge";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, Legend } from "recharts";
 import { CHART_COLORS } from "@/lib/chart-utils";
 import { RedditConnectionsAnalysis } from "@/components/visualization/RedditConnectionsAnalysis";
+import { IdentityLinkageGraph } from "@/components/visualization/IdentityLinkageGraph";
 import { SparkleEffect } from "@/components/ui/sparkle-effect";
 import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { LinkageSignal } from "@shared/schema";
+
+// Short names of the signals that link two accounts
+const LINKAGE_SIGNAL_LABELS: Record<LinkageSignal, string> = {
+  username: "Username",
+  display_name: "Display name",
+  bio: "Bio",
+  avatar: "Profile picture",
+  profile_link: "Profile link",
+  location: "Location",
+  writing_style: "Writing style",
+  posting_times: "Posting times",
+};
 
 export default function ConnectionsTab({ data, isLoading }: TabContentProps) {
   const [, setLocation] = useLocation();
@@ -39,23 +52,8 @@ export default function ConnectionsTab({ data, isLoading }: TabContentProps) {
     { name: "Other", value: 9 },
   ];
   
-  // Sample most frequent interactions across all platforms
-  const frequentInteractions = [
-    { name: "tech_enthusiast", platform: "reddit", interactions: 27, mutual: true },
-    { name: "codingmaster", platform: "reddit", interactions: 19, mutual: true },
-    { name: "webdev_guru", platform: "twitter", interactions: 16, mutual: false },
-    { name: "design_inspiration", platform: "instagram", interactions: 12, mutual: true },
-    { name: "javascript_dev", platform: "reddit", interactions: 10, mutual: false },
-  ];
-  
-  // Sample communities/groups across all platforms
-  const communities = [
-    { name: "r/programming", platform: "reddit", members: "3.2M", role: "Member" },
-    { name: "r/webdev", platform: "reddit", members: "1.5M", role: "Active Commenter" },
-    { name: "r/javascript", platform: "reddit", members: "1.8M", role: "Member" },
-    { name: "Web Developers", platform: "facebook", members: "450K", role: "Member" },
-    { name: "ReactJS Group", platform: "facebook", members: "320K", role: "Member" },
-  ];
+  // Accounts that can be tied to each other, from the search summary
+  const linkage = data?.summary.identityLinkage;
 
   if (isLoading) {
     return (
@@ -191,96 +189,58 @@ export default function ConnectionsTab({ data, isLoading }: TabContentProps) {
       </div>
       
       <div className="mb-8">
-        <h3 className="text-md font-medium mb-3">Most Frequent Cross-Platform Interactions</h3>
-        <Card>
-          <CardContent className="p-6">
-            <div className="space-y-4">
-              {frequentInteractions.map((interaction, index) => (
-                <div key={index} className="flex items-center justify-between">
-                  <div className="flex items-center">
-                    <Avatar className="h-10 w-10 mr-4">
-                      <AvatarFallback className={`${
-                        interaction.platform === 'reddit' 
-                          ? 'bg-orange-100 text-orange-800' 
-                          : interaction.platform === 'twitter'
-                            ? 'bg-blue-100 text-blue-800'
-                            : interaction.platform === 'instagram'
-                              ? 'bg-purple-100 text-purple-800'
-                              : 'bg-gray-100 text-gray-800'
-                      }`}>
-                        {interaction.name.substring(0, 2).toUpperCase()}
-                      </AvatarFallback>
-                    </Avatar>
-                    <div>
-                      <p className="font-medium">{
-                        interaction.platform === 'reddit' 
-                          ? `u/${interaction.name}`
-                          : interaction.name
-                      }</p>
-                      <div className="flex items-center text-sm text-gray-500">
-                        <Badge variant="outline" className={`mr-2 ${
-                          interaction.platform === 'reddit' 
-                            ? 'bg-orange-50 text-orange-800 border-orange-200' 
-                            : interaction.platform === 'twitter'
-                              ? 'bg-blue-50 text-blue-800 border-blue-200'
-                              : interaction.platform === 'instagram'
-                                ? 'bg-purple-50 text-purple-800 border-purple-200'
-                                : ''
-                        }`}>
-                          {interaction.platform}
-                        </Badge>
-                        {interaction.mutual && (
-                          <Badge variant="secondary" className="text-xs">
-                            Mutual
+        <h3 className="text-md font-medium mb-3">Linkable Accounts</h3>
+        {!linkage || linkage.nodes.length < 2 ? (
+          <Card>
+            <CardContent className="p-6 text-gray-500">
+              Linkage analysis needs accounts on at least two platforms.
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            <Card className="h-80">
+              <CardContent className="p-4 h-full">
+                <IdentityLinkageGraph linkage={linkage} />
+              </CardContent>
+            </Card>
+            
+            <Card className="md:col-span-2">
+              <CardContent className="p-6">
+                {linkage.links.length === 0 ? (
+                  <p className="text-gray-500">
+                    None of the {linkage.nodes.length} accounts share enough to be linked to each other.
+                  </p>
+                ) : (
+                  <div className="space-y-4">
+                    {linkage.links.map((link, index) => (
+                      <div key={`${link.source}-${link.target}`}>
+                        <div className="flex items-center justify-between mb-2">
+                          <div className="flex items-center gap-2">
+                            <Badge variant="outline">{PLATFORM_CONFIG[link.source].name}</Badge>
+                            <span className="text-gray-400">↔</span>
+                            <Badge variant="outline">{PLATFORM_CONFIG[link.target].name}</Badge>
+                          </div>
+                          <Badge variant={link.confidence >= 0.5 ? "destructive" : "secondary"}>
+                            {Math.round(link.confidence * 100)}% confidence
                           </Badge>
-                        )}
-                      </div>
-                    </div>
-                  </div>
-                  <div className="text-right">
-                    <p className="font-medium">{interaction.interactions}</p>
-                    <p className="text-xs text-gray-500">interactions</p>
-                  </div>
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
-      </div>
-      
-      <div className="mb-8">
-        <h3 className="text-md font-medium mb-3">Communities Across Platforms</h3>
-        <Card>
-          <CardContent className="p-6">
-            <div className="space-y-4">
-              {communities.map((community, index) => (
-                <div key={index}>
-                  <div className="flex items-center justify-between">
-                    <div>
-                      <p className="font-medium">{community.name}</p>
-                      <div className="flex items-center text-sm text-gray-500">
-                        <Badge variant="outline" className={`mr-2 ${
-                          community.platform === 'reddit' 
-                            ? 'bg-orange-50 text-orange-800 border-orange-200' 
-                            : community.platform === 'twitter'
-                              ? 'bg-blue-50 text-blue-800 border-blue-200'
-                              : community.platform === 'facebook'
-                                ? 'bg-indigo-50 text-indigo-800 border-indigo-200'
-                                : ''
-                        }`}>
-                          {community.platform}
-                        </Badge>
-                        <span>{community.members} members</span>
+                        </div>
+                        <ul className="text-sm text-gray-600 space-y-1">
+                          {link.signals.map(signal => (
+                            <li key={signal.signal} className="flex items-start gap-2">
+                              <span className="font-medium text-gray-800 w-28 shrink-0">{LINKAGE_SIGNAL_LABELS[signal.signal]}</span>
+                              <span>{signal.detail}</span>
+                            </li>
+                          ))}
+                        </ul>
+                        {index < linkage.links.length - 1 && <Separator className="mt-4" />}
                       </div>
-                    </div>
-                    <Badge>{community.role}</Badge>
+                    ))}
                   </div>
-                  {index < communities.length - 1 && <Separator className="mt-4" />}
-                </div>
-              ))}
-            </div>
-          </CardContent>
-        </Card>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        )}
       </div>
       
       <div className="bg-white p-6 rounded-lg shadow-lg mb-8 relative overflow-hidden">
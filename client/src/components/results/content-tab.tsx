@@ -1,9 +1,15 @@
+import { useMemo, useState } from "react";
+import { useMutation } from "@tanstack/react-query";
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TabContentProps } from "@/lib/types";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { PieChart, Pie, Cell, ResponsiveContainer, Tooltip, BarChart, Bar, XAxis, YAxis, CartesianGrid, Legend } from "recharts";
 import { CHART_COLORS } from "@/lib/chart-utils";
 import { ScrollArea } from "@/components/ui/scroll-area";
@@ -12,8 +18,250 @@ import RedditContentAnalysis from "@/components/visualization/RedditContentAnaly
 import { FacebookSentimentAnalysis } from "@/components/visualization/FacebookSentimentAnalysis";
 import { TwitterSentimentAnalysis } from "@/components/visualization/TwitterSentimentAnalysis";
 import { SparkleEffect } from "@/components/ui/sparkle-effect";
-import { FileText, MessageCircle, MessageSquare, Eye, BarChart2, PieChart as PieChartIcon } from "lucide-react";
+import { FileText, MessageCircle, MessageSquare, Eye, BarChart2, PieChart as PieChartIcon, Loader2, Trash2 } from "lucide-react";
 import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
+import { ContentItem, DigitalFootprintResponse, Platform, PiiFinding, PiiType } from "@shared/schema";
+
+const PII_LABELS: Record<PiiType, string> = {
+  email: "Email address",
+  phone: "Phone number",
+  postal_address: "Postal address",
+  credit_card: "Payment card number",
+  iban: "Bank account number",
+  date_of_birth: "Date of birth",
+  license_plate: "License plate",
+};
+
+// Content text with detected PII highlighted
+function HighlightedContent({ content, findings }: { content: string; findings?: PiiFinding[] }) {
+  if (!findings || findings.length === 0) {
+    return <>{content}</>;
+  }
+
+  const parts: React.ReactNode[] = [];
+  let position = 0;
+  findings.forEach((finding, index) => {
+    parts.push(content.slice(position, finding.start));
+    parts.push(
+      <mark key={index} className="bg-amber-100 text-amber-900 rounded px-0.5" title={PII_LABELS[finding.type]}>
+        {content.slice(finding.start, finding.end)}
+      </mark>
+    );
+    position = finding.end;
+  });
+  parts.push(content.slice(position));
+
+  return <>{parts}</>;
+}
+
+// A content item that can be deleted, which takes a link to it
+type SelectableItem = ContentItem & { url: string; platform: Platform; username: string };
+
+interface ItemFilters {
+  platform: Platform | "all";
+  sentiment: NonNullable<ContentItem["sentiment"]> | "all";
+  // "any" matches items with at least one finding
+  pii: PiiType | "any" | "all";
+  from: string;
+  to: string;
+}
+
+const NO_FILTERS: ItemFilters = { platform: "all", sentiment: "all", pii: "all", from: "", to: "" };
+
+function matchesFilters(item: SelectableItem, filters: ItemFilters): boolean {
+  if (filters.platform !== "all" && item.platform !== filters.platform) return false;
+  if (filters.sentiment !== "all" && item.sentiment !== filters.sentiment) return false;
+
+  const findings = item.piiFindings ?? [];
+  if (filters.pii === "any" && findings.length === 0) return false;
+  if (filters.pii !== "all" && filters.pii !== "any" && !findings.some(finding => finding.type === filters.pii)) return false;
+
+  // Dates are compared by day, inclusive at both ends
+  const day = item.timestamp.slice(0, 10);
+  if (filters.from && day < filters.from) return false;
+  if (filters.to && day > filters.to) return false;
+  return true;
+}
+
+// Pick items to delete, narrowed by platform, sentiment, PII finding and date
+function DeletionSelection({ data }: { data: DigitalFootprintResponse }) {
+  const { user } = useAuth();
+  const { toast } = useToast();
+  const [, setLocation] = useLocation();
+  const [filters, setFilters] = useState<ItemFilters>(NO_FILTERS);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const items = useMemo<SelectableItem[]>(() =>
+    data.platformData.flatMap(platform =>
+      (platform.contentData ?? [])
+        .filter((item): item is ContentItem & { url: string } => !!item.url)
+        .map(item => ({ ...item, platform: platform.platformId, username: platform.username }))
+    ).sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()),
+  [data]);
+
+  const platforms = Array.from(new Set(items.map(item => item.platform)));
+  const piiTypes = Array.from(new Set(items.flatMap(item => (item.piiFindings ?? []).map(finding => finding.type))));
+  const filtered = items.filter(item => matchesFilters(item, filters));
+  const allFilteredSelected = filtered.length > 0 && filtered.every(item => selected.has(item.url));
+
+  const setFilter = <K extends keyof ItemFilters>(key: K, value: ItemFilters[K]) => {
+    setFilters(current => ({ ...current, [key]: value }));
+  };
+
+  const toggle = (url: string, checked: boolean) => {
+    const next = new Set(selected);
+    if (checked) next.add(url); else next.delete(url);
+    setSelected(next);
+  };
+
+  const toggleFiltered = (checked: boolean) => {
+    const next = new Set(selected);
+    filtered.forEach(item => checked ? next.add(item.url) : next.delete(item.url));
+    setSelected(next);
+  };
+
+  const deleteMutation = useMutation({
+    mutationFn: async () => {
+      // One batch per account, all tracked in a single deletion request
+      const byPlatform = new Map<Platform, { platform: Platform; username: string; items: { url: string; type: ContentItem["type"] }[] }>();
+      for (const item of items.filter(item => selected.has(item.url))) {
+        const batch = byPlatform.get(item.platform) ?? { platform: item.platform, username: item.username, items: [] };
+        batch.items.push({ url: item.url, type: item.type });
+        byPlatform.set(item.platform, batch);
+      }
+
+      const res = await apiRequest("POST", "/api/item-deletion", { platforms: Array.from(byPlatform.values()) });
+      return res.json() as Promise<{ success: boolean; message: string; verificationCode?: string; deletionId: number }>;
+    },
+    onSuccess: (result) => {
+      setSelected(new Set());
+      queryClient.invalidateQueries({ queryKey: ["/api/deletion-requests"] });
+      toast({ title: "Deletion requested", description: result.message });
+      setLocation("/deletion-manage");
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not request deletion", description: error.message, variant: "destructive" });
+    },
+  });
+
+  if (items.length === 0) return null;
+
+  return (
+    <div className="mb-8">
+      <h3 className="text-md font-medium mb-3">Delete Content</h3>
+      <Card>
+        <CardContent className="pt-6 space-y-4">
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-3">
+            <div className="space-y-1">
+              <Label className="text-xs">Platform</Label>
+              <Select value={filters.platform} onValueChange={value => setFilter("platform", value as ItemFilters["platform"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All platforms</SelectItem>
+                  {platforms.map(platform => (
+                    <SelectItem key={platform} value={platform}>{PLATFORM_CONFIG[platform]?.name ?? platform}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Sentiment</Label>
+              <Select value={filters.sentiment} onValueChange={value => setFilter("sentiment", value as ItemFilters["sentiment"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">Any sentiment</SelectItem>
+                  <SelectItem value="positive">Positive</SelectItem>
+                  <SelectItem value="neutral">Neutral</SelectItem>
+                  <SelectItem value="negative">Negative</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs">Personal information</Label>
+              <Select value={filters.pii} onValueChange={value => setFilter("pii", value as ItemFilters["pii"])}>
+                <SelectTrigger><SelectValue /></SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All items</SelectItem>
+                  <SelectItem value="any">Any personal information</SelectItem>
+                  {piiTypes.map(type => (
+                    <SelectItem key={type} value={type}>{PII_LABELS[type]}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs" htmlFor="deletion-from">From</Label>
+              <Input id="deletion-from" type="date" value={filters.from} onChange={e => setFilter("from", e.target.value)} />
+            </div>
+            <div className="space-y-1">
+              <Label className="text-xs" htmlFor="deletion-to">To</Label>
+              <Input id="deletion-to" type="date" value={filters.to} onChange={e => setFilter("to", e.target.value)} />
+            </div>
+          </div>
+
+          <div className="flex items-center justify-between">
+            <div className="flex items-center gap-2">
+              <Checkbox
+                id="deletion-select-all"
+                checked={allFilteredSelected}
+                onCheckedChange={checked => toggleFiltered(checked === true)}
+                disabled={filtered.length === 0}
+              />
+              <Label htmlFor="deletion-select-all" className="text-sm">
+                Select all {filtered.length} matching item{filtered.length === 1 ? "" : "s"}
+              </Label>
+            </div>
+            <Button
+              variant="destructive"
+              size="sm"
+              onClick={() => deleteMutation.mutate()}
+              disabled={!user || selected.size === 0 || deleteMutation.isPending}
+              title={user ? undefined : "Sign in to delete content"}
+            >
+              {deleteMutation.isPending ? <Loader2 className="mr-2 h-4 w-4 animate-spin" /> : <Trash2 className="mr-2 h-4 w-4" />}
+              Delete {selected.size} selected
+            </Button>
+          </div>
+
+          <ScrollArea className="h-80">
+            {filtered.length > 0 ? (
+              <ul className="space-y-3 pr-3">
+                {filtered.map(item => (
+                  <li key={item.url} className="flex gap-3">
+                    <Checkbox
+                      checked={selected.has(item.url)}
+                      onCheckedChange={checked => toggle(item.url, checked === true)}
+                      aria-label="Select for deletion"
+                      className="mt-1"
+                    />
+                    <div className="min-w-0 flex-1">
+                      <div className="flex flex-wrap items-center gap-2 mb-1 text-xs">
+                        <Badge variant="outline">{item.platform}</Badge>
+                        <Badge variant="outline">{item.type}</Badge>
+                        {item.sentiment && <span className="text-gray-500">{item.sentiment}</span>}
+                        <span className="text-gray-500">{new Date(item.timestamp).toLocaleDateString()}</span>
+                      </div>
+                      <p className="text-sm text-gray-700 line-clamp-2">
+                        {item.content
+                          ? <HighlightedContent content={item.content} findings={item.piiFindings} />
+                          : <a href={item.url} target="_blank" rel="noopener noreferrer" className="underline">{item.url}</a>}
+                      </p>
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            ) : (
+              <p className="text-gray-500 text-center py-8">No items match these filters</p>
+            )}
+          </ScrollArea>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
 
 export default function ContentTab({ data, isLoading }: TabContentProps) {
   const [, setLocation] = useLocation();
@@ -288,9 +536,25 @@ export default function ContentTab({ data, isLoading }: TabContentProps) {
                       </div>
                       
                       <p className="text-gray-700 mb-2">
-                        {item.content || "No content available"}
+                        {item.content
+                          ? <HighlightedContent content={item.content} findings={item.piiFindings} />
+                          : "No content available"}
                       </p>
                       
+                      {item.piiFindings && item.piiFindings.length > 0 && (
+                        <div className="flex flex-wrap gap-1 mb-2">
+                          {Array.from(new Set(item.piiFindings.map(finding => finding.type))).map(type => (
+                            <Badge
+                              key={type}
+                              className="bg-amber-100 text-amber-800 text-xs"
+                              title={platformDataMap.get(item.platform)?.analysisResults?.piiSummary?.explanations?.[type]}
+                            >
+                              {PII_LABELS[type]}
+                            </Badge>
+                          ))}
+                        </div>
+                      )}
+                      
                       {item.topics && item.topics.length > 0 && (
                         <div className="flex flex-wrap gap-1 mb-2">
                           {item.topics.map((topic, topicIndex) => (
@@ -321,6 +585,8 @@ export default function ContentTab({ data, isLoading }: TabContentProps) {
         </Card>
       </div>
       
+      <DeletionSelection data={data} />
+      
       <div className="bg-white p-6 rounded-lg shadow-lg mb-8 relative overflow-hidden">
         <div className="flex items-center mb-4">
           <SparkleEffect isActive colors={["#4F46E5", "#8B5CF6", "#EC4899"]}>
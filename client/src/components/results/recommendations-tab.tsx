@@ -153,6 +153,22 @@ export default function RecommendationsTab({ data, isLoading }: TabContentProps)
         </p>
       </div>
       
+      {/* Recommendations derived from this footprint */}
+      {data.summary.recommendations.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-medium mb-3">Recommended for This Footprint</h3>
+          <Card>
+            <CardContent className="p-5">
+              <ol className="list-decimal list-inside space-y-2 text-gray-700">
+                {data.summary.recommendations.map((recommendation, index) => (
+                  <li key={index}>{recommendation}</li>
+                ))}
+              </ol>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+      
       {/* Platform-specific recommendations */}
       {redditData && (
         <div className="mb-8">
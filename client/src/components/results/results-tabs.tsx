@@ -6,6 +6,7 @@ import TimelineTab from "@/components/results/timeline-tab";
 import ContentTab from "@/components/results/content-tab";
 import ConnectionsTab from "@/components/results/connections-tab";
 import RecommendationsTab from "@/components/results/recommendations-tab";
+import ChangesTab from "@/components/results/changes-tab";
 import { DigitalFootprintResponse } from "@shared/schema";
 import { RESULT_TABS } from "@/lib/constants";
 
@@ -57,6 +58,10 @@ export default function ResultsTabs({ data, isLoading }: ResultsTabsProps) {
         <TabsContent value="recommendations" className="p-6">
           <RecommendationsTab data={data} isLoading={isLoading} />
         </TabsContent>
+        
+        <TabsContent value="changes" className="p-6">
+          <ChangesTab data={data} isLoading={isLoading} />
+        </TabsContent>
       </Tabs>
     </div>
   );
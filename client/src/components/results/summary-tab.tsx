@@ -1,7 +1,7 @@
 import { Card, CardContent } from "@/components/ui/card";
 import { Skeleton } from "@/components/ui/skeleton";
 import { TabContentProps, InsightItem } from "@/lib/types";
-import { Platform } from "@shared/schema";
+import { ExposureFactorScore, InsightEvidence, LocationInference, Platform, TopicShare } from "@shared/schema";
 import { PLATFORM_CONFIG } from "@/lib/platform-icons";
 import { useLocation } from "wouter";
 import { Button } from "@/components/ui/button";
@@ -12,6 +12,30 @@ import { InstagramDataCharts } from "@/components/visualization/InstagramDataCha
 import { InstagramSentimentAnalysis } from "@/components/visualization/InstagramSentimentAnalysis";
 import { InstagramContentTopics } from "@/components/visualization/InstagramContentTopics";
 import NewInsights from "@/components/results/new-insights";
+import { LocationExposureMap, REGION_COLORS } from "@/components/visualization/LocationExposureMap";
+
+// Collapsible list of the content items behind an insight or topic
+const EvidenceList = ({ evidence, title }: { evidence: InsightEvidence[]; title: string }) => (
+  <details className="mt-1 text-sm">
+    <summary className="cursor-pointer text-gray-500">{title}</summary>
+    <ul className="mt-1 space-y-1 border-l-2 border-gray-200 pl-3">
+      {evidence.map(item => (
+        <li key={`${item.platform}-${item.itemIndex}`} className="text-gray-600">
+          <span className="text-xs text-gray-400 mr-2">
+            {PLATFORM_CONFIG[item.platform].name} · {new Date(item.timestamp).toLocaleDateString()}
+          </span>
+          {item.url ? (
+            <a href={item.url} target="_blank" rel="noopener noreferrer" className="hover:underline">
+              {item.excerpt || "View item"}
+            </a>
+          ) : (
+            item.excerpt || "Item without text"
+          )}
+        </li>
+      ))}
+    </ul>
+  </details>
+);
 
 // Reusable component for displaying insights from any platform
 interface InsightsDisplayProps {
@@ -49,7 +73,15 @@ const InsightsDisplay = ({ insights, emptyMessage }: InsightsDisplayProps) => (
               {insight.type === 'warning' && <path d="M12 16h.01" />}
             </svg>
           </span>
-          <span>{insight.insight}</span>
+          <div>
+            <span>{insight.insight}</span>
+            {insight.evidence && insight.evidence.length > 0 && (
+              <EvidenceList
+                evidence={insight.evidence}
+                title={`Based on ${insight.evidence.length} ${insight.evidence.length === 1 ? "item" : "items"}`}
+              />
+            )}
+          </div>
         </li>
       ))
     ) : (
@@ -106,6 +138,84 @@ const StatCard = ({ title, value, subValue, description, progress, additional }:
   </div>
 );
 
+// Topics found in the content, with the items that best represent each
+const TopicBreakdown = ({ topics }: { topics: TopicShare[] }) => (
+  <div className="space-y-4">
+    {topics.map(topic => (
+      <div key={topic.topic}>
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm font-medium text-gray-700">{topic.topic}</span>
+          <span className="text-sm text-gray-600">{Math.round(topic.percentage * 100)}% of items</span>
+        </div>
+        <div className="mt-1 w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-primary h-2 rounded-full"
+            style={{ width: `${Math.round(topic.percentage * 100)}%` }}
+          ></div>
+        </div>
+        {topic.representativeItems && topic.representativeItems.length > 0 && (
+          <EvidenceList evidence={topic.representativeItems} title="Representative items" />
+        )}
+      </div>
+    ))}
+  </div>
+);
+
+const REGION_KIND_LABELS = { home: "Likely home", work: "Likely work", frequent: "Frequented" };
+
+// Regions the footprint places the account holder in, on a map and with the signals behind each
+const LocationExposure = ({ inference }: { inference: LocationInference }) => (
+  <div className="space-y-6">
+    <LocationExposureMap regions={inference.regions} />
+    <ul className="space-y-4">
+      {inference.regions.map(region => (
+        <li key={`${region.name}-${region.kind}`}>
+          <div className="flex items-baseline justify-between">
+            <span className="text-sm font-medium text-gray-700">
+              <span
+                className="inline-block w-2.5 h-2.5 rounded-full mr-2"
+                style={{ backgroundColor: REGION_COLORS[region.kind] }}
+              ></span>
+              {region.name}{region.country && region.country !== region.name ? `, ${region.country}` : ""}
+              <span className="ml-2 text-xs text-gray-500">{REGION_KIND_LABELS[region.kind]}</span>
+            </span>
+            <span className="text-sm text-gray-600">{Math.round(region.confidence * 100)}% confidence</span>
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {region.signals.map(signal => `${signal.detail} (${PLATFORM_CONFIG[signal.platform].name})`).join(" · ")}
+          </p>
+          {region.evidence.length > 0 && (
+            <EvidenceList evidence={region.evidence} title={`Based on ${region.evidence.length} ${region.evidence.length === 1 ? "item" : "items"}`} />
+          )}
+        </li>
+      ))}
+    </ul>
+  </div>
+);
+
+// How each factor contributed to the exposure score
+const ExposureBreakdown = ({ factors }: { factors: ExposureFactorScore[] }) => (
+  <div className="space-y-4">
+    {factors.map(factor => (
+      <div key={factor.factor}>
+        <div className="flex items-baseline justify-between">
+          <span className="text-sm font-medium text-gray-700">{factor.label}</span>
+          <span className="text-sm text-gray-600">
+            {factor.points.toFixed(1)} / {factor.weight.toFixed(0)} pts
+          </span>
+        </div>
+        <div className="mt-1 w-full bg-gray-200 rounded-full h-2">
+          <div
+            className="bg-primary h-2 rounded-full"
+            style={{ width: `${Math.round(factor.value * 100)}%` }}
+          ></div>
+        </div>
+        <p className="text-xs text-gray-500 mt-1">{factor.detail}</p>
+      </div>
+    ))}
+  </div>
+);
+
 export default function SummaryTab({ data, isLoading }: TabContentProps) {
   const [, setLocation] = useLocation();
   
@@ -371,7 +481,7 @@ export default function SummaryTab({ data, isLoading }: TabContentProps) {
     if (topics.length > 0) {
       topicData = topics.map((item: { topic: string; percentage: number }) => ({
         name: item.topic,
-        value: Math.max(5, item.percentage)
+        value: Math.max(5, Math.round(item.percentage * 100))
       }));
     } else {
       // Fallback for other platforms with no topic data
@@ -647,6 +757,39 @@ export default function SummaryTab({ data, isLoading }: TabContentProps) {
         )}
       </div>
       
+      {data.summary.exposureBreakdown && data.summary.exposureBreakdown.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-medium mb-4">Exposure Score Breakdown</h3>
+          <Card>
+            <CardContent className="pt-6">
+              <ExposureBreakdown factors={data.summary.exposureBreakdown} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+      
+      {data.summary.topTopics && data.summary.topTopics.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-medium mb-4">Topics Across Your Footprint</h3>
+          <Card>
+            <CardContent className="pt-6">
+              <TopicBreakdown topics={data.summary.topTopics} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+      
+      {data.summary.locationInference && data.summary.locationInference.regions.length > 0 && (
+        <div className="mb-8">
+          <h3 className="text-lg font-medium mb-4">Where Your Footprint Places You</h3>
+          <Card>
+            <CardContent className="pt-6">
+              <LocationExposure inference={data.summary.locationInference} />
+            </CardContent>
+          </Card>
+        </div>
+      )}
+      
       <div className="mb-8">
         <h3 className="text-lg font-medium mb-4">Digital Footprint Summary</h3>
         <Card>
@@ -660,6 +803,17 @@ export default function SummaryTab({ data, isLoading }: TabContentProps) {
               we've generated the following insights:
             </p>
 
+            {/* Insights derived from every platform's content */}
+            {data.summary.topInsights.length > 0 && (
+              <div className="mb-6">
+                <h4 className="text-md font-medium mb-2">Across Your Footprint</h4>
+                <InsightsDisplay 
+                  insights={data.summary.topInsights} 
+                  emptyMessage="No insights available." 
+                />
+              </div>
+            )}
+            
             {/* Generalized insights component that can handle any platform */}
             {instagramData && (
               <div className="mb-6">
@@ -688,7 +842,7 @@ export default function SummaryTab({ data, isLoading }: TabContentProps) {
             )}
             
             {/* Fallback if no specific platform insights are available */}
-            {!instagramData && !redditData && (
+            {!instagramData && !redditData && data.summary.topInsights.length === 0 && (
               <InsightsDisplay 
                 insights={[]} 
                 emptyMessage={`No insights available for this ${
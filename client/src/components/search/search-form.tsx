@@ -6,12 +6,13 @@ import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "
 import { Input } from "@/components/ui/input";
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import PlatformCard from "@/components/search/platform-card";
+import UsernameDiscovery from "@/components/search/username-discovery";
 import { PLATFORM_CONFIG } from "@/lib/platform-icons";
-import { AVAILABLE_PLATFORMS } from "@/lib/constants";
+import { AVAILABLE_PLATFORMS, PLATFORM_ERROR_TITLES } from "@/lib/constants";
 import { useState } from "react";
-import { Platform } from "@shared/schema";
+import { Platform, PlatformUsername } from "@shared/schema";
 import { useToast } from "@/hooks/use-toast";
-import { apiRequest } from "@/lib/queryClient";
+import { apiRequest, getPlatformErrorInfo } from "@/lib/queryClient";
 import { useMutation } from "@tanstack/react-query";
 import { useLocation } from "wouter";
 // Form schema with validation rules
@@ -26,6 +27,8 @@ export default function SearchForm() {
   const { toast } = useToast();
   const [, navigate] = useLocation();
   const [selectedPlatforms, setSelectedPlatforms] = useState<Platform[]>(["instagram"]);
+  // Username variants confirmed through discovery, searched on their platform instead of the username
+  const [confirmedUsernames, setConfirmedUsernames] = useState<PlatformUsername[]>([]);
 
   // Initialize the form
   const form = useForm<FormValues>({
@@ -58,44 +61,23 @@ export default function SearchForm() {
       platforms: Platform[],
       platformUsernames?: { platform: Platform, username: string }[]
     }) => {
-      const response = await apiRequest("POST", "/api/search", data);
-      const result = await response.json();
-      
-      // Check for platform-specific errors in the response
-      if (result.platformErrors && Object.keys(result.platformErrors).length > 0) {
-        console.log("Platform errors found in search response:", result.platformErrors);
-        
-        // Create a warning toast for each platform with errors
-        for (const [platform, error] of Object.entries(result.platformErrors)) {
-          console.log(`Creating toast for ${platform} error:`, error);
-          
-          toast({
-            title: `${platform.charAt(0).toUpperCase() + platform.slice(1)} API Issue`,
-            description: error as string,
-            variant: "destructive",
-            duration: 5000, // Show for 5 seconds
-          });
-        }
-      } else {
-        console.log("No platform errors found in search response");
-      }
-      
-      return result;
+      // Searches run in the background; the results page follows their progress
+      const response = await apiRequest("POST", "/api/search-jobs", data);
+      return response.json() as Promise<{ jobId: string }>;
     },
     onSuccess: (data) => {
-      // Store search results in sessionStorage for use in results page
-      console.log("Search successful, storing results:", data);
-      sessionStorage.setItem("searchResults", JSON.stringify(data));
-      navigate("/results");
+      console.log("Search job started:", data.jobId);
+      navigate(`/results/job/${data.jobId}`);
     },
     onError: (error) => {
-      // Check if the error includes API operational status information
+      // Check if the server reported a platform error
       const errorMessage = error.message || "";
+      const platformError = getPlatformErrorInfo(error);
       
-      if (errorMessage.includes("rate limited") || errorMessage.includes("operational")) {
+      if (platformError) {
         toast({
-          title: "API Availability Issue",
-          description: errorMessage,
+          title: `${platformError.platform.charAt(0).toUpperCase() + platformError.platform.slice(1)} ${PLATFORM_ERROR_TITLES[platformError.code]}`,
+          description: platformError.message,
           variant: "destructive",
         });
       } else {
@@ -173,16 +155,21 @@ export default function SearchForm() {
       console.log("Detected Reddit username format, converted to:", username);
     }
     
+    // Confirmed variants replace the username on their own platform
+    const variantUsernames = confirmedUsernames.filter(account => platforms.includes(account.platform));
+    
     // Start search with the standard format (single username for all platforms)
     searchMutation.mutate({
       username: username,
       platforms: platforms,
+      ...(variantUsernames.length > 0 ? { platformUsernames: variantUsernames } : {}),
     });
     
     // For debugging
     console.log("Submitting search:", {
       username: username,
       platforms: platforms,
+      platformUsernames: variantUsernames,
     });
   };
 
@@ -251,6 +238,17 @@ export default function SearchForm() {
           </div>
         </div>
         
+        <UsernameDiscovery
+          username={form.watch("username")}
+          platforms={selectedPlatforms}
+          confirmed={confirmedUsernames}
+          onConfirm={account => setConfirmedUsernames(prev => [
+            ...prev.filter(existing => existing.platform !== account.platform),
+            account,
+          ])}
+          onRemove={platform => setConfirmedUsernames(prev => prev.filter(existing => existing.platform !== platform))}
+        />
+        
         {/* Centered buttons with enhanced styling */}
         <div className="flex items-center justify-center space-x-4 mt-8">
           <Button 
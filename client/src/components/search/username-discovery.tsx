@@ -0,0 +1,131 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest } from "@/lib/queryClient";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { Platform, PlatformUsername, UsernameDiscoveryResult } from "@shared/schema";
+
+interface UsernameDiscoveryProps {
+  username: string;
+  platforms: Platform[];
+  // Variants the user has confirmed, searched instead of the username on their platform
+  confirmed: PlatformUsername[];
+  onConfirm: (account: PlatformUsername) => void;
+  onRemove: (platform: Platform) => void;
+}
+
+export default function UsernameDiscovery({ username, platforms, confirmed, onConfirm, onRemove }: UsernameDiscoveryProps) {
+  const { toast } = useToast();
+  const [displayName, setDisplayName] = useState("");
+
+  const discoverMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", "/api/search/discover", {
+        username: username.trim(),
+        displayName: displayName.trim() || undefined,
+        platforms,
+      });
+      return response.json() as Promise<UsernameDiscoveryResult>;
+    },
+    onError: (error) => {
+      toast({
+        title: "Variant lookup failed",
+        description: error.message || "Could not look for username variants. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const result = discoverMutation.data;
+  const confirmedFor = (platform: Platform) => confirmed.find(account => account.platform === platform);
+
+  return (
+    <Card className="max-w-xl mx-auto">
+      <CardContent className="p-4 space-y-3">
+        <div>
+          <h3 className="text-sm font-medium text-gray-700">Find Username Variants</h3>
+          <p className="text-xs text-gray-500">
+            Check the selected platforms for accounts under similar usernames, like john_doe, johndoe92 or jdoe.
+          </p>
+        </div>
+
+        <div className="flex gap-2">
+          <Input
+            placeholder="Display name (optional), e.g. John Doe"
+            value={displayName}
+            onChange={event => setDisplayName(event.target.value)}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            disabled={!username.trim() || discoverMutation.isPending}
+            onClick={() => discoverMutation.mutate()}
+          >
+            {discoverMutation.isPending ? "Checking..." : "Find Variants"}
+          </Button>
+        </div>
+
+        {confirmed.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {confirmed.map(account => (
+              <Badge key={account.platform} variant="secondary" className="gap-1">
+                {PLATFORM_CONFIG[account.platform].name}: {account.username}
+                <button
+                  type="button"
+                  className="ml-1 text-gray-500 hover:text-gray-900"
+                  aria-label={`Stop using ${account.username} on ${PLATFORM_CONFIG[account.platform].name}`}
+                  onClick={() => onRemove(account.platform)}
+                >
+                  ×
+                </button>
+              </Badge>
+            ))}
+          </div>
+        )}
+
+        {result && (
+          <div className="space-y-2">
+            {result.candidates.length === 0 ? (
+              <p className="text-sm text-gray-500">
+                No accounts found under {result.variants.length} variants of {result.username}.
+              </p>
+            ) : (
+              result.candidates.map(candidate => {
+                const isConfirmed = confirmedFor(candidate.platform)?.username === candidate.username;
+                return (
+                  <div key={`${candidate.platform}:${candidate.username}`} className="flex items-center justify-between text-sm">
+                    <div>
+                      <Badge variant="outline" className="mr-2">{PLATFORM_CONFIG[candidate.platform].name}</Badge>
+                      <span className="font-medium">{candidate.username}</span>
+                      <p className="text-xs text-gray-500">
+                        {candidate.reason} · {Math.round(candidate.confidence * 100)}% likely
+                      </p>
+                    </div>
+                    <Button
+                      type="button"
+                      size="sm"
+                      variant={isConfirmed ? "secondary" : "default"}
+                      disabled={isConfirmed}
+                      onClick={() => onConfirm({ platform: candidate.platform, username: candidate.username })}
+                    >
+                      {isConfirmed ? "Using" : "Use"}
+                    </Button>
+                  </div>
+                );
+              })
+            )}
+            {result.skippedPlatforms.length > 0 && (
+              <p className="text-xs text-gray-400">
+                Not checked: {result.skippedPlatforms.map(skipped => `${PLATFORM_CONFIG[skipped.platform].name} (${skipped.reason})`).join(", ")}
+              </p>
+            )}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
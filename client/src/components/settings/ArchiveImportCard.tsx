@@ -0,0 +1,187 @@
+import { useRef } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import {
+  Card,
+  CardContent,
+  CardDescription,
+  CardFooter,
+  CardHeader,
+  CardTitle,
+} from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { FileArchive, Loader2, Trash2, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { ArchiveImportSummary, maxArchiveUploadMb } from "@shared/schema";
+
+// Labels for the record counts reported for each import
+const STAT_LABELS: Record<string, string> = {
+  tweets: "tweets",
+  likes: "likes",
+  followers: "followers",
+  following: "following",
+  directMessages: "direct messages",
+  adEngagements: "ad engagements",
+  posts: "posts",
+  comments: "comments",
+  reactions: "reactions",
+  checkIns: "check-ins",
+  offFacebookCompanies: "off-Facebook businesses",
+  apps: "connected apps",
+  reels: "reels",
+  stories: "stories",
+  geotaggedMedia: "geotagged photos",
+  advertisers: "advertisers",
+  upvotes: "upvotes",
+  downvotes: "downvotes",
+  savedItems: "saved items",
+  ipAddresses: "IP addresses",
+  subscriptions: "subscriptions",
+};
+
+export default function ArchiveImportCard() {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: imports, isLoading } = useQuery({
+    queryKey: ["/api/imports"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/imports");
+      return res.json() as Promise<ArchiveImportSummary[]>;
+    },
+  });
+
+  const uploadMutation = useMutation({
+    mutationFn: async (file: File) => {
+      // Send the ZIP as the raw request body
+      const res = await fetch("/api/imports", {
+        method: "POST",
+        headers: { "Content-Type": "application/zip" },
+        body: file,
+        credentials: "include",
+      });
+      const body = await res.json();
+      if (!res.ok) {
+        throw new Error(body.message || "The archive could not be imported");
+      }
+      return body as ArchiveImportSummary;
+    },
+    onSuccess: (archiveImport) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+      toast({
+        title: "Archive Imported",
+        description: `Data for @${archiveImport.username} will be included when you search for this account.`,
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/imports/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/imports"] });
+    },
+  });
+
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (file && file.size > maxArchiveUploadMb * 1024 * 1024) {
+      toast({
+        title: "Archive Too Large",
+        description: `Archives can be up to ${maxArchiveUploadMb} MB. Remove the photo and video folders and zip it again.`,
+        variant: "destructive",
+      });
+    } else if (file) {
+      uploadMutation.mutate(file);
+    }
+    // Allow the same file to be selected again
+    event.target.value = "";
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <FileArchive className="mr-2 h-5 w-5 text-primary" />
+          Account Archives
+        </CardTitle>
+        <CardDescription>
+          Import the data archive you downloaded from a platform to include everything
+          it holds about you, not just what is public
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {isLoading ? (
+          <div className="flex justify-center py-6">
+            <Loader2 className="h-8 w-8 animate-spin text-muted-foreground" />
+          </div>
+        ) : imports && imports.length > 0 ? (
+          imports.map((archiveImport) => (
+            <div key={archiveImport.id} className="flex items-center justify-between rounded-md border p-3">
+              <div className="space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline">
+                    {PLATFORM_CONFIG[archiveImport.platform]?.name ?? archiveImport.platform}
+                  </Badge>
+                  <span className="font-medium">@{archiveImport.username}</span>
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  {Object.entries(archiveImport.stats)
+                    .filter(([key, count]) => STAT_LABELS[key] && count > 0)
+                    .map(([key, count]) => `${count.toLocaleString()} ${STAT_LABELS[key]}`)
+                    .join(" · ")}
+                </p>
+                <p className="text-xs text-muted-foreground">
+                  Imported {new Date(archiveImport.importedAt).toLocaleString()}
+                </p>
+              </div>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => deleteMutation.mutate(archiveImport.id)}
+                disabled={deleteMutation.isPending}
+              >
+                <Trash2 className="h-4 w-4" />
+              </Button>
+            </div>
+          ))
+        ) : (
+          <div className="rounded-md bg-blue-50 p-4">
+            <p className="text-sm text-blue-800">
+              No archives imported yet. Supported: Twitter/X ("Download an archive of your data"),
+              Facebook and Instagram ("Download your information" in JSON format) and Reddit
+              (the export from a data request).
+            </p>
+          </div>
+        )}
+      </CardContent>
+      <CardFooter className="flex justify-end">
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".zip,application/zip"
+          className="hidden"
+          onChange={handleFileChange}
+        />
+        <Button onClick={() => fileInputRef.current?.click()} disabled={uploadMutation.isPending}>
+          {uploadMutation.isPending ? (
+            <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+          ) : (
+            <Upload className="mr-2 h-4 w-4" />
+          )}
+          {uploadMutation.isPending ? "Importing..." : "Import Archive"}
+        </Button>
+      </CardFooter>
+    </Card>
+  );
+}
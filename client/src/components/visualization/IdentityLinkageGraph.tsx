@@ -0,0 +1,74 @@
+import { IdentityLinkage } from "@shared/schema";
+import { CHART_COLORS } from "@/lib/chart-utils";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+
+interface IdentityLinkageGraphProps {
+  linkage: IdentityLinkage;
+  size?: number;
+}
+
+/**
+ * Accounts placed on a circle, with a line between every pair that can be
+ * linked. Thicker, darker lines are more confident links.
+ */
+export function IdentityLinkageGraph({ linkage, size = 280 }: IdentityLinkageGraphProps) {
+  const center = size / 2;
+  const radius = linkage.nodes.length > 1 ? size / 2 - 48 : 0;
+
+  const positions = new Map(linkage.nodes.map((node, index) => {
+    const angle = (2 * Math.PI * index) / linkage.nodes.length - Math.PI / 2;
+    return [node.platform, {
+      x: center + radius * Math.cos(angle),
+      y: center + radius * Math.sin(angle),
+      color: CHART_COLORS[index % CHART_COLORS.length],
+    }];
+  }));
+
+  return (
+    <svg viewBox={`0 0 ${size} ${size}`} className="w-full h-full" role="img" aria-label="Account linkage graph">
+      {linkage.links.map(link => {
+        const source = positions.get(link.source);
+        const target = positions.get(link.target);
+        if (!source || !target) return null;
+        return (
+          <line
+            key={`${link.source}-${link.target}`}
+            x1={source.x}
+            y1={source.y}
+            x2={target.x}
+            y2={target.y}
+            stroke={link.confidence >= 0.5 ? "#ef4444" : "#9ca3af"}
+            strokeOpacity={0.3 + link.confidence * 0.7}
+            strokeWidth={1 + link.confidence * 5}
+          >
+            <title>{`${Math.round(link.confidence * 100)}% confidence`}</title>
+          </line>
+        );
+      })}
+      {linkage.nodes.map(node => {
+        const position = positions.get(node.platform)!;
+        return (
+          <g key={node.platform}>
+            <circle cx={position.x} cy={position.y} r={22} fill={position.color} />
+            <text
+              x={position.x}
+              y={position.y + 4}
+              textAnchor="middle"
+              className="fill-white text-xs font-semibold"
+            >
+              {PLATFORM_CONFIG[node.platform].name.substring(0, 2)}
+            </text>
+            <text
+              x={position.x}
+              y={position.y + 36}
+              textAnchor="middle"
+              className="fill-gray-600 text-[10px]"
+            >
+              {node.username}
+            </text>
+          </g>
+        );
+      })}
+    </svg>
+  );
+}
@@ -0,0 +1,88 @@
+import { InferredRegion } from "@shared/schema";
+
+interface LocationExposureMapProps {
+  regions: InferredRegion[];
+  width?: number;
+  height?: number;
+}
+
+// Colour of each kind of region
+export const REGION_COLORS: Record<InferredRegion["kind"], string> = {
+  home: "#ef4444",
+  work: "#f59e0b",
+  frequent: "#3b82f6",
+};
+
+// Smallest area shown, in degrees, so a single region is not zoomed in to street level
+const MIN_SPAN = 2;
+
+/**
+ * Inferred regions on a latitude/longitude grid, zoomed to fit them. Larger,
+ * more opaque circles are regions someone could place the account holder in
+ * with more confidence.
+ */
+export function LocationExposureMap({ regions, width = 600, height = 320 }: LocationExposureMapProps) {
+  const located = regions.filter(region => region.latitude !== undefined && region.longitude !== undefined);
+  if (located.length === 0) return null;
+
+  const latitudes = located.map(region => region.latitude!);
+  const longitudes = located.map(region => region.longitude!);
+  const centerLatitude = (Math.min(...latitudes) + Math.max(...latitudes)) / 2;
+  const centerLongitude = (Math.min(...longitudes) + Math.max(...longitudes)) / 2;
+
+  // Pad the bounds and keep the map's aspect ratio
+  const padding = 40;
+  const spanLongitude = Math.max(MIN_SPAN, (Math.max(...longitudes) - Math.min(...longitudes)) * 1.3);
+  const spanLatitude = Math.max(MIN_SPAN, (Math.max(...latitudes) - Math.min(...latitudes)) * 1.3);
+  const scale = Math.min((width - padding * 2) / spanLongitude, (height - padding * 2) / spanLatitude);
+
+  const x = (longitude: number) => width / 2 + (longitude - centerLongitude) * scale;
+  const y = (latitude: number) => height / 2 - (latitude - centerLatitude) * scale;
+
+  // Grid lines every 1, 5, 10 or 30 degrees depending on the zoom
+  const visibleSpan = width / scale;
+  const step = [1, 5, 10, 30].find(candidate => visibleSpan / candidate <= 12) || 60;
+  const westEdge = centerLongitude - width / 2 / scale;
+  const northEdge = centerLatitude + height / 2 / scale;
+  const meridians = Array.from({ length: Math.ceil(visibleSpan / step) + 1 }, (_, i) => (Math.ceil(westEdge / step) + i) * step);
+  const parallels = Array.from({ length: Math.ceil(height / scale / step) + 1 }, (_, i) => (Math.floor(northEdge / step) - i) * step);
+
+  return (
+    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-auto" role="img" aria-label="Map of inferred locations">
+      <rect width={width} height={height} fill="#f0f7ff" rx={8} />
+      {meridians.map(longitude => (
+        <line key={`lon-${longitude}`} x1={x(longitude)} y1={0} x2={x(longitude)} y2={height} stroke="#dbe4f0" strokeWidth={1} />
+      ))}
+      {parallels.map(latitude => (
+        <line key={`lat-${latitude}`} x1={0} y1={y(latitude)} x2={width} y2={y(latitude)} stroke="#dbe4f0" strokeWidth={1} />
+      ))}
+      {located
+        .slice()
+        // Draw the most confident regions last, on top
+        .sort((a, b) => a.confidence - b.confidence)
+        .map(region => {
+          const cx = x(region.longitude!);
+          const cy = y(region.latitude!);
+          return (
+            <g key={`${region.name}-${region.kind}`}>
+              <circle
+                cx={cx}
+                cy={cy}
+                r={8 + region.confidence * 22}
+                fill={REGION_COLORS[region.kind]}
+                fillOpacity={0.15 + region.confidence * 0.35}
+                stroke={REGION_COLORS[region.kind]}
+                strokeWidth={2}
+              >
+                <title>{`${region.name}: ${region.kind}, ${Math.round(region.confidence * 100)}% confidence`}</title>
+              </circle>
+              <circle cx={cx} cy={cy} r={3} fill={REGION_COLORS[region.kind]} />
+              <text x={cx} y={cy - 12 - region.confidence * 22} textAnchor="middle" className="fill-gray-700 text-xs font-medium">
+                {region.name}
+              </text>
+            </g>
+          );
+        })}
+    </svg>
+  );
+}
@@ -1,11 +1,15 @@
 import { useEffect, useState } from "react";
 import { DigitalFootprintResponse, Platform } from "@shared/schema";
-import { useLocation } from "wouter";
+import { useLocation, useRoute } from "wouter";
+import { apiRequest } from "@/lib/queryClient";
+import useSearchJob from "@/hooks/use-search-job";
 
 interface UsePlatformDataResult {
   data: DigitalFootprintResponse | undefined;
   isLoading: boolean;
   error: Error | null;
+  // Platforms of a running search job that have not finished yet
+  pendingPlatforms: Platform[];
 }
 
 // Sample data for demonstration purposes
@@ -14,7 +18,12 @@ const SAMPLE_DATA: DigitalFootprintResponse = {
   timestamp: new Date().toISOString(),
   platforms: ["instagram", "twitter", "facebook", "reddit", "linkedin"],
   platformErrors: {
-    "twitter": "Twitter API rate limit exceeded. Some data may be incomplete."
+    "twitter": {
+      code: "RATE_LIMITED",
+      platform: "twitter",
+      message: "Twitter API rate limit exceeded. Some data may be incomplete.",
+      retryAfter: 900
+    }
   },
   platformData: [
     {
@@ -190,7 +199,8 @@ const SAMPLE_DATA: DigitalFootprintResponse = {
 
 /**
  * Custom hook for retrieving digital footprint data
- * This hook checks sessionStorage for existing results from actual API responses
+ * Saved searches (/results/:searchId) are loaded from the server; otherwise this
+ * hook checks sessionStorage for existing results from actual API responses
  * and redirects to search if no data is found
  */
 export default function usePlatformData(): UsePlatformDataResult {
@@ -198,15 +208,30 @@ export default function usePlatformData(): UsePlatformDataResult {
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<Error | null>(null);
   const [, navigate] = useLocation();
+  const [, params] = useRoute("/results/:searchId");
+  const searchId = params?.searchId;
+  const [, jobParams] = useRoute("/results/job/:jobId");
+  const jobId = jobParams?.jobId;
+  const job = useSearchJob(jobId);
 
   useEffect(() => {
+    // Running searches are streamed by useSearchJob instead
+    if (jobId) return;
+
     const fetchData = async () => {
       try {
         setIsLoading(true);
         
-        // Try to get data from sessionStorage
-        const storedData = sessionStorage.getItem("searchResults");
-        console.log("usePlatformData: Checking for stored data in sessionStorage");
+        // Load saved searches from the server, otherwise fall back to sessionStorage
+        let storedData: string | null;
+        if (searchId) {
+          console.log(`usePlatformData: Loading saved search ${searchId} from the server`);
+          const response = await apiRequest("GET", `/api/searches/${searchId}`);
+          storedData = await response.text();
+        } else {
+          storedData = sessionStorage.getItem("searchResults");
+          console.log("usePlatformData: Checking for stored data in sessionStorage");
+        }
         
         if (storedData) {
           // Use stored data if available
@@ -288,7 +313,11 @@ export default function usePlatformData(): UsePlatformDataResult {
     };
 
     fetchData();
-  }, [navigate]);
+  }, [navigate, searchId, jobId]);
+
+  if (jobId) {
+    return job;
+  }
 
-  return { data, isLoading, error };
+  return { data, isLoading, error, pendingPlatforms: [] };
 }
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import { DigitalFootprintResponse, FootprintSummary, Platform, SearchJobEvent } from "@shared/schema";
+
+interface UseSearchJobResult {
+  data: DigitalFootprintResponse | undefined;
+  isLoading: boolean;
+  error: Error | null;
+  // Platforms that have not finished yet
+  pendingPlatforms: Platform[];
+}
+
+// Summary shown until the first platform finishes
+const EMPTY_SUMMARY: FootprintSummary = {
+  exposureScore: 0,
+  platformsFound: 0,
+  totalContentItems: 0,
+  breakdownByType: { posts: 0, comments: 0, likes: 0, shares: 0 },
+  topInsights: [],
+  recommendations: [],
+};
+
+/**
+ * Follow a background search job, filling in platforms as they finish
+ * @param jobId The job to follow, or undefined to do nothing
+ */
+export default function useSearchJob(jobId: string | undefined): UseSearchJobResult {
+  const [data, setData] = useState<DigitalFootprintResponse>();
+  const [isLoading, setIsLoading] = useState(true);
+  const [error, setError] = useState<Error | null>(null);
+  const [pendingPlatforms, setPendingPlatforms] = useState<Platform[]>([]);
+
+  useEffect(() => {
+    if (!jobId) return;
+
+    const finishPlatform = (platform: Platform) => {
+      setPendingPlatforms(prev => prev.filter(p => p !== platform));
+    };
+
+    const source = new EventSource(`/api/search-jobs/${jobId}/events`, { withCredentials: true });
+
+    source.onmessage = (message) => {
+      const event = JSON.parse(message.data) as SearchJobEvent;
+
+      switch (event.type) {
+        case "job_started":
+          // Also sent first when reconnecting, so start again from scratch
+          setData({
+            username: event.username,
+            timestamp: new Date().toISOString(),
+            platforms: event.platforms,
+            platformData: [],
+            platformErrors: {},
+            summary: EMPTY_SUMMARY,
+          });
+          setPendingPlatforms(event.platforms);
+          setIsLoading(false);
+          break;
+
+        case "platform_completed":
+          setData(prev => prev && {
+            ...prev,
+            platformData: event.data ? [...prev.platformData, event.data] : prev.platformData,
+            summary: event.summary,
+          });
+          finishPlatform(event.platform);
+          break;
+
+        case "platform_failed":
+        case "platform_rate_limited":
+          setData(prev => prev && {
+            ...prev,
+            platformErrors: { ...prev.platformErrors, [event.platform]: event.error },
+          });
+          finishPlatform(event.platform);
+          break;
+
+        case "job_completed": {
+          const result = event.result;
+          if (result.platformData.length === 0) {
+            result.noDataMessage = "No data found for this username. The user may not exist or has no public data available.";
+          }
+          // Keep the results available for the plain /results page
+          sessionStorage.setItem("searchResults", JSON.stringify(result));
+          setData(result);
+          setPendingPlatforms([]);
+          source.close();
+          break;
+        }
+
+        case "job_failed":
+          setError(new Error(event.message));
+          setPendingPlatforms([]);
+          source.close();
+          break;
+      }
+    };
+
+    source.onerror = () => {
+      // EventSource reconnects by itself unless the server rejected the stream
+      if (source.readyState === EventSource.CLOSED) {
+        setError(new Error("This search is no longer available. Please search again."));
+        setIsLoading(false);
+      }
+    };
+
+    return () => source.close();
+  }, [jobId]);
+
+  return { data, isLoading, error, pendingPlatforms };
+}
@@ -220,32 +220,6 @@ export function generateSentimentTimeline(data: TimelineActivityData[]): Array<{
   });
 }
 
-// Get top locations from timeline data
-export function getTopLocations(data: TimelineActivityData[]): LocationData[] {
-  // Aggregate all location data
-  const locationMap = new Map<string, LocationData>();
-  
-  data.forEach(item => {
-    if (!item.locations) return;
-    
-    item.locations.forEach(loc => {
-      const key = `${loc.city || ""}|${loc.country || ""}`;
-      
-      if (locationMap.has(key)) {
-        const existing = locationMap.get(key)!;
-        existing.count += loc.count;
-      } else {
-        locationMap.set(key, { ...loc });
-      }
-    });
-  });
-  
-  // Convert to array and sort by count
-  return Array.from(locationMap.values())
-    .sort((a, b) => b.count - a.count)
-    .slice(0, 10); // Return top 10 locations
-}
-
 // Get topics trend over time
 export function getTopicsTrend(data: TimelineActivityData[]): Array<{
   period: string;
@@ -1,4 +1,4 @@
-import { Platform } from "@shared/schema";
+import { Platform, PlatformErrorCode } from "@shared/schema";
 import { TabItem } from "@/lib/types";
 
 export const AVAILABLE_PLATFORMS: Platform[] = [
@@ -7,6 +7,7 @@ export const AVAILABLE_PLATFORMS: Platform[] = [
   "reddit",
   "twitter",
   "linkedin",
+  "github",
   "all"
 ];
 
@@ -16,7 +17,8 @@ export const RESULT_TABS: TabItem[] = [
   { id: "timeline", label: "Interactive Timeline" },
   { id: "content", label: "Content Analysis" },
   { id: "connections", label: "Connections" },
-  { id: "recommendations", label: "Recommendations" }
+  { id: "recommendations", label: "Recommendations" },
+  { id: "changes", label: "Changes" }
 ];
 
 export const PAGE_TITLES = {
@@ -27,6 +29,7 @@ export const PAGE_TITLES = {
   settings: "Account Settings",
   history: "Search History",
   deletion: "Deletion Requests",
+  monitoring: "Monitoring",
   sparkle: "Sparkle Effect for Insights",
   help: "Help & Support"
 };
@@ -36,6 +39,7 @@ export const NAV_ITEMS = [
   { name: "Dashboard", path: "/", icon: "dashboard" },
   { name: "Recent Searches", path: "/history", icon: "history" },
   { name: "Deletion Requests", path: "/deletion", icon: "delete" },
+  { name: "Monitoring", path: "/monitoring", icon: "notifications" },
   { name: "Sparkle Effects", path: "/sparkle", icon: "auto_awesome" },
   { name: "Settings", path: "/settings", icon: "settings" }
 ];
@@ -51,6 +55,25 @@ export const ERROR_MESSAGES = {
   serverError: "Server error occurred. Please try again."
 };
 
+// Toast and banner titles for platform errors
+export const PLATFORM_ERROR_TITLES: Record<PlatformErrorCode, string> = {
+  PRIVACY_ERROR: "Private Account",
+  NOT_FOUND: "Account Not Found",
+  RATE_LIMITED: "API Rate Limited",
+  AUTH_ERROR: "API Authentication Issue",
+  PERMISSION_ERROR: "API Permission Issue",
+  ACCESS_BLOCKED: "Access Temporarily Blocked",
+  UNAVAILABLE: "API Unavailable",
+  API_ERROR: "API Issue"
+};
+
+// Platform errors that resolve on their own after a while
+export const TEMPORARY_PLATFORM_ERRORS: PlatformErrorCode[] = [
+  "RATE_LIMITED",
+  "ACCESS_BLOCKED",
+  "UNAVAILABLE"
+];
+
 export const SUCCESS_MESSAGES = {
   search: "Search completed successfully",
   deletion: "Deletion request submitted successfully",
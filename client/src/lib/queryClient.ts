@@ -1,4 +1,5 @@
 import { QueryClient, QueryFunction } from "@tanstack/react-query";
+import { PlatformErrorInfo, platformErrorInfoSchema } from "@shared/schema";
 
 async function throwIfResNotOk(res: Response) {
   if (!res.ok) {
@@ -7,6 +8,17 @@ async function throwIfResNotOk(res: Response) {
   }
 }
 
+// Extract the structured platform error from a failed API request, if the server sent one
+export function getPlatformErrorInfo(error: Error): PlatformErrorInfo | undefined {
+  const body = error.message.slice(error.message.indexOf(": ") + 2);
+  try {
+    const parsed = platformErrorInfoSchema.safeParse(JSON.parse(body).error);
+    return parsed.success ? parsed.data : undefined;
+  } catch {
+    return undefined;
+  }
+}
+
 export async function apiRequest(
   method: string, 
   url: string, 
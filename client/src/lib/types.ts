@@ -2,7 +2,8 @@ import {
   SearchQuery, 
   Platform, 
   PlatformData, 
-  DigitalFootprintResponse 
+  DigitalFootprintResponse,
+  InsightEvidence
 } from "@shared/schema";
 
 export interface PlatformCardProps {
@@ -44,6 +45,8 @@ export interface PricingCardProps {
 export interface InsightItem {
   insight: string;
   type: "info" | "warning";
+  // Content items the insight was derived from
+  evidence?: InsightEvidence[];
 }
 
 export interface StatCardProps {
@@ -1,11 +1,16 @@
 import { useEffect, useState } from "react";
-import { useQuery } from "@tanstack/react-query";
-import { apiRequest } from "@/lib/queryClient";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
 import { PlatformDeletionForm } from "@/components/deletion/platform-deletion-form";
+import { DeletionProgress } from "@/components/deletion/deletion-progress";
+import { DeletionPolicies } from "@/components/deletion/deletion-policies";
+import { LegalRequestForm } from "@/components/deletion/legal-request-form";
+import { LegalRequestProgress } from "@/components/deletion/legal-request-progress";
 import { Button } from "@/components/ui/button";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useAuth } from "@/hooks/use-auth";
+import { useToast } from "@/hooks/use-toast";
 import { useLocation } from "wouter";
 import { DeletionRequest, DeletionRequestDetails } from "@shared/schema";
 import { AlertCircle, Loader2, RefreshCcw, ShieldAlert } from "lucide-react";
@@ -19,6 +24,7 @@ export default function DeletionManagePage() {
   const [activeTab, setActiveTab] = useState("new-request");
   const { user, isLoading: isLoadingAuth } = useAuth();
   const [, setLocation] = useLocation();
+  const { toast } = useToast();
   
   // Redirect if not logged in
   useEffect(() => {
@@ -35,6 +41,23 @@ export default function DeletionManagePage() {
       return res.json() as Promise<DeletionRequest[]>;
     },
     enabled: !!user,
+    // Keep progress current while requests are moving through their steps
+    refetchInterval: (query) =>
+      query.state.data?.some(request => request.status === "pending" || request.status === "in_progress") ? 30000 : false,
+  });
+  
+  const cancelMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/deletion-requests/${id}/cancel`);
+      return res.json() as Promise<DeletionRequest>;
+    },
+    onSuccess: (request) => {
+      queryClient.invalidateQueries({ queryKey: ["/api/deletion-requests"] });
+      toast({ title: "Deletion request cancelled", description: `Request #${request.id} will not be processed further.` });
+    },
+    onError: (error: Error) => {
+      toast({ title: "Could not cancel", description: error.message, variant: "destructive" });
+    },
   });
   
   // Handle loading state
@@ -53,6 +76,7 @@ export default function DeletionManagePage() {
       case "in_progress": return "default";
       case "completed": return "outline";
       case "failed": return "destructive";
+      case "cancelled": return "outline";
       default: return "secondary";
     }
   };
@@ -79,7 +103,7 @@ export default function DeletionManagePage() {
         </div>
         
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2">
+          <TabsList className="grid w-full grid-cols-4">
             <TabsTrigger value="new-request">New Deletion Request</TabsTrigger>
             <TabsTrigger value="existing-requests">
               Existing Requests
@@ -89,6 +113,8 @@ export default function DeletionManagePage() {
                 </Badge>
               )}
             </TabsTrigger>
+            <TabsTrigger value="policies">Auto-deletion</TabsTrigger>
+            <TabsTrigger value="legal-request">Legal Request</TabsTrigger>
           </TabsList>
           
           <TabsContent value="new-request" className="space-y-6 pt-4">
@@ -136,7 +162,7 @@ export default function DeletionManagePage() {
                       <div className="flex justify-between items-start">
                         <div>
                           <CardTitle className="text-xl">
-                            Deletion Request #{request.id}
+                            {(request.details as DeletionRequestDetails | null)?.legalRequest ? "Legal" : "Deletion"} Request #{request.id}
                             <Badge 
                               variant={getStatusBadgeVariant(request.status)} 
                               className="ml-2"
@@ -148,73 +174,84 @@ export default function DeletionManagePage() {
                             Requested on {new Date(request.timestamp).toLocaleDateString()}
                           </CardDescription>
                         </div>
+                        {(request.status === "pending" || request.status === "in_progress") && (
+                          <Button
+                            variant="outline"
+                            size="sm"
+                            onClick={() => cancelMutation.mutate(request.id)}
+                            disabled={cancelMutation.isPending}
+                          >
+                            Cancel request
+                          </Button>
+                        )}
                       </div>
                     </CardHeader>
                     <CardContent className="pb-5">
-                      <div className="space-y-4">
-                        <div>
-                          <h4 className="text-sm font-medium mb-1">Platforms</h4>
-                          <div className="flex flex-wrap gap-2">
-                            {request.platforms.map((platform) => (
-                              <Badge key={platform} variant="outline" className="capitalize">
-                                {platform}
-                              </Badge>
-                            ))}
-                          </div>
-                        </div>
-                        
-                        <Separator />
-                        
-                        <div>
-                          <h4 className="text-sm font-medium mb-2">Progress</h4>
-                          <div className="space-y-2">
-                            <Progress 
-                              value={
-                                request.status === "completed" 
-                                  ? 100 
-                                  : request.status === "in_progress" 
-                                    ? 50 
-                                    : request.status === "pending" 
-                                      ? 10 
-                                      : 0
-                              } 
-                              className="h-2"
-                            />
-                            <p className="text-xs text-muted-foreground">
-                              {request.status === "completed" 
-                                ? "Your content has been deleted successfully." 
-                                : request.status === "in_progress" 
-                                  ? "Your deletion request is being processed." 
-                                  : request.status === "pending" 
-                                    ? "Your request is queued and waiting to be processed." 
-                                    : "There was an issue processing your request."}
-                            </p>
+                      {(request.details as DeletionRequestDetails | null)?.legalRequest ? (
+                        <LegalRequestProgress request={request} />
+                      ) : (
+                        <div className="space-y-4">
+                          <div>
+                            <h4 className="text-sm font-medium mb-1">Platforms</h4>
+                            <div className="flex flex-wrap gap-2">
+                              {request.platforms.map((platform) => (
+                                <Badge key={platform} variant="outline" className="capitalize">
+                                  {platform}
+                                </Badge>
+                              ))}
+                            </div>
                           </div>
-                        </div>
-                        
-                        {/* Render details section if details exist */}
-                        {request.details && (
-                          <>
-                            <Separator />
+                          
+                          <Separator />
+                          
+                          {(request.details as DeletionRequestDetails | null)?.workflow ? (
+                            <DeletionProgress request={request} />
+                          ) : (
                             <div>
-                              <h4 className="text-sm font-medium mb-1">Details</h4>
-                              <div className="bg-muted p-2 rounded-md text-xs font-mono overflow-auto max-h-32">
-                                <pre>
-                                  {typeof request.details === 'object' 
-                                    ? JSON.stringify(request.details as DeletionRequestDetails, null, 2)
-                                    : String(request.details) || "No details available"}
-                                </pre>
+                              <h4 className="text-sm font-medium mb-2">Progress</h4>
+                              <div className="space-y-2">
+                                <Progress 
+                                  value={
+                                    request.status === "completed" 
+                                      ? 100 
+                                      : request.status === "in_progress" 
+                                        ? 50 
+                                        : request.status === "pending" 
+                                          ? 10 
+                                          : 0
+                                  } 
+                                  className="h-2"
+                                />
+                                <p className="text-xs text-muted-foreground">
+                                  {request.status === "completed" 
+                                    ? "Your content has been deleted successfully." 
+                                    : request.status === "in_progress" 
+                                      ? "Your deletion request is being processed." 
+                                      : request.status === "pending" 
+                                        ? "Your request is queued and waiting to be processed." 
+                                        : request.status === "cancelled"
+                                          ? "You cancelled this request."
+                                          : "There was an issue processing your request."}
+                                </p>
                               </div>
                             </div>
-                          </>
-                        )}
-                      </div>
+                          )}
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 ))}
               </div>
             )}
           </TabsContent>
+          
+          <TabsContent value="policies" className="pt-4">
+            <DeletionPolicies />
+          </TabsContent>
+          
+          <TabsContent value="legal-request" className="pt-4">
+            <LegalRequestForm onCreated={() => setActiveTab("existing-requests")} />
+          </TabsContent>
         </Tabs>
       </div>
     </PageTransition>
@@ -0,0 +1,234 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { WatchedIdentityForm } from "@/components/monitoring/watched-identity-form";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { MonitoringAlert, WatchedIdentity } from "@shared/schema";
+import { Bell, Loader2, RefreshCcw, Trash2 } from "lucide-react";
+import { PageTransition } from "@/components/ui/page-transition";
+
+export default function MonitoringPage() {
+  const [activeTab, setActiveTab] = useState("alerts");
+  const { toast } = useToast();
+
+  const { data: alerts, isLoading: isLoadingAlerts } = useQuery({
+    queryKey: ["/api/monitoring/alerts"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/monitoring/alerts");
+      return res.json() as Promise<MonitoringAlert[]>;
+    },
+  });
+
+  const { data: identities, isLoading: isLoadingIdentities } = useQuery({
+    queryKey: ["/api/monitoring/identities"],
+    queryFn: async () => {
+      const res = await apiRequest("GET", "/api/monitoring/identities");
+      return res.json() as Promise<WatchedIdentity[]>;
+    },
+  });
+
+  const markReadMutation = useMutation({
+    mutationFn: async (alertId: number) => {
+      await apiRequest("POST", `/api/monitoring/alerts/${alertId}/read`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/alerts"] });
+    },
+  });
+
+  const toggleMutation = useMutation({
+    mutationFn: async ({ id, active }: { id: number, active: boolean }) => {
+      await apiRequest("PATCH", `/api/monitoring/identities/${id}`, { active });
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/identities"] });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: number) => {
+      await apiRequest("DELETE", `/api/monitoring/identities/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/identities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/alerts"] });
+    },
+  });
+
+  const scanMutation = useMutation({
+    mutationFn: async (id: number) => {
+      const res = await apiRequest("POST", `/api/monitoring/identities/${id}/scan`);
+      return res.json() as Promise<{ alerts: MonitoringAlert[] }>;
+    },
+    onSuccess: (data) => {
+      toast({
+        title: "Scan Complete",
+        description: `${data.alerts.length} new alert(s) raised.`,
+      });
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/identities"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/monitoring/alerts"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Scan Failed",
+        description: error.message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const unreadCount = alerts?.filter(alert => !alert.read).length || 0;
+
+  const getSeverityVariant = (severity: string): "default" | "destructive" | "outline" | "secondary" => {
+    switch (severity) {
+      case "high": return "destructive";
+      case "medium": return "default";
+      default: return "secondary";
+    }
+  };
+
+  return (
+    <PageTransition>
+      <div className="container max-w-6xl py-10">
+        <div className="mb-8">
+          <h1 className="text-3xl font-bold tracking-tight heading-gradient-vibrant">Monitoring</h1>
+          <p className="text-lg text-muted-foreground mt-1">
+            Keep watching your accounts and get alerted when your footprint changes
+          </p>
+        </div>
+
+        <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
+          <TabsList className="grid w-full grid-cols-2">
+            <TabsTrigger value="alerts">
+              Alerts
+              {unreadCount > 0 && (
+                <Badge variant="destructive" className="ml-2">{unreadCount}</Badge>
+              )}
+            </TabsTrigger>
+            <TabsTrigger value="identities">Watched Identities</TabsTrigger>
+          </TabsList>
+
+          <TabsContent value="alerts" className="pt-4">
+            {isLoadingAlerts ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : !alerts || alerts.length === 0 ? (
+              <Card>
+                <CardContent className="py-10 text-center">
+                  <div className="flex justify-center mb-4">
+                    <Bell className="h-12 w-12 text-muted-foreground" />
+                  </div>
+                  <h3 className="text-xl font-semibold mb-2">No Alerts</h3>
+                  <p className="text-muted-foreground">
+                    Alerts appear here when a monitoring scan finds a change matching your rules.
+                  </p>
+                </CardContent>
+              </Card>
+            ) : (
+              <div className="space-y-3">
+                {alerts.map(alert => (
+                  <Card key={alert.id} className={alert.read ? "opacity-70" : ""}>
+                    <CardContent className="p-4 flex items-start justify-between gap-4">
+                      <div>
+                        <div className="flex items-center gap-2 mb-1">
+                          <Badge variant={getSeverityVariant(alert.severity)} className="capitalize">
+                            {alert.severity}
+                          </Badge>
+                          {!alert.read && <Badge variant="outline">New</Badge>}
+                          <span className="text-xs text-muted-foreground">
+                            {new Date(alert.createdAt).toLocaleString()}
+                          </span>
+                        </div>
+                        <p>{alert.message}</p>
+                      </div>
+                      {!alert.read && (
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => markReadMutation.mutate(alert.id)}
+                          disabled={markReadMutation.isPending}
+                        >
+                          Mark as read
+                        </Button>
+                      )}
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            )}
+          </TabsContent>
+
+          <TabsContent value="identities" className="pt-4 space-y-6">
+            <WatchedIdentityForm />
+
+            {isLoadingIdentities ? (
+              <div className="flex justify-center p-8">
+                <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              </div>
+            ) : (
+              identities?.map(identity => (
+                <Card key={identity.id}>
+                  <CardHeader className="pb-3">
+                    <div className="flex justify-between items-start">
+                      <div>
+                        <CardTitle className="text-xl">{identity.label}</CardTitle>
+                        <CardDescription>
+                          Scanned {identity.cadence} ·{" "}
+                          {identity.lastRunAt
+                            ? `last scan ${new Date(identity.lastRunAt).toLocaleString()}`
+                            : "waiting for first scan"}
+                        </CardDescription>
+                      </div>
+                      <div className="flex items-center gap-2">
+                        <Switch
+                          checked={identity.active}
+                          onCheckedChange={active => toggleMutation.mutate({ id: identity.id, active })}
+                        />
+                        <Button
+                          variant="outline"
+                          size="sm"
+                          className="gap-2"
+                          onClick={() => scanMutation.mutate(identity.id)}
+                          disabled={scanMutation.isPending}
+                        >
+                          <RefreshCcw className="h-4 w-4" />
+                          Scan now
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => deleteMutation.mutate(identity.id)}
+                          disabled={deleteMutation.isPending}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </div>
+                  </CardHeader>
+                  <CardContent>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {identity.platformUsernames.map(pu => (
+                        <Badge key={`${pu.platform}:${pu.username}`} variant="outline">
+                          {pu.platform}: {pu.username}
+                        </Badge>
+                      ))}
+                    </div>
+                    <p className="text-sm text-muted-foreground">
+                      {identity.alertRules.length} alert rule(s)
+                    </p>
+                  </CardContent>
+                </Card>
+              ))
+            )}
+          </TabsContent>
+        </Tabs>
+      </div>
+    </PageTransition>
+  );
+}
@@ -1,16 +1,18 @@
-import { useEffect, useState } from "react";
+import { useEffect, useRef, useState } from "react";
 import { useLocation } from "wouter";
 import { DigitalFootprintResponse } from "@shared/schema";
-import { PAGE_TITLES } from "@/lib/constants";
+import { PAGE_TITLES, PLATFORM_ERROR_TITLES, TEMPORARY_PLATFORM_ERRORS } from "@/lib/constants";
 import { useToast } from "@/hooks/use-toast";
 import ResultsHeader from "@/components/results/results-header";
 import ResultsTabs from "@/components/results/results-tabs";
 import { Card, CardContent } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import usePlatformData from "@/hooks/use-platform-data";
+import { PLATFORM_CONFIG } from "@/lib/platform-icons";
+import { Loader2 } from "lucide-react";
 
 export default function Results() {
-  const { data, isLoading, error } = usePlatformData();
+  const { data, isLoading, error, pendingPlatforms } = usePlatformData();
   const [, navigate] = useLocation();
   const { toast } = useToast();
   
@@ -19,24 +21,32 @@ export default function Results() {
   console.log("Results page - isLoading:", isLoading);
   console.log("Results page - error:", error);
   
+  // Platforms whose errors have been shown, since errors of a running search arrive one at a time
+  const toastedErrors = useRef(new Set<string>());
+  
   // Show platform errors as toasts if present
   useEffect(() => {
     if (data?.platformErrors && Object.keys(data.platformErrors).length > 0) {
-      Object.entries(data.platformErrors).forEach(([platform, errorMessage]) => {
-        const isRateLimited = errorMessage.toLowerCase().includes('rate limit');
+      Object.entries(data.platformErrors).forEach(([platform, platformError]) => {
+        if (toastedErrors.current.has(platform)) return;
+        toastedErrors.current.add(platform);
+        
+        const isTemporary = TEMPORARY_PLATFORM_ERRORS.includes(platformError.code);
         toast({
-          title: `${platform.charAt(0).toUpperCase() + platform.slice(1)} API ${isRateLimited ? 'Rate Limited' : 'Issue'}`,
-          description: errorMessage + (isRateLimited ? ' This is temporary and will resolve shortly.' : ''),
-          variant: isRateLimited ? "warning" : "destructive",
-          duration: isRateLimited ? 8000 : 5000, // Show rate limit messages longer
+          title: `${platform.charAt(0).toUpperCase() + platform.slice(1)} ${PLATFORM_ERROR_TITLES[platformError.code]}`,
+          description: platformError.message + (isTemporary ? ' This is temporary and will resolve shortly.' : ''),
+          variant: isTemporary ? "warning" : "destructive",
+          duration: isTemporary ? 8000 : 5000, // Show temporary issues longer
         });
       });
     }
   }, [data, toast]);
   
   // Create a direct link to navigate to the timeline tab
+  const hasShownTimelineHint = useRef(false);
   useEffect(() => {
-    if (data && !isLoading) {
+    if (data && !isLoading && !hasShownTimelineHint.current) {
+      hasShownTimelineHint.current = true;
       toast({
         title: "Interactive Timeline Available",
         description: "Click on the 'Interactive Timeline' tab to explore the animated timeline view",
@@ -176,14 +186,19 @@ export default function Results() {
                 <div>
                   <h3 className="text-amber-800 font-semibold mb-2 text-lg">Platform API Limitations Detected</h3>
                   <ul className="list-disc pl-5 space-y-2">
-                    {Object.entries(data.platformErrors).map(([platform, errorMessage]) => {
-                      const isRateLimited = errorMessage.toLowerCase().includes('rate limit');
+                    {Object.entries(data.platformErrors).map(([platform, platformError]) => {
+                      const isTemporary = TEMPORARY_PLATFORM_ERRORS.includes(platformError.code);
                       return (
-                        <li key={platform} className={`${isRateLimited ? 'text-orange-700' : 'text-amber-700'}`}>
-                          <span className="font-medium">{platform.charAt(0).toUpperCase() + platform.slice(1)}:</span> {errorMessage}
-                          {isRateLimited && (
+                        <li key={platform} className={`${isTemporary ? 'text-orange-700' : 'text-amber-700'}`}>
+                          <span className="font-medium">{platform.charAt(0).toUpperCase() + platform.slice(1)}:</span> {platformError.message}
+                          {isTemporary && (
                             <div className="mt-1 text-sm text-gray-600">
-                              <p>⚠️ This is a temporary condition. The service will be available again shortly.</p>
+                              <p>
+                                ⚠️ This is a temporary condition. The service will be available again
+                                {platformError.retryAfter
+                                  ? ` in about ${Math.max(1, Math.ceil(platformError.retryAfter / 60))} minute(s).`
+                                  : ' shortly.'}
+                              </p>
                               <p className="mt-1">We've implemented caching and automatic retries to minimize these interruptions.</p>
                             </div>
                           )}
@@ -194,7 +209,7 @@ export default function Results() {
                   <p className="text-amber-600 mt-3 font-medium">
                     Some data may be incomplete or unavailable due to these limitations.
                   </p>
-                  {Object.values(data.platformErrors).some(err => err.toLowerCase().includes('rate limit')) && (
+                  {Object.values(data.platformErrors).some(err => err.code === 'RATE_LIMITED') && (
                     <div className="mt-3 p-3 bg-blue-50 border border-blue-200 rounded-md">
                       <p className="text-blue-700 font-medium">About Rate Limiting</p>
                       <p className="text-blue-600 text-sm mt-1">
@@ -208,6 +223,16 @@ export default function Results() {
             </div>
           )}
           
+          {pendingPlatforms.length > 0 && (
+            <div className="mb-6 p-4 border border-indigo-200 rounded-lg bg-indigo-50 flex items-center">
+              <Loader2 className="h-5 w-5 animate-spin text-indigo-500 mr-3 flex-shrink-0" />
+              <p className="text-indigo-700">
+                Still searching {pendingPlatforms.map(platform => PLATFORM_CONFIG[platform]?.name ?? platform).join(", ")}.
+                Results appear below as each platform finishes.
+              </p>
+            </div>
+          )}
+          
           <ResultsTabs data={data} isLoading={isLoading} />
           
           <div className="bg-gradient-to-r from-purple-100 to-blue-100 rounded-lg p-8 mb-8 shadow-sm">
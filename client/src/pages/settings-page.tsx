@@ -4,6 +4,7 @@ import { useAuth } from "@/hooks/use-auth";
 import { Redirect } from "wouter";
 import { Loader2 } from "lucide-react";
 import InstagramOAuthCard from "@/components/settings/InstagramOAuthCard";
+import ArchiveImportCard from "@/components/settings/ArchiveImportCard";
 
 export default function SettingsPage() {
   const { user, isLoading } = useAuth();
@@ -64,6 +65,7 @@ export default function SettingsPage() {
 
         <TabsContent value="integration" className="space-y-6">
           <InstagramOAuthCard />
+          <ArchiveImportCard />
           
           {/* Placeholder for future integrations */}
           <div className="bg-muted/30 border border-dashed rounded-lg p-8 text-center">
@@ -0,0 +1,38 @@
+import pg from 'pg';
+import { drizzle, type NodePgDatabase } from 'drizzle-orm/node-postgres';
+import * as schema from '@shared/schema';
+
+/**
+ * Database connection for the Postgres storage backend
+ *
+ * The pool is created on first use so that the in-memory backend can run
+ * without DATABASE_URL being set. Uses node-postgres so the same code works
+ * against a hosted database and a local Postgres instance.
+ */
+let pool: pg.Pool | null = null;
+let db: NodePgDatabase<typeof schema> | null = null;
+
+/**
+ * Get the shared connection pool, creating it if needed
+ * @returns The Postgres connection pool
+ */
+export function getPool(): pg.Pool {
+  if (!pool) {
+    if (!process.env.DATABASE_URL) {
+      throw new Error("DATABASE_URL must be set to use the Postgres storage backend");
+    }
+    pool = new pg.Pool({ connectionString: process.env.DATABASE_URL });
+  }
+  return pool;
+}
+
+/**
+ * Get the Drizzle database instance bound to the shared pool
+ * @returns Drizzle database with the application schema
+ */
+export function getDb(): NodePgDatabase<typeof schema> {
+  if (!db) {
+    db = drizzle(getPool(), { schema });
+  }
+  return db;
+}
@@ -6,10 +6,19 @@ import {
   SearchQuery, 
   searchQuerySchema,
   searchQuerySchemaWithValidation,
-  Platform, 
+  usernameDiscoveryQuerySchema,
   platformEnum, 
   insertUserSchema,
-  insertDeletionRequestSchema
+  insertDeletionRequestSchema,
+  deletionOptionsSchema,
+  deletionItemSchema,
+  DeletionRequestDetails,
+  insertWatchedIdentitySchema,
+  insertDeletionPolicySchema,
+  deletionPolicyConditionsSchema,
+  legalRequestTypeEnum,
+  maxArchiveUploadMb,
+  PlatformErrorCode
 } from "@shared/schema";
 import { ZodError, z } from "zod";
 import { fromZodError } from "zod-validation-error";
@@ -17,6 +26,23 @@ import { login, logout, register, getCurrentUser } from "./auth";
 import { requireAuth, loadUser, requireOwnership } from "./middleware/auth";
 import { setupSession, trackActivity } from "./middleware/session";
 import Stripe from "stripe";
+import { randomBytes } from "crypto";
+import { PlatformError } from "./services/platform-errors";
+import { ArchiveImportError } from "./services/archive-import";
+import { DeletionWorkflowError } from "./services/deletion-workflow";
+import { LegalRequestError } from "./services/legal-requests";
+
+// HTTP status returned for each platform error code
+const platformErrorStatusCodes: Record<PlatformErrorCode, number> = {
+  PRIVACY_ERROR: 403,
+  NOT_FOUND: 404,
+  RATE_LIMITED: 429,
+  AUTH_ERROR: 401,
+  PERMISSION_ERROR: 403,
+  ACCESS_BLOCKED: 503,
+  UNAVAILABLE: 503,
+  API_ERROR: 502,
+};
 
 export async function registerRoutes(app: Express): Promise<Server> {
   // Set up Stripe
@@ -45,41 +71,35 @@ export async function registerRoutes(app: Express): Promise<Server> {
       });
     }
     
-    // Handle specific platform API error types
-    const errorMessage = err instanceof Error ? err.message : String(err);
-    
-    // Rate limiting errors
-    if (errorMessage.includes('RATE_LIMITED') || errorMessage.includes('rate limit exceeded')) {
-      return res.status(429).json({ 
-        message: "Rate limit exceeded", 
-        error: errorMessage 
+    // Handle typed platform API errors
+    if (err instanceof PlatformError) {
+      const status = platformErrorStatusCodes[err.code];
+      if (err.retryAfter !== undefined) {
+        res.setHeader('Retry-After', String(err.retryAfter));
+      }
+      return res.status(status).json({ 
+        message: err.userMessage, 
+        error: err.toJSON() 
       });
     }
     
-    // Authentication errors
-    if (errorMessage.includes('AUTH_ERROR') || errorMessage.includes('authentication failed')) {
-      return res.status(401).json({ 
-        message: "API authentication error", 
-        error: errorMessage 
-      });
+    // Uploaded archives that could not be imported
+    if (err instanceof ArchiveImportError) {
+      return res.status(400).json({ message: err.message });
     }
     
-    // Permission errors
-    if (errorMessage.includes('PERMISSION_ERROR') || errorMessage.includes('permission')) {
-      return res.status(403).json({ 
-        message: "API permission error", 
-        error: errorMessage 
-      });
+    // Deletion actions that don't fit the request's state
+    if (err instanceof DeletionWorkflowError) {
+      return res.status(409).json({ message: err.message });
     }
     
-    // Not found errors
-    if (errorMessage.includes('NOT_FOUND') || errorMessage.includes('not found')) {
-      return res.status(404).json({ 
-        message: "Resource not found", 
-        error: errorMessage 
-      });
+    // Legal request actions that don't fit the letter's state
+    if (err instanceof LegalRequestError) {
+      return res.status(409).json({ message: err.message });
     }
     
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    
     // Log the full error for debugging
     console.error("API Error:", err);
     
@@ -96,107 +116,37 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Parse and validate the search query using the enhanced schema with validation
       const searchQuery = searchQuerySchemaWithValidation.parse(req.body);
       
-      // Check platform API status first to identify issues before processing the search
-      // Import platform API service to check API status
-      const { platformApi } = await import('./services/platform-api');
-      const platformStatus = await platformApi.getPlatformStatus();
-      
-      // Identify platforms with operational issues
-      const platformErrors: Record<string, string> = {};
-      const platformsToSearch = searchQuery.platforms.includes("all") 
-        ? ["instagram", "twitter", "reddit", "facebook", "linkedin"] as Platform[]
-        : searchQuery.platforms;
-      
-      // Check each platform status
-      for (const platform of platformsToSearch) {
-        // Skip platforms that don't have a specific API integration yet
-        if (!platformStatus[platform]) continue;
-        
-        // For Twitter specifically, check operational status
-        if (platform === "twitter" && platformStatus.twitter) {
-          // Type safety handling for Twitter status
-          const twitterStatus = platformStatus.twitter as unknown as { 
-            configured: boolean; 
-            operational: boolean; 
-            message: string 
-          };
-          
-          console.log("Twitter API status:", twitterStatus);
-          
-          // Always add Twitter error message if available, even if the API is operational
-          // This ensures errors like rate limiting are captured
-          if (twitterStatus.message && twitterStatus.message !== 'Twitter API configured and operational.') {
-            console.log("Adding Twitter error:", twitterStatus.message);
-            platformErrors.twitter = twitterStatus.message;
-          }
-        }
-        
-        // For other platforms, check their available status
-        else if (platformStatus[platform]) {
-          // Type safety handling for other platform status formats
-          const platformInfo = platformStatus[platform] as unknown as { 
-            available?: boolean; 
-            configured?: boolean;
-            operational?: boolean;
-            message: string 
-          };
-
-          console.log(`${platform} API status:`, platformInfo);
-
-          if ((platformInfo.available === false) || 
-              (platformInfo.configured === false) || 
-              (platformInfo.operational === false)) {
-            console.log(`Adding ${platform} error:`, platformInfo.message);
-            platformErrors[platform] = platformInfo.message;
-          }
-        }
-      }
-      
-      // Log all platform errors found
-      console.log("All platform errors collected:", platformErrors);
-      
-      // Process the search and get digital footprint data
-      const result = await storage.aggregateDigitalFootprint(searchQuery);
-      
-      // Merge the API status errors with any platform errors found during fetching
-      console.log("Platform errors from API status:", platformErrors);
-      console.log("Platform errors from result:", result.platformErrors);
+      // Process the search and get digital footprint data, saving it to history if the user is authenticated
+      const { searchJobs } = await import('./services/search-jobs');
+      const result = await searchJobs.runSearch(searchQuery, req.session?.userId ?? undefined);
       
-      // Create a merged platform errors object
-      // Ensure both objects are initialized before spreading
-      const resultPlatformErrors = result.platformErrors || {};
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Start a search in the background and return its job ID immediately
+  apiRouter.post("/search-jobs", async (req: Request, res: Response) => {
+    try {
+      const searchQuery = searchQuerySchemaWithValidation.parse(req.body);
       
-      // Log platform errors before merging
-      console.log("Platform errors from API route:", platformErrors);
-      console.log("Platform errors from aggregate function:", resultPlatformErrors);
+      const { searchJobs } = await import('./services/search-jobs');
+      const job = searchJobs.createJob(searchQuery, req.session?.userId ?? undefined);
       
-      const mergedPlatformErrors = {
-        ...resultPlatformErrors,
-        ...platformErrors
-      };
+      return res.status(202).json({ jobId: job.id });
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Look for accounts under variants of a username before searching
+  apiRouter.post("/search/discover", async (req: Request, res: Response) => {
+    try {
+      const query = usernameDiscoveryQuerySchema.parse(req.body);
       
-      // Debug what we're actually sending
-      console.log("Merged platform errors to return:", mergedPlatformErrors);
-      
-      // Update the result with the merged errors
-      // Always include platform errors in the result, even if empty object
-      result.platformErrors = mergedPlatformErrors;
-      
-      // Determine username to save in history
-      const usernameForHistory = searchQuery.username || 
-        (searchQuery.platformUsernames && searchQuery.platformUsernames.length > 0 ? 
-          searchQuery.platformUsernames.map((pu: { platform: Platform, username: string }) => 
-            `${pu.platform}:${pu.username}`).join(', ') : 
-          "unknown");
-      
-      // Save the search to history (if user is authenticated)
-      if (req.session?.userId) {
-        await storage.saveSearch({
-          userId: req.session.userId,
-          username: usernameForHistory,
-          platforms: searchQuery.platforms,
-        });
-      }
+      const { usernameDiscovery } = await import('./services/username-discovery');
+      const result = await usernameDiscovery.discover(query);
       
       return res.json(result);
     } catch (err) {
@@ -204,6 +154,43 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Stream the progress of a search job as Server-Sent Events
+  apiRouter.get("/search-jobs/:id/events", async (req: Request, res: Response) => {
+    const { searchJobs } = await import('./services/search-jobs');
+    const job = searchJobs.getJob(req.params.id);
+    
+    // Jobs started by a logged-in user are only visible to that user
+    if (!job || (job.userId && job.userId !== req.session?.userId)) {
+      return res.status(404).json({ message: "Search job not found" });
+    }
+    
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      "Connection": "keep-alive",
+    });
+    
+    // Keep idle connections open while slow platforms are fetched
+    const keepAlive = setInterval(() => res.write(": keep-alive\n\n"), 15000);
+    
+    let unsubscribe = () => {};
+    const close = () => {
+      clearInterval(keepAlive);
+      unsubscribe();
+    };
+    
+    unsubscribe = searchJobs.subscribe(job, event => {
+      res.write(`data: ${JSON.stringify(event)}\n\n`);
+      
+      if (event.type === "job_completed" || event.type === "job_failed") {
+        close();
+        res.end();
+      }
+    });
+    
+    req.on("close", close);
+  });
+  
   // Get subscription plans
   apiRouter.get("/plans", async (_req: Request, res: Response) => {
     try {
@@ -236,6 +223,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
       }
       
       // Parse and validate the deletion request with proper security measures
+      const platforms = z.array(platformEnum).min(1).parse(req.body.platforms);
+      const { deletionWorkflow } = await import('./services/deletion-workflow');
+      const workflow = deletionWorkflow.createWorkflow(
+        platforms.map(platform => ({ platform, username: req.body.username || user.username })),
+        deletionOptionsSchema.parse({})
+      );
       const deletionRequest = insertDeletionRequestSchema.parse({
         ...req.body,
         // Always use the session userId to prevent spoofing
@@ -245,20 +238,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           reason: req.body.reason || "User requested deletion via authenticated session",
           requestedAt: new Date().toISOString(),
           ipAddress: req.ip,
-          userAgent: req.headers["user-agent"]
+          userAgent: req.headers["user-agent"],
+          workflow
         }
       });
       
       // Log the deletion request (for audit/compliance purposes)
       console.log(`Deletion request initiated by user ${user.username} (ID: ${user.id}) for platforms: ${deletionRequest.platforms.join(", ")}`);
       
-      // Create the deletion request
-      const result = await storage.createDeletionRequest(deletionRequest);
-      
-      // In a production environment, you might also want to:
-      // 1. Send confirmation email to the user's verified email address
-      // 2. Trigger appropriate workflows for each platform
-      // 3. Update user record with deletion request status
+      // Create the deletion request and run its first steps
+      const created = await storage.createDeletionRequest(deletionRequest);
+      const result = (await deletionWorkflow.advance(created.id)) ?? created;
       
       return res.status(201).json(result);
     } catch (err) {
@@ -272,17 +262,12 @@ export async function registerRoutes(app: Express): Promise<Server> {
   
   // Platform-specific deletion request schema
   const platformDeletionSchema = z.object({
-    platform: platformEnum,
+    platform: platformEnum.exclude(["all"]),
     username: z.string().min(1, "Username is required"),
-    options: z.object({
-      deleteAll: z.boolean().optional().default(false),
-      deleteTweets: z.boolean().optional().default(false),
-      deleteComments: z.boolean().optional().default(false),
-      deleteLikes: z.boolean().optional().default(false)
-    })
+    options: deletionOptionsSchema
   });
   
-  // Handle platform-specific deletion through integrated APIs
+  // Delete from one platform, through its API where it has one
   apiRouter.post("/platform-deletion", requireAuth, async (req: Request, res: Response) => {
     try {
       const user = await storage.getUser(req.session!.userId!);
@@ -296,61 +281,87 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Validate the request data
       const requestData = platformDeletionSchema.parse(req.body);
       
-      // Check that the username matches the authenticated user or their OAuth-connected accounts
-      // In a real app, you would check the user's connected accounts here
+      // The workflow verifies ownership through the account's bio before deleting anything
+      const { deletionWorkflow } = await import('./services/deletion-workflow');
+      const workflow = deletionWorkflow.createWorkflow(
+        [{ platform: requestData.platform, username: requestData.username }],
+        requestData.options
+      );
       
-      // Platform-specific handling
-      if (requestData.platform === 'twitter') {
-        // Import the Twitter API service (lazy loading to avoid circular dependency)
-        const { twitterApi } = await import('./services/twitter-api');
-        
-        // Process the deletion request
-        const result = await twitterApi.requestDataDeletion(
-          requestData.username,
-          requestData.options
-        );
-        
-        if (result.success) {
-          // Log the successful request to the database
-          const deletionRequest = await storage.createDeletionRequest({
-            userId: req.session!.userId!,
-            platforms: [requestData.platform],
-            status: 'in_progress',
-            details: {
-              requestType: 'platform_api',
-              username: requestData.username,
-              options: requestData.options,
-              requestId: result.requestId,
-              message: result.message,
-              requestedAt: new Date().toISOString()
-            }
-          });
-          
-          return res.status(200).json({
-            success: true,
-            message: result.message,
-            requestId: result.requestId,
-            deletionId: deletionRequest.id
-          });
-        } else {
-          return res.status(400).json({
-            success: false,
-            message: result.message
-          });
+      const created = await storage.createDeletionRequest({
+        userId: req.session!.userId!,
+        platforms: [requestData.platform],
+        details: {
+          requestType: 'platform_api',
+          requestedAt: new Date().toISOString(),
+          workflow
         }
-      } else {
-        // For other platforms (to be implemented)
-        return res.status(400).json({
-          success: false,
-          message: `Deletion from ${requestData.platform} is not yet supported through our API integration`
-        });
-      }
+      });
+      const deletionRequest = (await deletionWorkflow.advance(created.id)) ?? created;
+      
+      // Connected accounts are verified straight away; others need the code in their bio
+      const progress = (deletionRequest.details as DeletionRequestDetails).workflow?.platforms[0];
+      const needsCode = progress?.step === 'verify_ownership';
+      
+      return res.status(201).json({
+        success: true,
+        message: needsCode
+          ? `Deletion request created. Add ${workflow.verificationCode} to your profile bio so we can verify you own ${requestData.username}.`
+          : "Deletion request created.",
+        verificationCode: needsCode ? workflow.verificationCode : undefined,
+        deletionId: deletionRequest.id
+      });
     } catch (err) {
       // Use the comprehensive API error handler
       return handleApiError(err, res);
     }
   });
   
+  // Items picked from the Content tab, grouped by platform
+  const itemDeletionSchema = z.object({
+    platforms: z.array(z.object({
+      platform: platformEnum.exclude(["all"]),
+      username: z.string().min(1, "Username is required"),
+      items: z.array(deletionItemSchema).min(1, "Select at least one item")
+    })).min(1)
+  });
+  
+  // Delete selected items, tracked one by one through the workflow
+  apiRouter.post("/item-deletion", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const requestData = itemDeletionSchema.parse(req.body);
+      
+      const { deletionWorkflow } = await import('./services/deletion-workflow');
+      const workflow = deletionWorkflow.createWorkflow(requestData.platforms, deletionOptionsSchema.parse({}));
+      
+      const created = await storage.createDeletionRequest({
+        userId: req.session!.userId!,
+        platforms: requestData.platforms.map(({ platform }) => platform),
+        details: {
+          requestType: 'items',
+          requestedAt: new Date().toISOString(),
+          workflow
+        }
+      });
+      const deletionRequest = (await deletionWorkflow.advance(created.id)) ?? created;
+      
+      const needsCode = (deletionRequest.details as DeletionRequestDetails).workflow?.platforms
+        .some(progress => progress.step === 'verify_ownership' && progress.status !== 'failed');
+      const count = requestData.platforms.reduce((sum, { items }) => sum + items.length, 0);
+      
+      return res.status(201).json({
+        success: true,
+        message: needsCode
+          ? `Deletion of ${count} item${count === 1 ? '' : 's'} requested. Add ${workflow.verificationCode} to your profile bio so we can verify you own the accounts.`
+          : `Deletion of ${count} item${count === 1 ? '' : 's'} requested.`,
+        verificationCode: needsCode ? workflow.verificationCode : undefined,
+        deletionId: deletionRequest.id
+      });
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
   // Get status of connected platform APIs
   apiRouter.get("/platform-api-status", requireAuth, async (_req: Request, res: Response) => {
     try {
@@ -364,6 +375,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const { cacheService } = await import('./services/cache-service');
       const { rateLimiters } = await import('./services/rate-limiter');
       
+      const { analysis } = await import('./services/analysis-provider');
+      
       const cacheStats = cacheService.platformData.getStats();
       const instagramRateLimits = rateLimiters.instagram.getStats();
       
@@ -392,6 +405,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           })()
         },
         system: {
+          analysis: await analysis.getStatus(),
           cache: {
             size: cacheStats.size,
             maxSize: cacheStats.maxSize,
@@ -568,6 +582,63 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Get a saved search with its platform snapshots
+  apiRouter.get("/searches/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const searchId = parseInt(req.params.id, 10);
+      if (isNaN(searchId)) {
+        return res.status(400).json({ message: "Invalid search ID" });
+      }
+      
+      // Only the user who ran the search may load it
+      const search = await storage.getSearchById(searchId);
+      if (!search || search.userId !== req.session!.userId!) {
+        return res.status(404).json({ message: "Search not found" });
+      }
+      
+      const result = await storage.getSearchResults(searchId);
+      
+      return res.json(result);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to fetch search" });
+    }
+  });
+  
+  // Compare two saved searches to see what changed between scans
+  apiRouter.get("/footprints/diff", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const fromId = parseInt(String(req.query.from), 10);
+      const toId = parseInt(String(req.query.to), 10);
+      if (isNaN(fromId) || isNaN(toId)) {
+        return res.status(400).json({ message: "Both 'from' and 'to' search IDs are required" });
+      }
+      
+      // Both searches must belong to the current user
+      const [fromSearch, toSearch] = await Promise.all([
+        storage.getSearchById(fromId),
+        storage.getSearchById(toId)
+      ]);
+      if (!fromSearch || fromSearch.userId !== req.session!.userId! ||
+          !toSearch || toSearch.userId !== req.session!.userId!) {
+        return res.status(404).json({ message: "Search not found" });
+      }
+      
+      const [fromResults, toResults] = await Promise.all([
+        storage.getSearchResults(fromId),
+        storage.getSearchResults(toId)
+      ]);
+      
+      // Import the diff service lazily to avoid circular dependencies
+      const { footprintDiff } = await import('./services/footprint-diff');
+      
+      return res.json(footprintDiff.diff(fromResults!, toResults!));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to compare searches" });
+    }
+  });
+  
   // Get deletion requests for current user
   apiRouter.get("/deletion-requests", requireAuth, async (req: Request, res: Response) => {
     try {
@@ -580,6 +651,402 @@ export async function registerRoutes(app: Express): Promise<Server> {
       return res.status(500).json({ message: "Failed to fetch deletion requests" });
     }
   });
+  
+  const getOwnedDeletionRequest = async (req: Request, res: Response) => {
+    const requestId = parseInt(req.params.id, 10);
+    const request = isNaN(requestId) ? undefined : await storage.getDeletionRequestById(requestId);
+    if (!request || request.userId !== req.session!.userId!) {
+      res.status(404).json({ message: "Deletion request not found" });
+      return undefined;
+    }
+    return request;
+  };
+  
+  // A deletion request with its per-platform progress and event history
+  apiRouter.get("/deletion-requests/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await getOwnedDeletionRequest(req, res);
+      if (!request) return;
+      
+      return res.json(request);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.post("/deletion-requests/:id/cancel", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await getOwnedDeletionRequest(req, res);
+      if (!request) return;
+      
+      const { deletionWorkflow } = await import('./services/deletion-workflow');
+      const result = await deletionWorkflow.cancel(request);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Confirm that content was deleted by hand on a platform, which starts the re-scan
+  apiRouter.post("/deletion-requests/:id/confirm", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await getOwnedDeletionRequest(req, res);
+      if (!request) return;
+      
+      const { platform } = z.object({ platform: platformEnum }).parse(req.body);
+      const { deletionWorkflow } = await import('./services/deletion-workflow');
+      const result = await deletionWorkflow.confirm(request, platform);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+
+  // Monitoring: watched identities re-scanned on a schedule, with alert rules
+  const watchedIdentityUpdateSchema = insertWatchedIdentitySchema.omit({ userId: true }).partial();
+  
+  // Load a watched identity owned by the current user, or send a 404
+  const getOwnedWatchedIdentity = async (req: Request, res: Response) => {
+    const identityId = parseInt(req.params.id, 10);
+    const identity = isNaN(identityId) ? undefined : await storage.getWatchedIdentityById(identityId);
+    if (!identity || identity.userId !== req.session!.userId!) {
+      res.status(404).json({ message: "Watched identity not found" });
+      return undefined;
+    }
+    return identity;
+  };
+  
+  apiRouter.get("/monitoring/identities", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const identities = await storage.getWatchedIdentitiesByUser(req.session!.userId!);
+      return res.json(identities);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to fetch watched identities" });
+    }
+  });
+  
+  apiRouter.post("/monitoring/identities", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const identity = insertWatchedIdentitySchema.parse({
+        ...req.body,
+        // Always use the session userId to prevent spoofing
+        userId: req.session!.userId!
+      });
+      
+      const result = await storage.createWatchedIdentity(identity);
+      return res.status(201).json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.patch("/monitoring/identities/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const identity = await getOwnedWatchedIdentity(req, res);
+      if (!identity) return;
+      
+      const updates = watchedIdentityUpdateSchema.parse(req.body);
+      const result = await storage.updateWatchedIdentity(identity.id, updates);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.delete("/monitoring/identities/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const identity = await getOwnedWatchedIdentity(req, res);
+      if (!identity) return;
+      
+      await storage.deleteWatchedIdentity(identity.id);
+      return res.status(204).end();
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Run a monitoring scan immediately instead of waiting for the cadence
+  apiRouter.post("/monitoring/identities/:id/scan", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const identity = await getOwnedWatchedIdentity(req, res);
+      if (!identity) return;
+      
+      const { monitoringScheduler } = await import('./services/monitoring-scheduler');
+      const alerts = await monitoringScheduler.runScan(identity);
+      return res.json({ alerts });
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.get("/monitoring/alerts", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const alerts = await storage.getMonitoringAlertsByUser(req.session!.userId!);
+      return res.json(alerts);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to fetch alerts" });
+    }
+  });
+  
+  apiRouter.post("/monitoring/alerts/:id/read", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const alertId = parseInt(req.params.id, 10);
+      const alerts = await storage.getMonitoringAlertsByUser(req.session!.userId!);
+      if (!alerts.some(alert => alert.id === alertId)) {
+        return res.status(404).json({ message: "Alert not found" });
+      }
+      
+      const result = await storage.markMonitoringAlertRead(alertId);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+
+  // Deletion policies: standing rules applied to every monitoring scan
+  const deletionPolicyUpdateSchema = insertDeletionPolicySchema.omit({ userId: true }).partial();
+  
+  // Load a deletion policy owned by the current user, or send a 404
+  const getOwnedDeletionPolicy = async (req: Request, res: Response) => {
+    const policyId = parseInt(req.params.id, 10);
+    const policy = isNaN(policyId) ? undefined : await storage.getDeletionPolicyById(policyId);
+    if (!policy || policy.userId !== req.session!.userId!) {
+      res.status(404).json({ message: "Deletion policy not found" });
+      return undefined;
+    }
+    return policy;
+  };
+  
+  apiRouter.get("/deletion-policies", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const policies = await storage.getDeletionPoliciesByUser(req.session!.userId!);
+      return res.json(policies);
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to fetch deletion policies" });
+    }
+  });
+  
+  apiRouter.post("/deletion-policies", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const policy = insertDeletionPolicySchema.parse({
+        ...req.body,
+        // Always use the session userId to prevent spoofing
+        userId: req.session!.userId!
+      });
+      
+      const result = await storage.createDeletionPolicy(policy);
+      return res.status(201).json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.patch("/deletion-policies/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const policy = await getOwnedDeletionPolicy(req, res);
+      if (!policy) return;
+      
+      const updates = deletionPolicyUpdateSchema.parse(req.body);
+      const result = await storage.updateDeletionPolicy(policy.id, updates);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.delete("/deletion-policies/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const policy = await getOwnedDeletionPolicy(req, res);
+      if (!policy) return;
+      
+      await storage.deleteDeletionPolicy(policy.id);
+      return res.status(204).end();
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // How many more items policies can queue this month
+  apiRouter.get("/deletion-policies/quota", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { deletionPolicies } = await import('./services/deletion-policies');
+      const quota = await deletionPolicies.getQuota(req.session!.userId!);
+      return res.json(quota);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // One of the user's saved searches, or their latest one if no ID is given
+  const findUserSearch = async (userId: number, searchId?: number) => {
+    const searches = await storage.getSearchHistoryByUser(userId);
+    return searchId !== undefined
+      ? searches.find(s => s.id === searchId)
+      : searches.reduce<typeof searches[number] | undefined>((latest, s) => !latest || s.id > latest.id ? s : latest, undefined);
+  };
+  
+  // Dry run: what policies would queue from a saved search, the latest one by default.
+  // Previews the given conditions if there are any, otherwise the user's active policies.
+  const deletionPolicyPreviewSchema = z.object({
+    searchId: z.number().int().optional(),
+    conditions: deletionPolicyConditionsSchema.optional()
+  });
+  
+  apiRouter.post("/deletion-policies/preview", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session!.userId!;
+      const { searchId, conditions } = deletionPolicyPreviewSchema.parse(req.body);
+      
+      const search = await findUserSearch(userId, searchId);
+      if (!search) {
+        return res.status(404).json({ message: searchId !== undefined ? "Search not found" : "Run a search first to preview your policies" });
+      }
+      
+      const snapshot = await storage.getSearchResults(search.id);
+      if (!snapshot) {
+        return res.status(404).json({ message: "Search not found" });
+      }
+      
+      const policies = conditions
+        ? [{ id: null, conditions }]
+        : (await storage.getDeletionPoliciesByUser(userId)).filter(policy => policy.active);
+      
+      const { deletionPolicies } = await import('./services/deletion-policies');
+      const preview = await deletionPolicies.preview(userId, policies, { ...snapshot, searchId: search.id });
+      return res.json(preview);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+
+  // Formal GDPR/CCPA request letters, for recipients with no deletion API
+  apiRouter.get("/legal-requests/recipients", requireAuth, async (_req: Request, res: Response) => {
+    try {
+      const { LEGAL_RECIPIENTS } = await import('./services/legal-requests');
+      return res.json(LEGAL_RECIPIENTS.map(({ note, ...recipient }) => recipient));
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Generate a letter, filled in from the account and a saved search (the latest by default)
+  const legalRequestCreateSchema = z.object({
+    recipientId: z.string().min(1),
+    type: legalRequestTypeEnum,
+    fullName: z.string().max(200).optional(),
+    postalAddress: z.string().max(500).optional(),
+    searchId: z.number().int().optional()
+  });
+  
+  apiRouter.post("/legal-requests", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const userId = req.session!.userId!;
+      const { searchId, ...input } = legalRequestCreateSchema.parse(req.body);
+  
+      const user = await storage.getUser(userId);
+      if (!user) {
+        return res.status(404).json({ message: "User not found" });
+      }
+  
+      // Without a search the letter only lists the account's own details
+      const search = await findUserSearch(userId, searchId);
+      if (searchId !== undefined && !search) {
+        return res.status(404).json({ message: "Search not found" });
+      }
+      const snapshot = search ? await storage.getSearchResults(search.id) : undefined;
+  
+      const { legalRequests } = await import('./services/legal-requests');
+      const request = await legalRequests.create(user, input, snapshot);
+      return res.status(201).json(request);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // The user sent the letter, optionally on an earlier date; starts the statutory deadline
+  apiRouter.post("/legal-requests/:id/sent", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await getOwnedDeletionRequest(req, res);
+      if (!request) return;
+  
+      const { sentAt } = z.object({
+        sentAt: z.string().datetime().refine(value => new Date(value).getTime() <= Date.now(), "Sent date can't be in the future").optional()
+      }).parse(req.body);
+  
+      const { legalRequests } = await import('./services/legal-requests');
+      const result = await legalRequests.markSent(request, sentAt ? new Date(sentAt) : undefined);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  apiRouter.post("/legal-requests/:id/response", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const request = await getOwnedDeletionRequest(req, res);
+      if (!request) return;
+  
+      const { outcome, notes } = z.object({
+        outcome: z.enum(["complied", "refused"]),
+        notes: z.string().max(2000).optional()
+      }).parse(req.body);
+  
+      const { legalRequests } = await import('./services/legal-requests');
+      const result = await legalRequests.recordResponse(request, outcome, notes);
+      return res.json(result);
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
+  // Account archive imports
+  apiRouter.get("/imports", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const imports = await storage.getArchiveImportsByUser(req.session!.userId!);
+      // The imported data can be large, so only list the import details
+      return res.json(imports.map(({ data, ...summary }) => summary));
+    } catch (err) {
+      console.error(err);
+      return res.status(500).json({ message: "Failed to fetch archive imports" });
+    }
+  });
+  
+  // The archive ZIP is sent as the raw request body
+  apiRouter.post(
+    "/imports",
+    requireAuth,
+    express.raw({ type: ["application/zip", "application/x-zip-compressed", "application/octet-stream"], limit: `${maxArchiveUploadMb}mb` }),
+    async (req: Request, res: Response) => {
+      try {
+        if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+          return res.status(400).json({ message: "Upload an archive ZIP file as the request body" });
+        }
+        
+        const { archiveImportService } = await import('./services/archive-importers');
+        const { data, ...summary } = await archiveImportService.importArchive(req.session!.userId!, req.body);
+        return res.status(201).json(summary);
+      } catch (err) {
+        return handleApiError(err, res);
+      }
+    }
+  );
+  
+  apiRouter.delete("/imports/:id", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const archiveImport = await storage.getArchiveImportById(parseInt(req.params.id, 10));
+      if (!archiveImport || archiveImport.userId !== req.session!.userId) {
+        return res.status(404).json({ message: "Archive import not found" });
+      }
+      
+      await storage.deleteArchiveImport(archiveImport.id);
+      return res.status(204).end();
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
 
   // Stripe payment route for one-time payments
   apiRouter.post("/create-payment-intent", requireAuth, async (req: Request, res: Response) => {
@@ -707,6 +1174,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       
       // Update user with subscription ID
       await storage.updateStripeSubscriptionId(user.id, subscription.id);
+      // Record the plan, which sets allowances such as how many items policies may delete
+      await storage.createUserSubscription({ userId: user.id, planId: selectedPlan.id });
       
       // Get client secret from the invoice
       const invoice = subscription.latest_invoice;
@@ -819,6 +1288,106 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
   
+  // Reddit OAuth routes, connecting the user's own account so content can be deleted for them
+  apiRouter.get("/reddit/auth", requireAuth, async (req: Request, res: Response) => {
+    try {
+      // Use dynamic import to avoid circular dependencies
+      const { redditOAuth } = await import('./services/reddit-oauth');
+      
+      if (!redditOAuth.isConfigured()) {
+        return res.status(500).json({
+          success: false,
+          message: "Reddit OAuth is not properly configured"
+        });
+      }
+      
+      // Tie the authorization to this session so the callback can't be forged
+      const state = randomBytes(16).toString('hex');
+      req.session!.redditOAuthState = state;
+      return res.redirect(redditOAuth.getAuthorizationUrl(state));
+    } catch (error: any) {
+      console.error("Reddit auth error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Error initiating Reddit authorization",
+        error: error.message
+      });
+    }
+  });
+  
+  apiRouter.get("/reddit/callback", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { code, state, error } = req.query;
+      const expectedState = req.session!.redditOAuthState;
+      req.session!.redditOAuthState = undefined;
+      
+      // The user declined on Reddit's consent page
+      if (error) {
+        return res.redirect(`/deletion-manage?reddit=${encodeURIComponent(String(error))}`);
+      }
+      
+      if (!code || typeof code !== 'string') {
+        return res.status(400).json({
+          success: false,
+          message: "Authorization code is missing"
+        });
+      }
+      
+      if (!expectedState || state !== expectedState) {
+        return res.status(400).json({
+          success: false,
+          message: "Authorization state does not match. Please connect Reddit again."
+        });
+      }
+      
+      // Use dynamic import to avoid circular dependencies
+      const { redditOAuth } = await import('./services/reddit-oauth');
+      await redditOAuth.connectAccount(req.session!.userId!, code);
+      
+      return res.redirect("/deletion-manage?reddit=connected");
+    } catch (error: any) {
+      console.error("Reddit callback error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Error processing Reddit authorization",
+        error: error.message
+      });
+    }
+  });
+  
+  // Check whether the user has connected Reddit
+  apiRouter.get("/reddit/status", requireAuth, async (req: Request, res: Response) => {
+    try {
+      // Use dynamic import to avoid circular dependencies
+      const { redditOAuth } = await import('./services/reddit-oauth');
+      
+      const connection = await redditOAuth.getConnection(req.session!.userId!);
+      return res.json({
+        configured: redditOAuth.isConfigured(),
+        connected: !!connection,
+        username: connection?.platformUsername ?? null,
+        scopes: connection?.scopes ?? []
+      });
+    } catch (error: any) {
+      console.error("Reddit status error:", error);
+      return res.status(500).json({
+        success: false,
+        message: "Error checking Reddit connection status",
+        error: error.message
+      });
+    }
+  });
+  
+  apiRouter.delete("/reddit/connection", requireAuth, async (req: Request, res: Response) => {
+    try {
+      const { redditOAuth } = await import('./services/reddit-oauth');
+      await redditOAuth.disconnect(req.session!.userId!);
+      return res.status(204).end();
+    } catch (err) {
+      return handleApiError(err, res);
+    }
+  });
+  
   // Get OAuth authorization URL for Instagram without authentication
   apiRouter.get("/debug/instagram-auth", async (_req: Request, res: Response) => {
     try {
@@ -1185,6 +1754,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Start re-scanning watched identities in the background
+  const { monitoringScheduler } = await import('./services/monitoring-scheduler');
+  monitoringScheduler.start();
+
+  // Start advancing deletion requests through their steps
+  const { deletionWorkflow } = await import('./services/deletion-workflow');
+  deletionWorkflow.start();
+
+  // Start reminding users about legal requests that are past their deadline
+  const { legalRequests } = await import('./services/legal-requests');
+  legalRequests.start();
+
   // Create HTTP server
   const httpServer = createServer(app);
   
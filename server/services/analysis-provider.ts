@@ -0,0 +1,371 @@
+/**
+ * Analysis Providers
+ *
+ * Sentiment, topic classification and PII explanations can come from OpenAI,
+ * from any OpenAI-compatible endpoint (such as a local llama.cpp server) or
+ * from the offline lexicon analyzer. Each implements the AnalysisProvider
+ * interface, and connectors go through the AnalysisService below instead of
+ * calling a provider directly.
+ *
+ * The service reads its configuration from the environment in one place,
+ * splits work into batches, applies timeouts, caches results and falls back
+ * to the lexicon provider for any batch the configured provider cannot
+ * analyze, so callers always get a result for every text.
+ */
+
+import { createHash } from 'crypto';
+import { ContentItem, PiiType, PlatformData } from '@shared/schema';
+import { log } from '../vite';
+import { cacheService } from './cache-service';
+import { lexiconAnalysis, TOPIC_LABELS } from './lexicon-analysis';
+import type { SentimentLabel } from './lexicon-sentiment';
+import { LlmAnalysisProvider } from './llm-analysis';
+import { piiScanner } from './pii-scanner';
+
+export type AnalysisProviderName = 'openai' | 'local' | 'lexicon';
+
+// Sentiment of one text
+export interface SentimentAnalysis {
+  sentiment: SentimentLabel;
+  // -1 (most negative) to 1 (most positive)
+  compound: number;
+}
+
+// PII of one type found on a platform; only the type and counts are shared, never the PII itself
+export interface PiiExplanationRequest {
+  type: PiiType;
+  label: string;
+  platform: string;
+  occurrences: number;
+  inBio: boolean;
+}
+
+/**
+ * Status reported by an analysis provider
+ */
+export interface AnalysisProviderStatus {
+  configured: boolean;
+  operational?: boolean;
+  message: string;
+}
+
+/**
+ * Common interface for all analysis providers
+ *
+ * Every method returns one result per input, in input order, and throws if it
+ * cannot analyze the whole batch.
+ */
+export interface AnalysisProvider {
+  readonly name: AnalysisProviderName;
+  readonly displayName: string;
+
+  /**
+   * Get the status of the provider
+   */
+  getStatus(): Promise<AnalysisProviderStatus>;
+
+  /**
+   * Classify the sentiment of each text
+   * @param texts Texts to analyze
+   */
+  analyzeSentiment(texts: string[]): Promise<SentimentAnalysis[]>;
+
+  /**
+   * Pick the topics each text is about
+   * @param texts Texts to classify
+   * @param labels Topics to choose from
+   * @returns Matching labels for each text, possibly none
+   */
+  classifyTopics(texts: string[], labels: string[]): Promise<string[][]>;
+
+  /**
+   * Explain in a sentence or two why each kind of exposed PII is a risk
+   * @param requests PII types found, with where and how often they occur
+   */
+  explainPii(requests: PiiExplanationRequest[]): Promise<string[]>;
+}
+
+export interface AnalysisConfig {
+  provider: AnalysisProviderName;
+  // Chat model used by the OpenAI and local providers
+  model: string;
+  // Endpoint of an OpenAI-compatible server, for the local provider
+  baseUrl?: string;
+  apiKey?: string;
+  // Most texts sent to a provider in one request
+  batchSize: number;
+  // Longest a provider request may take before its batch falls back to the lexicon
+  timeoutMs: number;
+  // How long provider results are cached; 0 disables caching
+  cacheTtlMs: number;
+}
+
+const DEFAULT_OPENAI_MODEL = 'gpt-3.5-turbo';
+const DEFAULT_LOCAL_MODEL = 'local-model';
+const DEFAULT_LOCAL_BASE_URL = 'http://localhost:8080/v1';
+
+/**
+ * Read the analysis configuration from environment variables
+ *
+ * ANALYSIS_PROVIDER picks "openai", "local" or "lexicon"; it defaults to
+ * OpenAI when OPENAI_API_KEY is set and to the offline lexicon otherwise.
+ * ANALYSIS_MODEL, ANALYSIS_BASE_URL, ANALYSIS_API_KEY, ANALYSIS_BATCH_SIZE,
+ * ANALYSIS_TIMEOUT_MS and ANALYSIS_CACHE_TTL_MS override the defaults.
+ * @param env Environment to read from
+ * @returns The analysis configuration
+ */
+export function loadAnalysisConfig(env: NodeJS.ProcessEnv = process.env): AnalysisConfig {
+  const requested = env.ANALYSIS_PROVIDER?.toLowerCase();
+  let provider: AnalysisProviderName = env.OPENAI_API_KEY ? 'openai' : 'lexicon';
+  if (requested === 'openai' || requested === 'local' || requested === 'lexicon') {
+    provider = requested;
+  } else if (requested) {
+    log(`Unknown ANALYSIS_PROVIDER "${requested}", using ${provider}`, 'analysis');
+  }
+
+  const number = (value: string | undefined, fallback: number) => {
+    const parsed = value ? parseInt(value, 10) : NaN;
+    return Number.isFinite(parsed) && parsed >= 0 ? parsed : fallback;
+  };
+
+  return {
+    provider,
+    model: env.ANALYSIS_MODEL || (provider === 'local' ? DEFAULT_LOCAL_MODEL : DEFAULT_OPENAI_MODEL),
+    baseUrl: env.ANALYSIS_BASE_URL || (provider === 'local' ? DEFAULT_LOCAL_BASE_URL : undefined),
+    apiKey: env.ANALYSIS_API_KEY || (provider === 'openai' ? env.OPENAI_API_KEY : undefined),
+    batchSize: Math.max(1, number(env.ANALYSIS_BATCH_SIZE, 10)),
+    timeoutMs: Math.max(1000, number(env.ANALYSIS_TIMEOUT_MS, 30000)),
+    cacheTtlMs: number(env.ANALYSIS_CACHE_TTL_MS, 24 * 60 * 60 * 1000),
+  };
+}
+
+/**
+ * Share of items tagged with each topic, most common first
+ * @param topicsPerItem Topics of each classified item
+ * @param limit Most topics to return
+ * @returns Topics with the fraction of items about them
+ */
+export function topicShares(topicsPerItem: string[][], limit = 5): Array<{ topic: string; percentage: number }> {
+  if (topicsPerItem.length === 0) return [];
+  const counts = new Map<string, number>();
+  for (const topics of topicsPerItem) {
+    for (const topic of topics) {
+      counts.set(topic, (counts.get(topic) || 0) + 1);
+    }
+  }
+  return Array.from(counts.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, limit)
+    .map(([topic, count]) => ({ topic, percentage: Math.round(count / topicsPerItem.length * 100) / 100 }));
+}
+
+export class AnalysisService {
+  private readonly config: AnalysisConfig;
+  private readonly provider: AnalysisProvider;
+
+  constructor(config: AnalysisConfig = loadAnalysisConfig()) {
+    this.config = config;
+    this.provider = config.provider === 'lexicon'
+      ? lexiconAnalysis
+      : new LlmAnalysisProvider({
+        name: config.provider,
+        displayName: config.provider === 'openai' ? 'OpenAI' : `Local model at ${config.baseUrl}`,
+        model: config.model,
+        baseUrl: config.baseUrl,
+        apiKey: config.apiKey,
+        timeoutMs: config.timeoutMs,
+      });
+    log(`Using ${this.provider.displayName} for content analysis`, 'analysis');
+  }
+
+  /**
+   * Get the status of the configured provider
+   */
+  public async getStatus(): Promise<AnalysisProviderStatus & { provider: AnalysisProviderName; model?: string }> {
+    const status = await this.provider.getStatus();
+    return {
+      provider: this.provider.name,
+      model: this.provider === lexiconAnalysis ? undefined : this.config.model,
+      ...status,
+    };
+  }
+
+  /**
+   * Classify the sentiment of each text
+   * @param texts Texts to analyze
+   * @returns Sentiment of each text, in order
+   */
+  public async analyzeSentiment(texts: string[]): Promise<SentimentAnalysis[]> {
+    return this.run('sentiment', texts, text => text, (provider, batch) => provider.analyzeSentiment(batch));
+  }
+
+  /**
+   * Label and score every content item the account holder wrote, in place
+   *
+   * Likes are other people's words, so they are left unscored.
+   * @param items Content items to score
+   * @returns Share of positive, neutral and negative items among those scored
+   */
+  public async scoreContent(items: Array<Pick<ContentItem, 'type' | 'content' | 'sentiment' | 'sentimentScore'>>): Promise<{
+    positive: number;
+    neutral: number;
+    negative: number;
+  }> {
+    const scored = items.filter(item => item.type !== 'like' && item.content);
+    if (scored.length === 0) {
+      return { positive: 0, neutral: 1, negative: 0 };
+    }
+
+    const results = await this.analyzeSentiment(scored.map(item => item.content!));
+    scored.forEach((item, index) => {
+      item.sentiment = results[index].sentiment;
+      item.sentimentScore = results[index].compound;
+    });
+
+    const share = (label: SentimentLabel) =>
+      Math.round(results.filter(result => result.sentiment === label).length / results.length * 100) / 100;
+    return { positive: share('positive'), neutral: share('neutral'), negative: share('negative') };
+  }
+
+  /**
+   * Tag content items without topics with the topics they are about, in place
+   * @param items Content items to tag
+   * @param labels Topics to choose from
+   * @returns Share of classified items about each topic, most common first
+   */
+  public async tagTopics(
+    items: Array<Pick<ContentItem, 'type' | 'content' | 'topics'>>,
+    labels: string[] = TOPIC_LABELS
+  ): Promise<Array<{ topic: string; percentage: number }>> {
+    const untagged = items.filter(item => item.type !== 'like' && item.content && !item.topics?.length);
+    const topics = await this.run(
+      `topics:${labels.join(',')}`,
+      untagged.map(item => item.content!),
+      text => text,
+      (provider, batch) => provider.classifyTopics(batch, labels)
+    );
+    untagged.forEach((item, index) => {
+      if (topics[index].length > 0) item.topics = topics[index];
+    });
+    return topicShares(topics);
+  }
+
+  /**
+   * Add an explanation of the risk of each kind of PII found on a platform
+   * @param data Platform data annotated by the PII scanner
+   * @returns The data with explanations in its PII summary
+   */
+  public async explainPii(data: PlatformData): Promise<PlatformData> {
+    const piiSummary = data.analysisResults?.piiSummary;
+    if (!data.analysisResults || !piiSummary || piiSummary.totalFindings === 0) {
+      return data;
+    }
+
+    const bioTypes = new Set(piiSummary.bioFindings.map(finding => finding.type));
+    const requests: PiiExplanationRequest[] = Object.entries(piiSummary.byType).map(([type, occurrences]) => ({
+      type: type as PiiType,
+      label: piiScanner.describe(type as PiiType).label,
+      platform: data.platformId,
+      occurrences,
+      inBio: bioTypes.has(type as PiiType),
+    }));
+
+    const explanations = await this.run(
+      'pii',
+      requests,
+      request => `${request.platform}:${request.type}:${request.occurrences}:${request.inBio}`,
+      (provider, batch) => provider.explainPii(batch)
+    );
+
+    return {
+      ...data,
+      analysisResults: {
+        ...data.analysisResults,
+        piiSummary: {
+          ...piiSummary,
+          explanations: Object.fromEntries(requests.map((request, index) => [request.type, explanations[index]])),
+        },
+      },
+    };
+  }
+
+  /**
+   * Run a task over inputs in batches, through the cache, with the lexicon
+   * provider standing in for any batch the configured provider fails on
+   */
+  private async run<I, T>(
+    task: string,
+    inputs: I[],
+    keyOf: (input: I) => string,
+    call: (provider: AnalysisProvider, batch: I[]) => Promise<T[]>
+  ): Promise<T[]> {
+    if (inputs.length === 0) return [];
+
+    const provider = await this.operationalProvider();
+    if (provider === lexiconAnalysis) {
+      return call(lexiconAnalysis, inputs);
+    }
+
+    const keys = inputs.map(input => this.cacheKey(provider, task, keyOf(input)));
+    const results: Array<T | undefined> = keys.map(key => this.cached<T>(key));
+    const pending = inputs.map((_, index) => index).filter(index => results[index] === undefined);
+
+    for (let start = 0; start < pending.length; start += this.config.batchSize) {
+      const indexes = pending.slice(start, start + this.config.batchSize);
+      const batch = indexes.map(index => inputs[index]);
+      let batchResults: T[];
+      try {
+        batchResults = await this.withTimeout(call(provider, batch), `${provider.displayName} ${task.split(':')[0]} analysis`);
+        if (batchResults.length !== batch.length) {
+          throw new Error(`expected ${batch.length} results, got ${batchResults.length}`);
+        }
+        batchResults.forEach((result, offset) => this.cache(keys[indexes[offset]], result));
+      } catch (error) {
+        log(`${provider.displayName} could not analyze a batch of ${batch.length}: ${error}. Using lexicon analysis.`, 'analysis');
+        batchResults = await call(lexiconAnalysis, batch);
+      }
+      indexes.forEach((index, offset) => { results[index] = batchResults[offset]; });
+    }
+
+    return results as T[];
+  }
+
+  /**
+   * The configured provider, or the lexicon provider when it is not operational
+   */
+  private async operationalProvider(): Promise<AnalysisProvider> {
+    if (this.provider === lexiconAnalysis) return lexiconAnalysis;
+    const status = await this.provider.getStatus();
+    if (!status.configured || status.operational === false) {
+      log(`${this.provider.displayName} is not operational (${status.message}). Using lexicon analysis.`, 'analysis');
+      return lexiconAnalysis;
+    }
+    return this.provider;
+  }
+
+  private withTimeout<T>(promise: Promise<T>, description: string): Promise<T> {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new Error(`${description} timed out after ${this.config.timeoutMs}ms`)), this.config.timeoutMs);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
+  }
+
+  private cacheKey(provider: AnalysisProvider, task: string, input: string): string {
+    const digest = createHash('sha256').update(input).digest('hex');
+    return `${provider.name}:${this.config.model}:${task}:${digest}`;
+  }
+
+  private cached<T>(key: string): T | undefined {
+    if (this.config.cacheTtlMs === 0) return undefined;
+    const value = cacheService.analysisResults.get(key);
+    return value === null ? undefined : value as T;
+  }
+
+  private cache<T>(key: string, result: T): void {
+    if (this.config.cacheTtlMs === 0) return;
+    cacheService.analysisResults.set(key, result, this.config.cacheTtlMs);
+  }
+}
+
+export const analysis = new AnalysisService();
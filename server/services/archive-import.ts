@@ -0,0 +1,344 @@
+/**
+ * Archive Import Service
+ *
+ * Platforms let users download an archive of their own account data. Those
+ * archives contain far more than the public APIs expose (every post and like,
+ * message metadata, ad targeting) and are not subject to API rate limits.
+ *
+ * Each supported archive format has an ArchiveImporter, registered in
+ * archive-importers.ts. Uploaded archives are parsed on the server without
+ * contacting the platform, stored per user, and merged into that user's
+ * searches for the same account.
+ */
+
+import JSZip from 'jszip';
+import {
+  ArchiveImport,
+  ContentItem,
+  Platform,
+  PlatformData,
+  PrivacyConcern,
+  SearchQuery
+} from '@shared/schema';
+import { storage } from '../storage';
+import { piiScanner } from './pii-scanner';
+import { exposureScoring } from './exposure-score';
+import { analysis } from './analysis-provider';
+import { topicExtractor } from './topic-extractor';
+import { log } from '../vite';
+
+/**
+ * Raised when an uploaded archive cannot be imported
+ * The message is shown to the user.
+ */
+export class ArchiveImportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ArchiveImportError';
+  }
+}
+
+/**
+ * Limits on what an uploaded archive may unpack to, so a crafted archive (a
+ * "zip bomb") can't exhaust the server's memory
+ */
+export interface ArchiveLimits {
+  // Most files and folders an archive may list
+  maxEntries: number;
+  // Most bytes the importers may decompress from one archive, across all files read
+  maxUncompressedBytes: number;
+}
+
+const DEFAULT_ARCHIVE_LIMITS: ArchiveLimits = {
+  maxEntries: 50000,
+  maxUncompressedBytes: 256 * 1024 * 1024,
+};
+
+/**
+ * Read access to the files of an uploaded archive
+ */
+export interface ArchiveFiles {
+  /**
+   * Find files by path
+   * Archives are often re-zipped inside an extra folder, so match on the end of the path.
+   * @param pattern Pattern matched against each file path
+   * @returns Matching paths in archive order
+   */
+  find(pattern: RegExp): string[];
+
+  /**
+   * Read a file as text
+   * @param path Path of the file in the archive
+   */
+  readText(path: string): Promise<string>;
+}
+
+/**
+ * Platform data parsed from an archive
+ */
+export interface ArchiveParseResult {
+  data: PlatformData;
+  // Number of records found by kind, e.g. { tweets: 1200, likes: 5400 }
+  stats: Record<string, number>;
+}
+
+/**
+ * Parser for one platform's archive format
+ */
+export interface ArchiveImporter {
+  readonly platform: Exclude<Platform, 'all'>;
+  readonly displayName: string;
+
+  /**
+   * Check whether an archive was produced by this platform
+   */
+  canImport(files: ArchiveFiles): boolean;
+
+  /**
+   * Parse the archive into platform data
+   * @throws ArchiveImportError if required files are missing or malformed
+   */
+  parse(files: ArchiveFiles): Promise<ArchiveParseResult>;
+}
+
+/**
+ * Count archived content per year
+ * Archives span the whole life of an account, so years are more useful periods
+ * than the recent-activity buckets used for live data.
+ * @param contentData Content parsed from an archive
+ * @returns Activity per year, oldest first
+ */
+export function yearlyActivityTimeline(contentData: ContentItem[]): Array<{ period: string, count: number }> {
+  const yearCounts: Record<string, number> = {};
+  for (const item of contentData) {
+    const year = String(new Date(item.timestamp).getUTCFullYear());
+    yearCounts[year] = (yearCounts[year] || 0) + 1;
+  }
+  return Object.entries(yearCounts)
+    .sort((a, b) => a[0].localeCompare(b[0]))
+    .map(([period, count]) => ({ period, count }));
+}
+
+/**
+ * Undo the mojibake in Meta (Facebook, Instagram) exports
+ * Exports write UTF-8 text as one \u00XX escape per byte, so "é" arrives as "Ã©".
+ */
+export function decodeMetaText(text: string | undefined): string {
+  if (!text) return '';
+  // Already decoded text has characters outside the single-byte range
+  if (/[^\u0000-\u00ff]/.test(text)) return text;
+  return Buffer.from(text, 'latin1').toString('utf8');
+}
+
+export class ArchiveImportService {
+  private importers: ArchiveImporter[] = [];
+
+  constructor(private readonly limits: ArchiveLimits = DEFAULT_ARCHIVE_LIMITS) {}
+
+  /**
+   * Register an archive importer
+   * @param importer The importer to register
+   */
+  public register(importer: ArchiveImporter): void {
+    this.importers.push(importer);
+    log(`Registered ${importer.displayName} archive importer`, 'archive-import');
+  }
+
+  /**
+   * Parse an uploaded archive and save it for the user
+   * A previous import of the same account is replaced.
+   * @param userId Owner of the import
+   * @param archive The uploaded ZIP file
+   * @returns The saved import
+   * @throws ArchiveImportError if the archive is not supported or cannot be parsed
+   */
+  public async importArchive(userId: number, archive: Buffer): Promise<ArchiveImport> {
+    const files = await this.openArchive(archive);
+
+    const importer = this.importers.find(candidate => candidate.canImport(files));
+    if (!importer) {
+      throw new ArchiveImportError(
+        `This archive was not recognised. Supported archives: ${this.importers.map(i => i.displayName).join(', ')}.`
+      );
+    }
+
+    const { data: parsed, stats } = await importer.parse(files);
+    // Only the kinds of PII found are sent for explanation, never the archive's content
+    const data = await analysis.explainPii(exposureScoring.applyTo(topicExtractor.applyTo(piiScanner.annotate(parsed))));
+    log(`Parsed ${importer.displayName} archive for ${data.username}: ${JSON.stringify(stats)}`, 'archive-import');
+
+    const existing = await storage.getArchiveImportsByUser(userId);
+    for (const previous of existing) {
+      if (previous.platform === importer.platform && this.sameUsername(previous.username, data.username)) {
+        await storage.deleteArchiveImport(previous.id);
+      }
+    }
+
+    return storage.saveArchiveImport({
+      userId,
+      platform: importer.platform,
+      username: data.username,
+      data,
+      stats,
+    });
+  }
+
+  /**
+   * Find the user's imports for the accounts a search covers
+   * @param userId The user running the search
+   * @param searchQuery The search
+   * @returns Imported data by platform
+   */
+  public async getImportedData(userId: number, searchQuery: SearchQuery): Promise<Map<Platform, PlatformData>> {
+    const importedData = new Map<Platform, PlatformData>();
+    const imports = await storage.getArchiveImportsByUser(userId);
+    if (imports.length === 0) {
+      return importedData;
+    }
+
+    // Newest first, so the most recent import of an account wins
+    for (const archiveImport of imports) {
+      const platformUsername = searchQuery.platformUsernames?.find(pu => pu.platform === archiveImport.platform);
+      const username = platformUsername ? platformUsername.username : searchQuery.username;
+      const searched = searchQuery.platforms.includes('all') || searchQuery.platforms.includes(archiveImport.platform);
+
+      if (searched && username && this.sameUsername(username, archiveImport.username) &&
+          !importedData.has(archiveImport.platform)) {
+        importedData.set(archiveImport.platform, this.withImportInfo(archiveImport));
+      }
+    }
+
+    return importedData;
+  }
+
+  /**
+   * Merge imported archive data with data fetched from the platform API
+   * The archive is complete, so it is the base; the API adds current profile
+   * details (such as follower counts) and any content posted since the export.
+   * @param imported Data from the archive
+   * @param live Data from the platform API, if it could be fetched
+   * @returns The merged platform data
+   */
+  public mergeImportedData(imported: PlatformData, live: PlatformData | null): PlatformData {
+    if (!live) {
+      return imported;
+    }
+
+    const seenUrls = new Set(imported.contentData?.map(item => item.url).filter(Boolean));
+    const newContent = (live.contentData || []).filter(item => !item.url || !seenUrls.has(item.url));
+    const contentData: ContentItem[] = [...(imported.contentData || []), ...newContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const seenConcerns = new Set(imported.analysisResults?.privacyConcerns.map(c => `${c.type}:${c.description}`));
+    const privacyConcerns: PrivacyConcern[] = [
+      ...(imported.analysisResults?.privacyConcerns || []),
+      ...(live.analysisResults?.privacyConcerns || []).filter(c => !seenConcerns.has(`${c.type}:${c.description}`))
+    ];
+
+    // Scan, extract topics and score again so they cover the combined content
+    return exposureScoring.applyTo(topicExtractor.applyTo(piiScanner.annotate({
+      ...imported,
+      profileData: {
+        ...imported.profileData,
+        ...this.definedValues(live.profileData),
+      },
+      contentData,
+      analysisResults: imported.analysisResults && {
+        ...imported.analysisResults,
+        privacyConcerns,
+      },
+    })));
+  }
+
+  /**
+   * Open an uploaded ZIP file
+   */
+  private async openArchive(archive: Buffer): Promise<ArchiveFiles> {
+    let zip: JSZip;
+    try {
+      zip = await JSZip.loadAsync(archive);
+    } catch (error: any) {
+      log(`Could not open uploaded archive: ${error.message}`, 'archive-import');
+      throw new ArchiveImportError('The uploaded file is not a valid ZIP archive.');
+    }
+
+    // The central directory lists every entry without decompressing anything
+    const entries = Object.keys(zip.files);
+    if (entries.length > this.limits.maxEntries) {
+      throw new ArchiveImportError(`The archive holds too many files (more than ${this.limits.maxEntries}).`);
+    }
+
+    // Declared sizes can't be trusted, so count the bytes as they are decompressed
+    let remainingBytes = this.limits.maxUncompressedBytes;
+    const paths = entries.filter(path => !zip.files[path].dir);
+    return {
+      find: (pattern) => paths.filter(path => pattern.test(path)),
+      readText: async (path) => {
+        const file = zip.file(path);
+        if (!file) {
+          throw new ArchiveImportError(`The archive is missing ${path}.`);
+        }
+
+        const chunks: Buffer[] = [];
+        await new Promise<void>((resolve, reject) => {
+          const stream = file.nodeStream('nodebuffer');
+          stream.on('data', (chunk: Buffer) => {
+            remainingBytes -= chunk.length;
+            if (remainingBytes < 0) {
+              // Stop decompressing; nothing past the limit is kept
+              stream.pause();
+              stream.removeAllListeners('data');
+              reject(new ArchiveImportError('The archive is too large to import once uncompressed.'));
+              return;
+            }
+            chunks.push(chunk);
+          });
+          stream.on('end', () => resolve());
+          stream.on('error', (error: Error) => {
+            log(`Could not decompress ${path}: ${error.message}`, 'archive-import');
+            reject(new ArchiveImportError(`Could not read ${path} from the archive.`));
+          });
+        });
+        return Buffer.concat(chunks).toString('utf8');
+      },
+    };
+  }
+
+  /**
+   * Mark platform data as coming from an archive import
+   */
+  private withImportInfo(archiveImport: ArchiveImport): PlatformData {
+    const data = archiveImport.data;
+    return {
+      ...data,
+      analysisResults: data.analysisResults && {
+        ...data.analysisResults,
+        platformSpecificMetrics: {
+          ...data.analysisResults.platformSpecificMetrics,
+          importedFromArchive: true,
+          archiveImportedAt: new Date(archiveImport.importedAt).toISOString(),
+        },
+      },
+    };
+  }
+
+  /**
+   * Compare usernames ignoring case and a leading @
+   */
+  private sameUsername(a: string, b: string): boolean {
+    const normalize = (username: string) => username.trim().replace(/^@/, '').toLowerCase();
+    return normalize(a) === normalize(b);
+  }
+
+  /**
+   * Drop undefined and empty values so they do not overwrite imported ones
+   */
+  private definedValues<T extends object>(values: T | undefined): Partial<T> {
+    if (!values) return {};
+    return Object.fromEntries(
+      Object.entries(values).filter(([, value]) => value !== undefined && value !== '')
+    ) as Partial<T>;
+  }
+}
+
+export const archiveImportService = new ArchiveImportService();
@@ -0,0 +1,19 @@
+/**
+ * Archive importer registration
+ *
+ * Import the archive import service from here (rather than archive-import.ts)
+ * to make sure all importers have been registered before it is used.
+ */
+
+import { archiveImportService } from './archive-import';
+import { twitterArchiveImporter } from './twitter-archive';
+import { facebookArchiveImporter } from './facebook-archive';
+import { instagramArchiveImporter } from './instagram-archive';
+import { redditArchiveImporter } from './reddit-archive';
+
+archiveImportService.register(twitterArchiveImporter);
+archiveImportService.register(facebookArchiveImporter);
+archiveImportService.register(instagramArchiveImporter);
+archiveImportService.register(redditArchiveImporter);
+
+export { archiveImportService };
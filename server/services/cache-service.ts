@@ -161,7 +161,21 @@ export const platformDataCache = new CacheService<PlatformData | null>({
   }
 });
 
+// Results of account existence checks, keyed by platform and username
+export const usernameExistsCache = new CacheService<boolean>({
+  maxSize: 5000,
+  defaultTTL: 6 * 60 * 60 * 1000 // Accounts are rarely created or deleted within hours
+});
+
+// Sentiment, topic and PII explanation results from analysis providers, keyed by provider, task and input hash
+export const analysisResultsCache = new CacheService<unknown>({
+  maxSize: 20000,
+  defaultTTL: 24 * 60 * 60 * 1000 // Overridden per entry by the analysis configuration
+});
+
 // Export a unified cache service
 export const cacheService = {
-  platformData: platformDataCache
+  platformData: platformDataCache,
+  usernameExists: usernameExistsCache,
+  analysisResults: analysisResultsCache
 };
\ No newline at end of file
@@ -0,0 +1,21 @@
+/**
+ * Platform connector registration
+ *
+ * Import the registry from here (rather than platform-connector.ts) to make
+ * sure all connectors have been registered before it is used.
+ */
+
+import { connectorRegistry } from './platform-connector';
+import { instagramApi } from './instagram-api';
+import { twitterApi } from './twitter-api';
+import { facebookApi } from './facebook-api';
+import { redditApi } from './reddit-api';
+import { githubApi } from './github-api';
+
+connectorRegistry.register(instagramApi);
+connectorRegistry.register(twitterApi);
+connectorRegistry.register(facebookApi);
+connectorRegistry.register(redditApi);
+connectorRegistry.register(githubApi);
+
+export { connectorRegistry };
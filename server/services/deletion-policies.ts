@@ -0,0 +1,242 @@
+/**
+ * Deletion Policy Service
+ *
+ * Evaluates users' standing deletion policies, such as "delete my Reddit
+ * comments older than 90 days", against footprint snapshots. Every new
+ * snapshot, from a search or a monitoring scan, queues the matching items
+ * into one deletion request, within the monthly allowance of the user's plan.
+ * A preview lists what would be queued without queueing anything.
+ */
+
+import {
+  ContentItem,
+  DeletionItem,
+  DeletionPolicy,
+  DeletionPolicyConditions,
+  DeletionPolicyPreview,
+  DeletionQuota,
+  DeletionRequest,
+  DeletionRequestDetails,
+  DigitalFootprintResponse,
+  Platform,
+  deletionOptionsSchema,
+  planMonthlyItemLimits
+} from '@shared/schema';
+import { storage } from '../storage';
+import { DeletionWorkflowService, deletionWorkflow } from './deletion-workflow';
+import { piiScanner } from './pii-scanner';
+import { log } from '../vite';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const SEVERITY_ORDER: Record<'low' | 'medium' | 'high', number> = { low: 1, medium: 2, high: 3 };
+
+// Marks deletion requests queued by policies, which count towards the monthly allowance
+const POLICY_REQUEST_TYPE = 'policy';
+
+// A policy to evaluate; one being previewed before it is saved has no ID
+export type EvaluatedPolicy = Pick<DeletionPolicy, 'conditions'> & { id: number | null };
+
+export class DeletionPolicyService {
+  constructor(private readonly workflow: DeletionWorkflowService = deletionWorkflow) {}
+
+  /**
+   * Check whether a content item meets every condition of a policy
+   * @param conditions The policy's conditions
+   * @param platform Platform the item was posted on
+   * @param item The content item
+   * @param now Current time, for age conditions
+   */
+  public matches(
+    conditions: DeletionPolicyConditions,
+    platform: Platform,
+    item: ContentItem,
+    now: Date = new Date()
+  ): boolean {
+    if (conditions.platforms?.length && !conditions.platforms.some(p => p === platform)) return false;
+    if (conditions.contentTypes?.length && !conditions.contentTypes.includes(item.type)) return false;
+
+    if (conditions.olderThanDays !== undefined) {
+      const postedAt = new Date(item.timestamp).getTime();
+      if (isNaN(postedAt) || now.getTime() - postedAt < conditions.olderThanDays * DAY) return false;
+    }
+
+    if (conditions.minPiiSeverity) {
+      const minimum = SEVERITY_ORDER[conditions.minPiiSeverity];
+      const flagged = (item.piiFindings ?? []).some(
+        finding => SEVERITY_ORDER[piiScanner.describe(finding.type).severity] >= minimum
+      );
+      if (!flagged) return false;
+    }
+
+    if (conditions.sentiments?.length && (!item.sentiment || !conditions.sentiments.includes(item.sentiment))) {
+      return false;
+    }
+
+    if (conditions.maxEngagement !== undefined) {
+      const engagement = item.engagement ?? {};
+      const total = (engagement.likes ?? 0) + (engagement.comments ?? 0) + (engagement.shares ?? 0);
+      if (total > conditions.maxEngagement) return false;
+    }
+
+    return true;
+  }
+
+  /**
+   * Work out how many more items the user's plan lets policies queue this month
+   * @param userId The user
+   * @param now Current time; allowances reset at the start of each UTC month
+   */
+  public async getQuota(userId: number, now: Date = new Date()): Promise<DeletionQuota> {
+    const subscription = await storage.getActiveUserSubscription(userId);
+    const plans = await storage.getSubscriptionPlans();
+    const plan = subscription?.planId ? plans.find(p => p.id === subscription.planId) : undefined;
+
+    // Without a plan, policies can be previewed but queue nothing
+    const monthlyLimit = plan && plan.id in planMonthlyItemLimits ? planMonthlyItemLimits[plan.id] : 0;
+
+    const monthStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const nextMonth = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() + 1, 1));
+
+    // Cancelled requests delete nothing, so they don't use up the allowance
+    const requests = await storage.getDeletionRequestsByUser(userId);
+    const used = requests
+      .filter(request =>
+        request.status !== 'cancelled' &&
+        request.timestamp >= monthStart &&
+        (request.details as DeletionRequestDetails | null)?.requestType === POLICY_REQUEST_TYPE
+      )
+      .reduce((sum, request) => sum + this.requestedItems(request).length, 0);
+
+    return {
+      planName: plan?.name ?? null,
+      monthlyLimit,
+      used,
+      remaining: monthlyLimit === null ? null : Math.max(0, monthlyLimit - used),
+      resetsAt: nextMonth.toISOString(),
+    };
+  }
+
+  /**
+   * List the items in a snapshot that policies match and whether each would be queued
+   * @param userId The user the policies belong to
+   * @param policies Policies to evaluate
+   * @param snapshot A footprint snapshot
+   * @param now Current time
+   */
+  public async preview(
+    userId: number,
+    policies: EvaluatedPolicy[],
+    snapshot: DigitalFootprintResponse,
+    now: Date = new Date()
+  ): Promise<DeletionPolicyPreview> {
+    const quota = await this.getQuota(userId, now);
+    const requested = new Set(
+      (await storage.getDeletionRequestsByUser(userId)).flatMap(request => this.requestedItems(request))
+    );
+
+    let remaining = quota.remaining;
+    const matches: DeletionPolicyPreview['matches'] = [];
+
+    for (const platformData of snapshot.platformData) {
+      if (platformData.platformId === 'all') continue;
+
+      for (const item of platformData.contentData ?? []) {
+        // Only items with a link can be deleted
+        if (!item.url) continue;
+
+        const matched = policies.filter(policy => this.matches(policy.conditions, platformData.platformId, item, now));
+        if (matched.length === 0) continue;
+
+        // Items already in a request, even a cancelled one, aren't queued again
+        let outcome: DeletionPolicyPreview['matches'][number]['outcome'] = 'queue';
+        if (requested.has(item.url)) {
+          outcome = 'already_requested';
+        } else if (remaining !== null && remaining <= 0) {
+          outcome = 'over_quota';
+        } else if (remaining !== null) {
+          remaining--;
+        }
+
+        matches.push({
+          platform: platformData.platformId,
+          username: platformData.username,
+          item,
+          policyIds: matched.map(policy => policy.id).filter((id): id is number => id !== null),
+          outcome,
+        });
+      }
+    }
+
+    return { searchId: snapshot.searchId, matches, quota };
+  }
+
+  /**
+   * Queue the items a user's active policies match in a new snapshot into a deletion request
+   * @param userId The user the snapshot belongs to
+   * @param snapshot The new footprint snapshot
+   * @param now Current time
+   * @returns The deletion request, or undefined if nothing was queued
+   */
+  public async apply(
+    userId: number,
+    snapshot: DigitalFootprintResponse,
+    now: Date = new Date()
+  ): Promise<DeletionRequest | undefined> {
+    const policies = (await storage.getDeletionPoliciesByUser(userId)).filter(policy => policy.active);
+    if (policies.length === 0) return undefined;
+
+    const { matches } = await this.preview(userId, policies, snapshot, now);
+    const overQuota = matches.filter(match => match.outcome === 'over_quota').length;
+    if (overQuota > 0) {
+      log(`Deletion policies for user ${userId} matched ${overQuota} item(s) beyond this month's allowance`, 'deletion-policies');
+    }
+
+    const queued = matches.filter(match => match.outcome === 'queue');
+    if (queued.length === 0) return undefined;
+
+    // One batch per platform, all tracked item by item in a single request
+    const batches = new Map<Platform, { platform: Platform; username: string; items: DeletionItem[] }>();
+    for (const match of queued) {
+      const batch = batches.get(match.platform) ?? { platform: match.platform, username: match.username, items: [] };
+      batch.items.push({ url: match.item.url!, type: match.item.type });
+      batches.set(match.platform, batch);
+    }
+
+    const policyIds = Array.from(new Set(queued.flatMap(match => match.policyIds)));
+    const workflow = this.workflow.createWorkflow(Array.from(batches.values()), deletionOptionsSchema.parse({}), now);
+    const created = await storage.createDeletionRequest({
+      userId,
+      platforms: Array.from(batches.keys()),
+      details: {
+        requestType: POLICY_REQUEST_TYPE,
+        requestedAt: now.toISOString(),
+        policyIds,
+        searchId: snapshot.searchId,
+        workflow
+      }
+    });
+
+    for (const id of policyIds) {
+      await storage.updateDeletionPolicy(id, { lastAppliedAt: now });
+    }
+
+    log(`Deletion policies queued ${queued.length} item(s) for user ${userId} in request ${created.id}`, 'deletion-policies');
+    return (await this.workflow.advance(created.id, now)) ?? created;
+  }
+
+  /**
+   * URLs of the items a deletion request selected
+   */
+  private requestedItems(request: DeletionRequest): string[] {
+    const workflow = (request.details as DeletionRequestDetails | null)?.workflow;
+    if (!workflow) return [];
+
+    return [
+      ...(workflow.options.itemUrls ?? []),
+      ...workflow.platforms.flatMap(progress => (progress.selectedItems ?? []).map(item => item.url)),
+    ];
+  }
+}
+
+export const deletionPolicies = new DeletionPolicyService();
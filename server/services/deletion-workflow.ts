@@ -0,0 +1,893 @@
+/**
+ * Deletion Workflow Service
+ *
+ * Drives deletion requests through their per-platform steps: verify that the
+ * user owns the account, delete through the platform's API or hand the user
+ * instructions, wait for the user to confirm a manual deletion, and re-scan
+ * the platform to check that the content is gone. Progress, retries and an
+ * event history are kept in the request's details.
+ */
+
+import { randomBytes } from 'crypto';
+import {
+  DeletionEvent,
+  DeletionItem,
+  DeletionItemResult,
+  DeletionOptions,
+  DeletionPlatformProgress,
+  DeletionRequest,
+  DeletionRequestDetails,
+  DeletionStatus,
+  DeletionStep,
+  DeletionWorkflow,
+  Platform,
+  PlatformData
+} from '@shared/schema';
+import { storage } from '../storage';
+import { PlatformError } from './platform-errors';
+import { log } from '../vite';
+
+// Looks up a platform's current data for an account, null if the platform can't be scanned
+export type PlatformFetcher = (platform: Platform, username: string) => Promise<PlatformData | null>;
+
+// What a platform's API is asked to delete
+export interface DeletionExecutionContext {
+  // User who made the request, whose connected accounts the API can act as
+  userId: number | null;
+  username: string;
+  options: DeletionOptions;
+  // Items handled in earlier runs of the step
+  previousResults: DeletionItemResult[];
+}
+
+export interface DeletionExecutionResult {
+  success: boolean;
+  message: string;
+  requestId?: string;
+  itemResults?: DeletionItemResult[];
+  // Items left for another run, for platforms that delete in batches
+  remaining?: number;
+}
+
+// Deletes an account's content through a platform's API
+export interface DeletionExecutor {
+  // Whether the API can delete for this request, e.g. because the user connected the account
+  isAvailable(context: DeletionExecutionContext): Promise<boolean>;
+  execute(context: DeletionExecutionContext): Promise<DeletionExecutionResult>;
+}
+
+// Attempts allowed at each step and the backoff between them
+interface RetryPolicy {
+  maxAttempts: number;
+  baseDelay: number;
+  maxDelay: number;
+}
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+
+const RETRY_POLICIES: Record<DeletionStep, RetryPolicy> = {
+  // Give the user a few days to add the verification code to their bio
+  verify_ownership: { maxAttempts: 12, baseDelay: 5 * MINUTE, maxDelay: 12 * HOUR },
+  execute: { maxAttempts: 4, baseDelay: 5 * MINUTE, maxDelay: HOUR },
+  await_confirmation: { maxAttempts: 1, baseDelay: 0, maxDelay: 0 },
+  // Platforms can take days to remove deleted content from public view
+  verify_rescan: { maxAttempts: 7, baseDelay: HOUR, maxDelay: DAY },
+};
+
+// How long to wait for the user to confirm a manual deletion
+const CONFIRMATION_TIMEOUT = 30 * DAY;
+
+// Oldest events are dropped beyond this
+const MAX_EVENTS = 200;
+
+// Items deleted per run for platforms that delete item by item, and the pause between runs
+const ITEM_BATCH_SIZE = 100;
+const BATCH_INTERVAL = MINUTE;
+
+const TERMINAL_STATUSES: DeletionStatus[] = ['completed', 'failed', 'cancelled'];
+
+// Where and how to delete content on each platform by hand
+const DELETION_GUIDES: Record<Exclude<Platform, 'all'>, { name: string; settingsUrl: string; steps: string[] }> = {
+  twitter: {
+    name: 'Twitter',
+    settingsUrl: 'https://twitter.com/settings/deactivate',
+    steps: [
+      'Sign in and open Settings and privacy > Your account',
+      'Choose Deactivate your account and confirm with your password',
+      'The account is deleted for good after 30 days unless you sign in again',
+    ],
+  },
+  instagram: {
+    name: 'Instagram',
+    settingsUrl: 'https://www.instagram.com/accounts/remove/request/permanent/',
+    steps: [
+      'Sign in to Instagram in a web browser',
+      'Open the Delete your account page and pick a reason',
+      'Re-enter your password and choose Delete',
+    ],
+  },
+  facebook: {
+    name: 'Facebook',
+    settingsUrl: 'https://www.facebook.com/settings?tab=your_facebook_information',
+    steps: [
+      'Open Settings > Your Facebook information',
+      'Choose Deactivation and deletion, then Delete account',
+      'Download your information first if you want to keep it, then confirm',
+    ],
+  },
+  reddit: {
+    name: 'Reddit',
+    settingsUrl: 'https://www.reddit.com/settings/account',
+    steps: [
+      'Delete any posts and comments you want removed from your profile page first; deleting the account leaves them up',
+      'Open User settings > Account',
+      'Choose Delete account and confirm with your password',
+    ],
+  },
+  linkedin: {
+    name: 'LinkedIn',
+    settingsUrl: 'https://www.linkedin.com/mypreferences/d/close-account',
+    steps: [
+      'Open Settings & Privacy > Account preferences',
+      'Choose Close account and pick a reason',
+      'Confirm with your password',
+    ],
+  },
+  tiktok: {
+    name: 'TikTok',
+    settingsUrl: 'https://www.tiktok.com/setting',
+    steps: [
+      'Open Settings and privacy > Account',
+      'Choose Deactivate or delete account, then Delete account permanently',
+      'Verify your identity and confirm',
+    ],
+  },
+  youtube: {
+    name: 'YouTube',
+    settingsUrl: 'https://www.youtube.com/account_advanced',
+    steps: [
+      'Open Advanced settings for your channel',
+      'Choose Delete channel and sign in again',
+      'Choose I want to permanently delete my content and confirm',
+    ],
+  },
+  pinterest: {
+    name: 'Pinterest',
+    settingsUrl: 'https://www.pinterest.com/settings/account-settings',
+    steps: [
+      'Open Settings > Account management',
+      'Choose Delete account and pick a reason',
+      'Confirm from the email Pinterest sends you',
+    ],
+  },
+  snapchat: {
+    name: 'Snapchat',
+    settingsUrl: 'https://accounts.snapchat.com/accounts/delete_account',
+    steps: [
+      'Sign in to the Snapchat accounts portal',
+      'Open Delete my account and confirm with your password',
+      'The account is deleted for good after 30 days unless you sign in again',
+    ],
+  },
+  github: {
+    name: 'GitHub',
+    settingsUrl: 'https://github.com/settings/admin',
+    steps: [
+      'Transfer or delete any repositories and organizations you own',
+      'Open Settings > Account and choose Delete your account',
+      'Type your username and the confirmation phrase to confirm',
+    ],
+  },
+  medium: {
+    name: 'Medium',
+    settingsUrl: 'https://medium.com/me/settings/account',
+    steps: [
+      'Open Settings > Account',
+      'Choose Delete account at the bottom of the page',
+      'Type delete to confirm',
+    ],
+  },
+};
+
+// Platforms whose API can delete content for the user
+const API_EXECUTORS: Partial<Record<Platform, DeletionExecutor>> = {
+  twitter: {
+    // The Twitter API can only log a request until the user authorises deletion with OAuth,
+    // so users follow the instructions and confirm instead
+    isAvailable: async () => false,
+    execute: async ({ username, options, previousResults }) => {
+      const { twitterApi } = await import('./twitter-api');
+      if (!options.itemUrls?.length) {
+        return twitterApi.requestDataDeletion(username, options);
+      }
+
+      // Selected tweets are deleted by ID
+      const done = new Set(previousResults.map(result => result.url));
+      const urls = options.itemUrls.filter(url => !done.has(url));
+      const ids = new Map(urls.map(url => [url, twitterApi.tweetIdFromUrl(url)]));
+      const tweetIds = Array.from(ids.values()).filter((id): id is string => id !== null);
+
+      const result = tweetIds.length > 0
+        ? await twitterApi.processDeletionRequest(username, { reason: 'Selected from the Content tab', tweetIds })
+        : { success: true, message: 'None of the selected items link to a tweet' };
+      if (!result.success) return result;
+
+      // Requested isn't deleted; the re-scan decides which tweets are gone
+      const at = new Date().toISOString();
+      return {
+        ...result,
+        itemResults: urls.map(url => ids.get(url)
+          ? { url, type: 'post' as const, status: 'pending' as const, edited: false, at }
+          : { url, type: 'post' as const, status: 'failed' as const, edited: false, error: 'Not a link to a tweet', at }),
+      };
+    },
+  },
+  // Acts as the user through their connected Reddit account
+  reddit: {
+    isAvailable: async ({ userId, username, options }) => {
+      if (userId === null || redditContentTypes(options).length === 0) return false;
+      const { redditOAuth } = await import('./reddit-oauth');
+      const connection = await redditOAuth.getConnection(userId);
+      return !!connection && connection.platformUsername.toLowerCase() === username.toLowerCase();
+    },
+    execute: async ({ userId, options, previousResults }) => {
+      const { redditOAuth } = await import('./reddit-oauth');
+      const { redditApi } = await import('./reddit-api');
+      const connection = userId !== null ? await redditOAuth.getConnection(userId) : null;
+      if (!connection) {
+        return { success: false, message: 'Your Reddit account is no longer connected' };
+      }
+
+      const { results, remaining } = await redditApi.deleteUserContent(
+        connection.accessToken,
+        connection.platformUsername,
+        { itemUrls: options.itemUrls, types: redditContentTypes(options) },
+        // Failed items aren't retried, so one stubborn item can't hold up the rest
+        new Set(previousResults.map(result => result.url)),
+        ITEM_BATCH_SIZE
+      );
+      const deleted = results.filter(result => result.status === 'deleted').length;
+      return {
+        success: true,
+        message: `Deleted ${deleted} of ${results.length} item${results.length === 1 ? '' : 's'}`,
+        itemResults: results,
+        remaining,
+      };
+    },
+  },
+};
+
+// Reddit content the deletion options cover; likes (votes) aren't public, so there's nothing to delete
+function redditContentTypes(options: DeletionOptions): ('post' | 'comment')[] {
+  if (options.itemUrls?.length || options.deleteAll || !(options.deleteTweets || options.deleteComments || options.deleteLikes)) {
+    return ['post', 'comment'];
+  }
+  return [
+    ...(options.deleteTweets ? ['post' as const] : []),
+    ...(options.deleteComments ? ['comment' as const] : []),
+  ];
+}
+
+// Look up fresh data, since the cached copy can predate the deletion
+const fetchFreshData: PlatformFetcher = async (platform, username) => {
+  const { platformApi } = await import('./platform-api');
+  return platformApi.fetchUserData(platform, username, { skipCache: true });
+};
+
+/**
+ * Thrown when an action doesn't fit the state a deletion request is in
+ */
+export class DeletionWorkflowError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeletionWorkflowError';
+  }
+}
+
+export class DeletionWorkflowService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private checkInterval = 60 * 1000; // Look for due steps every minute
+
+  constructor(
+    private readonly fetchPlatform: PlatformFetcher = fetchFreshData,
+    private readonly executors: Partial<Record<Platform, DeletionExecutor>> = API_EXECUTORS
+  ) {}
+
+  /**
+   * Start advancing deletion requests in the background
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.checkInterval);
+    log('Deletion workflow started', 'deletion');
+  }
+
+  /**
+   * Stop the workflow
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log('Deletion workflow stopped', 'deletion');
+    }
+  }
+
+  /**
+   * Create the workflow for a new deletion request
+   * @param platforms Platforms to delete from, with the account username and any selected items on each
+   * @param options What to delete where no items are selected
+   * @param now Current time
+   * @returns Workflow to store in the request's details
+   */
+  public createWorkflow(
+    platforms: { platform: Platform; username: string; items?: DeletionItem[] }[],
+    options: DeletionOptions,
+    now: Date = new Date()
+  ): DeletionWorkflow {
+    const workflow: DeletionWorkflow = {
+      verificationCode: `FP-${randomBytes(3).toString('hex').toUpperCase()}`,
+      options,
+      platforms: platforms
+        .filter(({ platform }) => platform !== 'all')
+        .map(({ platform, username, items }) => ({
+          platform,
+          username: username.trim().replace(/^@/, ''),
+          step: 'verify_ownership' as const,
+          status: 'pending' as const,
+          attempts: 0,
+          selectedItems: items?.length ? items : undefined,
+          updatedAt: now.toISOString(),
+        })),
+      events: [],
+    };
+
+    const selected = workflow.platforms.reduce((sum, p) => sum + (p.selectedItems?.length ?? 0), 0);
+    const names = workflow.platforms.map(p => this.platformName(p.platform)).join(', ');
+    this.addEvent(workflow, now, {
+      type: 'created',
+      message: selected > 0
+        ? `Deletion of ${selected} selected item${selected === 1 ? '' : 's'} requested for ${names}`
+        : `Deletion requested for ${names}`,
+    });
+    return workflow;
+  }
+
+  /**
+   * Run every step that is due for a deletion request and store the progress
+   * @param id Deletion request ID
+   * @param now Current time
+   * @returns The updated request, or undefined if it doesn't exist
+   */
+  public async advance(id: number, now: Date = new Date()): Promise<DeletionRequest | undefined> {
+    const request = await storage.getDeletionRequestById(id);
+    if (!request || this.isFinished(request)) return request;
+
+    const workflow = this.workflowOf(request);
+    if (!workflow) return request;
+
+    for (const progress of workflow.platforms) {
+      // A step that completes straight away moves on to the next one in the same pass
+      let runs = 0;
+      while (this.isDue(progress, now) && runs++ < 4) {
+        await this.runStep(workflow, progress, request.userId, now);
+      }
+    }
+
+    // The request may have been cancelled while steps were running
+    const latest = await storage.getDeletionRequestById(id);
+    if (!latest || this.isFinished(latest)) return latest;
+
+    return this.save(latest, workflow, now);
+  }
+
+  /**
+   * Record that the user has deleted their content on a platform by hand
+   * @param request The deletion request
+   * @param platform The platform the user confirmed
+   * @param now Current time
+   * @returns The updated request
+   * @throws DeletionWorkflowError if the platform isn't waiting for confirmation
+   */
+  public async confirm(request: DeletionRequest, platform: Platform, now: Date = new Date()): Promise<DeletionRequest> {
+    const workflow = this.workflowOf(request);
+    const progress = workflow?.platforms.find(p => p.platform === platform);
+    if (!workflow || !progress || this.isFinished(request)) {
+      throw new DeletionWorkflowError('This deletion request has no step to confirm for that platform.');
+    }
+    if (progress.step !== 'await_confirmation' || progress.status !== 'waiting') {
+      throw new DeletionWorkflowError(`${this.platformName(platform)} is not waiting for confirmation.`);
+    }
+
+    this.addEvent(workflow, now, {
+      platform,
+      step: progress.step,
+      type: 'confirmed',
+      message: `You confirmed the deletion on ${this.platformName(platform)}`,
+    });
+    this.moveTo(progress, 'verify_rescan', now);
+
+    const updated = await this.save(request, workflow, now);
+    // Re-scan straight away rather than on the next tick
+    return (await this.advance(updated.id, now)) ?? updated;
+  }
+
+  /**
+   * Cancel a deletion request that hasn't finished
+   * @param request The deletion request
+   * @param now Current time
+   * @returns The cancelled request
+   * @throws DeletionWorkflowError if the request has already finished
+   */
+  public async cancel(request: DeletionRequest, now: Date = new Date()): Promise<DeletionRequest> {
+    if (this.isFinished(request)) {
+      throw new DeletionWorkflowError(`This deletion request is already ${request.status.replace('_', ' ')}.`);
+    }
+
+    const details = (request.details ?? {}) as DeletionRequestDetails;
+    const workflow = this.workflowOf(request);
+    if (workflow) {
+      for (const progress of workflow.platforms) {
+        if (this.isActive(progress)) {
+          progress.status = 'cancelled';
+          progress.nextAttemptAt = undefined;
+          progress.updatedAt = now.toISOString();
+        }
+      }
+      this.addEvent(workflow, now, { type: 'cancelled', message: 'You cancelled the deletion request' });
+    }
+
+    return storage.updateDeletionRequest(request.id, {
+      status: 'cancelled',
+      details: workflow ? { ...details, workflow } : details,
+    });
+  }
+
+  /**
+   * Check whether a platform has a step to run
+   * @param progress The platform's progress
+   * @param now Current time
+   */
+  public isDue(progress: DeletionPlatformProgress, now: Date = new Date()): boolean {
+    if (!this.isActive(progress)) return false;
+    // Waiting on the user with nothing to check until they act
+    if (progress.status === 'waiting' && !progress.nextAttemptAt) return false;
+    return !progress.nextAttemptAt || new Date(progress.nextAttemptAt).getTime() <= now.getTime();
+  }
+
+  /**
+   * Advance every active deletion request, one at a time to stay within platform rate limits
+   */
+  private async tick(): Promise<void> {
+    // Skip this tick if the previous one is still running
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const now = new Date();
+      const requests = await storage.getActiveDeletionRequests();
+
+      for (const request of requests) {
+        const workflow = this.workflowOf(request);
+        if (!workflow || !workflow.platforms.some(progress => this.isDue(progress, now))) continue;
+
+        try {
+          await this.advance(request.id, now);
+        } catch (error: any) {
+          log(`Deletion request ${request.id} could not advance: ${error.message}`, 'deletion');
+        }
+      }
+    } catch (error: any) {
+      log(`Error checking deletion requests: ${error.message}`, 'deletion');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Run a platform's current step, recording the outcome
+   */
+  private async runStep(
+    workflow: DeletionWorkflow,
+    progress: DeletionPlatformProgress,
+    userId: number | null,
+    now: Date
+  ): Promise<void> {
+    progress.attempts++;
+    progress.updatedAt = now.toISOString();
+    if (progress.status === 'pending') progress.status = 'in_progress';
+
+    try {
+      switch (progress.step) {
+        case 'verify_ownership':
+          return await this.verifyOwnership(workflow, progress, userId, now);
+        case 'execute':
+          return await this.execute(workflow, progress, userId, now);
+        case 'await_confirmation':
+          // Only due once the user has run out of time to confirm
+          return this.fail(workflow, progress, now, `No confirmation within ${CONFIRMATION_TIMEOUT / DAY} days`);
+        case 'verify_rescan':
+          return await this.verifyRescan(workflow, progress, now);
+      }
+    } catch (error) {
+      const message = error instanceof PlatformError ? error.userMessage : `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+      const retryAfter = error instanceof PlatformError ? error.retryAfter : undefined;
+      this.retry(workflow, progress, now, message, retryAfter);
+    }
+  }
+
+  /**
+   * Check that the user has connected the account, or that the verification code is in its bio
+   */
+  private async verifyOwnership(
+    workflow: DeletionWorkflow,
+    progress: DeletionPlatformProgress,
+    userId: number | null,
+    now: Date
+  ): Promise<void> {
+    const name = this.platformName(progress.platform);
+
+    const connection = userId !== null ? await storage.getPlatformConnection(userId, progress.platform) : undefined;
+    if (connection && connection.platformUsername.toLowerCase() === progress.username.toLowerCase()) {
+      return this.completeStep(workflow, progress, 'execute', now,
+        `Ownership of ${progress.username} verified through your connected ${name} account`);
+    }
+
+    let data: PlatformData | null;
+    try {
+      data = await this.fetchPlatform(progress.platform, progress.username);
+    } catch (error) {
+      if (error instanceof PlatformError && error.code === 'NOT_FOUND') {
+        return this.fail(workflow, progress, now, `No ${name} account was found for ${progress.username}`);
+      }
+      throw error;
+    }
+
+    // Without a connector the platform checks ownership itself when the user signs in to delete
+    if (!data) {
+      return this.completeStep(workflow, progress, 'execute', now,
+        `${name} can't be scanned, so ownership is checked when you sign in to ${name}`);
+    }
+
+    const bio = data.profileData?.bio ?? '';
+    if (!bio.toUpperCase().includes(workflow.verificationCode)) {
+      if (progress.status !== 'waiting') {
+        progress.status = 'waiting';
+        this.addEvent(workflow, now, {
+          platform: progress.platform,
+          step: progress.step,
+          type: 'waiting',
+          message: `Add ${workflow.verificationCode} to your ${name} bio to prove you own ${progress.username}`,
+        });
+      }
+      return this.retry(workflow, progress, now, `Verification code not found in the ${name} bio`);
+    }
+
+    progress.baselineItems = progress.selectedItems?.length ?? data.contentData?.length ?? 0;
+    this.completeStep(workflow, progress, 'execute', now, `Ownership of ${progress.username} on ${name} verified`);
+  }
+
+  /**
+   * Delete through the platform's API, or hand the user instructions
+   */
+  private async execute(
+    workflow: DeletionWorkflow,
+    progress: DeletionPlatformProgress,
+    userId: number | null,
+    now: Date
+  ): Promise<void> {
+    const name = this.platformName(progress.platform);
+    const context: DeletionExecutionContext = {
+      userId,
+      username: progress.username,
+      options: this.optionsFor(workflow, progress),
+      previousResults: progress.itemResults ?? [],
+    };
+    const candidate = progress.method !== 'instructions' ? this.executors[progress.platform] : undefined;
+    const executor = candidate && await candidate.isAvailable(context) ? candidate : undefined;
+
+    if (executor) {
+      const result = await executor.execute(context);
+      if (result.itemResults?.length) {
+        progress.itemResults = [...context.previousResults, ...result.itemResults];
+      }
+
+      if (result.success) {
+        progress.method = 'api';
+        progress.externalRequestId = result.requestId;
+
+        // Carry on with the next batch after a pause, without counting it as a failed attempt
+        if (result.remaining) {
+          progress.attempts = 0;
+          progress.nextAttemptAt = new Date(now.getTime() + BATCH_INTERVAL).toISOString();
+          this.addEvent(workflow, now, {
+            platform: progress.platform,
+            step: progress.step,
+            type: 'progress',
+            message: `${result.message} on ${name}; ${result.remaining} more to go`,
+          });
+          return;
+        }
+
+        const failed = (progress.itemResults ?? []).filter(item => item.status === 'failed').length;
+        const summary = failed > 0 ? `${result.message} (${failed} could not be deleted)` : result.message;
+        // Nothing for the user to do, so check the content is gone
+        return this.completeStep(workflow, progress, 'verify_rescan', now, `${name} accepted the deletion: ${summary}`);
+      }
+
+      if (progress.attempts < RETRY_POLICIES.execute.maxAttempts) {
+        return this.retry(workflow, progress, now, result.message);
+      }
+
+      // The API keeps refusing, so the user deletes by hand instead
+      progress.lastError = result.message;
+      this.addEvent(workflow, now, {
+        platform: progress.platform,
+        step: progress.step,
+        type: 'failed',
+        message: `${name} API could not delete the content (${result.message}); switching to manual instructions`,
+      });
+    }
+
+    const guide = DELETION_GUIDES[progress.platform as Exclude<Platform, 'all'>];
+    progress.method = 'instructions';
+    if (progress.selectedItems?.length) {
+      // Deleting the account would take everything else with it, so point at the items instead
+      const count = progress.selectedItems.length;
+      progress.instructions = [
+        `Sign in to ${name}`,
+        `Open each of the ${count} selected item${count === 1 ? '' : 's'} listed below and delete it`,
+        'Confirm here once they are gone; we re-scan to check each one',
+      ];
+    } else {
+      progress.instructions = guide.steps;
+      progress.settingsUrl = guide.settingsUrl;
+    }
+    this.completeStep(workflow, progress, 'await_confirmation', now, `Instructions for deleting your ${name} content are ready`);
+
+    progress.status = 'waiting';
+    progress.nextAttemptAt = new Date(now.getTime() + CONFIRMATION_TIMEOUT).toISOString();
+    this.addEvent(workflow, now, {
+      platform: progress.platform,
+      step: progress.step,
+      type: 'waiting',
+      message: `Follow the instructions and confirm once your ${name} content is deleted`,
+    });
+  }
+
+  /**
+   * Re-scan the platform and check that the requested content is gone
+   */
+  private async verifyRescan(workflow: DeletionWorkflow, progress: DeletionPlatformProgress, now: Date): Promise<void> {
+    const name = this.platformName(progress.platform);
+
+    let data: PlatformData | null;
+    try {
+      data = await this.fetchPlatform(progress.platform, progress.username);
+    } catch (error) {
+      // A deleted account is the best outcome
+      if (error instanceof PlatformError && error.code === 'NOT_FOUND') {
+        progress.remainingItems = 0;
+        this.recordGoneItems(progress, new Set(), now);
+        return this.complete(workflow, progress, now, `${progress.username} no longer exists on ${name}`);
+      }
+      throw error;
+    }
+
+    if (!data) {
+      return this.complete(workflow, progress, now, `${name} can't be scanned, so the deletion is recorded on your confirmation`);
+    }
+
+    const remaining = this.countRemaining(data, this.optionsFor(workflow, progress));
+    const lastAttempt = progress.attempts >= RETRY_POLICIES.verify_rescan.maxAttempts;
+    progress.remainingItems = remaining;
+    this.recordGoneItems(progress, new Set((data.contentData ?? []).map(item => item.url)), now, lastAttempt);
+    if (remaining === 0) {
+      return this.complete(workflow, progress, now, `A re-scan found none of the deleted content on ${name}`);
+    }
+
+    this.retry(workflow, progress, now, `${remaining} item${remaining === 1 ? ' is' : 's are'} still visible on ${name}`);
+  }
+
+  /**
+   * Count the items a deletion should have removed that are still visible
+   */
+  private countRemaining(data: PlatformData, options: DeletionOptions): number {
+    const items = data.contentData ?? [];
+    if (options.itemUrls?.length) {
+      const selected = new Set(options.itemUrls);
+      return items.filter(item => item.url && selected.has(item.url)).length;
+    }
+
+    const selective = !options.deleteAll && (options.deleteTweets || options.deleteComments || options.deleteLikes);
+    if (!selective) return items.length;
+
+    return items.filter(item =>
+      (options.deleteTweets && (item.type === 'post' || item.type === 'share')) ||
+      (options.deleteComments && item.type === 'comment') ||
+      (options.deleteLikes && item.type === 'like')
+    ).length;
+  }
+
+  /**
+   * What to delete on a platform, narrowed to its selected items if it has any
+   */
+  private optionsFor(workflow: DeletionWorkflow, progress: DeletionPlatformProgress): DeletionOptions {
+    if (!progress.selectedItems?.length) return workflow.options;
+    return { ...workflow.options, itemUrls: progress.selectedItems.map(item => item.url) };
+  }
+
+  /**
+   * Mark the selected items a re-scan no longer finds as deleted, however they were deleted,
+   * and on the last re-scan mark the ones still visible as failed. Without a selection the
+   * items the API already reported on are checked
+   * @param visibleUrls URLs of the items still on the platform
+   * @param lastAttempt Whether this is the last re-scan before giving up
+   */
+  private recordGoneItems(
+    progress: DeletionPlatformProgress,
+    visibleUrls: Set<string | undefined>,
+    now: Date,
+    lastAttempt = false
+  ): void {
+    const results = progress.itemResults ?? [];
+    const items: DeletionItem[] = progress.selectedItems?.length
+      ? progress.selectedItems
+      : results.map(({ url, type }) => ({ url, type }));
+    if (items.length === 0) return;
+
+    for (const item of items) {
+      const result = results.find(r => r.url === item.url);
+
+      if (visibleUrls.has(item.url)) {
+        // Platforms can be slow to hide deleted content, so only give up on the last re-scan
+        if (!lastAttempt || result?.status === 'failed') continue;
+        if (!result) {
+          results.push({ ...item, status: 'failed', edited: false, error: 'Still visible after re-scanning', at: now.toISOString() });
+        } else {
+          result.status = 'failed';
+          result.error = 'Still visible after re-scanning';
+          result.at = now.toISOString();
+        }
+        continue;
+      }
+
+      if (!result) {
+        results.push({ ...item, status: 'deleted', edited: false, at: now.toISOString() });
+      } else if (result.status !== 'deleted') {
+        // The platform caught up, or the user deleted it by hand after the API couldn't
+        result.status = 'deleted';
+        result.error = undefined;
+        result.at = now.toISOString();
+      }
+    }
+    progress.itemResults = results;
+  }
+
+  /**
+   * Schedule another attempt at the current step with exponential backoff, or fail the platform
+   * @param retryAfter Seconds the platform asked us to wait, if any
+   */
+  private retry(
+    workflow: DeletionWorkflow,
+    progress: DeletionPlatformProgress,
+    now: Date,
+    message: string,
+    retryAfter?: number
+  ): void {
+    const policy = RETRY_POLICIES[progress.step];
+    progress.lastError = message;
+    if (progress.attempts >= policy.maxAttempts) {
+      return this.fail(workflow, progress, now, `${message} after ${progress.attempts} attempts`);
+    }
+
+    const backoff = Math.min(policy.maxDelay, policy.baseDelay * Math.pow(2, progress.attempts - 1));
+    const delay = Math.max(backoff, (retryAfter ?? 0) * 1000);
+    progress.nextAttemptAt = new Date(now.getTime() + delay).toISOString();
+
+    this.addEvent(workflow, now, {
+      platform: progress.platform,
+      step: progress.step,
+      type: 'retry_scheduled',
+      message: `${message}; checking again at ${progress.nextAttemptAt}`,
+    });
+  }
+
+  /**
+   * Finish the current step and move on to the next
+   */
+  private completeStep(
+    workflow: DeletionWorkflow,
+    progress: DeletionPlatformProgress,
+    next: DeletionStep,
+    now: Date,
+    message: string
+  ): void {
+    this.addEvent(workflow, now, { platform: progress.platform, step: progress.step, type: 'step_completed', message });
+    this.moveTo(progress, next, now);
+  }
+
+  private moveTo(progress: DeletionPlatformProgress, step: DeletionStep, now: Date): void {
+    progress.step = step;
+    progress.status = 'in_progress';
+    progress.attempts = 0;
+    progress.nextAttemptAt = undefined;
+    progress.lastError = undefined;
+    progress.updatedAt = now.toISOString();
+  }
+
+  private complete(workflow: DeletionWorkflow, progress: DeletionPlatformProgress, now: Date, message: string): void {
+    progress.status = 'completed';
+    progress.nextAttemptAt = undefined;
+    progress.lastError = undefined;
+    progress.completedAt = now.toISOString();
+    this.addEvent(workflow, now, { platform: progress.platform, step: progress.step, type: 'completed', message });
+  }
+
+  private fail(workflow: DeletionWorkflow, progress: DeletionPlatformProgress, now: Date, message: string): void {
+    progress.status = 'failed';
+    progress.nextAttemptAt = undefined;
+    progress.lastError = message;
+    progress.completedAt = now.toISOString();
+    this.addEvent(workflow, now, { platform: progress.platform, step: progress.step, type: 'failed', message });
+  }
+
+  private addEvent(workflow: DeletionWorkflow, now: Date, event: Omit<DeletionEvent, 'at'>): void {
+    workflow.events.push({ at: now.toISOString(), ...event });
+    if (workflow.events.length > MAX_EVENTS) {
+      workflow.events.splice(0, workflow.events.length - MAX_EVENTS);
+    }
+  }
+
+  /**
+   * Store the workflow with the request status it implies
+   */
+  private async save(request: DeletionRequest, workflow: DeletionWorkflow, now: Date): Promise<DeletionRequest> {
+    const status = this.statusOf(workflow);
+    const details = (request.details ?? {}) as DeletionRequestDetails;
+
+    if (status !== request.status && (status === 'completed' || status === 'failed')) {
+      const failed = workflow.platforms.filter(progress => progress.status === 'failed');
+      this.addEvent(workflow, now, {
+        type: status,
+        message: status === 'completed'
+          ? 'Deletion completed on every platform'
+          : `Deletion could not be completed on ${failed.map(p => this.platformName(p.platform)).join(', ')}`,
+      });
+    }
+
+    return storage.updateDeletionRequest(request.id, { status, details: { ...details, workflow } });
+  }
+
+  /**
+   * Overall status of a request from its platforms' progress
+   */
+  private statusOf(workflow: DeletionWorkflow): DeletionStatus {
+    const statuses = workflow.platforms.map(progress => progress.status);
+    if (statuses.every(status => status === 'pending')) return 'pending';
+    if (statuses.some(status => status === 'pending' || status === 'in_progress' || status === 'waiting')) return 'in_progress';
+    return statuses.every(status => status === 'completed') ? 'completed' : 'failed';
+  }
+
+  private workflowOf(request: DeletionRequest): DeletionWorkflow | undefined {
+    return (request.details as DeletionRequestDetails | null)?.workflow;
+  }
+
+  private isFinished(request: DeletionRequest): boolean {
+    return TERMINAL_STATUSES.includes(request.status as DeletionStatus);
+  }
+
+  private isActive(progress: DeletionPlatformProgress): boolean {
+    return progress.status === 'pending' || progress.status === 'in_progress' || progress.status === 'waiting';
+  }
+
+  private platformName(platform: Platform): string {
+    return DELETION_GUIDES[platform as Exclude<Platform, 'all'>]?.name ?? platform;
+  }
+}
+
+export const deletionWorkflow = new DeletionWorkflowService();
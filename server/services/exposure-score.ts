@@ -0,0 +1,409 @@
+/**
+ * Exposure Score Service
+ *
+ * Calculates the exposure score (0-100) of a platform and of a whole digital
+ * footprint from the same seven factors, so scores are comparable across
+ * platforms and can be explained factor by factor:
+ *
+ * - pii (25): personal identifiers found by the PII scanner, high severity
+ *   kinds (phone numbers, addresses, account numbers) counting most
+ * - location (20): profile location, geotagged content and stored location
+ *   history or IP logs
+ * - sensitive_topics (15): share of content mentioning health, politics,
+ *   religion, sexuality, finances, legal trouble or substance use
+ * - audience_reach (10): followers, on a log scale up to one million
+ * - linkability (15): real name, links and email in the profile, and accounts
+ *   the identity linkage analysis can tie to each other
+ * - content_volume (10): posts, comments, likes and shares, on a log scale up
+ *   to 10,000
+ * - account_age (5): years of history, up to ten
+ *
+ * Each factor is valued from 0 to 1 and contributes value * weight points.
+ * Weights can be changed with setWeights() or the EXPOSURE_SCORE_WEIGHTS
+ * environment variable (JSON, e.g. {"pii": 40}); they are rescaled to add up
+ * to 100.
+ */
+
+import { ExposureFactor, ExposureFactorScore, IdentityLinkage, PiiType, PlatformData } from '@shared/schema';
+import { piiScanner } from './pii-scanner';
+import { identityLinkage } from './identity-linkage';
+import { log } from '../vite';
+
+export type ExposureWeights = Record<ExposureFactor, number>;
+
+export const DEFAULT_EXPOSURE_WEIGHTS: ExposureWeights = {
+  pii: 25,
+  location: 20,
+  sensitive_topics: 15,
+  audience_reach: 10,
+  linkability: 15,
+  content_volume: 10,
+  account_age: 5,
+};
+
+const FACTOR_LABELS: Record<ExposureFactor, string> = {
+  pii: 'Personal identifiers',
+  location: 'Location',
+  sensitive_topics: 'Sensitive topics',
+  audience_reach: 'Audience reach',
+  linkability: 'Cross-platform linkability',
+  content_volume: 'Content volume',
+  account_age: 'Account age',
+};
+
+// Words that mark content as touching a sensitive topic
+const SENSITIVE_TOPICS: Record<string, string[]> = {
+  health: ['diagnosis', 'diagnosed', 'therapy', 'therapist', 'medication', 'depression', 'anxiety', 'cancer',
+    'pregnant', 'pregnancy', 'hospital', 'surgery', 'illness', 'disease', 'adhd', 'autism'],
+  politics: ['election', 'democrat', 'democrats', 'republican', 'republicans', 'liberal', 'conservative',
+    'politics', 'political', 'protest'],
+  religion: ['church', 'mosque', 'synagogue', 'prayer', 'pray', 'bible', 'quran', 'religion', 'religious'],
+  sexuality: ['gay', 'lesbian', 'bisexual', 'transgender', 'queer', 'lgbt', 'lgbtq'],
+  finances: ['salary', 'debt', 'loan', 'bankrupt', 'bankruptcy', 'mortgage', 'paycheck', 'unemployed'],
+  'legal trouble': ['arrested', 'lawsuit', 'probation', 'convicted', 'custody'],
+  'substance use': ['addiction', 'rehab', 'sober', 'sobriety', 'alcoholic', 'hangover'],
+};
+const SENSITIVE_PATTERNS = Object.entries(SENSITIVE_TOPICS).map(([topic, words]) => ({
+  topic,
+  pattern: new RegExp(`\\b(${words.join('|')})\\b`, 'i')
+}));
+
+// Privacy concerns about stored location data (location history, geotags, IP logs)
+const LOCATION_CONCERN = /location|ip_log/;
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+/**
+ * Signals the factors are calculated from
+ * Extracted per platform and combined for a whole footprint.
+ */
+interface ExposureSignals {
+  piiTypes: Set<PiiType>;
+  piiItems: number;
+  profileLocation: boolean;
+  taggedItems: number;
+  locationConcerns: number;
+  sensitiveItems: number;
+  sensitiveTopics: Set<string>;
+  textItems: number;
+  followers?: number;
+  firstActivity?: number;
+  identitySignals: Set<string>;
+  // Platforms sharing a username or display name with another platform
+  linkedPlatforms: number;
+  contentCount: number;
+}
+
+export class ExposureScoreService {
+  private weights: ExposureWeights = { ...DEFAULT_EXPOSURE_WEIGHTS };
+
+  constructor() {
+    if (process.env.EXPOSURE_SCORE_WEIGHTS) {
+      try {
+        this.setWeights(JSON.parse(process.env.EXPOSURE_SCORE_WEIGHTS));
+      } catch (error: any) {
+        log(`Ignoring invalid EXPOSURE_SCORE_WEIGHTS: ${error.message}`, 'exposure-score');
+      }
+    }
+  }
+
+  /**
+   * Change factor weights
+   * Factors that are not given keep their default weight, then all weights are
+   * rescaled to add up to 100.
+   * @param weights Weight per factor
+   * @throws Error if a weight is negative or not a number, or all weights are zero
+   */
+  public setWeights(weights: Partial<ExposureWeights>): void {
+    const merged: ExposureWeights = { ...DEFAULT_EXPOSURE_WEIGHTS };
+    for (const [factor, weight] of Object.entries(weights)) {
+      if (!(factor in DEFAULT_EXPOSURE_WEIGHTS)) {
+        throw new Error(`Unknown exposure factor "${factor}"`);
+      }
+      if (typeof weight !== 'number' || !isFinite(weight) || weight < 0) {
+        throw new Error(`Weight for "${factor}" must be a non-negative number`);
+      }
+      merged[factor as ExposureFactor] = weight;
+    }
+
+    const total = Object.values(merged).reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) {
+      throw new Error('At least one exposure factor needs a weight');
+    }
+    for (const factor of Object.keys(merged) as ExposureFactor[]) {
+      merged[factor] = (merged[factor] / total) * 100;
+    }
+    this.weights = merged;
+  }
+
+  /**
+   * Get the current factor weights
+   */
+  public getWeights(): ExposureWeights {
+    return { ...this.weights };
+  }
+
+  /**
+   * Score a single platform
+   * @param data Platform data, already annotated by the PII scanner
+   * @returns The score and the contribution of each factor
+   */
+  public scorePlatform(data: PlatformData): { score: number; breakdown: ExposureFactorScore[] } {
+    return this.score(this.extractSignals(data));
+  }
+
+  /**
+   * Score a whole footprint
+   * Signals from every platform are combined, and accounts that can be linked
+   * to each other count towards linkability.
+   * @param platformData Data of every platform found
+   * @param linkage Identity linkage of the same platforms, analyzed if not given
+   * @returns The score and the contribution of each factor
+   */
+  public scoreFootprint(
+    platformData: PlatformData[],
+    linkage: IdentityLinkage = identityLinkage.analyze(platformData)
+  ): { score: number; breakdown: ExposureFactorScore[] } {
+    const signals = platformData.map(data => this.extractSignals(data));
+    const combined: ExposureSignals = {
+      piiTypes: new Set(signals.flatMap(s => Array.from(s.piiTypes))),
+      piiItems: this.sum(signals, s => s.piiItems),
+      profileLocation: signals.some(s => s.profileLocation),
+      taggedItems: this.sum(signals, s => s.taggedItems),
+      locationConcerns: this.sum(signals, s => s.locationConcerns),
+      sensitiveItems: this.sum(signals, s => s.sensitiveItems),
+      sensitiveTopics: new Set(signals.flatMap(s => Array.from(s.sensitiveTopics))),
+      textItems: this.sum(signals, s => s.textItems),
+      followers: signals.some(s => s.followers !== undefined) ? this.sum(signals, s => s.followers || 0) : undefined,
+      firstActivity: signals.reduce<number | undefined>(
+        (first, s) => s.firstActivity !== undefined && (first === undefined || s.firstActivity < first) ? s.firstActivity : first,
+        undefined
+      ),
+      identitySignals: new Set(signals.flatMap(s => Array.from(s.identitySignals))),
+      linkedPlatforms: identityLinkage.countLinkedPlatforms(linkage),
+      contentCount: this.sum(signals, s => s.contentCount),
+    };
+    return this.score(combined);
+  }
+
+  /**
+   * Set a platform's exposure score and breakdown from this engine
+   * @param data Platform data, already annotated by the PII scanner
+   * @returns The data with exposureScore and exposureBreakdown replaced
+   */
+  public applyTo(data: PlatformData): PlatformData {
+    const { score, breakdown } = this.scorePlatform(data);
+    return {
+      ...data,
+      privacyMetrics: data.privacyMetrics && { ...data.privacyMetrics, exposureScore: score },
+      analysisResults: data.analysisResults && {
+        ...data.analysisResults,
+        exposureScore: score,
+        exposureBreakdown: breakdown,
+      },
+    };
+  }
+
+  /**
+   * Value each factor and weight it
+   */
+  private score(signals: ExposureSignals): { score: number; breakdown: ExposureFactorScore[] } {
+    const factors: Record<ExposureFactor, { value: number; detail: string }> = {
+      pii: this.piiFactor(signals),
+      location: this.locationFactor(signals),
+      sensitive_topics: this.sensitiveTopicsFactor(signals),
+      audience_reach: this.audienceFactor(signals),
+      linkability: this.linkabilityFactor(signals),
+      content_volume: this.contentVolumeFactor(signals),
+      account_age: this.accountAgeFactor(signals),
+    };
+
+    const breakdown = (Object.keys(factors) as ExposureFactor[]).map(factor => {
+      const weight = this.weights[factor];
+      const value = Math.max(0, Math.min(1, factors[factor].value));
+      return {
+        factor,
+        label: FACTOR_LABELS[factor],
+        weight: Math.round(weight * 10) / 10,
+        value: Math.round(value * 100) / 100,
+        points: Math.round(weight * value * 10) / 10,
+        detail: factors[factor].detail,
+      };
+    });
+
+    const score = Math.round(
+      breakdown.reduce((sum, factor) => sum + this.weights[factor.factor] * factor.value, 0)
+    );
+    return { score: Math.min(100, score), breakdown };
+  }
+
+  private piiFactor(signals: ExposureSignals): { value: number; detail: string } {
+    if (signals.piiTypes.size === 0) {
+      return { value: 0, detail: 'No personal identifiers found' };
+    }
+    const types = Array.from(signals.piiTypes).map(type => piiScanner.describe(type));
+    const value = types.reduce((sum, type) => sum + (type.severity === 'high' ? 0.5 : 0.3), 0);
+    const where = signals.piiItems > 0
+      ? ` in ${signals.piiItems} ${signals.piiItems > 1 ? 'pieces' : 'piece'} of content`
+      : ' in your profile';
+    return { value, detail: `${types.map(type => type.label).join(', ')} found${where}` };
+  }
+
+  private locationFactor(signals: ExposureSignals): { value: number; detail: string } {
+    const details: string[] = [];
+    if (signals.profileLocation) details.push('location on profile');
+    if (signals.taggedItems > 0) details.push(`${signals.taggedItems} geotagged ${signals.taggedItems > 1 ? 'items' : 'item'}`);
+    if (signals.locationConcerns > 0) details.push('stored location history or IP logs');
+
+    const value = (signals.profileLocation ? 0.3 : 0) +
+      Math.min(0.4, signals.taggedItems * 0.04) +
+      Math.min(0.3, signals.locationConcerns * 0.15);
+    return {
+      value,
+      detail: details.length > 0
+        ? details.join(', ').replace(/^./, char => char.toUpperCase())
+        : 'No location data found'
+    };
+  }
+
+  private sensitiveTopicsFactor(signals: ExposureSignals): { value: number; detail: string } {
+    if (signals.sensitiveItems === 0) {
+      return { value: 0, detail: 'No sensitive topics found' };
+    }
+    // One item in five touching a sensitive topic is the maximum
+    const value = (signals.sensitiveItems / Math.max(signals.textItems, 1)) * 5;
+    return {
+      value,
+      detail: `${signals.sensitiveItems} of ${signals.textItems} items mention ` +
+        Array.from(signals.sensitiveTopics).join(', ')
+    };
+  }
+
+  private audienceFactor(signals: ExposureSignals): { value: number; detail: string } {
+    if (signals.followers === undefined) {
+      return { value: 0, detail: 'Follower count unknown' };
+    }
+    return {
+      value: Math.log10(signals.followers + 1) / 6,
+      detail: `${signals.followers.toLocaleString('en-US')} ${signals.followers === 1 ? 'follower' : 'followers'}`
+    };
+  }
+
+  private linkabilityFactor(signals: ExposureSignals): { value: number; detail: string } {
+    const weights: Record<string, number> = {
+      'real name': 0.25,
+      'email address': 0.25,
+      'links in bio': 0.2,
+    };
+    const identity = Array.from(signals.identitySignals);
+    const value = identity.reduce((sum, signal) => sum + (weights[signal] || 0), 0) +
+      signals.linkedPlatforms * 0.25;
+
+    const details: string[] = [];
+    if (identity.length > 0) details.push(`${identity.join(', ')} shown`);
+    if (signals.linkedPlatforms > 0) {
+      details.push(`accounts on ${signals.linkedPlatforms} platforms linkable to each other`);
+    }
+    return {
+      value,
+      detail: details.length > 0
+        ? details.join('; ').replace(/^./, char => char.toUpperCase())
+        : 'No identifying details linking accounts'
+    };
+  }
+
+  private contentVolumeFactor(signals: ExposureSignals): { value: number; detail: string } {
+    return {
+      value: Math.log10(signals.contentCount + 1) / 4,
+      detail: `${signals.contentCount.toLocaleString('en-US')} posts, comments, likes and shares`
+    };
+  }
+
+  private accountAgeFactor(signals: ExposureSignals): { value: number; detail: string } {
+    if (signals.firstActivity === undefined) {
+      return { value: 0, detail: 'Account age unknown' };
+    }
+    const years = Math.max(0, (Date.now() - signals.firstActivity) / YEAR_MS);
+    return {
+      value: years / 10,
+      detail: years < 1 ? 'Less than a year of history' : `${Math.floor(years)} ${Math.floor(years) === 1 ? 'year' : 'years'} of history`
+    };
+  }
+
+  /**
+   * Extract the signals of one platform
+   */
+  private extractSignals(data: PlatformData): ExposureSignals {
+    const contentData = data.contentData || [];
+    const bioFindings = data.analysisResults?.piiSummary?.bioFindings || [];
+
+    const piiTypes = new Set<PiiType>(bioFindings.map(finding => finding.type));
+    let piiItems = 0;
+    for (const item of contentData) {
+      if (item.piiFindings && item.piiFindings.length > 0) {
+        piiItems++;
+        item.piiFindings.forEach(finding => piiTypes.add(finding.type));
+      }
+    }
+
+    // Likes are other people's content, so only the user's own text counts
+    const textItems = contentData.filter(item => item.type !== 'like' && item.content);
+    const sensitiveTopics = new Set<string>();
+    let sensitiveItems = 0;
+    for (const item of textItems) {
+      const topics = SENSITIVE_PATTERNS.filter(({ pattern }) => pattern.test(item.content!)).map(({ topic }) => topic);
+      if (topics.length > 0) {
+        sensitiveItems++;
+        topics.forEach(topic => sensitiveTopics.add(topic));
+      }
+    }
+
+    const timestamps = [
+      data.profileData?.joinDate,
+      ...contentData.map(item => item.timestamp)
+    ].map(date => date ? new Date(date).getTime() : NaN).filter(time => !isNaN(time));
+
+    const identitySignals = new Set<string>();
+    const displayName = data.profileData?.displayName?.trim();
+    if (displayName && displayName.toLowerCase() !== data.username.toLowerCase() && /^\S+\s+\S+/.test(displayName)) {
+      identitySignals.add('real name');
+    }
+    if (piiTypes.has('email')) {
+      identitySignals.add('email address');
+    }
+    if (/https?:\/\/|www\.|@\w+/.test(data.profileData?.bio || '')) {
+      identitySignals.add('links in bio');
+    }
+
+    const activity = data.activityData;
+    const activityCount = (activity?.totalPosts || 0) + (activity?.totalComments || 0) +
+      (activity?.totalLikes || 0) + (activity?.totalShares || 0);
+
+    return {
+      piiTypes,
+      piiItems,
+      profileLocation: !!data.profileData?.location,
+      taggedItems: contentData.filter(item => item.location).length,
+      locationConcerns: (data.analysisResults?.privacyConcerns || [])
+        .filter(concern => LOCATION_CONCERN.test(concern.type) && concern.severity === 'high').length,
+      sensitiveItems,
+      sensitiveTopics,
+      textItems: textItems.length,
+      followers: data.profileData?.followerCount,
+      // Archives can hold too many items to spread into Math.min()
+      firstActivity: timestamps.length > 0 ? timestamps.reduce((first, time) => Math.min(first, time)) : undefined,
+      identitySignals,
+      linkedPlatforms: 0,
+      contentCount: Math.max(contentData.length, activityCount),
+    };
+  }
+
+  /**
+   * Add up one signal across platforms
+   */
+  private sum(signals: ExposureSignals[], value: (signal: ExposureSignals) => number): number {
+    return signals.reduce((total, signal) => total + value(signal), 0);
+  }
+}
+
+export const exposureScoring = new ExposureScoreService();
@@ -9,11 +9,23 @@ import axios from 'axios';
 import { PlatformData, platformDataSchema } from '@shared/schema';
 import { RateLimiter } from './rate-limiter';
 import type { PlatformApiStatus } from '../services/types.d.ts';
-import { openAiSentiment } from './openai-sentiment';
+import { analysis, topicShares } from './analysis-provider';
+import { lexiconAnalysis } from './lexicon-analysis';
 import { log } from '../vite';
 import { tokenManager } from './token-manager';
+import { piiScanner } from './pii-scanner';
+import type { ConnectorCapabilities, PlatformConnector } from './platform-connector';
+import { AuthError, NotFoundError, PermissionError, PlatformError, RateLimitError } from './platform-errors';
 
-class FacebookApiService {
+class FacebookApiService implements PlatformConnector {
+  readonly platform = 'facebook' as const;
+  readonly displayName = 'Facebook';
+  readonly capabilities: ConnectorCapabilities = {
+    deletion: false,
+    oauth: false,
+    contentTypes: ['post']
+  };
+  
   private appId: string | undefined;
   private appSecret: string | undefined;
   private accessToken: string | undefined;
@@ -156,6 +168,7 @@ class FacebookApiService {
         return {
           configured: true,
           operational: false,
+          rateLimited: true,
           message: 'Facebook API is rate limited. Please try again later.'
         };
       }
@@ -184,6 +197,7 @@ class FacebookApiService {
     } catch (error: any) {
       let errorMessage = 'Facebook API request failed';
       let shouldTryRefresh = false;
+      let rateLimited = false;
       
       if (error.response) {
         // The request was made and the server responded with a non-2xx status
@@ -196,6 +210,7 @@ class FacebookApiService {
           shouldTryRefresh = true;
         } else if (statusCode === 429 || (errorData && errorData.code === 4)) {
           errorMessage = 'Facebook API rate limit exceeded. Please try again later.';
+          rateLimited = true;
         } else if (errorData && errorData.message) {
           errorMessage = `Facebook API error: ${errorData.message}`;
         }
@@ -244,6 +259,7 @@ class FacebookApiService {
       return {
         configured: true,
         operational: false,
+        rateLimited,
         message: errorMessage
       };
     }
@@ -283,7 +299,7 @@ class FacebookApiService {
       log(`Error fetching Facebook user data: ${error.message}`, 'facebook-api');
       
       // Check if it's an authentication error that we can try to recover from
-      if (error.message && error.message.includes('AUTH_ERROR')) {
+      if (error instanceof AuthError) {
         log('Authentication error detected, attempting token refresh', 'facebook-api');
         
         // Try to refresh the token
@@ -307,6 +323,11 @@ class FacebookApiService {
         }
       }
       
+      // Let the platform API report typed errors to the user
+      if (error instanceof PlatformError) {
+        throw error;
+      }
+      
       return null;
     }
   }
@@ -375,6 +396,7 @@ class FacebookApiService {
       const privacyMetrics = this.analyzePrivacyMetrics(contentData);
       const hashtagAnalysis = this.analyzeHashtags(contentData);
       const sentimentAnalysis = await this.analyzeSentiment(contentData);
+      const topTopics = await analysis.tagTopics(contentData);
       
       // Log sentiment analysis results
       log(`Facebook sentiment analysis for ${username}: Positive: ${sentimentAnalysis.sentimentBreakdown.positive}%, Neutral: ${sentimentAnalysis.sentimentBreakdown.neutral}%, Negative: ${sentimentAnalysis.sentimentBreakdown.negative}%`, 'facebook-api');
@@ -405,7 +427,7 @@ class FacebookApiService {
         },
         contentData,
         privacyMetrics: {
-          exposureScore: this.calculateFrequencyScore(contentData),
+          exposureScore: 0, // Scored by the exposure score engine
           dataCategories: [
             { category: "Profile Information", severity: "low" },
             { category: "Post Content", severity: "medium" },
@@ -421,11 +443,8 @@ class FacebookApiService {
           ]
         },
         analysisResults: {
-          exposureScore: this.calculateFrequencyScore(contentData),
-          topTopics: this.analyzeTopics(contentData).topTopics.map(t => ({ 
-            topic: t.topic, 
-            percentage: t.confidence / 100 
-          })),
+          exposureScore: 0, // Scored by the exposure score engine
+          topTopics,
           activityTimeline: [],
           sentimentBreakdown: sentimentAnalysis.sentimentBreakdown,
           dataCategories: [
@@ -477,25 +496,33 @@ class FacebookApiService {
             log('Required permissions may include: pages_read_engagement, Page Public Content Access', 'facebook-api');
             
             // Throw a more specific error that can be caught by the platform API
-            throw new Error('PERMISSION_ERROR: Facebook API requires additional permissions to access this data.');
+            throw new PermissionError('facebook', {
+              message: 'Facebook API requires additional permissions to access this data.',
+              detail: fbError.message
+            });
           }
           
           if (fbError.message.includes('Object does not exist')) {
             log('Facebook API error: The requested username or ID does not exist or is not accessible.', 'facebook-api');
-            throw new Error('NOT_FOUND: The Facebook username or page does not exist or cannot be accessed.');
+            throw new NotFoundError('facebook', {
+              message: 'The Facebook username or page does not exist or cannot be accessed.',
+              detail: fbError.message
+            });
           }
         }
         
         // Rate limiting detection
         if (fbError.code === 4 || fbError.message.includes('rate limit')) {
           log('Facebook API rate limit exceeded.', 'facebook-api');
-          throw new Error('RATE_LIMITED: Facebook API rate limit exceeded. Please try again later.');
+          throw new RateLimitError('facebook', { detail: fbError.message });
         }
         
         // Authentication errors
         if (fbError.code === 190) {
           log('Facebook API authentication error: The access token is invalid or has expired.', 'facebook-api');
-          throw new Error('AUTH_ERROR: Facebook API authentication failed. Access token may be invalid or expired.');
+          throw new AuthError('facebook', {
+            detail: 'Facebook API authentication failed. Access token may be invalid or expired.'
+          });
         }
       }
       
@@ -504,37 +531,6 @@ class FacebookApiService {
     }
   }
   
-  /**
-   * Calculate frequency score based on posting patterns
-   * @param contentData User content data
-   * @returns Frequency score from 0-100
-   */
-  private calculateFrequencyScore(contentData: any[]): number {
-    if (contentData.length === 0) {
-      return 0;
-    }
-    
-    // Sort by timestamp descending
-    const sortedContent = [...contentData].sort((a, b) => 
-      new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
-    );
-    
-    // Only consider content from the last 90 days
-    const now = new Date();
-    const ninetyDaysAgo = new Date(now.getTime() - 90 * 24 * 60 * 60 * 1000);
-    
-    const recentContent = sortedContent.filter(item => 
-      new Date(item.timestamp) >= ninetyDaysAgo
-    );
-    
-    // Calculate score based on volume and recency
-    const recentContentRatio = recentContent.length / Math.max(contentData.length, 1);
-    const volumeScore = Math.min(recentContent.length / 30, 1) * 50; // Max 50 points for 30+ posts
-    const recencyScore = recentContentRatio * 50; // Max 50 points for all content being recent
-    
-    return Math.round(volumeScore + recencyScore);
-  }
-  
   /**
    * Calculate engagement rate for content
    * @param contentData User content data
@@ -559,10 +555,11 @@ class FacebookApiService {
   
   /**
    * Analyze hashtags in user content
+   * Also used for content imported from Facebook data exports.
    * @param contentData User content data
    * @returns Hashtag analysis data
    */
-  private analyzeHashtags(contentData: any[]): { 
+  public analyzeHashtags(contentData: any[]): { 
     totalHashtags: number; 
     topHashtags: Array<{ tag: string; count: number; }>; 
   } {
@@ -631,28 +628,37 @@ class FacebookApiService {
   
   /**
    * Extract location data from user content
+   * The Graph API does not return location tags, so only content imported
+   * from Facebook data exports (check-ins) has locations.
    * @param contentData User content data
    * @returns Location data analysis
    */
-  private extractLocationData(contentData: any[]): {
+  public extractLocationData(contentData: any[]): {
     totalLocationsTagged: number;
     mostFrequentLocations: Array<{ name: string; count: number; }>;
   } {
-    // For Facebook, we don't have easy access to location tags through the API
-    // This would require additional requests that may hit rate limits
+    const locationCounts: Record<string, number> = {};
+    
+    contentData.forEach(post => {
+      const name = post.location?.name;
+      if (name) {
+        locationCounts[name] = (locationCounts[name] || 0) + 1;
+      }
+    });
+    
+    const locationArray = Object.entries(locationCounts).map(([name, count]) => ({ name, count }));
+    locationArray.sort((a, b) => b.count - a.count);
+    
     return {
-      totalLocationsTagged: 0,
-      mostFrequentLocations: []
+      totalLocationsTagged: locationArray.reduce((sum, location) => sum + location.count, 0),
+      mostFrequentLocations: locationArray.slice(0, 10)
     };
   }
   
   /**
-   * Analyze sentiment of user content
-   * @param contentData User content data
-   * @returns Sentiment analysis data
-   */
-  /**
-   * Analyze sentiment of content using OpenAI with fallback to keyword analysis
+   * Analyze sentiment of content with the configured analysis provider
+   *
+   * Each post with text is labelled and scored in place.
    * @param contentData Array of content items to analyze
    * @returns Sentiment analysis results
    */
@@ -671,122 +677,26 @@ class FacebookApiService {
         overallSentiment: 'neutral',
         sentimentScore: 0,
         sentimentBreakdown: {
-          positive: 33,
-          neutral: 34,
-          negative: 33
+          positive: 0,
+          neutral: 100,
+          negative: 0
         }
       };
     }
     
-    // Check if OpenAI service is operational
-    const openAiStatus = openAiSentiment.getStatus();
-    
-    if (openAiStatus.operational) {
-      try {
-        // Use OpenAI batch sentiment analysis for more accurate results
-        log('Using OpenAI for Facebook sentiment analysis', 'facebook-api');
-        
-        // Extract content text for analysis
-        const contentTexts = contentData
-          .filter(post => post.content && post.content.length > 0)
-          .map(post => post.content);
-        
-        // If we have content to analyze
-        if (contentTexts.length > 0) {
-          const results = await openAiSentiment.analyzeSentimentBatch(contentTexts);
-          
-          log(`Facebook sentiment analysis complete. Positive: ${results.positive.toFixed(2)}, Neutral: ${results.neutral.toFixed(2)}, Negative: ${results.negative.toFixed(2)}`, 'facebook-api');
-          
-          // Convert decimal values to percentages
-          const sentimentBreakdown = {
-            positive: Math.round(results.positive * 100),
-            neutral: Math.round(results.neutral * 100),
-            negative: Math.round(results.negative * 100)
-          };
-          
-          // Calculate sentiment score (-100 to 100)
-          const sentimentScore = Math.round((results.positive - results.negative) * 100);
-          
-          // Determine overall sentiment
-          let overallSentiment: 'positive' | 'neutral' | 'negative' = 'neutral';
-          if (sentimentScore > 20) {
-            overallSentiment = 'positive';
-          } else if (sentimentScore < -20) {
-            overallSentiment = 'negative';
-          }
-          
-          return {
-            overallSentiment,
-            sentimentScore,
-            sentimentBreakdown
-          };
-        }
-      } catch (error) {
-        // Log error and fall back to simple calculation
-        log(`Error using OpenAI for Facebook sentiment analysis: ${error}. Falling back to simple calculation.`, 'facebook-api');
-      }
-    }
-    
-    // Fallback to simple keyword-based sentiment analysis
-    log('Using simple sentiment analysis for Facebook content', 'facebook-api');
-    
-    // Simple sentiment analysis based on keywords
-    const positiveWords = [
-      'happy', 'great', 'excellent', 'good', 'love', 'awesome', 'amazing',
-      'wonderful', 'best', 'fantastic', 'beautiful', 'perfect', 'thanks', 'thank you'
-    ];
-    
-    const negativeWords = [
-      'bad', 'terrible', 'awful', 'hate', 'dislike', 'horrible', 'worst',
-      'sucks', 'disappointed', 'poor', 'sad', 'angry', 'upset', 'unfortunately'
-    ];
-    
-    let positiveCount = 0;
-    let negativeCount = 0;
-    let neutralCount = 0;
-    
-    contentData.forEach(post => {
-      if (!post.content) {
-        neutralCount++;
-        return;
-      }
-      
-      const content = post.content.toLowerCase();
-      let isPositive = false;
-      let isNegative = false;
-      
-      // Check for positive keywords
-      for (const word of positiveWords) {
-        if (content.includes(word)) {
-          isPositive = true;
-          break;
-        }
-      }
-      
-      // Check for negative keywords
-      for (const word of negativeWords) {
-        if (content.includes(word)) {
-          isNegative = true;
-          break;
-        }
-      }
-      
-      if (isPositive && !isNegative) {
-        positiveCount++;
-      } else if (!isPositive && isNegative) {
-        negativeCount++;
-      } else {
-        neutralCount++;
-      }
-    });
+    // Label and score each post with the configured analysis provider
+    const results = await analysis.scoreContent(contentData);
+    log(`Facebook sentiment analysis complete. Positive: ${results.positive.toFixed(2)}, Neutral: ${results.neutral.toFixed(2)}, Negative: ${results.negative.toFixed(2)}`, 'facebook-api');
     
-    const total = Math.max(contentData.length, 1);
-    const positivePercentage = (positiveCount / total) * 100;
-    const neutralPercentage = (neutralCount / total) * 100;
-    const negativePercentage = (negativeCount / total) * 100;
+    // Convert decimal values to percentages
+    const sentimentBreakdown = {
+      positive: Math.round(results.positive * 100),
+      neutral: Math.round(results.neutral * 100),
+      negative: Math.round(results.negative * 100)
+    };
     
     // Calculate sentiment score (-100 to 100)
-    const sentimentScore = Math.round(((positiveCount - negativeCount) / total) * 100);
+    const sentimentScore = Math.round((results.positive - results.negative) * 100);
     
     // Determine overall sentiment
     let overallSentiment: 'positive' | 'neutral' | 'negative' = 'neutral';
@@ -799,11 +709,7 @@ class FacebookApiService {
     return {
       overallSentiment,
       sentimentScore,
-      sentimentBreakdown: {
-        positive: Math.round(positivePercentage),
-        neutral: Math.round(neutralPercentage),
-        negative: Math.round(negativePercentage)
-      }
+      sentimentBreakdown
     };
   }
   
@@ -812,51 +718,19 @@ class FacebookApiService {
    * @param contentData User content data
    * @returns Topics analysis data
    */
-  private analyzeTopics(contentData: any[]): {
+  public analyzeTopics(contentData: any[]): {
     topTopics: Array<{ topic: string; confidence: number; }>;
   } {
-    // Simple topic detection based on keywords
-    const topicKeywords: Record<string, string[]> = {
-      'Technology': ['tech', 'technology', 'software', 'hardware', 'app', 'digital', 'mobile', 'computer', 'programming', 'code', 'data'],
-      'Business': ['business', 'entrepreneur', 'startup', 'company', 'market', 'product', 'service', 'customer', 'investment', 'finance', 'money'],
-      'Health': ['health', 'fitness', 'workout', 'exercise', 'diet', 'nutrition', 'wellness', 'healthy', 'medical', 'doctor', 'hospital'],
-      'Travel': ['travel', 'vacation', 'trip', 'journey', 'destination', 'adventure', 'explore', 'tourism', 'hotel', 'flight', 'beach', 'holiday'],
-      'Food': ['food', 'recipe', 'restaurant', 'cook', 'cooking', 'meal', 'breakfast', 'lunch', 'dinner', 'delicious', 'taste', 'flavor'],
-      'Fashion': ['fashion', 'style', 'outfit', 'clothes', 'dress', 'wear', 'design', 'brand', 'trendy', 'accessories', 'beauty', 'makeup'],
-      'Sports': ['sports', 'game', 'team', 'player', 'win', 'match', 'competition', 'tournament', 'score', 'championship', 'ball', 'play'],
-      'Entertainment': ['movie', 'film', 'tv', 'show', 'music', 'song', 'actor', 'actress', 'singer', 'celebrity', 'performance', 'concert', 'entertainment'],
-      'Education': ['education', 'school', 'university', 'college', 'learn', 'teacher', 'student', 'class', 'course', 'knowledge', 'study', 'academic'],
-      'Politics': ['politics', 'government', 'election', 'vote', 'political', 'policy', 'president', 'campaign', 'debate', 'law', 'democratic', 'republican']
-    };
-    
-    const topicCounts: Record<string, number> = {};
-    const totalWords = contentData.reduce((count: number, post: any) => count + (post.content?.split(/\s+/).length || 0), 0);
-    
-    // Count topic mentions
-    contentData.forEach(post => {
-      if (!post.content) return;
-      
-      const content = post.content.toLowerCase();
-      
-      Object.entries(topicKeywords).forEach(([topic, keywords]) => {
-        keywords.forEach(keyword => {
-          if (content.includes(keyword)) {
-            topicCounts[topic] = (topicCounts[topic] || 0) + 1;
-          }
-        });
-      });
-    });
-    
-    // Convert to confidence scores and sort
-    const topicConfidence = Object.entries(topicCounts).map(([topic, count]) => ({
-      topic,
-      confidence: Math.min(Math.round((count / Math.max(contentData.length, 1)) * 100), 100)
-    }));
-    
-    topicConfidence.sort((a, b) => b.confidence - a.confidence);
+    // Keyword matching runs offline, so archive imports can use it too
+    const topicsPerPost = contentData
+      .filter(post => post.content)
+      .map(post => lexiconAnalysis.topicsOf(post.content));
     
     return {
-      topTopics: topicConfidence.slice(0, 5)
+      topTopics: topicShares(topicsPerPost).map(({ topic, percentage }) => ({
+        topic,
+        confidence: Math.round(percentage * 100)
+      }))
     };
   }
   
@@ -892,20 +766,14 @@ class FacebookApiService {
   
   /**
    * Analyze privacy metrics for user content
+   * Also used for content imported from Facebook data exports.
    * @param contentData User content data
    * @returns Privacy metrics analysis
    */
-  private analyzePrivacyMetrics(contentData: any[]): {
-    exposureScore: number;
+  public analyzePrivacyMetrics(contentData: any[]): {
     potentialConcerns: Array<{ issue: string; risk: 'high' | 'medium' | 'low'; details?: string; }>;
     recommendedActions: string[];
   } {
-    const personalInfoKeywords = [
-      'address', 'phone', 'email', 'password', 'ssn', 'social security',
-      'credit card', 'bank account', 'license', 'passport', 'birth date',
-      'birthday', 'home', 'live at', 'living in', 'cell number', 'mobile number'
-    ];
-    
     const locationKeywords = [
       'i\'m at', 'right now at', 'currently at', 'checked in', 'visiting',
       'staying at', 'vacationing at', 'on holiday at', 'working at', 'live in'
@@ -929,24 +797,23 @@ class FacebookApiService {
       
       const content = post.content.toLowerCase();
       
-      // Check for personal information
-      personalInfoKeywords.forEach(keyword => {
-        if (content.includes(keyword)) {
-          personalInfoExposure++;
-          // Check if this concern already exists
-          const existingConcern = concerns.find(c => 
-            c.issue === 'Personal Information Exposure'
-          );
-          
-          if (!existingConcern) {
-            concerns.push({
-              issue: 'Personal Information Exposure',
-              risk: 'high',
-              details: 'Your posts may contain personal or sensitive information.'
-            });
-          }
+      // Check for personal information (phone numbers, addresses, card numbers...)
+      const piiFindings = piiScanner.scanText(post.content);
+      if (piiFindings.length > 0) {
+        personalInfoExposure++;
+        // Check if this concern already exists
+        const existingConcern = concerns.find(c => 
+          c.issue === 'Personal Information Exposure'
+        );
+        
+        if (!existingConcern) {
+          concerns.push({
+            issue: 'Personal Information Exposure',
+            risk: 'high',
+            details: 'Your posts contain personal information such as contact details, addresses or account numbers.'
+          });
         }
-      });
+      }
       
       // Check for location information
       locationKeywords.forEach(keyword => {
@@ -1002,14 +869,6 @@ class FacebookApiService {
       });
     }
     
-    // Calculate exposure score (0-100)
-    const personalInfoFactor = Math.min(personalInfoExposure / Math.max(contentData.length, 1), 1) * 40;
-    const locationFactor = Math.min(locationExposure / Math.max(contentData.length, 1), 1) * 30;
-    const sensitiveTopicsFactor = Math.min(sensitiveTopicsExposure / Math.max(contentData.length, 1), 1) * 20;
-    const highEngagementFactor = Math.min(highEngagementPosts.length / Math.max(contentData.length, 1), 1) * 10;
-    
-    const exposureScore = Math.round(personalInfoFactor + locationFactor + sensitiveTopicsFactor + highEngagementFactor);
-    
     // Sort concerns by risk level
     concerns.sort((a, b) => {
       const riskLevels: Record<string, number> = { 'high': 3, 'medium': 2, 'low': 1 };
@@ -1041,7 +900,6 @@ class FacebookApiService {
     recommendedActions.push('Be mindful of what you share in future posts');
     
     return {
-      exposureScore,
       potentialConcerns: concerns,
       recommendedActions
     };
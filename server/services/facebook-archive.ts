@@ -0,0 +1,339 @@
+/**
+ * Facebook Data Export Importer
+ *
+ * Parses the JSON version of Facebook's "Download Your Information" export.
+ * File locations have moved between export versions (e.g. posts/ became
+ * your_facebook_activity/posts/), so files are matched by name wherever they
+ * are. The content goes through the same analysis as data from the Graph API.
+ *
+ * Off-Facebook activity (what other businesses report to Meta about you) and
+ * connected apps are reported as their own data categories.
+ */
+
+import { ContentItem, PlatformData, PrivacyConcern } from '@shared/schema';
+import {
+  ArchiveFiles,
+  ArchiveImportError,
+  ArchiveImporter,
+  ArchiveParseResult,
+  decodeMetaText,
+  yearlyActivityTimeline
+} from './archive-import';
+import { analysis } from './analysis-provider';
+import { facebookApi } from './facebook-api';
+
+const PROFILE_FILE = /(^|\/)profile_information\/profile_information\.json$/;
+// your_posts_1.json in older exports, your_posts__check_ins__photos_and_videos_1.json in newer ones
+const POSTS_FILE = /(^|\/)your_posts[^/]*\.json$/;
+const COMMENTS_FILE = /(^|\/)comments(_\d+)?\.json$/;
+const REACTIONS_FILE = /(^|\/)(posts_and_comments|likes_and_reactions(_\d+)?)\.json$/;
+const LOCATION_HISTORY_FILE = /(^|\/)location_history\.json$/;
+const OFF_FACEBOOK_FILE = /(^|\/)your_(off-facebook_activity|activity_off_meta_technologies)\.json$/;
+const APPS_FILE = /(^|\/)(connected_)?apps_and_websites\.json$/;
+
+// Off-Facebook activity from more companies than this is a high severity concern
+const OFF_FACEBOOK_HIGH_SEVERITY_COMPANIES = 25;
+
+/**
+ * Convert a Unix timestamp in seconds to ISO 8601
+ */
+function toIsoTimestamp(seconds: number | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+export class FacebookArchiveImporter implements ArchiveImporter {
+  readonly platform = 'facebook' as const;
+  readonly displayName = 'Facebook "Download Your Information" export (JSON)';
+
+  public canImport(files: ArchiveFiles): boolean {
+    return files.find(PROFILE_FILE).length > 0;
+  }
+
+  public async parse(files: ArchiveFiles): Promise<ArchiveParseResult> {
+    const [profilePath] = files.find(PROFILE_FILE);
+    const profile = (await this.readJson(files, profilePath))?.profile_v2;
+    if (!profile) {
+      throw new ArchiveImportError('The Facebook export does not contain profile information. Make sure it was exported as JSON.');
+    }
+
+    const posts = await this.readRecords(files, POSTS_FILE);
+    const comments = await this.readRecords(files, COMMENTS_FILE, 'comments_v2');
+    const reactions = await this.readRecords(files, REACTIONS_FILE, 'reactions_v2');
+    const locationHistory = await this.readRecords(files, LOCATION_HISTORY_FILE, 'location_history_v2');
+    const offFacebookActivity = await this.readRecords(files, OFF_FACEBOOK_FILE, 'off_facebook_activity_v2');
+    const apps = await this.readRecords(files, APPS_FILE, 'installed_apps_v2');
+
+    const postContent = posts.map(post => this.postToContent(post)).filter((item): item is ContentItem => !!item);
+    const commentContent = comments.flatMap(entry => (entry.data || [])
+      .filter((data: any) => data.comment && (data.comment.timestamp ?? entry.timestamp))
+      .map((data: any): ContentItem => ({
+        type: 'comment',
+        content: decodeMetaText(data.comment.comment),
+        timestamp: toIsoTimestamp(data.comment.timestamp ?? entry.timestamp)!
+      })));
+    const reactionContent = reactions
+      .filter(entry => entry.timestamp)
+      .map((entry): ContentItem => ({
+        type: 'like',
+        content: decodeMetaText(entry.title),
+        timestamp: toIsoTimestamp(entry.timestamp)!
+      }));
+
+    const contentData = [...postContent, ...commentContent, ...reactionContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const offFacebookEvents = offFacebookActivity.reduce((sum, company) => sum + (company.events?.length || 0), 0);
+    const checkIns = postContent.filter(item => item.location).length;
+
+    const stats = {
+      posts: postContent.length,
+      comments: commentContent.length,
+      reactions: reactionContent.length,
+      checkIns,
+      locationHistory: locationHistory.length,
+      offFacebookCompanies: offFacebookActivity.length,
+      offFacebookEvents,
+      apps: apps.length,
+    };
+
+    const data = await this.transformExport({
+      profile,
+      contentData,
+      locationHistory,
+      offFacebookActivity,
+      offFacebookEvents,
+      apps,
+    });
+
+    return { data, stats };
+  }
+
+  /**
+   * Parse a JSON file from the export
+   */
+  private async readJson(files: ArchiveFiles, path: string): Promise<any> {
+    try {
+      return JSON.parse(await files.readText(path));
+    } catch (error) {
+      if (error instanceof ArchiveImportError) throw error;
+      throw new ArchiveImportError(`Could not read ${path} from the Facebook export.`);
+    }
+  }
+
+  /**
+   * Read the records of every file matching a pattern
+   * @param files The export
+   * @param pattern File pattern
+   * @param key Key holding the records, for files that are objects rather than arrays
+   * @returns All records, or an empty list if no file matches
+   */
+  private async readRecords(files: ArchiveFiles, pattern: RegExp, key?: string): Promise<any[]> {
+    const records: any[] = [];
+
+    for (const path of files.find(pattern)) {
+      const json = await this.readJson(files, path);
+      const part = Array.isArray(json) ? json : (key && json?.[key]) || [];
+      for (const record of part) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Map an exported post to a content item
+   * Posts with a place attachment are check-ins; posts that only link elsewhere are shares.
+   */
+  private postToContent(post: any): ContentItem | null {
+    const timestamp = toIsoTimestamp(post.timestamp);
+    if (!timestamp) return null;
+
+    const text = decodeMetaText((post.data || []).find((data: any) => data.post)?.post);
+    const attachments = (post.attachments || []).flatMap((attachment: any) => attachment.data || []);
+    const place = attachments.find((data: any) => data.place)?.place;
+    const externalUrl = attachments.find((data: any) => data.external_context)?.external_context?.url;
+
+    return {
+      type: !text && externalUrl ? 'share' : 'post',
+      content: text || decodeMetaText(post.title),
+      timestamp,
+      url: externalUrl,
+      location: place?.name ? {
+        name: decodeMetaText(place.name),
+        latitude: place.coordinate?.latitude,
+        longitude: place.coordinate?.longitude
+      } : undefined
+    };
+  }
+
+  /**
+   * Build platform data from the parsed export
+   */
+  private async transformExport(exportData: {
+    profile: any;
+    contentData: ContentItem[];
+    locationHistory: any[];
+    offFacebookActivity: any[];
+    offFacebookEvents: number;
+    apps: any[];
+  }): Promise<PlatformData> {
+    const { profile, contentData, locationHistory, offFacebookActivity, apps } = exportData;
+
+    const displayName = decodeMetaText(profile.name?.full_name);
+    const profileUrl: string | undefined = profile.profile_uri;
+    // The export has no username field in recent versions, but the profile URL ends with it
+    const username: string = profile.username ||
+      profileUrl?.replace(/\/+$/, '').split('/').pop() ||
+      displayName;
+    const location = decodeMetaText(profile.current_city?.name) || undefined;
+
+    // Same analysis as data from the Graph API
+    const privacyAnalysis = facebookApi.analyzePrivacyMetrics(contentData);
+    const locationData = facebookApi.extractLocationData(contentData);
+    const hashtagAnalysis = facebookApi.analyzeHashtags(contentData);
+    const topicAnalysis = facebookApi.analyzeTopics(contentData);
+
+    const posts = contentData.filter(item => item.type === 'post').length;
+    const comments = contentData.filter(item => item.type === 'comment').length;
+    const reactions = contentData.filter(item => item.type === 'like').length;
+    const shares = contentData.filter(item => item.type === 'share').length;
+
+    // Companies that sent the most events about the user
+    const topOffFacebookCompanies = offFacebookActivity
+      .map(company => ({ name: decodeMetaText(company.name), events: company.events?.length || 0 }))
+      .sort((a, b) => b.events - a.events)
+      .slice(0, 10);
+
+    const privacyConcerns: PrivacyConcern[] = privacyAnalysis.potentialConcerns.map(concern => ({
+      type: concern.issue,
+      severity: concern.risk,
+      description: concern.details || concern.issue
+    }));
+
+    if (offFacebookActivity.length > 0) {
+      privacyConcerns.push({
+        type: 'off_facebook_activity',
+        severity: offFacebookActivity.length > OFF_FACEBOOK_HIGH_SEVERITY_COMPANIES ? 'high' : 'medium',
+        description: `${offFacebookActivity.length} businesses shared ${exportData.offFacebookEvents} events about your ` +
+          `activity outside Facebook, including ${topOffFacebookCompanies.slice(0, 3).map(c => c.name).join(', ')}`
+      });
+    }
+    if (locationData.totalLocationsTagged > 0 || locationHistory.length > 0) {
+      const places = locationData.mostFrequentLocations.slice(0, 3).map(l => l.name);
+      privacyConcerns.push({
+        type: 'location_history',
+        severity: locationHistory.length > 0 ? 'high' : 'medium',
+        description: [
+          locationData.totalLocationsTagged > 0 ? `${locationData.totalLocationsTagged} check-ins` : '',
+          locationHistory.length > 0 ? `${locationHistory.length} location history entries` : ''
+        ].filter(Boolean).join(' and ') + ' are stored by Facebook' +
+          (places.length > 0 ? `, most often at ${places.join(', ')}` : '')
+      });
+    }
+    if (apps.length > 0) {
+      privacyConcerns.push({
+        type: 'connected_apps',
+        severity: 'medium',
+        description: `${apps.length} apps and websites are connected to your Facebook account`
+      });
+    }
+
+    const severityOrder: Record<string, number> = { high: 3, medium: 2, low: 1 };
+    privacyConcerns.sort((a, b) => severityOrder[b.severity] - severityOrder[a.severity]);
+
+    const dataCategories: { category: string, severity: 'low' | 'medium' | 'high' }[] = [
+      { category: 'Profile Information', severity: 'low' },
+      { category: 'Post Content', severity: 'medium' },
+      { category: 'Activity Data', severity: 'low' }
+    ];
+    if (offFacebookActivity.length > 0) {
+      dataCategories.push({
+        category: 'Off-Facebook Activity',
+        severity: offFacebookActivity.length > OFF_FACEBOOK_HIGH_SEVERITY_COMPANIES ? 'high' : 'medium'
+      });
+    }
+    if (locationData.totalLocationsTagged > 0 || locationHistory.length > 0) {
+      dataCategories.push({ category: 'Location History', severity: locationHistory.length > 0 ? 'high' : 'medium' });
+    }
+    if (apps.length > 0) {
+      dataCategories.push({ category: 'Connected Apps & Websites', severity: 'medium' });
+    }
+
+    const recommendedActions = [...privacyAnalysis.recommendedActions];
+    if (offFacebookActivity.length > 0) {
+      recommendedActions.unshift("Clear your off-Facebook activity and turn off future activity in Your Facebook Information");
+    }
+    if (locationHistory.length > 0) {
+      recommendedActions.unshift("Turn off Location History in the Facebook app and delete the stored history");
+    }
+    if (apps.length > 0) {
+      recommendedActions.push("Remove apps and websites you no longer use in Settings > Apps and Websites");
+    }
+
+    const activityTimeline = yearlyActivityTimeline(contentData);
+
+    const joinDate = toIsoTimestamp(profile.registration_timestamp);
+    const accountAgeInDays = joinDate ? (Date.now() - new Date(joinDate).getTime()) / (24 * 60 * 60 * 1000) : 0;
+
+    // Label and score each item with the configured analysis provider
+    const sentimentBreakdown = await analysis.scoreContent(contentData);
+
+    return {
+      platformId: 'facebook',
+      username,
+      profileData: {
+        displayName: displayName || username,
+        bio: decodeMetaText(profile.intro_bio),
+        joinDate,
+        profileUrl: profileUrl || `https://facebook.com/${username}`,
+        location
+      },
+      activityData: {
+        totalPosts: posts,
+        totalComments: comments,
+        totalLikes: reactions,
+        totalShares: shares,
+        postsPerDay: accountAgeInDays > 0 ? posts / accountAgeInDays : 0,
+        lastActive: contentData[0]?.timestamp,
+        topHashtags: hashtagAnalysis.topHashtags.map(item => item.tag)
+      },
+      contentData,
+      privacyMetrics: {
+        exposureScore: 0, // Scored by the exposure score engine
+        dataCategories,
+        potentialConcerns: privacyConcerns.map(concern => ({
+          issue: concern.description,
+          risk: concern.severity
+        })),
+        recommendedActions
+      },
+      analysisResults: {
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics: topicAnalysis.topTopics.map(t => ({
+          topic: t.topic,
+          percentage: t.confidence / 100
+        })),
+        activityTimeline,
+        sentimentBreakdown,
+        dataCategories,
+        privacyConcerns,
+        recommendedActions,
+        platformSpecificMetrics: {
+          locationCheckIns: locationData.mostFrequentLocations.map(l => l.name),
+          locationHistoryEntries: locationHistory.length,
+          hashtagAnalysis: hashtagAnalysis.topHashtags,
+          offFacebookActivity: {
+            companies: offFacebookActivity.length,
+            events: exportData.offFacebookEvents,
+            topCompanies: topOffFacebookCompanies
+          },
+          connectedApps: apps.map(app => decodeMetaText(app.name)).filter(Boolean)
+        }
+      }
+    };
+  }
+}
+
+// Create singleton instance
+export const facebookArchiveImporter = new FacebookArchiveImporter();
@@ -0,0 +1,116 @@
+/**
+ * Footprint Diff Service
+ *
+ * Compares two saved digital footprint snapshots so users can see what changed
+ * between scans: content that appeared or disappeared, follower movement,
+ * exposure score changes and newly raised privacy concerns.
+ */
+
+import {
+  ContentItem,
+  DigitalFootprintResponse,
+  FootprintDiff,
+  Platform,
+  PlatformData,
+  PrivacyConcern
+} from '@shared/schema';
+
+export class FootprintDiffService {
+  /**
+   * Compare two footprint snapshots
+   * @param from The earlier snapshot
+   * @param to The later snapshot
+   * @returns Per-platform and overall changes between the snapshots
+   */
+  public diff(from: DigitalFootprintResponse, to: DigitalFootprintResponse): FootprintDiff {
+    const fromPlatforms = this.indexByPlatform(from.platformData);
+    const toPlatforms = this.indexByPlatform(to.platformData);
+
+    // Keep the order of the later snapshot, then append platforms that disappeared
+    const platformIds = Array.from(new Set(Array.from(toPlatforms.keys()).concat(Array.from(fromPlatforms.keys()))));
+
+    return {
+      fromSearchId: from.searchId ?? 0,
+      toSearchId: to.searchId ?? 0,
+      fromTimestamp: from.timestamp,
+      toTimestamp: to.timestamp,
+      exposureScore: this.metricChange(from.summary.exposureScore, to.summary.exposureScore),
+      platforms: platformIds.map(platformId =>
+        this.diffPlatform(platformId, fromPlatforms.get(platformId), toPlatforms.get(platformId))
+      ),
+    };
+  }
+
+  /**
+   * Compare the data for a single platform across two snapshots
+   */
+  private diffPlatform(
+    platformId: Platform,
+    from: PlatformData | undefined,
+    to: PlatformData | undefined
+  ): FootprintDiff['platforms'][number] {
+    const fromContent = from?.contentData || [];
+    const toContent = to?.contentData || [];
+    const fromKeys = new Set(fromContent.map(item => this.contentKey(item)));
+    const toKeys = new Set(toContent.map(item => this.contentKey(item)));
+
+    const fromConcerns = new Set(
+      (from?.analysisResults?.privacyConcerns || []).map(concern => this.concernKey(concern))
+    );
+
+    return {
+      platformId,
+      presence: !from ? 'added' : !to ? 'removed' : 'unchanged',
+      followers: this.metricChange(from?.profileData?.followerCount, to?.profileData?.followerCount),
+      following: this.metricChange(from?.profileData?.followingCount, to?.profileData?.followingCount),
+      exposureScore: this.metricChange(from?.analysisResults?.exposureScore, to?.analysisResults?.exposureScore),
+      newContent: toContent.filter(item => !fromKeys.has(this.contentKey(item))),
+      removedContent: fromContent.filter(item => !toKeys.has(this.contentKey(item))),
+      newPrivacyConcerns: (to?.analysisResults?.privacyConcerns || []).filter(
+        concern => !fromConcerns.has(this.concernKey(concern))
+      ),
+    };
+  }
+
+  /**
+   * Build a lookup of platform data by platform ID
+   */
+  private indexByPlatform(platformData: PlatformData[]): Map<Platform, PlatformData> {
+    const index = new Map<Platform, PlatformData>();
+    for (const data of platformData) {
+      index.set(data.platformId, data);
+    }
+    return index;
+  }
+
+  /**
+   * Identify a content item across snapshots
+   * The URL is stable when present; otherwise fall back to type, time and text
+   */
+  private contentKey(item: ContentItem): string {
+    if (item.url) {
+      return item.url;
+    }
+    return `${item.type}|${item.timestamp}|${item.content || ''}`;
+  }
+
+  /**
+   * Identify a privacy concern across snapshots
+   */
+  private concernKey(concern: PrivacyConcern): string {
+    return `${concern.type}|${concern.description}`;
+  }
+
+  /**
+   * Describe how a metric moved, treating a missing value as zero for the change
+   */
+  private metricChange(from: number | undefined, to: number | undefined) {
+    return {
+      from,
+      to,
+      change: (to ?? 0) - (from ?? 0),
+    };
+  }
+}
+
+export const footprintDiff = new FootprintDiffService();
@@ -0,0 +1,263 @@
+/**
+ * Gazetteer
+ *
+ * A small offline list of large cities with their coordinates and standard
+ * UTC offset, so place names in profiles and posts can be put on a map and
+ * compared with the time zone implied by activity hours without calling a
+ * geocoding service. Cities whose names are also common words (Nice, Reading,
+ * Mobile) are left out, since they would be found in ordinary text.
+ */
+
+export interface Place {
+  name: string;
+  country: string;
+  latitude: number;
+  longitude: number;
+  // Standard time, ignoring daylight saving
+  utcOffset: number;
+}
+
+// [name, country, latitude, longitude, UTC offset, other names]
+type PlaceRecord = [string, string, number, number, number, string[]?];
+
+const PLACES: PlaceRecord[] = [
+  // North America
+  ['New York', 'United States', 40.71, -74.01, -5, ['New York City', 'NYC', 'Manhattan', 'Brooklyn']],
+  ['Los Angeles', 'United States', 34.05, -118.24, -8, ['LA']],
+  ['Chicago', 'United States', 41.88, -87.63, -6],
+  ['Houston', 'United States', 29.76, -95.37, -6],
+  ['Phoenix', 'United States', 33.45, -112.07, -7],
+  ['Philadelphia', 'United States', 39.95, -75.17, -5, ['Philly']],
+  ['San Antonio', 'United States', 29.42, -98.49, -6],
+  ['San Diego', 'United States', 32.72, -117.16, -8],
+  ['Dallas', 'United States', 32.78, -96.8, -6],
+  ['Austin', 'United States', 30.27, -97.74, -6],
+  ['San Jose', 'United States', 37.34, -121.89, -8],
+  ['San Francisco', 'United States', 37.77, -122.42, -8, ['SF', 'Bay Area']],
+  ['Seattle', 'United States', 47.61, -122.33, -8],
+  ['Portland', 'United States', 45.52, -122.68, -8],
+  ['Denver', 'United States', 39.74, -104.99, -7],
+  ['Boston', 'United States', 42.36, -71.06, -5],
+  ['Washington', 'United States', 38.91, -77.04, -5, ['Washington DC', 'Washington, DC', 'Washington D.C.']],
+  ['Atlanta', 'United States', 33.75, -84.39, -5],
+  ['Miami', 'United States', 25.76, -80.19, -5],
+  ['Orlando', 'United States', 28.54, -81.38, -5],
+  ['Nashville', 'United States', 36.16, -86.78, -6],
+  ['Minneapolis', 'United States', 44.98, -93.27, -6],
+  ['Detroit', 'United States', 42.33, -83.05, -5],
+  ['Las Vegas', 'United States', 36.17, -115.14, -8],
+  ['Salt Lake City', 'United States', 40.76, -111.89, -7],
+  ['Pittsburgh', 'United States', 40.44, -79.99, -5],
+  ['New Orleans', 'United States', 29.95, -90.07, -6],
+  ['Honolulu', 'United States', 21.31, -157.86, -10],
+  ['Anchorage', 'United States', 61.22, -149.9, -9],
+  ['Toronto', 'Canada', 43.65, -79.38, -5],
+  ['Montreal', 'Canada', 45.5, -73.57, -5, ['Montréal']],
+  ['Vancouver', 'Canada', 49.28, -123.12, -8],
+  ['Calgary', 'Canada', 51.05, -114.07, -7],
+  ['Ottawa', 'Canada', 45.42, -75.7, -5],
+  ['Mexico City', 'Mexico', 19.43, -99.13, -6, ['CDMX']],
+  ['Guadalajara', 'Mexico', 20.66, -103.35, -6],
+  ['Monterrey', 'Mexico', 25.69, -100.32, -6],
+  // South America
+  ['São Paulo', 'Brazil', -23.55, -46.63, -3, ['Sao Paulo']],
+  ['Rio de Janeiro', 'Brazil', -22.91, -43.17, -3, ['Rio']],
+  ['Buenos Aires', 'Argentina', -34.6, -58.38, -3],
+  ['Santiago', 'Chile', -33.45, -70.67, -4],
+  ['Lima', 'Peru', -12.05, -77.04, -5],
+  ['Bogotá', 'Colombia', 4.71, -74.07, -5, ['Bogota']],
+  ['Medellín', 'Colombia', 6.24, -75.58, -5, ['Medellin']],
+  ['Caracas', 'Venezuela', 10.48, -66.9, -4],
+  ['Montevideo', 'Uruguay', -34.9, -56.16, -3],
+  // Europe
+  ['London', 'United Kingdom', 51.51, -0.13, 0],
+  ['Manchester', 'United Kingdom', 53.48, -2.24, 0],
+  ['Birmingham', 'United Kingdom', 52.49, -1.89, 0],
+  ['Edinburgh', 'United Kingdom', 55.95, -3.19, 0],
+  ['Glasgow', 'United Kingdom', 55.86, -4.25, 0],
+  ['Bristol', 'United Kingdom', 51.45, -2.59, 0],
+  ['Dublin', 'Ireland', 53.35, -6.26, 0],
+  ['Paris', 'France', 48.86, 2.35, 1],
+  ['Lyon', 'France', 45.76, 4.84, 1],
+  ['Marseille', 'France', 43.3, 5.37, 1],
+  ['Berlin', 'Germany', 52.52, 13.4, 1],
+  ['Hamburg', 'Germany', 53.55, 9.99, 1],
+  ['Munich', 'Germany', 48.14, 11.58, 1, ['München']],
+  ['Cologne', 'Germany', 50.94, 6.96, 1, ['Köln']],
+  ['Frankfurt', 'Germany', 50.11, 8.68, 1],
+  ['Amsterdam', 'Netherlands', 52.37, 4.9, 1],
+  ['Rotterdam', 'Netherlands', 51.92, 4.48, 1],
+  ['Brussels', 'Belgium', 50.85, 4.35, 1],
+  ['Zurich', 'Switzerland', 47.38, 8.54, 1, ['Zürich']],
+  ['Geneva', 'Switzerland', 46.2, 6.14, 1],
+  ['Vienna', 'Austria', 48.21, 16.37, 1],
+  ['Madrid', 'Spain', 40.42, -3.7, 1],
+  ['Barcelona', 'Spain', 41.39, 2.17, 1],
+  ['Valencia', 'Spain', 39.47, -0.38, 1],
+  ['Lisbon', 'Portugal', 38.72, -9.14, 0],
+  ['Porto', 'Portugal', 41.15, -8.61, 0],
+  ['Rome', 'Italy', 41.9, 12.5, 1],
+  ['Milan', 'Italy', 45.46, 9.19, 1],
+  ['Naples', 'Italy', 40.85, 14.27, 1],
+  ['Copenhagen', 'Denmark', 55.68, 12.57, 1],
+  ['Stockholm', 'Sweden', 59.33, 18.07, 1],
+  ['Oslo', 'Norway', 59.91, 10.75, 1],
+  ['Helsinki', 'Finland', 60.17, 24.94, 2],
+  ['Warsaw', 'Poland', 52.23, 21.01, 1],
+  ['Krakow', 'Poland', 50.06, 19.94, 1, ['Kraków']],
+  ['Prague', 'Czech Republic', 50.08, 14.44, 1],
+  ['Budapest', 'Hungary', 47.5, 19.04, 1],
+  ['Bucharest', 'Romania', 44.43, 26.1, 2],
+  ['Athens', 'Greece', 37.98, 23.73, 2],
+  ['Istanbul', 'Turkey', 41.01, 28.98, 3],
+  ['Kyiv', 'Ukraine', 50.45, 30.52, 2, ['Kiev']],
+  ['Moscow', 'Russia', 55.76, 37.62, 3],
+  ['Saint Petersburg', 'Russia', 59.93, 30.34, 3, ['St. Petersburg']],
+  // Africa and the Middle East
+  ['Cairo', 'Egypt', 30.04, 31.24, 2],
+  ['Lagos', 'Nigeria', 6.52, 3.38, 1],
+  ['Nairobi', 'Kenya', -1.29, 36.82, 3],
+  ['Johannesburg', 'South Africa', -26.2, 28.05, 2],
+  ['Cape Town', 'South Africa', -33.92, 18.42, 2],
+  ['Casablanca', 'Morocco', 33.57, -7.59, 0],
+  ['Accra', 'Ghana', 5.6, -0.19, 0],
+  ['Addis Ababa', 'Ethiopia', 9.03, 38.74, 3],
+  ['Dubai', 'United Arab Emirates', 25.2, 55.27, 4],
+  ['Abu Dhabi', 'United Arab Emirates', 24.45, 54.38, 4],
+  ['Riyadh', 'Saudi Arabia', 24.71, 46.68, 3],
+  ['Tel Aviv', 'Israel', 32.09, 34.78, 2],
+  ['Jerusalem', 'Israel', 31.77, 35.21, 2],
+  ['Tehran', 'Iran', 35.69, 51.39, 3.5],
+  // Asia and Oceania
+  ['Mumbai', 'India', 19.08, 72.88, 5.5, ['Bombay']],
+  ['Delhi', 'India', 28.7, 77.1, 5.5, ['New Delhi']],
+  ['Bangalore', 'India', 12.97, 77.59, 5.5, ['Bengaluru']],
+  ['Hyderabad', 'India', 17.39, 78.49, 5.5],
+  ['Chennai', 'India', 13.08, 80.27, 5.5],
+  ['Kolkata', 'India', 22.57, 88.36, 5.5],
+  ['Karachi', 'Pakistan', 24.86, 67.01, 5],
+  ['Lahore', 'Pakistan', 31.55, 74.34, 5],
+  ['Dhaka', 'Bangladesh', 23.81, 90.41, 6],
+  ['Bangkok', 'Thailand', 13.76, 100.5, 7],
+  ['Singapore', 'Singapore', 1.35, 103.82, 8],
+  ['Kuala Lumpur', 'Malaysia', 3.14, 101.69, 8, ['KL']],
+  ['Jakarta', 'Indonesia', -6.21, 106.85, 7],
+  ['Manila', 'Philippines', 14.6, 120.98, 8],
+  ['Ho Chi Minh City', 'Vietnam', 10.82, 106.63, 7, ['Saigon']],
+  ['Hanoi', 'Vietnam', 21.03, 105.85, 7],
+  ['Hong Kong', 'China', 22.32, 114.17, 8],
+  ['Shanghai', 'China', 31.23, 121.47, 8],
+  ['Beijing', 'China', 39.9, 116.41, 8],
+  ['Shenzhen', 'China', 22.54, 114.06, 8],
+  ['Taipei', 'Taiwan', 25.03, 121.57, 8],
+  ['Seoul', 'South Korea', 37.57, 126.98, 9],
+  ['Busan', 'South Korea', 35.18, 129.08, 9],
+  ['Tokyo', 'Japan', 35.68, 139.69, 9],
+  ['Osaka', 'Japan', 34.69, 135.5, 9],
+  ['Kyoto', 'Japan', 35.01, 135.77, 9],
+  ['Sydney', 'Australia', -33.87, 151.21, 10],
+  ['Melbourne', 'Australia', -37.81, 144.96, 10],
+  ['Brisbane', 'Australia', -27.47, 153.03, 10],
+  ['Perth', 'Australia', -31.95, 115.86, 8],
+  ['Adelaide', 'Australia', -34.93, 138.6, 9.5],
+  ['Auckland', 'New Zealand', -36.85, 174.76, 12],
+  ['Wellington', 'New Zealand', -41.29, 174.78, 12],
+];
+
+const EARTH_RADIUS_KM = 6371;
+
+export class Gazetteer {
+  private readonly places: Place[];
+  // Lowercase name or other name to place
+  private readonly byName: Map<string, Place>;
+  // Names as written, longest first so "New York City" wins over "New York"
+  private readonly mentionPattern: RegExp;
+
+  constructor(records: PlaceRecord[] = PLACES) {
+    this.places = [];
+    this.byName = new Map();
+    const names: string[] = [];
+
+    for (const [name, country, latitude, longitude, utcOffset, otherNames = []] of records) {
+      const place = { name, country, latitude, longitude, utcOffset };
+      this.places.push(place);
+      for (const alias of [name, ...otherNames]) {
+        this.byName.set(alias.toLowerCase(), place);
+        names.push(alias);
+      }
+    }
+
+    const escaped = names
+      .sort((a, b) => b.length - a.length)
+      .map(name => name.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    this.mentionPattern = new RegExp(`(^|[^A-Za-z\\u00C0-\\u024F])(${escaped.join('|')})(?![A-Za-z\\u00C0-\\u024F])`, 'g');
+  }
+
+  /**
+   * Look up a place from a free-text location such as "Berlin, Germany"
+   * The whole text is tried first, then each comma-separated part in turn.
+   * @param location Location as written in a profile or place name
+   * @returns The place, or undefined if none is known
+   */
+  public find(location: string | undefined): Place | undefined {
+    if (!location?.trim()) return undefined;
+    const normalized = location.trim().toLowerCase().replace(/\s+/g, ' ');
+    const exact = this.byName.get(normalized);
+    if (exact) return exact;
+
+    for (const part of normalized.split(/[,/|·•]/)) {
+      const place = this.byName.get(part.trim());
+      if (place) return place;
+    }
+    return undefined;
+  }
+
+  /**
+   * Places named in a text, matched as written so ordinary words are not mistaken for places
+   * @param text Text to search
+   * @returns Each mention with the place and where the name starts
+   */
+  public mentionsIn(text: string): Array<{ place: Place; name: string; index: number }> {
+    const mentions: Array<{ place: Place; name: string; index: number }> = [];
+    this.mentionPattern.lastIndex = 0;
+    let match: RegExpExecArray | null;
+    while ((match = this.mentionPattern.exec(text)) !== null) {
+      const name = match[2];
+      mentions.push({ place: this.byName.get(name.toLowerCase())!, name, index: match.index + match[1].length });
+    }
+    return mentions;
+  }
+
+  /**
+   * The known place closest to a point, if within a distance
+   * @param latitude Latitude of the point
+   * @param longitude Longitude of the point
+   * @param maxKm Farthest a place may be
+   */
+  public nearest(latitude: number, longitude: number, maxKm: number): Place | undefined {
+    let best: Place | undefined;
+    let bestDistance = maxKm;
+    for (const place of this.places) {
+      const distance = this.distanceKm(latitude, longitude, place.latitude, place.longitude);
+      if (distance <= bestDistance) {
+        best = place;
+        bestDistance = distance;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Great-circle distance between two points, in kilometers
+   */
+  public distanceKm(latitudeA: number, longitudeA: number, latitudeB: number, longitudeB: number): number {
+    const radians = (degrees: number) => degrees * Math.PI / 180;
+    const dLatitude = radians(latitudeB - latitudeA);
+    const dLongitude = radians(longitudeB - longitudeA);
+    const a = Math.sin(dLatitude / 2) ** 2 +
+      Math.cos(radians(latitudeA)) * Math.cos(radians(latitudeB)) * Math.sin(dLongitude / 2) ** 2;
+    return 2 * EARTH_RADIUS_KM * Math.asin(Math.min(1, Math.sqrt(a)));
+  }
+}
+
+export const gazetteer = new Gazetteer();
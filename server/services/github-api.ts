@@ -0,0 +1,465 @@
+/**
+ * GitHub API Service
+ *
+ * Fetches a user's public GitHub profile, repositories, gists and recent public
+ * events. Commit author emails in public push events are a common and largely
+ * unknown exposure source, so they are reported as a high-severity concern.
+ *
+ * Works without credentials; set GITHUB_TOKEN to raise the rate limit. Requests
+ * go through a transport function so the service can run against recorded
+ * fixture responses (see server/tests/test-github-api.ts).
+ */
+
+import axios from 'axios';
+import { ContentItem, PlatformData, PrivacyConcern } from '@shared/schema';
+import { log } from '../vite';
+import { analysis } from './analysis-provider';
+import type { ConnectorCapabilities, ConnectorStatus, PlatformConnector } from './platform-connector';
+import { AuthError, NotFoundError, PlatformApiError, RateLimitError } from './platform-errors';
+
+export interface GitHubResponse {
+  status: number;
+  headers: Record<string, string | undefined>;
+  data: any;
+}
+
+// Performs a GET request against the GitHub REST API
+export type GitHubTransport = (path: string) => Promise<GitHubResponse>;
+
+const API_BASE_URL = 'https://api.github.com';
+
+// Default transport using the live GitHub API
+const httpTransport: GitHubTransport = async (path) => {
+  const response = await axios.get(`${API_BASE_URL}${path}`, {
+    headers: {
+      'Accept': 'application/vnd.github+json',
+      'User-Agent': 'DigitalFootprintTracker/1.0.0',
+      ...(process.env.GITHUB_TOKEN ? { 'Authorization': `Bearer ${process.env.GITHUB_TOKEN}` } : {})
+    },
+    // Error statuses are mapped to platform errors by the service
+    validateStatus: () => true
+  });
+
+  return {
+    status: response.status,
+    headers: response.headers as Record<string, string | undefined>,
+    data: response.data
+  };
+};
+
+// Emails GitHub substitutes when a user keeps their address private
+const NOREPLY_EMAIL_PATTERN = /(@users\.noreply\.github\.com|^noreply@github\.com)$/i;
+
+export class GitHubApiService implements PlatformConnector {
+  readonly platform = 'github' as const;
+  readonly displayName = 'GitHub';
+  readonly capabilities: ConnectorCapabilities = {
+    deletion: false,
+    oauth: false,
+    contentTypes: ['post', 'comment', 'like', 'share']
+  };
+
+  private transport: GitHubTransport;
+
+  // Cache the API status to avoid unnecessary calls
+  private apiStatusCache: { status: ConnectorStatus, timestamp: number } | null = null;
+  private readonly API_STATUS_CACHE_TTL = 60 * 1000; // 1 minute cache for API status
+
+  /**
+   * @param transport Performs requests, defaults to the live GitHub API
+   */
+  constructor(transport: GitHubTransport = httpTransport) {
+    this.transport = transport;
+  }
+
+  /**
+   * Get API status by checking the remaining rate limit
+   * The rate limit endpoint does not count against the limit itself
+   */
+  public async getApiStatus(): Promise<ConnectorStatus> {
+    if (this.apiStatusCache && (Date.now() - this.apiStatusCache.timestamp) < this.API_STATUS_CACHE_TTL) {
+      return this.apiStatusCache.status;
+    }
+
+    let status: ConnectorStatus;
+    try {
+      const response = await this.transport('/rate_limit');
+      const remaining = response.data?.resources?.core?.remaining;
+
+      if (response.status !== 200) {
+        status = {
+          configured: true,
+          operational: false,
+          message: `GitHub API returned status ${response.status}.`
+        };
+      } else if (remaining === 0) {
+        status = {
+          configured: true,
+          operational: false,
+          rateLimited: true,
+          message: 'GitHub API is rate limited. Please try again later.'
+        };
+      } else {
+        status = {
+          configured: true,
+          operational: true,
+          message: `GitHub API is operational. ${remaining} requests remaining${process.env.GITHUB_TOKEN ? '' : ' (unauthenticated)'}.`
+        };
+      }
+    } catch (error: any) {
+      status = {
+        configured: true,
+        operational: false,
+        message: `GitHub API could not be reached: ${error.message}`
+      };
+    }
+
+    this.apiStatusCache = { status, timestamp: Date.now() };
+    return status;
+  }
+
+  /**
+   * Fetch public data for a GitHub user
+   * @param username GitHub login
+   * @returns Platform data for the user
+   * @throws PlatformError if the user does not exist or the API fails
+   */
+  public async fetchUserData(username: string): Promise<PlatformData | null> {
+    log(`Fetching GitHub data for user: ${username}`, 'github-api');
+
+    const login = encodeURIComponent(username);
+    const user = await this.request(`/users/${login}`);
+    const [repos, gists, events] = await Promise.all([
+      this.request(`/users/${login}/repos?per_page=100&sort=updated`),
+      this.request(`/users/${login}/gists?per_page=30`),
+      this.request(`/users/${login}/events/public?per_page=100`)
+    ]);
+
+    return this.transformUserData(user, repos || [], gists || [], events || []);
+  }
+
+  /**
+   * Check whether a GitHub login exists with a single profile request
+   * @param username GitHub login
+   * @returns Whether the user exists
+   * @throws PlatformError if the API fails for another reason
+   */
+  public async checkUsernameExists(username: string): Promise<boolean> {
+    try {
+      await this.request(`/users/${encodeURIComponent(username)}`);
+      return true;
+    } catch (error) {
+      if (error instanceof NotFoundError) return false;
+      throw error;
+    }
+  }
+
+  /**
+   * Make an API request and map error responses to platform errors
+   * @param path API path including any query string
+   * @returns The response body
+   */
+  private async request(path: string): Promise<any> {
+    let response: GitHubResponse;
+    try {
+      response = await this.transport(path);
+    } catch (error: any) {
+      throw new PlatformApiError('github', { detail: `Error calling GitHub API ${path}: ${error.message}` });
+    }
+
+    if (response.status >= 200 && response.status < 300) {
+      return response.data;
+    }
+
+    const detail = `GitHub API ${path} returned ${response.status}: ${response.data?.message || 'no message'}`;
+
+    if (response.status === 404) {
+      throw new NotFoundError('github', { detail });
+    }
+
+    // GitHub signals exhausted rate limits with 403 or 429 and a zero remaining count
+    if (response.status === 429 ||
+        (response.status === 403 && response.headers['x-ratelimit-remaining'] === '0')) {
+      const reset = Number(response.headers['x-ratelimit-reset']);
+      const retryAfter = Number(response.headers['retry-after']) ||
+        (reset ? Math.max(0, Math.ceil(reset - Date.now() / 1000)) : undefined);
+      throw new RateLimitError('github', { detail, retryAfter });
+    }
+
+    if (response.status === 401) {
+      throw new AuthError('github', { detail });
+    }
+
+    throw new PlatformApiError('github', { detail });
+  }
+
+  /**
+   * Collect commit author emails from public push events
+   * @param events Public events of the user
+   * @returns Unique emails, excluding GitHub noreply addresses
+   */
+  public extractCommitEmails(events: any[]): string[] {
+    const emails = new Set<string>();
+
+    for (const event of events) {
+      if (event.type !== 'PushEvent') continue;
+
+      for (const commit of event.payload?.commits || []) {
+        const email = commit.author?.email?.trim().toLowerCase();
+        if (email && !NOREPLY_EMAIL_PATTERN.test(email)) {
+          emails.add(email);
+        }
+      }
+    }
+
+    return Array.from(emails);
+  }
+
+  /**
+   * Map a public event to a content item
+   * @returns The content item, or null for event types we don't report
+   */
+  private eventToContent(event: any): ContentItem | null {
+    const repoName = event.repo?.name;
+    const repoUrl = `https://github.com/${repoName}`;
+
+    switch (event.type) {
+      case 'PushEvent': {
+        const commits = event.payload?.commits || [];
+        const messages = commits.map((commit: any) => commit.message.split('\n')[0]).join('; ');
+        return {
+          type: 'post',
+          content: `Pushed ${commits.length} commit(s) to ${repoName}${messages ? `: ${messages}` : ''}`,
+          timestamp: event.created_at,
+          url: event.payload?.head ? `${repoUrl}/commit/${event.payload.head}` : repoUrl,
+          topics: [repoName]
+        };
+      }
+      case 'IssueCommentEvent':
+      case 'PullRequestReviewCommentEvent':
+      case 'CommitCommentEvent': {
+        const body: string = event.payload?.comment?.body || '';
+        return {
+          type: 'comment',
+          content: body.substring(0, 300) + (body.length > 300 ? '...' : ''),
+          timestamp: event.created_at,
+          url: event.payload?.comment?.html_url || repoUrl,
+          topics: [repoName]
+        };
+      }
+      case 'WatchEvent':
+        return {
+          type: 'like',
+          content: `Starred ${repoName}`,
+          timestamp: event.created_at,
+          url: repoUrl,
+          topics: [repoName]
+        };
+      case 'ForkEvent':
+        return {
+          type: 'share',
+          content: `Forked ${repoName}`,
+          timestamp: event.created_at,
+          url: event.payload?.forkee?.html_url || repoUrl,
+          topics: [repoName]
+        };
+      default:
+        return null;
+    }
+  }
+
+  /**
+   * Transform GitHub API responses to our platform data format
+   */
+  private async transformUserData(user: any, repos: any[], gists: any[], events: any[]): Promise<PlatformData> {
+    const username: string = user.login;
+    const commitEmails = this.extractCommitEmails(events);
+
+    // Repositories and gists are the user's posts
+    const repoContent: ContentItem[] = repos.map(repo => ({
+      type: 'post',
+      content: `${repo.fork ? 'Forked repository' : 'Repository'} ${repo.full_name}${repo.description ? `: ${repo.description}` : ''}`,
+      timestamp: repo.created_at,
+      url: repo.html_url,
+      engagement: {
+        likes: repo.stargazers_count,
+        shares: repo.forks_count
+      },
+      topics: repo.topics?.length ? repo.topics : (repo.language ? [repo.language] : [])
+    }));
+
+    const gistContent: ContentItem[] = gists.map(gist => ({
+      type: 'post',
+      content: `Gist: ${gist.description || Object.keys(gist.files || {}).join(', ')}`,
+      timestamp: gist.created_at,
+      url: gist.html_url,
+      engagement: {
+        comments: gist.comments
+      },
+      topics: ['gist']
+    }));
+
+    const eventContent = events
+      .map(event => this.eventToContent(event))
+      .filter((item): item is ContentItem => item !== null);
+
+    const contentData = [...repoContent, ...gistContent, ...eventContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+      .slice(0, 50);
+
+    // Label and score each item with the configured analysis provider
+    const sentimentBreakdown = await analysis.scoreContent(contentData);
+
+    // Languages across the user's own repositories
+    const languageCounts: Record<string, number> = {};
+    for (const repo of repos) {
+      if (repo.language && !repo.fork) {
+        languageCounts[repo.language] = (languageCounts[repo.language] || 0) + 1;
+      }
+    }
+    const languageTotal = Object.values(languageCounts).reduce((sum, count) => sum + count, 0);
+    const topTopics = Object.entries(languageCounts)
+      .sort((a, b) => b[1] - a[1])
+      .slice(0, 5)
+      .map(([topic, count]) => ({ topic, percentage: Math.round(count / languageTotal * 100) / 100 }));
+
+    // Privacy concerns
+    const privacyConcerns: PrivacyConcern[] = [];
+    if (commitEmails.length > 0) {
+      privacyConcerns.push({
+        type: 'commit_email_exposure',
+        severity: 'high',
+        description: `Commit author email${commitEmails.length > 1 ? 's' : ''} exposed in public activity: ${commitEmails.join(', ')}`
+      });
+    }
+    if (user.email) {
+      privacyConcerns.push({
+        type: 'public_email',
+        severity: 'medium',
+        description: `Email address shown on public profile: ${user.email}`
+      });
+    }
+    if (user.location) {
+      privacyConcerns.push({
+        type: 'location_disclosure',
+        severity: 'medium',
+        description: `Location shown on public profile: ${user.location}`
+      });
+    }
+    if (user.company) {
+      privacyConcerns.push({
+        type: 'employer_disclosure',
+        severity: 'low',
+        description: `Employer shown on public profile: ${user.company}`
+      });
+    }
+    if (user.twitter_username || user.blog) {
+      privacyConcerns.push({
+        type: 'cross_platform_links',
+        severity: 'low',
+        description: 'Profile links to other sites, making accounts easy to connect'
+      });
+    }
+
+    const dataCategories: { category: string, severity: 'low' | 'medium' | 'high' }[] = [
+      { category: 'Source Code & Projects', severity: 'low' },
+      { category: 'Activity History', severity: events.length > 0 ? 'medium' : 'low' }
+    ];
+    if (commitEmails.length > 0 || user.email) {
+      dataCategories.unshift({ category: 'Email Addresses', severity: commitEmails.length > 0 ? 'high' : 'medium' });
+    }
+    if (user.location) {
+      dataCategories.push({ category: 'Location', severity: 'medium' });
+    }
+    if (user.company) {
+      dataCategories.push({ category: 'Employment', severity: 'low' });
+    }
+
+    const recommendedActions: string[] = [];
+    if (commitEmails.length > 0) {
+      recommendedActions.push(
+        "Enable \"Keep my email addresses private\" in GitHub email settings",
+        "Enable \"Block command line pushes that expose my email\"",
+        "Configure git to commit with your GitHub noreply address"
+      );
+    }
+    recommendedActions.push(
+      "Review public profile fields such as location, company and email",
+      "Archive or make private repositories you no longer need public"
+    );
+
+    // Group activity into time periods
+    const now = Date.now();
+    const day = 24 * 60 * 60 * 1000;
+    const periods = [
+      { period: 'Past day', maxAge: day },
+      { period: 'Past week', maxAge: 7 * day },
+      { period: 'Past month', maxAge: 30 * day },
+      { period: 'Past year', maxAge: 365 * day },
+      { period: 'Older', maxAge: Infinity }
+    ];
+    const activityTimeline = periods.map(p => ({ period: p.period, count: 0 }));
+    for (const item of [...repoContent, ...gistContent, ...eventContent]) {
+      const age = now - new Date(item.timestamp).getTime();
+      const index = periods.findIndex(p => age <= p.maxAge);
+      activityTimeline[index].count++;
+    }
+
+    const comments = eventContent.filter(item => item.type === 'comment').length;
+    const likes = eventContent.filter(item => item.type === 'like').length;
+    const shares = eventContent.filter(item => item.type === 'share').length;
+    const totalPosts = (user.public_repos || 0) + (user.public_gists || 0);
+    const accountAgeInDays = (now - new Date(user.created_at).getTime()) / day;
+
+    return {
+      platformId: 'github',
+      username,
+      profileData: {
+        displayName: user.name || username,
+        bio: user.bio || '',
+        followerCount: user.followers || 0,
+        followingCount: user.following || 0,
+        joinDate: user.created_at,
+        profileUrl: user.html_url,
+        avatarUrl: user.avatar_url,
+        location: user.location || undefined
+      },
+      activityData: {
+        totalPosts,
+        totalComments: comments,
+        totalLikes: likes,
+        totalShares: shares,
+        postsPerDay: accountAgeInDays > 0 ? totalPosts / accountAgeInDays : 0,
+        lastActive: events[0]?.created_at
+      },
+      contentData,
+      privacyMetrics: {
+        exposureScore: 0, // Scored by the exposure score engine
+        dataCategories,
+        potentialConcerns: privacyConcerns.map(concern => ({
+          issue: concern.description,
+          risk: concern.severity
+        })),
+        recommendedActions
+      },
+      analysisResults: {
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics,
+        activityTimeline,
+        sentimentBreakdown,
+        dataCategories,
+        privacyConcerns,
+        recommendedActions,
+        platformSpecificMetrics: {
+          publicRepos: user.public_repos || 0,
+          publicGists: user.public_gists || 0,
+          starsReceived: repos.reduce((sum, repo) => sum + (repo.stargazers_count || 0), 0),
+          exposedCommitEmails: commitEmails.length
+        }
+      }
+    };
+  }
+}
+
+// Create singleton instance
+export const githubApi = new GitHubApiService();
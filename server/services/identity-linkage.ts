@@ -0,0 +1,448 @@
+/**
+ * Identity Linkage Service
+ *
+ * Works out which accounts found in one search can be tied to the same person
+ * by someone comparing them, and why. Every pair of accounts is compared on:
+ *
+ * - username: identical, or differing only by separators, digits or a typo
+ * - display_name: the same name shown on both profiles
+ * - bio: shared wording or shared links
+ * - avatar: the same profile picture URL or image file
+ * - profile_link: one profile linking to the other
+ * - location: the same profile location
+ * - writing_style: similar use of function words and punctuation
+ * - posting_times: activity concentrated in the same hours of the day
+ *
+ * Each signal has a strength from 0 to 1 and a weight saying how much a full
+ * match proves on its own. The link confidence combines them as independent
+ * evidence: 1 - product(1 - weight * strength).
+ */
+
+import { IdentityLink, IdentityLinkage, LinkageSignal, Platform, PlatformData } from '@shared/schema';
+
+// How much a full match on each signal proves on its own
+const SIGNAL_WEIGHTS: Record<LinkageSignal, number> = {
+  username: 0.6,
+  display_name: 0.5,
+  bio: 0.5,
+  avatar: 0.7,
+  profile_link: 0.9,
+  location: 0.25,
+  writing_style: 0.35,
+  posting_times: 0.3,
+};
+
+// Links below this confidence are left out of the graph
+const MIN_LINK_CONFIDENCE = 0.3;
+
+// Links at or above this confidence join accounts into one cluster
+const CLUSTER_CONFIDENCE = 0.5;
+
+// Minimum text and activity needed before style and timing are compared
+const MIN_STYLE_ITEMS = 5;
+const MIN_STYLE_WORDS = 150;
+const MIN_TIMED_ITEMS = 10;
+
+// Platform names and the profile paths that link to an account on them
+const PLATFORM_PROFILES: Record<Exclude<Platform, 'all'>, { name: string; paths: string[] }> = {
+  instagram: { name: 'Instagram', paths: ['instagram.com/'] },
+  facebook: { name: 'Facebook', paths: ['facebook.com/', 'fb.com/'] },
+  reddit: { name: 'Reddit', paths: ['reddit.com/user/', 'reddit.com/u/', 'u/'] },
+  twitter: { name: 'Twitter', paths: ['twitter.com/', 'x.com/'] },
+  linkedin: { name: 'LinkedIn', paths: ['linkedin.com/in/'] },
+  tiktok: { name: 'TikTok', paths: ['tiktok.com/@'] },
+  youtube: { name: 'YouTube', paths: ['youtube.com/@', 'youtube.com/c/', 'youtube.com/user/'] },
+  pinterest: { name: 'Pinterest', paths: ['pinterest.com/'] },
+  snapchat: { name: 'Snapchat', paths: ['snapchat.com/add/'] },
+  github: { name: 'GitHub', paths: ['github.com/'] },
+  medium: { name: 'Medium', paths: ['medium.com/@'] },
+};
+
+// Frequent words whose relative use is characteristic of a writer but not of a topic
+const FUNCTION_WORDS = [
+  'the', 'a', 'an', 'and', 'but', 'or', 'so', 'of', 'to', 'in', 'on', 'at', 'for', 'with',
+  'about', 'from', 'by', 'as', 'if', 'that', 'this', 'it', 'i', 'me', 'my', 'you', 'we',
+  'they', 'is', 'was', 'be', 'have', 'just', 'really', 'very', 'not', 'no', 'actually',
+  'though', 'also', 'lol', 'tbh', 'imo',
+];
+
+// Punctuation and formatting habits, counted per word
+const STYLE_MARKS: RegExp[] = [/!/g, /\?/g, /\.\.\.|…/g, /,/g, /;/g, /:\)|:\(|:D|;\)/g, /[A-Z]{3,}/g, /\n/g];
+
+// URLs, or bare domains under common top-level domains
+const LINK_PATTERN = /https?:\/\/\S+|www\.\S+|\b[a-z0-9\-]+(?:\.[a-z0-9\-]+)*\.(?:com|org|net|io|dev|me|co|app|blog|site|xyz|info)\b(?:\/\S*)?/g;
+
+// Words too common to say anything when two bios share them
+const BIO_STOPWORDS = new Set([
+  'the', 'and', 'for', 'with', 'about', 'from', 'that', 'this', 'are', 'was', 'you', 'your',
+  'all', 'things', 'into', 'who', 'what', 'here', 'there', 'not', 'but', 'have', 'has',
+]);
+
+interface AccountProfile {
+  data: PlatformData;
+  username: string;
+  displayName: string;
+  bio: string;
+  bioWords: Set<string>;
+  bioLinks: Set<string>;
+  avatar?: string;
+  location: string;
+  styleVector?: number[];
+  styleItems: number;
+  hourHistogram?: number[];
+}
+
+export class IdentityLinkageService {
+  /**
+   * Compare every pair of accounts and build the linkage graph
+   * @param platformData Data of every platform found in one search
+   * @returns Accounts, the links between them and the clusters they form
+   */
+  public analyze(platformData: PlatformData[]): IdentityLinkage {
+    const profiles = platformData
+      .filter(data => data.platformId !== 'all')
+      .map(data => this.buildProfile(data));
+
+    const links: IdentityLink[] = [];
+    for (let i = 0; i < profiles.length; i++) {
+      for (let j = i + 1; j < profiles.length; j++) {
+        const link = this.compare(profiles[i], profiles[j]);
+        if (link.confidence >= MIN_LINK_CONFIDENCE) links.push(link);
+      }
+    }
+    links.sort((a, b) => b.confidence - a.confidence);
+
+    return {
+      nodes: profiles.map(profile => ({
+        platform: profile.data.platformId,
+        username: profile.data.username,
+        displayName: profile.data.profileData?.displayName,
+      })),
+      links,
+      clusters: this.cluster(links),
+    };
+  }
+
+  /**
+   * Number of platforms whose account is linkable to at least one other
+   * @param linkage Result of analyze()
+   */
+  public countLinkedPlatforms(linkage: IdentityLinkage): number {
+    return linkage.clusters.reduce((total, cluster) => total + cluster.length, 0);
+  }
+
+  /**
+   * Readable name of a platform, for linkage details and insights
+   */
+  public platformName(platform: Platform): string {
+    return platform === 'all' ? 'All platforms' : PLATFORM_PROFILES[platform].name;
+  }
+
+  /**
+   * Compare two accounts on every signal
+   */
+  private compare(a: AccountProfile, b: AccountProfile): IdentityLink {
+    const candidates: Array<{ signal: LinkageSignal; strength: number; detail: string } | null> = [
+      this.compareUsernames(a, b),
+      this.compareDisplayNames(a, b),
+      this.compareBios(a, b),
+      this.compareAvatars(a, b),
+      this.compareProfileLinks(a, b),
+      this.compareLocations(a, b),
+      this.compareWritingStyle(a, b),
+      this.comparePostingTimes(a, b),
+    ];
+    const signals = candidates
+      .filter((signal): signal is NonNullable<typeof signal> => signal !== null && signal.strength > 0)
+      .map(signal => ({ ...signal, strength: this.round(Math.min(1, signal.strength)) }))
+      .sort((x, y) => SIGNAL_WEIGHTS[y.signal] * y.strength - SIGNAL_WEIGHTS[x.signal] * x.strength);
+
+    const unexplained = signals.reduce((remaining, signal) =>
+      remaining * (1 - SIGNAL_WEIGHTS[signal.signal] * signal.strength), 1);
+
+    return {
+      source: a.data.platformId,
+      target: b.data.platformId,
+      confidence: this.round(1 - unexplained),
+      signals,
+    };
+  }
+
+  private compareUsernames(a: AccountProfile, b: AccountProfile) {
+    if (!a.username || !b.username) return null;
+    if (a.username === b.username) {
+      return { signal: 'username' as const, strength: 1, detail: `Same username "${a.data.username}"` };
+    }
+
+    const bare = (username: string) => username.replace(/[._\-]/g, '');
+    if (bare(a.username) === bare(b.username)) {
+      return { signal: 'username' as const, strength: 0.9, detail: `Usernames "${a.data.username}" and "${b.data.username}" differ only by separators` };
+    }
+    const stem = (username: string) => bare(username).replace(/\d+$/, '');
+    if (stem(a.username).length >= 4 && stem(a.username) === stem(b.username)) {
+      return { signal: 'username' as const, strength: 0.75, detail: `Usernames "${a.data.username}" and "${b.data.username}" differ only by trailing digits` };
+    }
+
+    const similarity = this.stringSimilarity(bare(a.username), bare(b.username));
+    if (similarity >= 0.75 && Math.min(a.username.length, b.username.length) >= 5) {
+      return { signal: 'username' as const, strength: similarity * 0.8, detail: `Similar usernames "${a.data.username}" and "${b.data.username}"` };
+    }
+    return null;
+  }
+
+  private compareDisplayNames(a: AccountProfile, b: AccountProfile) {
+    if (a.displayName.length < 3 || a.displayName !== b.displayName) return null;
+    // A single word name, or one that just repeats the username, is weaker evidence
+    const strength = a.displayName.includes(' ') && a.displayName !== a.username ? 1 : 0.6;
+    return {
+      signal: 'display_name' as const,
+      strength,
+      detail: `Same display name "${a.data.profileData?.displayName?.trim()}"`,
+    };
+  }
+
+  private compareBios(a: AccountProfile, b: AccountProfile) {
+    const sharedLinks = Array.from(a.bioLinks).filter(link => b.bioLinks.has(link));
+    if (sharedLinks.length > 0) {
+      return { signal: 'bio' as const, strength: 1, detail: `Both bios link to ${sharedLinks[0]}` };
+    }
+    if (a.bioWords.size < 4 || b.bioWords.size < 4) return null;
+
+    const shared = Array.from(a.bioWords).filter(word => b.bioWords.has(word)).length;
+    const jaccard = shared / (a.bioWords.size + b.bioWords.size - shared);
+    if (jaccard < 0.2) return null;
+    return {
+      signal: 'bio' as const,
+      strength: jaccard >= 0.8 ? 1 : jaccard,
+      detail: jaccard >= 0.8 ? 'Same bio text' : `Bios share ${Math.round(jaccard * 100)}% of their wording`,
+    };
+  }
+
+  private compareAvatars(a: AccountProfile, b: AccountProfile) {
+    if (!a.avatar || !b.avatar) return null;
+    if (a.avatar === b.avatar) {
+      return { signal: 'avatar' as const, strength: 1, detail: 'Same profile picture URL' };
+    }
+    // Re-uploads keep the file name or Gravatar hash while the host differs
+    const fileName = (url: string) => url.split('?')[0].split('/').pop() || '';
+    const nameA = fileName(a.avatar);
+    if (nameA.length >= 12 && nameA === fileName(b.avatar)) {
+      return { signal: 'avatar' as const, strength: 0.8, detail: `Profile pictures share the image file ${nameA}` };
+    }
+    return null;
+  }
+
+  private compareProfileLinks(a: AccountProfile, b: AccountProfile) {
+    for (const [from, to] of [[a, b], [b, a]]) {
+      if (this.linksTo(from, to)) {
+        return {
+          signal: 'profile_link' as const,
+          strength: 1,
+          detail: `${this.platformName(from.data.platformId)} profile links to the ${this.platformName(to.data.platformId)} account`,
+        };
+      }
+    }
+    return null;
+  }
+
+  private compareLocations(a: AccountProfile, b: AccountProfile) {
+    if (!a.location || !b.location) return null;
+    if (a.location === b.location) {
+      return { signal: 'location' as const, strength: 1, detail: `Same location "${a.data.profileData?.location?.trim()}"` };
+    }
+    const city = (location: string) => location.split(',')[0].trim();
+    if (city(a.location).length >= 3 && city(a.location) === city(b.location)) {
+      return { signal: 'location' as const, strength: 0.7, detail: `Both located in ${a.data.profileData?.location?.split(',')[0].trim()}` };
+    }
+    return null;
+  }
+
+  private compareWritingStyle(a: AccountProfile, b: AccountProfile) {
+    if (!a.styleVector || !b.styleVector) return null;
+    const similarity = this.cosine(a.styleVector, b.styleVector);
+    const strength = (similarity - 0.75) / 0.25;
+    if (strength <= 0) return null;
+    return {
+      signal: 'writing_style' as const,
+      strength,
+      detail: `Similar writing style (${Math.round(similarity * 100)}% match over ${a.styleItems} and ${b.styleItems} posts)`,
+    };
+  }
+
+  private comparePostingTimes(a: AccountProfile, b: AccountProfile) {
+    if (!a.hourHistogram || !b.hourHistogram) return null;
+    const similarity = this.cosine(a.hourHistogram, b.hourHistogram);
+    const strength = (similarity - 0.5) / 0.5;
+    if (strength <= 0) return null;
+    const peak = (histogram: number[]) => histogram.indexOf(Math.max.apply(null, histogram));
+    const hour = (value: number) => `${value.toString().padStart(2, '0')}:00 UTC`;
+    const peakA = peak(a.hourHistogram);
+    const peakB = peak(b.hourHistogram);
+    return {
+      signal: 'posting_times' as const,
+      strength,
+      detail: peakA === peakB
+        ? `Active at the same hours, both peaking around ${hour(peakA)}`
+        : `Active at similar hours, peaking around ${hour(peakA)} and ${hour(peakB)}`,
+    };
+  }
+
+  /**
+   * Whether one account's bio or profile URL points at the other account
+   */
+  private linksTo(from: AccountProfile, to: AccountProfile): boolean {
+    if (to.data.platformId === 'all' || !to.username) return false;
+    const text = `${from.bio} ${this.stripUrl(from.data.profileData?.profileUrl || '')}`.toLowerCase();
+    const references = PLATFORM_PROFILES[to.data.platformId].paths.map(path => `${path}${to.username}`);
+    const profileUrl = this.stripUrl(to.data.profileData?.profileUrl || '');
+    if (profileUrl.includes('/')) references.push(profileUrl);
+
+    return references.some(reference => {
+      const index = text.indexOf(reference);
+      if (index < 0) return false;
+      // The reference must stand on its own, not be part of a longer path or name
+      const previous = text.charAt(index - 1);
+      const next = text.charAt(index + reference.length);
+      return !/[a-z0-9_]/.test(previous) && !/[a-z0-9_\-]/.test(next);
+    });
+  }
+
+  /**
+   * Extract the normalized features of one account
+   */
+  private buildProfile(data: PlatformData): AccountProfile {
+    const normalize = (value: string | undefined) => (value || '').trim().toLowerCase().replace(/\s+/g, ' ');
+    const bio = normalize(data.profileData?.bio);
+    const bioLinks = new Set((bio.match(LINK_PATTERN) || [])
+      .map(link => this.stripUrl(link.replace(/[.,;:!?)]+$/, '')))
+      // Profiles linking to their own platform are common and say nothing about each other
+      .filter(link => !Object.values(PLATFORM_PROFILES).some(profile =>
+        profile.paths.some(path => path.includes('.') && link.startsWith(path.split('/')[0])))));
+    const bioWords = new Set((bio.replace(/\S*\.\S+/g, ' ').match(/[a-z0-9']{3,}/g) || [])
+      .filter(word => !BIO_STOPWORDS.has(word)));
+
+    // Likes are other people's writing, so only the account's own content counts
+    const ownContent = (data.contentData || []).filter(item => item.type !== 'like');
+    const texts = ownContent.map(item => item.content || '').filter(text => text.trim().length > 0);
+    const wordCount = texts.reduce((total, text) => total + (text.match(/\S+/g) || []).length, 0);
+    const hours = ownContent
+      .map(item => new Date(item.timestamp).getUTCHours())
+      .filter(hour => !isNaN(hour));
+
+    return {
+      data,
+      username: normalize(data.username).replace(/^@/, ''),
+      displayName: normalize(data.profileData?.displayName),
+      bio,
+      bioWords,
+      bioLinks,
+      avatar: data.profileData?.avatarUrl?.trim() || undefined,
+      location: normalize(data.profileData?.location),
+      styleVector: texts.length >= MIN_STYLE_ITEMS && wordCount >= MIN_STYLE_WORDS
+        ? this.styleVector(texts)
+        : undefined,
+      styleItems: texts.length,
+      hourHistogram: hours.length >= MIN_TIMED_ITEMS ? this.hourHistogram(hours) : undefined,
+    };
+  }
+
+  /**
+   * Relative frequency of function words and punctuation habits
+   */
+  private styleVector(texts: string[]): number[] {
+    const joined = texts.join('\n');
+    const words = joined.toLowerCase().match(/[a-z']+/g) || [];
+    const total = Math.max(words.length, 1);
+    const counts = new Map<string, number>();
+    for (const word of words) counts.set(word, (counts.get(word) || 0) + 1);
+
+    const averageWordLength = words.reduce((sum, word) => sum + word.length, 0) / total;
+    return [
+      ...FUNCTION_WORDS.map(word => (counts.get(word) || 0) / total),
+      ...STYLE_MARKS.map(mark => (joined.match(mark) || []).length / total),
+      averageWordLength / 100,
+    ];
+  }
+
+  private hourHistogram(hours: number[]): number[] {
+    const histogram = new Array<number>(24).fill(0);
+    for (const hour of hours) histogram[hour]++;
+    return histogram;
+  }
+
+  /**
+   * Group accounts connected by confident links
+   */
+  private cluster(links: IdentityLink[]): Platform[][] {
+    const parent = new Map<Platform, Platform>();
+    const find = (platform: Platform): Platform => {
+      const next = parent.get(platform) || platform;
+      if (next === platform) return platform;
+      const root = find(next);
+      parent.set(platform, root);
+      return root;
+    };
+
+    for (const link of links) {
+      if (link.confidence < CLUSTER_CONFIDENCE) continue;
+      const source = find(link.source);
+      const target = find(link.target);
+      if (source !== target) parent.set(target, source);
+    }
+
+    const clusters = new Map<Platform, Platform[]>();
+    for (const link of links) {
+      if (link.confidence < CLUSTER_CONFIDENCE) continue;
+      for (const platform of [link.source, link.target]) {
+        const members = clusters.get(find(platform)) || [];
+        if (!members.includes(platform)) members.push(platform);
+        clusters.set(find(platform), members);
+      }
+    }
+    return Array.from(clusters.values()).sort((a, b) => b.length - a.length);
+  }
+
+  private stripUrl(url: string): string {
+    return url.trim().toLowerCase().replace(/^https?:\/\//, '').replace(/^www\./, '').replace(/\/+$/, '');
+  }
+
+  /**
+   * Levenshtein similarity, from 0 (nothing in common) to 1 (identical)
+   */
+  private stringSimilarity(a: string, b: string): number {
+    const longest = Math.max(a.length, b.length);
+    if (longest === 0) return 1;
+
+    let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+    for (let i = 1; i <= a.length; i++) {
+      const current = [i];
+      for (let j = 1; j <= b.length; j++) {
+        current[j] = Math.min(
+          previous[j] + 1,
+          current[j - 1] + 1,
+          previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+        );
+      }
+      previous = current;
+    }
+    return 1 - previous[b.length] / longest;
+  }
+
+  private cosine(a: number[], b: number[]): number {
+    let dot = 0;
+    let normA = 0;
+    let normB = 0;
+    for (let i = 0; i < a.length; i++) {
+      dot += a[i] * b[i];
+      normA += a[i] * a[i];
+      normB += b[i] * b[i];
+    }
+    return normA === 0 || normB === 0 ? 0 : dot / Math.sqrt(normA * normB);
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const identityLinkage = new IdentityLinkageService();
@@ -0,0 +1,325 @@
+/**
+ * Insight Generator
+ *
+ * Derives the summary insights and recommendations of a footprint from the
+ * platform data itself: disclosed PII and locations, linkable accounts, the
+ * most exposed platform, peak posting hours, dominant topics and sentiment
+ * drift. Every insight based on content lists the items that triggered it, so
+ * the client can show the evidence and link back to it.
+ */
+
+import {
+  ContentItem,
+  ExposureFactorScore,
+  FootprintInsight,
+  IdentityLinkage,
+  InsightEvidence,
+  PiiType,
+  Platform,
+  PlatformData,
+} from '@shared/schema';
+import { identityLinkage } from './identity-linkage';
+import { piiScanner } from './pii-scanner';
+
+// Most evidence items listed per insight
+const MAX_EVIDENCE = 5;
+
+// Most recommendations returned
+const MAX_RECOMMENDATIONS = 6;
+
+// Minimum content before patterns are reported
+const MIN_TIMED_ITEMS = 10;
+const MIN_TOPIC_ITEMS = 5;
+const MIN_SENTIMENT_ITEMS = 20;
+
+// A three hour window holding this share of activity counts as a peak (an even spread is 12.5%)
+const PEAK_SHARE = 0.25;
+// Above this share, the posting routine is predictable enough to warn about
+const ROUTINE_SHARE = 0.5;
+
+// Change in net sentiment (positive minus negative share) between older and recent content
+const SENTIMENT_DRIFT = 0.2;
+
+const EXCERPT_LENGTH = 120;
+
+// A content item with where it came from
+interface ItemRef {
+  platform: Platform;
+  index: number;
+  item: ContentItem;
+  time: number;
+}
+
+export interface GeneratedInsights {
+  insights: FootprintInsight[];
+  recommendations: string[];
+}
+
+export class InsightGenerator {
+  /**
+   * Derive insights and recommendations for a footprint
+   * @param platformData Data of every platform found
+   * @param linkage Identity linkage of the same platforms
+   * @returns Insights, warnings first, and recommendations, most important first
+   */
+  public generate(platformData: PlatformData[], linkage: IdentityLinkage): GeneratedInsights {
+    const accounts = platformData.filter(data => data.platformId !== 'all');
+    // Likes are other people's content, so only the user's own items count
+    const items: ItemRef[] = accounts.flatMap(data => (data.contentData || [])
+      .map((item, index) => ({ platform: data.platformId, index, item, time: new Date(item.timestamp).getTime() }))
+      .filter(ref => ref.item.type !== 'like'));
+
+    const recommendations: string[] = [];
+    const insights = [
+      this.piiInsight(accounts, items, recommendations),
+      this.locationInsight(accounts, items, recommendations),
+      this.linkageInsight(linkage, recommendations),
+      this.exposedPlatformInsight(accounts, recommendations),
+      this.peakHoursInsight(items, recommendations),
+      this.topicsInsight(items),
+      this.sentimentDriftInsight(items, recommendations),
+    ].filter((insight): insight is FootprintInsight => insight !== null);
+
+    if (insights.length === 0) {
+      insights.push({ insight: 'Not enough public content was found to derive insights.', type: 'info' });
+    }
+    recommendations.push('Regularly audit and clean up old posts and comments');
+
+    return {
+      // Stable sort keeps the order above within warnings and within info
+      insights: insights.sort((a, b) => Number(b.type === 'warning') - Number(a.type === 'warning')),
+      recommendations: Array.from(new Set(recommendations)).slice(0, MAX_RECOMMENDATIONS),
+    };
+  }
+
+  private piiInsight(accounts: PlatformData[], items: ItemRef[], recommendations: string[]): FootprintInsight | null {
+    const withPii = items.filter(ref => ref.item.piiFindings?.length);
+    const bios = accounts.filter(data => data.analysisResults?.piiSummary?.bioFindings.length);
+    if (withPii.length === 0 && bios.length === 0) return null;
+
+    const counts = new Map<PiiType, number>();
+    const findings = withPii.flatMap(ref => ref.item.piiFindings || [])
+      .concat(bios.flatMap(data => data.analysisResults!.piiSummary!.bioFindings));
+    for (const finding of findings) counts.set(finding.type, (counts.get(finding.type) || 0) + 1);
+    const types = Array.from(counts.entries()).sort((a, b) => b[1] - a[1]);
+
+    const places = [
+      withPii.length > 0 ? this.plural(withPii.length, 'item', 'items') : '',
+      bios.length > 0 ? `the ${this.platformList(bios.map(data => data.platformId))} ${bios.length === 1 ? 'bio' : 'bios'}` : '',
+    ].filter(Boolean);
+
+    if (withPii.length > 0) {
+      const itemLabels = Array.from(new Set(withPii.flatMap(ref => ref.item.piiFindings!
+        .map(finding => piiScanner.describe(finding.type).label.toLowerCase()))));
+      recommendations.push(withPii.length === 1
+        ? `Remove or edit the item that reveals your ${this.list(itemLabels)}`
+        : `Remove or edit the ${withPii.length} items that reveal your ${this.list(itemLabels)}`);
+    }
+    for (const data of bios) {
+      const bioLabels = Array.from(new Set(data.analysisResults!.piiSummary!.bioFindings
+        .map(finding => piiScanner.describe(finding.type).label.toLowerCase())));
+      recommendations.push(`Remove your ${this.list(bioLabels)} from your ${identityLinkage.platformName(data.platformId)} bio`);
+    }
+
+    // High severity kinds first, so the most serious disclosures are the evidence shown
+    const severity = (ref: ItemRef) => Math.max(...(ref.item.piiFindings || [])
+      .map(finding => piiScanner.describe(finding.type).severity === 'high' ? 1 : 0));
+    return {
+      insight: `Personal information found in ${this.list(places)}: ${this.list(types.map(([type, count]) =>
+        `${piiScanner.describe(type).label.toLowerCase()} (${count})`))}.`,
+      type: 'warning',
+      evidence: this.evidence(withPii.sort((a, b) => severity(b) - severity(a) || b.time - a.time)),
+    };
+  }
+
+  private locationInsight(accounts: PlatformData[], items: ItemRef[], recommendations: string[]): FootprintInsight | null {
+    const profiles = accounts.filter(data => data.profileData?.location?.trim());
+    const tagged = items.filter(ref => ref.item.location);
+    if (profiles.length === 0 && tagged.length === 0) return null;
+
+    const parts: string[] = [];
+    if (profiles.length > 0) {
+      const locations = Array.from(new Set(profiles.map(data => data.profileData!.location!.trim())));
+      parts.push(`your ${this.platformList(profiles.map(data => data.platformId))} ${profiles.length === 1 ? 'profile lists' : 'profiles list'} ${this.list(locations.map(location => `"${location}"`))}`);
+      recommendations.push(`Remove the location from your ${this.platformList(profiles.map(data => data.platformId))} ${profiles.length === 1 ? 'profile' : 'profiles'}`);
+    }
+    if (tagged.length > 0) {
+      const places = this.topCounts(tagged.map(ref => ref.item.location!.name), 3).map(([name]) => name);
+      parts.push(`${this.plural(tagged.length, 'item is', 'items are')} tagged with places such as ${this.list(places)}`);
+      recommendations.push(`Turn off location tagging and remove the place from ${tagged.length === 1 ? 'the tagged item' : `${tagged.length} tagged items`}`);
+    }
+
+    return {
+      insight: `Location disclosed: ${parts.join('; ')}.`,
+      type: 'warning',
+      evidence: tagged.length > 0 ? this.evidence(tagged.sort((a, b) => b.time - a.time)) : undefined,
+    };
+  }
+
+  private linkageInsight(linkage: IdentityLinkage, recommendations: string[]): FootprintInsight | null {
+    const link = linkage.links[0];
+    if (!link) return null;
+
+    const source = identityLinkage.platformName(link.source);
+    const target = identityLinkage.platformName(link.target);
+    const signals = link.signals.map(signal => signal.signal);
+    if (signals.includes('profile_link')) recommendations.push(`Remove the link between your ${source} and ${target} profiles`);
+    if (signals.includes('username')) recommendations.push(`Use different usernames on ${source} and ${target} if the accounts should stay separate`);
+    if (signals.includes('avatar')) recommendations.push(`Use different profile pictures on ${source} and ${target}`);
+    if (signals.includes('display_name')) recommendations.push(`Avoid showing the same display name on ${source} and ${target}`);
+
+    return {
+      insight: `Your ${source} and ${target} accounts can be linked (${Math.round(link.confidence * 100)}% confidence): ${link.signals.map(signal => signal.detail).join('; ')}.`,
+      type: link.confidence >= 0.5 ? 'warning' : 'info',
+    };
+  }
+
+  private exposedPlatformInsight(accounts: PlatformData[], recommendations: string[]): FootprintInsight | null {
+    const scored = accounts.filter(data => data.analysisResults);
+    if (scored.length === 0) return null;
+
+    const data = scored.reduce((top, current) =>
+      current.analysisResults!.exposureScore > top.analysisResults!.exposureScore ? current : top);
+    const { exposureScore, exposureBreakdown, recommendedActions } = data.analysisResults!;
+    const name = identityLinkage.platformName(data.platformId);
+    const topFactor = (exposureBreakdown || []).reduce<ExposureFactorScore | undefined>(
+      (top, factor) => factor.points > (top?.points || 0) ? factor : top, undefined);
+
+    recommendations.push(recommendedActions?.[0]
+      ? `Start with ${name}: ${recommendedActions[0].charAt(0).toLowerCase()}${recommendedActions[0].slice(1)}`
+      : `Start with ${name}, your most exposed account: review its privacy settings`);
+
+    const reason = topFactor ? `, mainly from ${topFactor.label.toLowerCase()} (${topFactor.detail})` : '';
+    return {
+      insight: scored.length > 1
+        ? `${name} is your most exposed account, with an exposure score of ${exposureScore}/100${reason}.`
+        : `Your ${name} account has an exposure score of ${exposureScore}/100${reason}.`,
+      type: exposureScore >= 60 ? 'warning' : 'info',
+    };
+  }
+
+  private peakHoursInsight(items: ItemRef[], recommendations: string[]): FootprintInsight | null {
+    // Date-only timestamps carry no time of day
+    const timed = items.filter(ref => !isNaN(ref.time) && /\d{2}:\d{2}/.test(ref.item.timestamp));
+    if (timed.length < MIN_TIMED_ITEMS) return null;
+
+    const histogram = new Array<number>(24).fill(0);
+    for (const ref of timed) histogram[new Date(ref.time).getUTCHours()]++;
+    let start = 0;
+    let best = -1;
+    for (let hour = 0; hour < 24; hour++) {
+      const count = histogram[hour] + histogram[(hour + 1) % 24] + histogram[(hour + 2) % 24];
+      // On ties, prefer the window centred on the busiest hour
+      if (count > best || (count === best && histogram[(hour + 1) % 24] > histogram[(start + 1) % 24])) {
+        best = count;
+        start = hour;
+      }
+    }
+
+    const share = best / timed.length;
+    if (share < PEAK_SHARE) return null;
+    const routine = share >= ROUTINE_SHARE;
+    if (routine) {
+      recommendations.push('Vary when you post, or schedule posts, so your activity does not reveal your daily routine');
+    }
+
+    const hour = (value: number) => `${(value % 24).toString().padStart(2, '0')}:00`;
+    const inWindow = timed.filter(ref => (new Date(ref.time).getUTCHours() - start + 24) % 24 < 3);
+    return {
+      insight: `Peak activity is between ${hour(start)} and ${hour(start + 3)} UTC, when ${Math.round(share * 100)}% of ${timed.length} timestamped posts and comments were made.` +
+        (routine ? ' A routine this regular can reveal your daily schedule.' : ''),
+      type: routine ? 'warning' : 'info',
+      evidence: this.evidence(inWindow.sort((a, b) => b.time - a.time)),
+    };
+  }
+
+  private topicsInsight(items: ItemRef[]): FootprintInsight | null {
+    const tagged = items
+      .map(ref => ({ ref, topics: this.topicsOf(ref.item) }))
+      .filter(entry => entry.topics.length > 0);
+    if (tagged.length < MIN_TOPIC_ITEMS) return null;
+
+    const top = this.topCounts(tagged.flatMap(entry => entry.topics), 3);
+    const [topTopic] = top[0];
+    return {
+      insight: `Most discussed topics: ${this.list(top.map(([topic, count], index) =>
+        `${topic} (${Math.round(count / tagged.length * 100)}%${index === 0 ? ` of ${tagged.length} items with topics` : ''})`))}.`,
+      type: 'info',
+      evidence: this.evidence(tagged
+        .filter(entry => entry.topics.includes(topTopic))
+        .map(entry => entry.ref)
+        .sort((a, b) => b.time - a.time)),
+    };
+  }
+
+  private sentimentDriftInsight(items: ItemRef[], recommendations: string[]): FootprintInsight | null {
+    const rated = items
+      .filter(ref => ref.item.sentiment && !isNaN(ref.time))
+      .sort((a, b) => a.time - b.time);
+    if (rated.length < MIN_SENTIMENT_ITEMS) return null;
+
+    const net = (refs: ItemRef[]) => (refs.filter(ref => ref.item.sentiment === 'positive').length -
+      refs.filter(ref => ref.item.sentiment === 'negative').length) / refs.length;
+    const middle = Math.floor(rated.length / 2);
+    const earlier = net(rated.slice(0, middle));
+    const recent = net(rated.slice(middle));
+    const drift = recent - earlier;
+    if (Math.abs(drift) < SENTIMENT_DRIFT) return null;
+
+    const negative = drift < 0;
+    if (negative) recommendations.push('Review your recent negative posts and comments, which are the most likely to be quoted');
+
+    const format = (value: number) => `${value >= 0 ? '+' : ''}${value.toFixed(2)}`;
+    return {
+      insight: `Your tone has become more ${negative ? 'negative' : 'positive'}: net sentiment went from ${format(earlier)} in older content to ${format(recent)} in the most recent ${rated.length - middle} items.`,
+      type: negative ? 'warning' : 'info',
+      evidence: this.evidence(rated.slice(middle)
+        .filter(ref => ref.item.sentiment === (negative ? 'negative' : 'positive'))
+        .reverse()),
+    };
+  }
+
+  /**
+   * Topics of an item: its own tags, else hashtags, else the subreddit it was posted in
+   */
+  private topicsOf(item: ContentItem): string[] {
+    if (item.topics?.length) return Array.from(new Set(item.topics.map(topic => topic.trim().toLowerCase()).filter(Boolean)));
+    const hashtags = (item.content || '').match(/#\w+/g);
+    if (hashtags) return Array.from(new Set(hashtags.map(tag => tag.toLowerCase())));
+    const subreddit = item.url?.match(/\/r\/(\w+)/);
+    return subreddit ? [`r/${subreddit[1].toLowerCase()}`] : [];
+  }
+
+  /**
+   * Reference the first items, with PII in their excerpts redacted
+   */
+  private evidence(refs: ItemRef[]): InsightEvidence[] {
+    return refs.slice(0, MAX_EVIDENCE).map(({ platform, index, item }) => ({
+      platform,
+      itemIndex: index,
+      timestamp: item.timestamp,
+      excerpt: item.content ? piiScanner.excerpt(item, EXCERPT_LENGTH) : undefined,
+      url: item.url,
+    }));
+  }
+
+  private topCounts(values: string[], limit: number): Array<[string, number]> {
+    const counts = new Map<string, number>();
+    for (const value of values) counts.set(value, (counts.get(value) || 0) + 1);
+    return Array.from(counts.entries()).sort((a, b) => b[1] - a[1]).slice(0, limit);
+  }
+
+  private platformList(platforms: Platform[]): string {
+    return this.list(platforms.map(platform => identityLinkage.platformName(platform)));
+  }
+
+  private list(values: string[]): string {
+    return values.length <= 1 ? values.join('') : `${values.slice(0, -1).join(', ')} and ${values[values.length - 1]}`;
+  }
+
+  private plural(count: number, singular: string, plural: string): string {
+    return `${count} ${count === 1 ? singular : plural}`;
+  }
+}
+
+export const insightGenerator = new InsightGenerator();
@@ -12,9 +12,28 @@ import { ApifyClient } from 'apify-client';
 import { Platform, PlatformData, platformDataSchema } from '@shared/schema';
 import { log } from '../vite';
 import { cacheService } from './cache-service';
+import { analysis } from './analysis-provider';
 import { rateLimiters } from './rate-limiter';
+import type { ConnectorCapabilities, PlatformConnector } from './platform-connector';
+import {
+  AccessBlockedError,
+  AuthError,
+  NotFoundError,
+  PlatformApiError,
+  PlatformError,
+  PrivacyError,
+  RateLimitError
+} from './platform-errors';
 
-export class InstagramApiService {
+export class InstagramApiService implements PlatformConnector {
+  readonly platform = 'instagram' as const;
+  readonly displayName = 'Instagram';
+  readonly capabilities: ConnectorCapabilities = {
+    deletion: false,
+    oauth: true,
+    contentTypes: ['post']
+  };
+  
   private readonly CACHE_TTL = {
     DEFAULT: 3600000,    // 1 hour
     POPULAR: 7200000,    // 2 hours for popular accounts
@@ -165,10 +184,7 @@ export class InstagramApiService {
       
       // Important: Rethrow specific errors that should be handled by the caller
       // This includes privacy errors, authentication errors, and rate limiting
-      if (error.message.includes('PRIVACY_ERROR') || 
-          error.message.includes('AUTH_ERROR') || 
-          error.message.includes('RATE_LIMITED') ||
-          error.message.includes('NOT_FOUND')) {
+      if (error instanceof PlatformError) {
         throw error;
       }
       
@@ -253,13 +269,17 @@ export class InstagramApiService {
           console.log(`[instagram-api] Detected ${isBlocked ? 'blocking' : 'private account'} for ${username}`);
           
           if (isBlocked) {
-            throw new Error(`ACCESS_BLOCKED: Instagram is preventing automated access to this profile. This may be temporary.`);
+            throw new AccessBlockedError('instagram', {
+              message: 'Instagram is preventing automated access to this profile. This may be temporary.'
+            });
           } else {
-            throw new Error(`PRIVACY_ERROR: Instagram user ${username} has a private account.`);
+            throw new PrivacyError('instagram', {
+              message: `Instagram user ${username} has a private account.`
+            });
           }
         } else {
           console.log(`[instagram-api] API error for ${username}: ${errorDesc}`);
-          throw new Error(`API_ERROR: ${errorDesc}`);
+          throw new PlatformApiError('instagram', { detail: errorDesc });
         }
       }
       
@@ -277,22 +297,33 @@ export class InstagramApiService {
       }
       
       // Transform the data to our standard format
-      const result = this.transformApifyData(profileData, username);
+      const result = await this.transformApifyData(profileData, username);
       return result;
     } catch (error: any) {
       log(`Error in Apify Instagram data fetch: ${error.message}`, 'instagram-api');
       
+      if (error instanceof PlatformError) {
+        throw error;
+      }
+      
       // Transform specific Apify errors into more understandable formats
       if (error.message.includes('not found') || error.message.includes('doesn\'t exist')) {
-        throw new Error(`NOT_FOUND: Instagram user ${username} not found`);
+        throw new NotFoundError('instagram', {
+          message: `Instagram user ${username} not found.`,
+          detail: error.message
+        });
       }
       
       if (error.message.includes('rate limit') || error.message.includes('too many requests')) {
-        throw new Error(`RATE_LIMITED: Apify API rate limit exceeded for Instagram queries.`);
+        throw new RateLimitError('instagram', {
+          detail: `Apify API rate limit exceeded for Instagram queries: ${error.message}`
+        });
       }
       
       if (error.message.includes('authentication') || error.message.includes('unauthorized')) {
-        throw new Error(`AUTH_ERROR: Apify API authentication failed. Please check your API key.`);
+        throw new AuthError('instagram', {
+          detail: `Apify API authentication failed. Please check your API key: ${error.message}`
+        });
       }
       
       throw error;
@@ -305,7 +336,7 @@ export class InstagramApiService {
    * @param username Original username requested
    * @returns Standardized platform data
    */
-  private transformApifyData(data: any, username: string): PlatformData {
+  private async transformApifyData(data: any, username: string): Promise<PlatformData> {
     try {
       // Extract hashtags from post captions
       const allCaptions = (data.latestPosts || []).map((post: any) => post.caption || '').filter(Boolean);
@@ -335,6 +366,10 @@ export class InstagramApiService {
         }
       });
       
+      // Captions are labelled and scored with the configured analysis provider
+      const contentData = this.transformPosts(posts);
+      const sentimentBreakdown = await analysis.scoreContent(contentData);
+      
       // Build the platform data object
       const platformData: PlatformData = {
         platformId: 'instagram',
@@ -354,9 +389,9 @@ export class InstagramApiService {
           mostActiveTime: this.extractPostTimes(posts).join(', '),
           lastActive: this.getLastActiveTime(posts)
         },
-        contentData: this.transformPosts(posts),
+        contentData,
         analysisResults: {
-          exposureScore: 0.5, // Placeholder value
+          exposureScore: 0, // Scored by the exposure score engine
           topTopics: Array.from(allHashtags).slice(0, 5).map(topic => ({
             topic,
             percentage: 0.1 // Placeholder percentage
@@ -364,11 +399,7 @@ export class InstagramApiService {
           activityTimeline: [
             { period: 'last week', count: posts.filter((p: any) => new Date(p.timestamp || '').getTime() > Date.now() - 7 * 24 * 60 * 60 * 1000).length }
           ],
-          sentimentBreakdown: {
-            positive: 0.33,
-            neutral: 0.34,
-            negative: 0.33
-          },
+          sentimentBreakdown,
           privacyConcerns: [{
             type: 'Information Disclosure',
             description: 'Public Instagram profile with personal content',
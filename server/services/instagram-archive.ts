@@ -0,0 +1,367 @@
+/**
+ * Instagram Data Export Importer
+ *
+ * Parses the JSON version of Instagram's "Download your information" export
+ * (Accounts Center > Your information and permissions). Like Facebook's, the
+ * folder layout changes between export versions (content/ became
+ * your_instagram_activity/content/), so files are matched by name wherever
+ * they are.
+ *
+ * Exports requested in HTML format are recognised but rejected with a request
+ * to export again as JSON, as their markup is not stable enough to parse.
+ */
+
+import { ContentItem, PlatformData, PrivacyConcern } from '@shared/schema';
+import {
+  ArchiveFiles,
+  ArchiveImportError,
+  ArchiveImporter,
+  ArchiveParseResult,
+  decodeMetaText,
+  yearlyActivityTimeline
+} from './archive-import';
+import { analysis } from './analysis-provider';
+
+const PROFILE_FILE = /(^|\/)personal_information\.json$/;
+const PROFILE_HTML_FILE = /(^|\/)personal_information\.html$/;
+const POSTS_FILE = /(^|\/)content\/posts_\d+\.json$/;
+const STORIES_FILE = /(^|\/)content\/stories\.json$/;
+const REELS_FILE = /(^|\/)content\/reels\.json$/;
+const COMMENTS_FILE = /(^|\/)comments\/(post_comments(_\d+)?|reels_comments)\.json$/;
+const LIKES_FILE = /(^|\/)likes\/liked_posts\.json$/;
+const FOLLOWERS_FILE = /(^|\/)followers(_\d+)?\.json$/;
+const FOLLOWING_FILE = /(^|\/)following\.json$/;
+const ADVERTISERS_FILE = /(^|\/)advertisers_using_your_activity_or_information\.json$/;
+const LOCATIONS_OF_INTEREST_FILE = /(^|\/)locations_of_interest\.json$/;
+
+/**
+ * Convert a Unix timestamp in seconds to ISO 8601
+ */
+function toIsoTimestamp(seconds: number | undefined): string | undefined {
+  return seconds ? new Date(seconds * 1000).toISOString() : undefined;
+}
+
+export class InstagramArchiveImporter implements ArchiveImporter {
+  readonly platform = 'instagram' as const;
+  readonly displayName = 'Instagram "Download your information" export (JSON)';
+
+  public canImport(files: ArchiveFiles): boolean {
+    return files.find(PROFILE_FILE).length > 0 || files.find(PROFILE_HTML_FILE).length > 0;
+  }
+
+  public async parse(files: ArchiveFiles): Promise<ArchiveParseResult> {
+    const [profilePath] = files.find(PROFILE_FILE);
+    if (!profilePath) {
+      throw new ArchiveImportError(
+        'This Instagram export is in HTML format. Request a new export and choose JSON as the format.'
+      );
+    }
+
+    const profileFields = (await this.readJson(files, profilePath))?.profile_user?.[0]?.string_map_data;
+    const username = decodeMetaText(profileFields?.Username?.value);
+    if (!username) {
+      throw new ArchiveImportError('The Instagram export does not contain profile information.');
+    }
+
+    const posts = await this.readRecords(files, POSTS_FILE);
+    const stories = await this.readRecords(files, STORIES_FILE, 'ig_stories');
+    const reels = await this.readRecords(files, REELS_FILE, 'ig_reels_media');
+    const comments = await this.readRecords(files, COMMENTS_FILE, 'comments_reels_comments');
+    const likes = await this.readRecords(files, LIKES_FILE, 'likes_media_likes');
+    const followers = await this.readRecords(files, FOLLOWERS_FILE, 'relationships_followers');
+    const following = await this.readRecords(files, FOLLOWING_FILE, 'relationships_following');
+    const advertisers = await this.readRecords(files, ADVERTISERS_FILE, 'ig_custom_audiences_all_types');
+    const locationsOfInterest = (await this.readRecords(files, LOCATIONS_OF_INTEREST_FILE, 'label_values'))
+      .flatMap(label => label.vec || [])
+      .map((entry: any) => decodeMetaText(entry.value))
+      .filter(Boolean);
+
+    // Stories are single media items; posts and reels group one or more
+    const postContent = [...posts, ...reels, ...stories.map(story => ({ media: [story] }))]
+      .map(post => this.postToContent(post))
+      .filter((item): item is ContentItem => !!item);
+    const commentContent = comments
+      .map(comment => this.commentToContent(comment))
+      .filter((item): item is ContentItem => !!item);
+    const likeContent = likes
+      .map(like => {
+        const entry = like.string_list_data?.[0];
+        const timestamp = toIsoTimestamp(entry?.timestamp);
+        if (!timestamp) return null;
+        return {
+          type: 'like',
+          content: like.title ? `Liked a post by @${decodeMetaText(like.title)}` : undefined,
+          timestamp,
+          url: entry.href
+        } as ContentItem;
+      })
+      .filter((item): item is ContentItem => !!item);
+
+    const contentData = [...postContent, ...commentContent, ...likeContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const stats = {
+      posts: posts.length,
+      reels: reels.length,
+      stories: stories.length,
+      comments: commentContent.length,
+      likes: likeContent.length,
+      followers: followers.length,
+      following: following.length,
+      geotaggedMedia: postContent.filter(item => item.location).length,
+      advertisers: advertisers.length,
+    };
+
+    const data = await this.transformExport({
+      username,
+      profileFields,
+      contentData,
+      followerCount: followers.length,
+      followingCount: following.length,
+      advertisers,
+      locationsOfInterest,
+    });
+
+    return { data, stats };
+  }
+
+  /**
+   * Parse a JSON file from the export
+   */
+  private async readJson(files: ArchiveFiles, path: string): Promise<any> {
+    try {
+      return JSON.parse(await files.readText(path));
+    } catch (error) {
+      if (error instanceof ArchiveImportError) throw error;
+      throw new ArchiveImportError(`Could not read ${path} from the Instagram export.`);
+    }
+  }
+
+  /**
+   * Read the records of every file matching a pattern
+   * @param files The export
+   * @param pattern File pattern
+   * @param key Key holding the records, for files that are objects rather than arrays
+   * @returns All records, or an empty list if no file matches
+   */
+  private async readRecords(files: ArchiveFiles, pattern: RegExp, key?: string): Promise<any[]> {
+    const records: any[] = [];
+
+    for (const path of files.find(pattern)) {
+      const json = await this.readJson(files, path);
+      const part = Array.isArray(json) ? json : (key && json?.[key]) || [];
+      for (const record of part) {
+        records.push(record);
+      }
+    }
+
+    return records;
+  }
+
+  /**
+   * Map an exported post, reel or story to a content item
+   * Single-media posts keep their caption and time on the media item. Photos
+   * uploaded with GPS EXIF data keep those coordinates in the export.
+   */
+  private postToContent(post: any): ContentItem | null {
+    const media: any[] = post.media || [];
+    const timestamp = toIsoTimestamp(post.creation_timestamp ?? media[0]?.creation_timestamp);
+    if (!timestamp) return null;
+
+    const exif = media
+      .flatMap(item => item.media_metadata?.photo_metadata?.exif_data || item.media_metadata?.video_metadata?.exif_data || [])
+      .find((data: any) => typeof data.latitude === 'number' && typeof data.longitude === 'number');
+
+    return {
+      type: 'post',
+      content: decodeMetaText(post.title || media[0]?.title),
+      timestamp,
+      location: exif ? {
+        name: `${exif.latitude.toFixed(4)}, ${exif.longitude.toFixed(4)}`,
+        latitude: exif.latitude,
+        longitude: exif.longitude
+      } : undefined
+    };
+  }
+
+  /**
+   * Map an exported comment to a content item
+   * Newer exports use string_map_data, older ones string_list_data.
+   */
+  private commentToContent(comment: any): ContentItem | null {
+    const fields = comment.string_map_data;
+    const text = fields ? fields.Comment?.value : comment.string_list_data?.[0]?.value;
+    const timestamp = toIsoTimestamp(fields ? fields.Time?.timestamp : comment.string_list_data?.[0]?.timestamp);
+    if (!timestamp) return null;
+
+    return {
+      type: 'comment',
+      content: decodeMetaText(text),
+      timestamp
+    };
+  }
+
+  /**
+   * Build platform data from the parsed export
+   */
+  private async transformExport(exportData: {
+    username: string;
+    profileFields: any;
+    contentData: ContentItem[];
+    followerCount: number;
+    followingCount: number;
+    advertisers: any[];
+    locationsOfInterest: string[];
+  }): Promise<PlatformData> {
+    const { username, profileFields, contentData, advertisers, locationsOfInterest } = exportData;
+
+    const posts = contentData.filter(item => item.type === 'post');
+    const comments = contentData.filter(item => item.type === 'comment').length;
+    const likes = contentData.filter(item => item.type === 'like').length;
+    const geotaggedPosts = posts.filter(item => item.location).length;
+    const isPrivate = profileFields?.['Private Account']?.value === 'True';
+
+    // Hashtags used in captions and comments
+    const hashtagCounts: Record<string, number> = {};
+    for (const item of contentData) {
+      if (item.type === 'like') continue;
+      for (const match of (item.content || '').match(/#\w+/g) || []) {
+        const hashtag = match.slice(1).toLowerCase();
+        hashtagCounts[hashtag] = (hashtagCounts[hashtag] || 0) + 1;
+      }
+    }
+    const sortedHashtags = Object.entries(hashtagCounts).sort((a, b) => b[1] - a[1]);
+    const totalHashtags = sortedHashtags.reduce((sum, [, count]) => sum + count, 0);
+
+    // Advertisers that uploaded a list containing the user, rather than only targeting their activity
+    const dataFileAdvertisers = advertisers.filter(advertiser => advertiser.has_data_file_custom_audience);
+
+    // Privacy concerns
+    const privacyConcerns: PrivacyConcern[] = [];
+    if (geotaggedPosts > 0) {
+      privacyConcerns.push({
+        type: 'photo_location',
+        severity: 'high',
+        description: geotaggedPosts > 1
+          ? `${geotaggedPosts} uploaded photos or videos kept the GPS coordinates of where they were taken`
+          : '1 uploaded photo or video kept the GPS coordinates of where it was taken'
+      });
+    }
+    if (locationsOfInterest.length > 0) {
+      privacyConcerns.push({
+        type: 'location_profiling',
+        severity: 'medium',
+        description: `Instagram associates you with ${locationsOfInterest.length} location${locationsOfInterest.length > 1 ? 's' : ''}, ` +
+          `including ${locationsOfInterest.slice(0, 3).join(', ')}`
+      });
+    }
+    if (advertisers.length > 0) {
+      privacyConcerns.push({
+        type: 'ad_targeting',
+        severity: dataFileAdvertisers.length > 0 ? 'high' : 'medium',
+        description: `${advertisers.length} advertiser${advertisers.length > 1 ? 's' : ''} used your activity or information` +
+          (dataFileAdvertisers.length > 0 ? `, ${dataFileAdvertisers.length} of them by uploading a list containing you` : '')
+      });
+    }
+    if (!isPrivate && posts.length > 0) {
+      privacyConcerns.push({
+        type: 'public_profile',
+        severity: 'medium',
+        description: `${posts.length} posts, reels and stories were shared from a public account`
+      });
+    }
+    if (likes > 0) {
+      privacyConcerns.push({
+        type: 'like_history',
+        severity: 'low',
+        description: `${likes} liked posts reveal interests and relationships`
+      });
+    }
+
+    const dataCategories: { category: string, severity: 'low' | 'medium' | 'high' }[] = [
+      { category: 'Photos & Videos', severity: isPrivate ? 'low' : 'medium' },
+      { category: 'Comments & Likes', severity: 'low' }
+    ];
+    if (geotaggedPosts > 0 || locationsOfInterest.length > 0) {
+      dataCategories.push({ category: 'Location', severity: geotaggedPosts > 0 ? 'high' : 'medium' });
+    }
+    if (advertisers.length > 0) {
+      dataCategories.push({ category: 'Advertising Profile', severity: dataFileAdvertisers.length > 0 ? 'high' : 'medium' });
+    }
+
+    const recommendedActions: string[] = [];
+    if (geotaggedPosts > 0) {
+      recommendedActions.push("Turn off location access for your camera app, or strip location data before uploading photos");
+    }
+    if (advertisers.length > 0) {
+      recommendedActions.push("Review advertisers and ad topics in Accounts Center > Ad preferences");
+    }
+    if (!isPrivate) {
+      recommendedActions.push("Consider switching to a private account in Settings > Account privacy");
+    }
+    recommendedActions.push("Archive or delete old posts and stories that reveal personal details");
+
+    const joinDate = contentData[contentData.length - 1]?.timestamp;
+    const accountAgeInDays = joinDate ? (Date.now() - new Date(joinDate).getTime()) / (24 * 60 * 60 * 1000) : 0;
+
+    // Label and score each item with the configured analysis provider
+    const sentimentBreakdown = await analysis.scoreContent(contentData);
+
+    return {
+      platformId: 'instagram',
+      username,
+      profileData: {
+        displayName: decodeMetaText(profileFields?.Name?.value) || username,
+        bio: decodeMetaText(profileFields?.Bio?.value),
+        followerCount: exportData.followerCount,
+        followingCount: exportData.followingCount,
+        profileUrl: `https://instagram.com/${username}`
+      },
+      activityData: {
+        totalPosts: posts.length,
+        totalComments: comments,
+        totalLikes: likes,
+        postsPerDay: accountAgeInDays > 0 ? posts.length / accountAgeInDays : 0,
+        lastActive: contentData[0]?.timestamp,
+        topHashtags: sortedHashtags.slice(0, 10).map(([hashtag]) => hashtag)
+      },
+      contentData,
+      privacyMetrics: {
+        exposureScore: 0, // Scored by the exposure score engine
+        dataCategories,
+        potentialConcerns: privacyConcerns.map(concern => ({
+          issue: concern.description,
+          risk: concern.severity
+        })),
+        recommendedActions
+      },
+      analysisResults: {
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics: sortedHashtags.slice(0, 5).map(([topic, count]) => ({
+          topic,
+          percentage: count / totalHashtags
+        })),
+        activityTimeline: yearlyActivityTimeline(contentData),
+        sentimentBreakdown,
+        dataCategories,
+        privacyConcerns,
+        recommendedActions,
+        platformSpecificMetrics: {
+          privateAccount: isPrivate,
+          geotaggedMedia: posts
+            .filter(item => item.location)
+            .map(item => ({ timestamp: item.timestamp, ...item.location })),
+          locationsOfInterest,
+          advertisers: {
+            total: advertisers.length,
+            withDataFile: dataFileAdvertisers.length,
+            names: advertisers.map(advertiser => decodeMetaText(advertiser.advertiser_name)).filter(Boolean).slice(0, 25)
+          }
+        }
+      }
+    };
+  }
+}
+
+// Create singleton instance
+export const instagramArchiveImporter = new InstagramArchiveImporter();
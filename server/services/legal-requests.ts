@@ -0,0 +1,531 @@
+/**
+ * Legal Request Service
+ *
+ * Generates formal data-subject request letters under the GDPR (Article 15
+ * access, Article 17 erasure) and the CCPA (deletion, opt-out of sale) for
+ * platforms and data brokers that offer no deletion API. Letters are filled in
+ * from the user's account and the identifiers found in their footprint, and
+ * stored as deletion requests. Once a letter is sent, the statutory deadline is
+ * tracked and reminders are raised while it passes without a response.
+ */
+
+import {
+  DeletionRequest,
+  DeletionRequestDetails,
+  DigitalFootprintResponse,
+  LegalRequest,
+  LegalRequestType,
+  Platform,
+  legalRequestResponseDays
+} from '@shared/schema';
+import { storage } from '../storage';
+import { log } from '../vite';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Marks deletion requests that hold a legal request letter
+export const LEGAL_REQUEST_TYPE = 'legal_request';
+
+// How often to repeat the reminder while a recipient stays silent
+const REMINDER_INTERVAL = 7 * DAY;
+
+type Law = 'gdpr' | 'ccpa';
+
+export interface LegalRecipient {
+  id: string;
+  name: string;
+  kind: 'platform' | 'data_broker';
+  platform?: Exclude<Platform, 'all'>;
+  // Legal entity responsible for the data under each law
+  entities: Record<Law, string>;
+  // Page listing the recipient's current privacy contact or opt-out route
+  contactUrl: string;
+  // Extra paragraph added to this recipient's letters
+  note?: string;
+}
+
+export const LEGAL_RECIPIENTS: LegalRecipient[] = [
+  {
+    id: 'twitter',
+    name: 'Twitter / X',
+    kind: 'platform',
+    platform: 'twitter',
+    entities: { gdpr: 'Twitter International Unlimited Company', ccpa: 'X Corp.' },
+    contactUrl: 'https://twitter.com/en/privacy',
+  },
+  {
+    id: 'instagram',
+    name: 'Instagram',
+    kind: 'platform',
+    platform: 'instagram',
+    entities: { gdpr: 'Meta Platforms Ireland Limited', ccpa: 'Meta Platforms, Inc.' },
+    contactUrl: 'https://privacycenter.instagram.com/policy',
+  },
+  {
+    id: 'facebook',
+    name: 'Facebook',
+    kind: 'platform',
+    platform: 'facebook',
+    entities: { gdpr: 'Meta Platforms Ireland Limited', ccpa: 'Meta Platforms, Inc.' },
+    contactUrl: 'https://www.facebook.com/privacy/policy/',
+    note: 'This request also covers data collected about me through Meta Pixel and other Meta Business Tools.',
+  },
+  {
+    id: 'reddit',
+    name: 'Reddit',
+    kind: 'platform',
+    platform: 'reddit',
+    entities: { gdpr: 'Reddit, Inc.', ccpa: 'Reddit, Inc.' },
+    contactUrl: 'https://www.reddit.com/policies/privacy-policy',
+  },
+  {
+    id: 'linkedin',
+    name: 'LinkedIn',
+    kind: 'platform',
+    platform: 'linkedin',
+    entities: { gdpr: 'LinkedIn Ireland Unlimited Company', ccpa: 'LinkedIn Corporation' },
+    contactUrl: 'https://www.linkedin.com/legal/privacy-policy',
+  },
+  {
+    id: 'tiktok',
+    name: 'TikTok',
+    kind: 'platform',
+    platform: 'tiktok',
+    entities: { gdpr: 'TikTok Technology Limited', ccpa: 'TikTok Inc.' },
+    contactUrl: 'https://www.tiktok.com/legal/privacy-policy',
+  },
+  {
+    id: 'youtube',
+    name: 'YouTube',
+    kind: 'platform',
+    platform: 'youtube',
+    entities: { gdpr: 'Google Ireland Limited', ccpa: 'Google LLC' },
+    contactUrl: 'https://policies.google.com/privacy',
+    note: 'This request covers my YouTube channel and the Google Account it belongs to.',
+  },
+  {
+    id: 'pinterest',
+    name: 'Pinterest',
+    kind: 'platform',
+    platform: 'pinterest',
+    entities: { gdpr: 'Pinterest Europe Limited', ccpa: 'Pinterest, Inc.' },
+    contactUrl: 'https://policy.pinterest.com/privacy-policy',
+  },
+  {
+    id: 'snapchat',
+    name: 'Snapchat',
+    kind: 'platform',
+    platform: 'snapchat',
+    entities: { gdpr: 'Snap B.V.', ccpa: 'Snap Inc.' },
+    contactUrl: 'https://values.snap.com/privacy/privacy-policy',
+  },
+  {
+    id: 'github',
+    name: 'GitHub',
+    kind: 'platform',
+    platform: 'github',
+    entities: { gdpr: 'GitHub, Inc.', ccpa: 'GitHub, Inc.' },
+    contactUrl: 'https://docs.github.com/en/site-policy/privacy-policies/github-general-privacy-statement',
+  },
+  {
+    id: 'medium',
+    name: 'Medium',
+    kind: 'platform',
+    platform: 'medium',
+    entities: { gdpr: 'A Medium Corporation', ccpa: 'A Medium Corporation' },
+    contactUrl: 'https://policy.medium.com/medium-privacy-policy-f03bf92035c9',
+  },
+  {
+    id: 'spokeo',
+    name: 'Spokeo',
+    kind: 'data_broker',
+    entities: { gdpr: 'Spokeo, Inc.', ccpa: 'Spokeo, Inc.' },
+    contactUrl: 'https://www.spokeo.com/optout',
+  },
+  {
+    id: 'whitepages',
+    name: 'Whitepages',
+    kind: 'data_broker',
+    entities: { gdpr: 'Whitepages, Inc.', ccpa: 'Whitepages, Inc.' },
+    contactUrl: 'https://www.whitepages.com/suppression-requests',
+  },
+  {
+    id: 'beenverified',
+    name: 'BeenVerified',
+    kind: 'data_broker',
+    entities: { gdpr: 'BeenVerified, LLC', ccpa: 'BeenVerified, LLC' },
+    contactUrl: 'https://www.beenverified.com/app/optout/search',
+  },
+  {
+    id: 'intelius',
+    name: 'Intelius',
+    kind: 'data_broker',
+    entities: { gdpr: 'PeopleConnect, Inc.', ccpa: 'PeopleConnect, Inc.' },
+    contactUrl: 'https://suppression.peopleconnect.us/login',
+    note: 'This request covers every PeopleConnect brand, including Intelius, Classmates, TruthFinder and Instant Checkmate.',
+  },
+  {
+    id: 'acxiom',
+    name: 'Acxiom',
+    kind: 'data_broker',
+    entities: { gdpr: 'Acxiom LLC', ccpa: 'Acxiom LLC' },
+    contactUrl: 'https://isapps.acxiom.com/optout/optout.aspx',
+    note: 'This request covers marketing data about me that you license to clients and partners.',
+  },
+];
+
+// Title, legal basis and what each letter asks for
+const LETTER_TEMPLATES: Record<LegalRequestType, { law: Law; subject: string; request: string[]; deadline: string }> = {
+  gdpr_access: {
+    law: 'gdpr',
+    subject: 'Subject access request under Article 15 GDPR',
+    request: [
+      'I am writing to make a subject access request under Article 15 of the General Data Protection Regulation (GDPR).',
+      'Please confirm whether you process personal data concerning me and, if so, send me a copy of that data together with:',
+      '- the purposes of the processing;',
+      '- the categories of personal data concerned;',
+      '- the recipients, or categories of recipient, it has been disclosed to;',
+      '- how long it will be stored, or the criteria used to decide this;',
+      '- where it was not collected from me, any available information about its source;',
+      '- whether it is used for automated decision-making, including profiling.',
+    ],
+    deadline: 'Under Article 12(3) GDPR you must respond without undue delay and at the latest within one month of receiving this request.',
+  },
+  gdpr_erasure: {
+    law: 'gdpr',
+    subject: 'Request for erasure under Article 17 GDPR',
+    request: [
+      'I am writing to request the erasure of all personal data you hold about me under Article 17 of the General Data Protection Regulation (GDPR).',
+      'I withdraw any consent your processing relies on and object to any processing based on your legitimate interests under Article 21.',
+      'Please also tell any recipients you have disclosed my data to about this erasure, as Article 19 requires, and confirm in writing once it is complete.',
+    ],
+    deadline: 'Under Article 12(3) GDPR you must respond without undue delay and at the latest within one month of receiving this request.',
+  },
+  ccpa_delete: {
+    law: 'ccpa',
+    subject: 'Request to delete under the California Consumer Privacy Act',
+    request: [
+      'I am writing to request that you delete all personal information you have collected about me, under section 1798.105 of the California Consumer Privacy Act (CCPA).',
+      'Please also direct your service providers and contractors to delete my personal information, and tell any third parties you have sold or shared it with.',
+      'Please confirm in writing once the deletion is complete.',
+    ],
+    deadline: 'Under section 1798.130 you must respond within 45 days of receiving this request.',
+  },
+  ccpa_opt_out: {
+    law: 'ccpa',
+    subject: 'Request to opt out of the sale or sharing of personal information',
+    request: [
+      'I am writing to opt out of the sale and sharing of my personal information, under section 1798.120 of the California Consumer Privacy Act (CCPA).',
+      'Please stop selling or sharing my personal information with third parties, including for cross-context behavioral advertising, and do not sell or share it in future.',
+      'Please confirm in writing once you have acted on this request.',
+    ],
+    deadline: 'Please act on this request as soon as possible and confirm within 45 days of receiving it.',
+  },
+};
+
+// Where to escalate when a recipient misses its deadline
+const AUTHORITIES: Record<Law, string> = {
+  gdpr: 'your national data protection authority',
+  ccpa: 'the California Privacy Protection Agency or the California Attorney General',
+};
+
+export interface LegalRequestInput {
+  recipientId: string;
+  type: LegalRequestType;
+  // Filled in from the account if not given
+  fullName?: string;
+  postalAddress?: string;
+}
+
+/**
+ * Thrown when a legal request can't be created or doesn't fit the state it is in
+ */
+export class LegalRequestError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LegalRequestError';
+  }
+}
+
+export class LegalRequestService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private checkInterval = 60 * 60 * 1000; // Look for missed deadlines every hour
+
+  /**
+   * Start checking sent letters for missed deadlines in the background
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.checkInterval);
+    log('Legal request deadline checks started', 'legal-requests');
+  }
+
+  /**
+   * Stop the deadline checks
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log('Legal request deadline checks stopped', 'legal-requests');
+    }
+  }
+
+  /**
+   * Find a recipient's template
+   * @param recipientId The recipient's ID
+   */
+  public getRecipient(recipientId: string): LegalRecipient | undefined {
+    return LEGAL_RECIPIENTS.find(recipient => recipient.id === recipientId);
+  }
+
+  /**
+   * Fill in a letter for a recipient
+   * @param account The user's account details
+   * @param input The recipient, letter type and any details the user added
+   * @param snapshot The user's latest footprint snapshot, for the identifiers it found
+   * @param now Current time, for the letter's date
+   * @throws LegalRequestError if the recipient is unknown
+   */
+  public generateLetter(
+    account: { username: string; email: string },
+    input: LegalRequestInput,
+    snapshot?: DigitalFootprintResponse,
+    now: Date = new Date()
+  ): LegalRequest {
+    const recipient = this.getRecipient(input.recipientId);
+    if (!recipient) {
+      throw new LegalRequestError('We have no letter template for that recipient.');
+    }
+
+    const template = LETTER_TEMPLATES[input.type];
+    const addressee = recipient.entities[template.law];
+    const identifiers = this.identifiersFor(recipient, account, input, snapshot);
+    const date = now.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+
+    const body = [
+      `To: Data Protection Officer, ${addressee}`,
+      `Date: ${date}`,
+      '',
+      'Dear Data Protection Officer,',
+      '',
+      ...template.request,
+      ...(recipient.kind === 'data_broker'
+        ? ['', 'This includes any profile, listing or record about me in your people-search or marketing products, and any data you have bought or compiled about me from other sources.']
+        : []),
+      ...(recipient.note ? ['', recipient.note] : []),
+      '',
+      'The following details should help you find my data:',
+      ...identifiers.map(identifier => `- ${identifier.label}: ${identifier.value}`),
+      '',
+      'Please use these details only to deal with this request. If you need more to confirm my identity, tell me what you need rather than delaying your response.',
+      '',
+      template.deadline,
+      '',
+      'Yours faithfully,',
+      input.fullName?.trim() || account.username,
+    ].join('\n');
+
+    return {
+      type: input.type,
+      recipientId: recipient.id,
+      recipientName: recipient.name,
+      addressee,
+      contactUrl: recipient.contactUrl,
+      subject: template.subject,
+      body,
+      identifiers,
+      generatedAt: now.toISOString(),
+      reminders: [],
+    };
+  }
+
+  /**
+   * Generate a letter and store it as a deletion request, ready for the user to send
+   * @param user The user the letter is for
+   * @param input The recipient, letter type and any details the user added
+   * @param snapshot The user's latest footprint snapshot
+   * @param now Current time
+   */
+  public async create(
+    user: { id: number; username: string; email: string },
+    input: LegalRequestInput,
+    snapshot?: DigitalFootprintResponse,
+    now: Date = new Date()
+  ): Promise<DeletionRequest> {
+    const legalRequest = this.generateLetter(user, input, snapshot, now);
+    const recipient = this.getRecipient(input.recipientId)!;
+
+    const created = await storage.createDeletionRequest({
+      userId: user.id,
+      platforms: recipient.platform ? [recipient.platform] : [],
+      details: {
+        requestType: LEGAL_REQUEST_TYPE,
+        requestedAt: now.toISOString(),
+        legalRequest
+      }
+    });
+
+    log(`Generated a ${input.type} letter to ${recipient.name} for user ${user.id} in request ${created.id}`, 'legal-requests');
+    return created;
+  }
+
+  /**
+   * Record that the user sent the letter, which starts the statutory deadline
+   * @param request The deletion request holding the letter
+   * @param sentAt When the letter was sent
+   * @throws LegalRequestError if the letter was already sent or the request has finished
+   */
+  public async markSent(request: DeletionRequest, sentAt: Date = new Date()): Promise<DeletionRequest> {
+    const { details, legalRequest } = this.legalRequestOf(request);
+    if (legalRequest.sentAt) {
+      throw new LegalRequestError('This letter has already been marked as sent.');
+    }
+    if (request.status !== 'pending') {
+      throw new LegalRequestError(`This request is already ${request.status.replace('_', ' ')}.`);
+    }
+
+    const deadline = new Date(sentAt.getTime() + legalRequestResponseDays[legalRequest.type] * DAY);
+    return storage.updateDeletionRequest(request.id, {
+      status: 'in_progress',
+      details: {
+        ...details,
+        legalRequest: { ...legalRequest, sentAt: sentAt.toISOString(), deadline: deadline.toISOString() }
+      },
+    });
+  }
+
+  /**
+   * Record the recipient's response, which finishes the request
+   * @param request The deletion request holding the letter
+   * @param outcome Whether the recipient did what the letter asked
+   * @param notes Anything the user wants to keep about the response
+   * @param now Current time
+   * @throws LegalRequestError if the letter hasn't been sent or the request has finished
+   */
+  public async recordResponse(
+    request: DeletionRequest,
+    outcome: 'complied' | 'refused',
+    notes?: string,
+    now: Date = new Date()
+  ): Promise<DeletionRequest> {
+    const { details, legalRequest } = this.legalRequestOf(request);
+    if (request.status !== 'in_progress') {
+      throw new LegalRequestError(
+        request.status === 'pending'
+          ? 'Mark the letter as sent before recording a response.'
+          : `This request is already ${request.status.replace('_', ' ')}.`
+      );
+    }
+
+    return storage.updateDeletionRequest(request.id, {
+      status: outcome === 'complied' ? 'completed' : 'failed',
+      details: {
+        ...details,
+        legalRequest: { ...legalRequest, response: { at: now.toISOString(), outcome, notes } }
+      },
+    });
+  }
+
+  /**
+   * Add a reminder to every sent letter whose deadline has passed without a response
+   * @param now Current time
+   * @returns The requests that got a new reminder
+   */
+  public async checkDeadlines(now: Date = new Date()): Promise<DeletionRequest[]> {
+    const reminded: DeletionRequest[] = [];
+
+    for (const request of await storage.getActiveDeletionRequests()) {
+      const details = (request.details ?? {}) as DeletionRequestDetails;
+      const legalRequest = details.legalRequest;
+      if (request.status !== 'in_progress' || !legalRequest?.deadline) continue;
+
+      const deadline = new Date(legalRequest.deadline);
+      if (deadline.getTime() > now.getTime()) continue;
+
+      // Repeat the reminder each week rather than every check
+      const last = legalRequest.reminders[legalRequest.reminders.length - 1];
+      if (last && now.getTime() - new Date(last.at).getTime() < REMINDER_INTERVAL) continue;
+
+      const authority = AUTHORITIES[LETTER_TEMPLATES[legalRequest.type].law];
+      const deadlineDate = deadline.toLocaleDateString('en-GB', { day: 'numeric', month: 'long', year: 'numeric', timeZone: 'UTC' });
+      const message = last
+        ? `Still no response from ${legalRequest.recipientName}, ${Math.floor((now.getTime() - deadline.getTime()) / DAY)} days after the deadline. Consider complaining to ${authority}.`
+        : `${legalRequest.recipientName} missed the ${deadlineDate} deadline to respond. Send a follow-up, or complain to ${authority}.`;
+
+      const updated = await storage.updateDeletionRequest(request.id, {
+        details: {
+          ...details,
+          legalRequest: { ...legalRequest, reminders: [...legalRequest.reminders, { at: now.toISOString(), message }] }
+        },
+      });
+      log(`Legal request ${request.id} is overdue: ${message}`, 'legal-requests');
+      reminded.push(updated);
+    }
+
+    return reminded;
+  }
+
+  /**
+   * Check for missed deadlines, skipping the tick if the previous one is still running
+   */
+  private async tick(): Promise<void> {
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      await this.checkDeadlines();
+    } catch (error: any) {
+      log(`Error checking legal request deadlines: ${error.message}`, 'legal-requests');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Details that identify the user to a recipient: the account email, any name
+   * and address given, and the usernames and profiles found in the footprint.
+   * Platforms only get their own accounts; data brokers get every account found.
+   */
+  private identifiersFor(
+    recipient: LegalRecipient,
+    account: { username: string; email: string },
+    input: LegalRequestInput,
+    snapshot?: DigitalFootprintResponse
+  ): LegalRequest['identifiers'] {
+    const identifiers: LegalRequest['identifiers'] = [];
+    if (input.fullName?.trim()) identifiers.push({ label: 'Full name', value: input.fullName.trim() });
+    identifiers.push({ label: 'Email address', value: account.email });
+    if (input.postalAddress?.trim()) identifiers.push({ label: 'Postal address', value: input.postalAddress.trim() });
+
+    const accounts = (snapshot?.platformData ?? []).filter(platformData =>
+      platformData.platformId !== 'all' &&
+      (recipient.kind === 'data_broker' || platformData.platformId === recipient.platform)
+    );
+    for (const platformData of accounts) {
+      const name = this.getRecipient(platformData.platformId)?.name ?? platformData.platformId;
+      identifiers.push({ label: `${name} username`, value: platformData.username });
+      if (platformData.profileData?.profileUrl) {
+        identifiers.push({ label: `${name} profile`, value: platformData.profileData.profileUrl });
+      }
+    }
+
+    return identifiers;
+  }
+
+  /**
+   * The letter a deletion request holds
+   * @throws LegalRequestError if the request isn't a legal request
+   */
+  private legalRequestOf(request: DeletionRequest): { details: DeletionRequestDetails; legalRequest: LegalRequest } {
+    const details = (request.details ?? {}) as DeletionRequestDetails;
+    if (!details.legalRequest) {
+      throw new LegalRequestError('This deletion request is not a legal request.');
+    }
+    return { details, legalRequest: details.legalRequest };
+  }
+}
+
+export const legalRequests = new LegalRequestService();
@@ -0,0 +1,84 @@
+/**
+ * Lexicon Analysis Provider
+ *
+ * The offline analysis provider: sentiment comes from the lexicon sentiment
+ * analyzer, topics from keyword lists and PII explanations from fixed
+ * descriptions of each kind of PII. Nothing leaves the server, so this is the
+ * default when no model is configured and the fallback whenever one fails.
+ */
+
+import { PiiType } from '@shared/schema';
+import type {
+  AnalysisProvider,
+  AnalysisProviderStatus,
+  PiiExplanationRequest,
+  SentimentAnalysis,
+} from './analysis-provider';
+import { lexiconSentiment } from './lexicon-sentiment';
+
+// Words that mark a text as being about each topic
+const TOPIC_KEYWORDS: Record<string, string[]> = {
+  'Technology': ['tech', 'technology', 'software', 'hardware', 'app', 'digital', 'mobile', 'computer', 'programming', 'code', 'data'],
+  'Business': ['business', 'entrepreneur', 'startup', 'company', 'market', 'product', 'service', 'customer', 'investment', 'finance', 'money'],
+  'Health': ['health', 'fitness', 'workout', 'exercise', 'diet', 'nutrition', 'wellness', 'healthy', 'medical', 'doctor', 'hospital'],
+  'Travel': ['travel', 'vacation', 'trip', 'journey', 'destination', 'adventure', 'explore', 'tourism', 'hotel', 'flight', 'beach', 'holiday'],
+  'Food': ['food', 'recipe', 'restaurant', 'cook', 'cooking', 'meal', 'breakfast', 'lunch', 'dinner', 'delicious', 'taste', 'flavor'],
+  'Fashion': ['fashion', 'style', 'outfit', 'clothes', 'dress', 'wear', 'design', 'brand', 'trendy', 'accessories', 'beauty', 'makeup'],
+  'Sports': ['sports', 'game', 'team', 'player', 'win', 'match', 'competition', 'tournament', 'score', 'championship', 'ball', 'play'],
+  'Entertainment': ['movie', 'film', 'tv', 'show', 'music', 'song', 'actor', 'actress', 'singer', 'celebrity', 'performance', 'concert', 'entertainment'],
+  'Education': ['education', 'school', 'university', 'college', 'learn', 'teacher', 'student', 'class', 'course', 'knowledge', 'study', 'academic'],
+  'Politics': ['politics', 'government', 'election', 'vote', 'political', 'policy', 'president', 'campaign', 'debate', 'law', 'democratic', 'republican'],
+};
+
+// Topics every provider chooses from unless the caller passes its own
+export const TOPIC_LABELS = Object.keys(TOPIC_KEYWORDS);
+
+// Why each kind of PII is risky to leave public
+const PII_RISKS: Record<PiiType, string> = {
+  email: 'A public email address invites spam and phishing, and lets anyone look up other accounts registered with it.',
+  phone: 'A public phone number can be used for scam calls and texts, and for SIM-swap attacks on accounts that use it for recovery.',
+  postal_address: 'A postal address tells anyone reading where you live or work.',
+  credit_card: 'A payment card number can be used for fraudulent purchases; ask your bank to replace the card.',
+  iban: 'A bank account number can be used to set up fraudulent direct debits and make payment scams more convincing.',
+  date_of_birth: 'A date of birth is a common identity check, so it helps others impersonate you or reset your accounts.',
+  license_plate: 'A license plate ties your vehicle, and everywhere it is seen, to your profile.',
+};
+
+export class LexiconAnalysisProvider implements AnalysisProvider {
+  readonly name = 'lexicon' as const;
+  readonly displayName = 'Offline lexicon analysis';
+
+  public async getStatus(): Promise<AnalysisProviderStatus> {
+    return { configured: true, operational: true, message: 'Offline lexicon analysis is always available.' };
+  }
+
+  public async analyzeSentiment(texts: string[]): Promise<SentimentAnalysis[]> {
+    return texts.map(text => {
+      const { sentiment, compound } = lexiconSentiment.analyze(text);
+      return { sentiment, compound };
+    });
+  }
+
+  public async classifyTopics(texts: string[], labels: string[]): Promise<string[][]> {
+    return texts.map(text => this.topicsOf(text, labels));
+  }
+
+  public async explainPii(requests: PiiExplanationRequest[]): Promise<string[]> {
+    return requests.map(request => PII_RISKS[request.type]);
+  }
+
+  /**
+   * Topics a text mentions keywords of
+   * @param text Text to classify
+   * @param labels Topics to choose from; labels without keywords never match
+   * @returns Matching topics in label order
+   */
+  public topicsOf(text: string, labels: string[] = TOPIC_LABELS): string[] {
+    const words = new Set(text.toLowerCase().split(/[^a-z0-9]+/).filter(word => word.length > 0));
+    return labels.filter(label => (TOPIC_KEYWORDS[label] || []).some(keyword =>
+      words.has(keyword) || words.has(`${keyword}s`)
+    ));
+  }
+}
+
+export const lexiconAnalysis = new LexiconAnalysisProvider();
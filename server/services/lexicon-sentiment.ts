@@ -0,0 +1,365 @@
+/**
+ * Lexicon Sentiment Analysis Service
+ *
+ * Scores text offline with a valence lexicon in the style of VADER: each
+ * known word, emoticon or emoji carries a valence from -4 to 4, which is
+ * strengthened or weakened by preceding intensifiers ("very", "slightly"),
+ * flipped by negations ("not", "don't"), emphasised by ALL CAPS and
+ * exclamation marks, and shifted towards the clause after "but". The summed
+ * valence is normalised into a compound score between -1 and 1.
+ *
+ * Archive importers use it directly, and the lexicon analysis provider wraps
+ * it as the default and fallback for connectors, so sentiment stays
+ * meaningful without network access.
+ */
+
+import { ContentItem } from '@shared/schema';
+
+export type SentimentLabel = 'positive' | 'neutral' | 'negative';
+
+// Sentiment of a single text
+export interface LexiconSentimentResult {
+  sentiment: SentimentLabel;
+  // -1 (most negative) to 1 (most positive)
+  compound: number;
+  // Proportions of the text that read positive, neutral and negative, summing to 1
+  positive: number;
+  neutral: number;
+  negative: number;
+}
+
+interface Token {
+  word: string;
+  // Valence from the lexicon, emoticons or emoji; undefined for unknown words
+  valence?: number;
+  caps: boolean;
+}
+
+// Compound scores within this distance of zero are neutral
+const NEUTRAL_THRESHOLD = 0.05;
+
+// Approximates the maximum expected summed valence when normalising
+const NORMALIZATION_ALPHA = 15;
+
+// Added to a valence written in ALL CAPS among mixed-case text
+const CAPS_EMPHASIS = 0.733;
+
+// Multiplier for a valence preceded by a negation
+const NEGATION_SCALAR = -0.74;
+
+// Intensifiers lose strength the further they are from the word they modify
+const BOOSTER_DAMPING = [1, 0.95, 0.9];
+
+// Weights of the clauses before and after "but"
+const BEFORE_BUT_WEIGHT = 0.5;
+const AFTER_BUT_WEIGHT = 1.5;
+
+// Emphasis per exclamation mark, counting at most four
+const EXCLAMATION_EMPHASIS = 0.292;
+const MAX_EXCLAMATIONS = 4;
+
+// Emphasis per question mark for two or three, and for more than three
+const QUESTION_EMPHASIS = 0.18;
+const MAX_QUESTION_EMPHASIS = 0.96;
+
+const BOOST_INCREASE = 0.293;
+const BOOST_DECREASE = -0.293;
+
+const BOOSTERS: Record<string, number> = {
+  absolutely: BOOST_INCREASE, amazingly: BOOST_INCREASE, completely: BOOST_INCREASE,
+  considerably: BOOST_INCREASE, deeply: BOOST_INCREASE, enormously: BOOST_INCREASE,
+  entirely: BOOST_INCREASE, especially: BOOST_INCREASE, exceptionally: BOOST_INCREASE,
+  extremely: BOOST_INCREASE, fully: BOOST_INCREASE, greatly: BOOST_INCREASE,
+  hella: BOOST_INCREASE, highly: BOOST_INCREASE, hugely: BOOST_INCREASE,
+  incredibly: BOOST_INCREASE, intensely: BOOST_INCREASE, majorly: BOOST_INCREASE,
+  more: BOOST_INCREASE, most: BOOST_INCREASE, particularly: BOOST_INCREASE,
+  pretty: BOOST_INCREASE, purely: BOOST_INCREASE, quite: BOOST_INCREASE, really: BOOST_INCREASE,
+  remarkably: BOOST_INCREASE, so: BOOST_INCREASE, substantially: BOOST_INCREASE,
+  super: BOOST_INCREASE, thoroughly: BOOST_INCREASE, totally: BOOST_INCREASE,
+  tremendously: BOOST_INCREASE, truly: BOOST_INCREASE, unbelievably: BOOST_INCREASE,
+  utterly: BOOST_INCREASE, very: BOOST_INCREASE,
+  almost: BOOST_DECREASE, barely: BOOST_DECREASE, hardly: BOOST_DECREASE,
+  kinda: BOOST_DECREASE, less: BOOST_DECREASE, little: BOOST_DECREASE,
+  marginally: BOOST_DECREASE, occasionally: BOOST_DECREASE, partly: BOOST_DECREASE,
+  scarcely: BOOST_DECREASE, slightly: BOOST_DECREASE, somewhat: BOOST_DECREASE,
+  sorta: BOOST_DECREASE,
+};
+
+const NEGATIONS = new Set([
+  'not', 'no', 'never', 'none', 'nobody', 'nothing', 'neither', 'nor', 'nowhere',
+  'cannot', 'without', 'rarely', 'seldom', 'aint', 'dont', 'cant', 'wont', 'isnt',
+  'arent', 'wasnt', 'werent', 'doesnt', 'didnt', 'couldnt', 'shouldnt', 'wouldnt',
+  'havent', 'hasnt', 'hadnt', 'mustnt', 'neednt',
+]);
+
+// Word valences on VADER's -4 to 4 scale
+const LEXICON: Record<string, number> = {
+  // Positive
+  accomplished: 1.8, admire: 2.1, adorable: 2.2, amazing: 2.8, appreciate: 1.7,
+  appreciated: 2.3, awesome: 3.1, beautiful: 2.9, best: 3.2, better: 1.9,
+  blessed: 2.9, brilliant: 2.8, calm: 1.3, celebrate: 2.7, charming: 2.8,
+  cheerful: 2.5, clever: 2.0, comfortable: 1.5, congrats: 2.4, congratulations: 2.9,
+  cool: 1.3, cute: 2.0, delight: 2.9, delighted: 3.1, delightful: 2.9,
+  enjoy: 2.2, enjoyed: 2.3, excellent: 2.7, excited: 1.4, exciting: 2.2,
+  fabulous: 2.4, fantastic: 2.6, favorite: 2.0, favourite: 2.0, fine: 0.8,
+  fun: 2.3, funny: 1.9, generous: 2.3, glad: 2.0, good: 1.9,
+  gorgeous: 3.0, grateful: 2.0, great: 3.1, haha: 2.0, happy: 2.7,
+  helpful: 1.8, hope: 1.9, hopeful: 1.6, impressive: 2.3, incredible: 2.2,
+  inspiring: 2.2, interesting: 1.7, joy: 2.8, kind: 2.4, laugh: 2.6,
+  lmao: 2.0, lol: 1.8, love: 3.2, loved: 2.9, lovely: 2.8,
+  loving: 2.9, lucky: 1.8, nice: 1.8, perfect: 2.7, pleasant: 2.3,
+  pleased: 1.9, positive: 2.3, proud: 2.1, recommend: 1.5,
+  relaxed: 2.2, relief: 2.1, safe: 1.9, smart: 1.7, smile: 1.5,
+  solid: 0.6, success: 2.7, successful: 2.8, superb: 3.1, support: 1.7,
+  sweet: 2.0, terrific: 2.1, thank: 1.5, thankful: 2.7, thanks: 1.9,
+  thrilled: 2.6, useful: 1.9, win: 2.8, wonderful: 2.7, wow: 2.8,
+  yay: 2.4, yes: 1.7,
+  // Negative
+  afraid: -2.2, angry: -2.3, annoyed: -1.6, annoying: -1.8, anxious: -1.0,
+  ashamed: -2.1, awful: -2.0, awkward: -0.6, bad: -2.5, boring: -1.3,
+  broken: -2.1, bullshit: -2.8, crap: -1.6, crappy: -2.5, crazy: -1.4,
+  cry: -2.1, crying: -2.1, damn: -1.7, dead: -3.3, depressed: -2.3,
+  depressing: -1.6, disappointed: -1.9, disappointing: -2.2, disaster: -3.1, disgusting: -2.4,
+  dislike: -1.6, dumb: -2.3, error: -1.7, fail: -2.5, failed: -2.3,
+  failure: -2.3, fear: -2.2, frustrated: -2.4, frustrating: -1.9, fuck: -2.5,
+  furious: -2.7, hate: -2.7, hated: -3.2, hopeless: -2.0, horrible: -2.5,
+  hurt: -2.4, idiot: -2.3, ignorant: -1.1, ill: -1.8, issue: -0.6,
+  lame: -1.8, lonely: -1.5, lost: -1.3, meh: -0.3, mess: -1.5,
+  miserable: -2.2, miss: -0.6, nervous: -1.2, pathetic: -2.6, poor: -2.1,
+  problem: -1.7, rude: -2.0, sad: -2.1, scared: -1.9, shit: -2.6,
+  sick: -2.3, sorry: -0.3, stress: -1.8, stressed: -1.4, stupid: -2.4,
+  sucks: -1.5, terrible: -2.1, tired: -1.9, trash: -1.5, ugly: -2.3,
+  unfair: -2.1, unfortunately: -1.5, upset: -1.6, useless: -1.8, wasted: -2.2,
+  weak: -1.9, worried: -1.2, worry: -1.9, worse: -2.1, worst: -3.1,
+  wrong: -2.1, wtf: -2.8,
+};
+
+const EMOTICONS: Record<string, number> = {
+  ':)': 2.0, ':-)': 2.0, '(:': 2.2, '=)': 2.2, ':]': 2.2, ':d': 2.3, ':-d': 2.3,
+  'xd': 1.8, ';)': 1.6, ';-)': 1.5, ':p': 1.5, ':-p': 1.5, '<3': 1.9,
+  ':(': -1.9, ':-(': -1.9, '):': -2.2, '=(': -2.2, ":'(": -2.2, ':[': -2.0,
+  ':/': -1.4, ':-/': -1.4, ':|': -0.6, '</3': -1.8, 'd:': -1.2,
+};
+
+const EMOJI: Record<string, number> = {
+  '😀': 2.0, '😃': 2.2, '😄': 2.2, '😁': 2.2, '😊': 2.2, '🙂': 1.2, '😉': 1.6,
+  '😍': 2.8, '🥰': 2.8, '😘': 2.3, '😂': 2.0, '🤣': 2.1, '😎': 1.8, '🥳': 2.5,
+  '❤': 2.5, '💕': 2.4, '💖': 2.4, '👍': 1.9, '👏': 1.8, '🙌': 2.0, '🎉': 2.3,
+  '✨': 1.2, '🙏': 1.0, '💯': 1.8,
+  '😢': -2.0, '😭': -2.2, '😞': -2.1, '😔': -1.8, '😕': -1.0, '🙁': -1.4, '☹': -1.8,
+  '😠': -2.4, '😡': -2.7, '🤬': -3.0, '😤': -1.8, '😒': -1.6, '🙄': -1.2, '😩': -1.9,
+  '😫': -1.9, '😱': -1.6, '🤢': -2.2, '🤮': -2.5, '💔': -2.3, '👎': -1.9,
+};
+
+// Emoji are surrogate pairs or symbols in the Miscellaneous Symbols and Dingbats blocks
+const EMOJI_PATTERN = /[\uD800-\uDBFF][\uDC00-\uDFFF]|[\u2600-\u27BF]/g;
+const SINGLE_EMOJI = /^(?:[\uD800-\uDBFF][\uDC00-\uDFFF]|[\u2600-\u27BF])$/;
+
+// Variation selectors and joiners that do not change an emoji's meaning
+const EMOJI_MODIFIERS = /[\uFE0E\uFE0F\u200D]/g;
+
+const URL_PATTERN = /^(?:https?:\/\/|www\.)/i;
+
+export class LexiconSentimentService {
+  /**
+   * Score the sentiment of a single text
+   * @param text Text content to analyze
+   * @returns Sentiment label, compound score and positive/neutral/negative proportions
+   */
+  public analyze(text: string): LexiconSentimentResult {
+    const tokens = this.tokenize(text || '');
+    if (tokens.length === 0) {
+      return { sentiment: 'neutral', compound: 0, positive: 0, neutral: 1, negative: 0 };
+    }
+
+    // ALL CAPS only signals emphasis when the rest of the text is not shouting too
+    const wordTokens = tokens.filter(token => /[a-z]/i.test(token.word));
+    const capsCount = wordTokens.filter(token => token.caps).length;
+    const capsDiffer = capsCount > 0 && capsCount < wordTokens.length;
+
+    let valences = tokens.map((_, index) => this.tokenValence(tokens, index, capsDiffer));
+
+    // "but" shifts weight onto the clause that follows it
+    const butIndex = tokens.findIndex(token => token.word === 'but');
+    if (butIndex >= 0) {
+      valences = valences.map((valence, index) => {
+        if (index < butIndex) return valence * BEFORE_BUT_WEIGHT;
+        if (index > butIndex) return valence * AFTER_BUT_WEIGHT;
+        return valence;
+      });
+    }
+
+    const emphasis = this.punctuationEmphasis(text);
+    let sum = valences.reduce((total, valence) => total + valence, 0);
+    if (sum > 0) sum += emphasis;
+    else if (sum < 0) sum -= emphasis;
+
+    const compound = Math.max(-1, Math.min(1, sum / Math.sqrt(sum * sum + NORMALIZATION_ALPHA)));
+
+    // Proportions count every scored word one above its valence, so neutral words weigh 1
+    let positiveSum = 0;
+    let negativeSum = 0;
+    let neutralCount = 0;
+    for (const valence of valences) {
+      if (valence > 0) positiveSum += valence + 1;
+      else if (valence < 0) negativeSum += 1 - valence;
+      else neutralCount++;
+    }
+    if (positiveSum > negativeSum) positiveSum += emphasis;
+    else if (negativeSum > positiveSum) negativeSum += emphasis;
+    const total = positiveSum + negativeSum + neutralCount;
+
+    return {
+      sentiment: this.label(compound),
+      compound: round(compound, 4),
+      positive: round(positiveSum / total, 3),
+      neutral: round(neutralCount / total, 3),
+      negative: round(negativeSum / total, 3),
+    };
+  }
+
+  /**
+   * Label and score every content item the account holder wrote, in place
+   *
+   * Likes are other people's words, so they are left unscored.
+   * @param items Content items to score
+   * @returns Share of positive, neutral and negative items among those scored
+   */
+  public scoreContent(items: Array<Pick<ContentItem, 'type' | 'content' | 'sentiment' | 'sentimentScore'>>): {
+    positive: number;
+    neutral: number;
+    negative: number;
+  } {
+    const labels: SentimentLabel[] = [];
+    for (const item of items) {
+      if (item.type === 'like' || !item.content) continue;
+      const result = this.analyze(item.content);
+      item.sentiment = result.sentiment;
+      item.sentimentScore = result.compound;
+      labels.push(result.sentiment);
+    }
+    return this.breakdown(labels);
+  }
+
+  /**
+   * Share of each label, as fractions rounded to two decimals
+   */
+  private breakdown(labels: SentimentLabel[]): { positive: number; neutral: number; negative: number } {
+    if (labels.length === 0) {
+      return { positive: 0, neutral: 1, negative: 0 };
+    }
+    const count = (label: SentimentLabel) => labels.filter(candidate => candidate === label).length;
+    return {
+      positive: round(count('positive') / labels.length, 2),
+      neutral: round(count('neutral') / labels.length, 2),
+      negative: round(count('negative') / labels.length, 2),
+    };
+  }
+
+  private label(compound: number): SentimentLabel {
+    if (compound >= NEUTRAL_THRESHOLD) return 'positive';
+    if (compound <= -NEUTRAL_THRESHOLD) return 'negative';
+    return 'neutral';
+  }
+
+  /**
+   * Split text into words, emoticons and emoji, looking up each one's valence
+   */
+  private tokenize(text: string): Token[] {
+    const spaced = text
+      .replace(/[\u2018\u2019]/g, "'")
+      .replace(EMOJI_MODIFIERS, '')
+      .replace(EMOJI_PATTERN, match => ` ${match} `);
+
+    const tokens: Token[] = [];
+    for (const raw of spaced.split(/\s+/)) {
+      if (!raw || URL_PATTERN.test(raw)) continue;
+
+      const emoticon = EMOTICONS[raw.toLowerCase()];
+      if (emoticon !== undefined) {
+        tokens.push({ word: raw.toLowerCase(), valence: emoticon, caps: false });
+        continue;
+      }
+      if (SINGLE_EMOJI.test(raw)) {
+        tokens.push({ word: raw, valence: EMOJI[raw], caps: false });
+        continue;
+      }
+
+      const word = raw.replace(/^[^a-z0-9]+|[^a-z0-9]+$/gi, '');
+      if (!word) continue;
+      const lower = word.toLowerCase();
+      tokens.push({
+        word: lower,
+        valence: this.lookup(lower),
+        caps: word.length > 1 && /[A-Z]/.test(word) && word === word.toUpperCase(),
+      });
+    }
+    return tokens;
+  }
+
+  /**
+   * Valence of a word, also trying it without stretched letters ("sooo goood")
+   */
+  private lookup(word: string): number | undefined {
+    if (LEXICON[word] !== undefined) return LEXICON[word];
+    if (!/(.)\1\1/.test(word)) return undefined;
+    const doubled = word.replace(/(.)\1{2,}/g, '$1$1');
+    if (LEXICON[doubled] !== undefined) return LEXICON[doubled];
+    return LEXICON[word.replace(/(.)\1{2,}/g, '$1')];
+  }
+
+  /**
+   * Valence of one token after caps emphasis, intensifiers and negations before it
+   */
+  private tokenValence(tokens: Token[], index: number, capsDiffer: boolean): number {
+    const token = tokens[index];
+    if (token.valence === undefined) return 0;
+    // "kind of" hedges rather than praises
+    if (token.word === 'kind' && tokens[index + 1]?.word === 'of') return 0;
+
+    let valence = token.valence;
+    if (capsDiffer && token.caps) {
+      valence += valence > 0 ? CAPS_EMPHASIS : -CAPS_EMPHASIS;
+    }
+
+    for (let distance = 1; distance <= BOOSTER_DAMPING.length && index - distance >= 0; distance++) {
+      const previous = tokens[index - distance];
+      if (previous.valence !== undefined) continue;
+
+      const boost = BOOSTERS[previous.word];
+      if (boost !== undefined) {
+        let scalar = boost * BOOSTER_DAMPING[distance - 1];
+        if (capsDiffer && previous.caps) scalar += boost > 0 ? CAPS_EMPHASIS : -CAPS_EMPHASIS;
+        valence += valence > 0 ? scalar : -scalar;
+      }
+      if (this.isNegation(previous.word)) {
+        valence *= NEGATION_SCALAR;
+      }
+    }
+    return valence;
+  }
+
+  private isNegation(word: string): boolean {
+    return NEGATIONS.has(word.replace(/'/g, '')) || word.endsWith("n't");
+  }
+
+  /**
+   * Extra intensity from exclamation marks and repeated question marks
+   */
+  private punctuationEmphasis(text: string): number {
+    const exclamations = Math.min((text.match(/!/g) || []).length, MAX_EXCLAMATIONS);
+    const questions = (text.match(/\?/g) || []).length;
+    let emphasis = exclamations * EXCLAMATION_EMPHASIS;
+    if (questions > 1) {
+      emphasis += questions <= 3 ? questions * QUESTION_EMPHASIS : MAX_QUESTION_EMPHASIS;
+    }
+    return emphasis;
+  }
+}
+
+function round(value: number, decimals: number): number {
+  const factor = Math.pow(10, decimals);
+  return Math.round(value * factor) / factor;
+}
+
+export const lexiconSentiment = new LexiconSentimentService();
@@ -0,0 +1,176 @@
+/**
+ * LLM Analysis Provider
+ *
+ * Analyzes content with a chat model behind the OpenAI API: OpenAI itself,
+ * or any OpenAI-compatible server such as llama.cpp, vLLM or Ollama when a
+ * base URL is configured. Each batch of texts goes out in one request that
+ * asks for a JSON object with one result per text.
+ */
+
+import OpenAI from 'openai';
+import { log } from '../vite';
+import type {
+  AnalysisProvider,
+  AnalysisProviderName,
+  AnalysisProviderStatus,
+  PiiExplanationRequest,
+  SentimentAnalysis,
+} from './analysis-provider';
+
+export interface LlmAnalysisOptions {
+  name: Exclude<AnalysisProviderName, 'lexicon'>;
+  displayName: string;
+  model: string;
+  // Endpoint of an OpenAI-compatible server; OpenAI's own API when unset
+  baseUrl?: string;
+  apiKey?: string;
+  timeoutMs: number;
+}
+
+// Longest text sent for analysis, in characters
+const MAX_TEXT_LENGTH = 500;
+
+// How long to wait before checking an unreachable endpoint again
+const STATUS_RETRY_MS = 5 * 60 * 1000;
+
+export class LlmAnalysisProvider implements AnalysisProvider {
+  readonly name: Exclude<AnalysisProviderName, 'lexicon'>;
+  readonly displayName: string;
+  private readonly model: string;
+  private readonly client: OpenAI | null;
+  private status: AnalysisProviderStatus | null = null;
+  private statusCheckedAt = 0;
+
+  constructor(options: LlmAnalysisOptions) {
+    this.name = options.name;
+    this.displayName = options.displayName;
+    this.model = options.model;
+
+    // Local servers usually take any key, but the client requires one
+    const apiKey = options.apiKey || (options.baseUrl ? 'not-needed' : undefined);
+    this.client = apiKey
+      ? new OpenAI({ apiKey, baseURL: options.baseUrl, timeout: options.timeoutMs, maxRetries: 1 })
+      : null;
+  }
+
+  /**
+   * Check that the endpoint answers, at most once every few minutes after a failure
+   */
+  public async getStatus(): Promise<AnalysisProviderStatus> {
+    if (!this.client) {
+      return { configured: false, operational: false, message: `${this.displayName} has no API key configured.` };
+    }
+    if (this.status && (this.status.operational || Date.now() - this.statusCheckedAt < STATUS_RETRY_MS)) {
+      return this.status;
+    }
+
+    this.statusCheckedAt = Date.now();
+    try {
+      await this.client.models.list();
+      this.status = { configured: true, operational: true, message: `${this.displayName} (${this.model}) is operational.` };
+      log(`${this.displayName} access verified`, 'analysis');
+    } catch (error) {
+      this.status = { configured: true, operational: false, message: `${this.displayName} could not be reached.` };
+      log(`Error verifying ${this.displayName} access: ${error}`, 'analysis');
+    }
+    return this.status;
+  }
+
+  public async analyzeSentiment(texts: string[]): Promise<SentimentAnalysis[]> {
+    const results = await this.complete(
+      `You are a sentiment analysis expert. Classify the sentiment of each text as positive, neutral or negative,
+       with a score from -1 (most negative) to 1 (most positive).`,
+      `Respond with a JSON object {"results": [...]} holding one object per text with these properties:
+       - index: the text number (1, 2, etc)
+       - sentiment: "positive", "neutral" or "negative"
+       - score: a decimal between -1 and 1`,
+      texts.map(text => this.truncate(text)),
+      texts.length
+    );
+
+    return results.map(result => {
+      const compound = Math.max(-1, Math.min(1, Number(result.score) || 0));
+      const sentiment = ['positive', 'neutral', 'negative'].includes(result.sentiment)
+        ? result.sentiment as SentimentAnalysis['sentiment']
+        : compound >= 0.05 ? 'positive' : compound <= -0.05 ? 'negative' : 'neutral';
+      return { sentiment, compound };
+    });
+  }
+
+  public async classifyTopics(texts: string[], labels: string[]): Promise<string[][]> {
+    const results = await this.complete(
+      `You are a content classifier. For each text, pick the topics it is clearly about from this list:
+       ${labels.join(', ')}. A text may match none of them.`,
+      `Respond with a JSON object {"results": [...]} holding one object per text with these properties:
+       - index: the text number (1, 2, etc)
+       - topics: an array of topics from the list, possibly empty`,
+      texts.map(text => this.truncate(text)),
+      texts.length
+    );
+
+    return results.map(result => Array.isArray(result.topics)
+      ? labels.filter(label => result.topics.includes(label))
+      : []);
+  }
+
+  public async explainPii(requests: PiiExplanationRequest[]): Promise<string[]> {
+    const results = await this.complete(
+      `You are a privacy advisor. For each kind of personal information someone has left public on a social
+       platform, explain in one or two plain sentences, addressed to them, how it could be misused.`,
+      `Respond with a JSON object {"results": [...]} holding one object per item with these properties:
+       - index: the item number (1, 2, etc)
+       - explanation: the explanation`,
+      requests.map(request =>
+        `${request.label} on ${request.platform}, found ${request.occurrences} time${request.occurrences === 1 ? '' : 's'}` +
+        (request.inBio ? ', including the profile bio' : '')
+      ),
+      requests.length
+    );
+
+    return results.map(result => {
+      if (typeof result.explanation !== 'string' || !result.explanation.trim()) {
+        throw new Error('Missing PII explanation');
+      }
+      return result.explanation.trim();
+    });
+  }
+
+  /**
+   * Send numbered items to the model and return its results in item order
+   * @throws Error if the response is missing a result for any item
+   */
+  private async complete(instructions: string, format: string, items: string[], expected: number): Promise<any[]> {
+    if (!this.client) {
+      throw new Error(`${this.displayName} is not configured`);
+    }
+
+    const numbered = items.map((item, index) => `${index + 1}: "${item}"`).join('\n\n');
+    const response = await this.client.chat.completions.create({
+      model: this.model,
+      messages: [
+        { role: 'system', content: instructions },
+        { role: 'user', content: `${format}\n\nHere are the items:\n\n${numbered}` },
+      ],
+      response_format: { type: 'json_object' },
+      temperature: 0,
+    });
+
+    // Some local servers wrap the JSON in prose or code fences
+    const content = response.choices[0]?.message.content || '';
+    const json = content.slice(content.indexOf('{'), content.lastIndexOf('}') + 1);
+    const parsed = JSON.parse(json || '{}');
+    const results: any[] = Array.isArray(parsed.results) ? parsed.results : [];
+
+    return Array.from({ length: expected }, (_, index) => {
+      const result = results.find(candidate => Number(candidate?.index) === index + 1);
+      if (!result) {
+        throw new Error(`No result for item ${index + 1}`);
+      }
+      return result;
+    });
+  }
+
+  private truncate(text: string): string {
+    return text.length > MAX_TEXT_LENGTH ? `${text.substring(0, MAX_TEXT_LENGTH)}...` : text;
+  }
+}
@@ -0,0 +1,409 @@
+/**
+ * Location Inference
+ *
+ * Works out where someone reading a footprint could place the account holder.
+ * Location signals are collected from every platform:
+ *
+ * - profile: the location written on a profile
+ * - geotag: coordinates attached to content, such as photo EXIF data
+ * - check_in: places content was tagged with
+ * - text: cities named in the content, telling more after "I live in" or "work in"
+ * - timezone: the UTC offset implied by the quietest hours of activity
+ *
+ * Signals close to each other, or naming the same place, form a region. Each
+ * signal has a weight saying how much it proves on its own, and a region's
+ * confidence combines them as independent evidence, the same way account
+ * links are scored: 1 - product(1 - weight). Regions are labelled home, work
+ * or frequent from what their signals say and the local time of the content.
+ */
+
+import {
+  ContentItem,
+  InferredRegion,
+  InsightEvidence,
+  LocationInference,
+  LocationSource,
+  Platform,
+  PlatformData,
+} from '@shared/schema';
+import { gazetteer, Place } from './gazetteer';
+import { piiScanner } from './pii-scanner';
+
+// How much one signal of each kind proves on its own
+const SIGNAL_WEIGHTS: Record<Exclude<LocationSource, 'timezone'>, number> = {
+  profile: 0.5,
+  geotag: 0.35,
+  check_in: 0.3,
+  text: 0.1,
+};
+
+// A place named right after "I live in", "work in" and the like
+const STATED_TEXT_WEIGHT = 0.35;
+
+// Weight of a matching time zone, scaled by how clear the time zone is
+const TIMEZONE_WEIGHT = 0.3;
+
+// Signals this close to a region belong to it
+const REGION_RADIUS_KM = 30;
+
+// Coordinates this close to a known city are named after it
+const NEAREST_PLACE_KM = 50;
+
+// Timed items needed before a time zone is estimated
+const MIN_TIMED_ITEMS = 20;
+
+// Most people are asleep for these many hours, centred on 3am local time
+const SLEEP_HOURS = 5;
+const SLEEP_CENTER = 3;
+
+// A time zone this clear or clearer is reported even when no place matches it
+const MIN_TIMEZONE_CONFIDENCE = 0.4;
+
+// Local working hours on weekdays, [start, end)
+const WORK_HOURS: [number, number] = [9, 17];
+
+// Regions less likely than this are left out, such as a city named once in passing
+const MIN_REGION_CONFIDENCE = 0.15;
+
+const MAX_REGIONS = 6;
+const MAX_SIGNALS = 10;
+const MAX_EVIDENCE = 5;
+const EXCERPT_LENGTH = 120;
+
+// Words before a place name saying the account holder lives or works there
+const HOME_PHRASE = /\b(live|lives|living|moved|moving|home|hometown|grew up|born)\b[^.!?\n]{0,25}$/i;
+const WORK_PHRASE = /\b(work|works|working|office|job|commute|commuting|based)\b[^.!?\n]{0,25}$/i;
+
+// Place names made of coordinates, as importers name raw geotags
+const COORDINATE_NAME = /^-?\d+(\.\d+)?,\s*-?\d+(\.\d+)?$/;
+
+type RegionKind = InferredRegion['kind'];
+
+// One piece of evidence about where the account holder is
+interface LocationSignal {
+  source: LocationSource;
+  platform: Platform;
+  weight: number;
+  detail: string;
+  name: string;
+  place?: Place;
+  latitude?: number;
+  longitude?: number;
+  // What the signal says about the place, when it says anything
+  hint?: Exclude<RegionKind, 'frequent'>;
+  // Content item the signal came from
+  index?: number;
+  item?: ContentItem;
+}
+
+interface Region {
+  signals: LocationSignal[];
+  place?: Place;
+  latitude?: number;
+  longitude?: number;
+}
+
+type TimezoneEstimate = NonNullable<LocationInference['timezone']>;
+
+export class LocationInferenceService {
+  /**
+   * Infer the regions a footprint places the account holder in
+   * @param platformData Data of every platform found
+   * @returns Regions, most confident first, and the time zone implied by activity
+   */
+  public infer(platformData: PlatformData[]): LocationInference {
+    const signals = platformData.flatMap(data => this.collectSignals(data));
+    const timezone = this.estimateTimezone(platformData);
+    const regions = this.groupSignals(signals);
+
+    const inferred = regions
+      .map(region => this.describe(region, timezone))
+      .filter(region => region.confidence >= MIN_REGION_CONFIDENCE);
+    if (timezone && timezone.confidence >= MIN_TIMEZONE_CONFIDENCE &&
+        !inferred.some(region => region.signals.some(signal => signal.source === 'timezone'))) {
+      inferred.push({
+        name: `${this.formatOffset(timezone.utcOffset)} time zone`,
+        kind: 'home',
+        confidence: this.round(TIMEZONE_WEIGHT * timezone.confidence),
+        signals: [this.timezoneSignal(platformData[0].platformId, timezone)],
+        evidence: [],
+      });
+    }
+
+    return {
+      regions: inferred
+        .sort((a, b) => b.confidence - a.confidence || a.name.localeCompare(b.name))
+        .slice(0, MAX_REGIONS),
+      timezone,
+    };
+  }
+
+  /**
+   * Location signals in one platform's profile and content
+   */
+  private collectSignals(data: PlatformData): LocationSignal[] {
+    const platform = data.platformId;
+    const signals: LocationSignal[] = [];
+
+    const location = data.profileData?.location?.trim();
+    if (location) {
+      const place = gazetteer.find(location);
+      signals.push({
+        source: 'profile',
+        platform,
+        weight: SIGNAL_WEIGHTS.profile,
+        detail: `Profile location "${location}"`,
+        name: place?.name || location,
+        place,
+        latitude: place?.latitude,
+        longitude: place?.longitude,
+        hint: 'home',
+      });
+    }
+
+    (data.contentData || []).forEach((item, index) => {
+      const tagged = this.taggedSignal(platform, item, index);
+      if (tagged) signals.push(tagged);
+      // Liked content is someone else's words
+      if (item.type !== 'like' && item.content) signals.push(...this.textSignals(platform, item, index));
+    });
+
+    return signals;
+  }
+
+  /**
+   * Signal from the place an item is tagged with: raw coordinates are a geotag, a named place a check-in
+   */
+  private taggedSignal(platform: Platform, item: ContentItem, index: number): LocationSignal | null {
+    const location = item.location;
+    if (!location?.name?.trim()) return null;
+
+    const hasCoordinates = typeof location.latitude === 'number' && typeof location.longitude === 'number';
+    const source = hasCoordinates && COORDINATE_NAME.test(location.name.trim()) ? 'geotag' : 'check_in';
+    const place = hasCoordinates
+      ? gazetteer.nearest(location.latitude!, location.longitude!, NEAREST_PLACE_KM)
+      : gazetteer.find(location.name);
+
+    return {
+      source,
+      platform,
+      weight: SIGNAL_WEIGHTS[source],
+      detail: source === 'geotag' ? `Geotagged at ${location.name.trim()}` : `Checked in at ${location.name.trim()}`,
+      name: place?.name || location.name.trim(),
+      place,
+      latitude: hasCoordinates ? location.latitude : place?.latitude,
+      longitude: hasCoordinates ? location.longitude : place?.longitude,
+      index,
+      item,
+    };
+  }
+
+  /**
+   * Signals from cities named in an item's text, once per city
+   */
+  private textSignals(platform: Platform, item: ContentItem, index: number): LocationSignal[] {
+    const text = item.content || '';
+    const signals = new Map<string, LocationSignal>();
+
+    for (const mention of gazetteer.mentionsIn(text)) {
+      const before = text.slice(Math.max(0, mention.index - 40), mention.index);
+      const hint = HOME_PHRASE.test(before) ? 'home' : WORK_PHRASE.test(before) ? 'work' : undefined;
+      const existing = signals.get(mention.place.name);
+      if (existing && (existing.hint || !hint)) continue;
+
+      signals.set(mention.place.name, {
+        source: 'text',
+        platform,
+        weight: hint ? STATED_TEXT_WEIGHT : SIGNAL_WEIGHTS.text,
+        detail: hint ? `Says they ${hint === 'home' ? 'live' : 'work'} in ${mention.name}` : `Mentions ${mention.name}`,
+        name: mention.place.name,
+        place: mention.place,
+        latitude: mention.place.latitude,
+        longitude: mention.place.longitude,
+        hint,
+        index,
+        item,
+      });
+    }
+
+    return Array.from(signals.values());
+  }
+
+  /**
+   * Estimate the UTC offset from the quietest hours of activity
+   *
+   * The quietest run of hours is taken to be night time around 3am local, with
+   * ties going to the run whose surrounding hours are quietest too. The emptier
+   * those hours are compared with an even spread, the clearer the estimate.
+   */
+  private estimateTimezone(platformData: PlatformData[]): TimezoneEstimate | undefined {
+    const hours = platformData
+      .flatMap(data => data.contentData || [])
+      .map(item => new Date(item.timestamp).getTime())
+      .filter(time => !isNaN(time))
+      .map(time => new Date(time).getUTCHours());
+    if (hours.length < MIN_TIMED_ITEMS) return undefined;
+
+    const histogram = new Array(24).fill(0);
+    for (const hour of hours) histogram[hour]++;
+
+    const windowCount = (start: number, length: number) => {
+      let count = 0;
+      for (let offset = 0; offset < length; offset++) count += histogram[(start + offset + 24) % 24];
+      return count;
+    };
+    // Counts of the window and of wider windows around it, compared in order
+    const quietness = (start: number) => [0, 1, 2].map(widen => windowCount(start - widen, SLEEP_HOURS + widen * 2));
+
+    let quietestStart = 0;
+    let quietest = quietness(0);
+    for (let start = 1; start < 24; start++) {
+      const candidate = quietness(start);
+      const index = candidate.findIndex((count, i) => count !== quietest[i]);
+      if (index !== -1 && candidate[index] < quietest[index]) {
+        quietestStart = start;
+        quietest = candidate;
+      }
+    }
+
+    const centerUtc = quietestStart + (SLEEP_HOURS - 1) / 2;
+    let utcOffset = Math.round(SLEEP_CENTER - centerUtc);
+    if (utcOffset < -11) utcOffset += 24;
+    if (utcOffset > 12) utcOffset -= 24;
+
+    const expected = hours.length * SLEEP_HOURS / 24;
+    return {
+      utcOffset,
+      confidence: this.round(Math.max(0, 1 - quietest[0] / expected)),
+      itemCount: hours.length,
+    };
+  }
+
+  /**
+   * Group signals into regions: by distance when they have coordinates, else by name
+   * The strongest signals are placed first, so they anchor their regions.
+   */
+  private groupSignals(signals: LocationSignal[]): Region[] {
+    const regions: Region[] = [];
+    const byName = new Map<string, Region>();
+
+    for (const signal of signals.slice().sort((a, b) => b.weight - a.weight)) {
+      if (signal.latitude === undefined || signal.longitude === undefined) {
+        const key = signal.name.toLowerCase();
+        const region = byName.get(key) || { signals: [] };
+        if (!byName.has(key)) {
+          byName.set(key, region);
+          regions.push(region);
+        }
+        region.signals.push(signal);
+        continue;
+      }
+
+      const region = regions.find(candidate => candidate.latitude !== undefined &&
+        gazetteer.distanceKm(candidate.latitude, candidate.longitude!, signal.latitude!, signal.longitude!) <= REGION_RADIUS_KM);
+      if (region) {
+        region.signals.push(signal);
+        region.place = region.place || signal.place;
+      } else {
+        regions.push({ signals: [signal], place: signal.place, latitude: signal.latitude, longitude: signal.longitude });
+      }
+    }
+
+    return regions;
+  }
+
+  /**
+   * Score and label a region
+   */
+  private describe(region: Region, timezone: TimezoneEstimate | undefined): InferredRegion {
+    const signals = region.signals.slice();
+    const utcOffset = region.place?.utcOffset ?? timezone?.utcOffset;
+
+    // Activity hours agree with the region's time zone
+    if (timezone && region.place && Math.abs(region.place.utcOffset - timezone.utcOffset) <= 1) {
+      signals.push(this.timezoneSignal(signals[0].platform, timezone));
+    }
+
+    const scores: Record<Exclude<RegionKind, 'frequent'>, number> = { home: 0, work: 0 };
+    for (const signal of signals) {
+      const hint = signal.hint || (signal.item && utcOffset !== undefined ? this.localTimeHint(signal.item, utcOffset) : undefined);
+      if (hint) scores[hint] += signal.weight;
+    }
+    const kind: RegionKind = scores.home === 0 && scores.work === 0 ? 'frequent' : scores.work > scores.home ? 'work' : 'home';
+
+    const confidence = 1 - signals.reduce((remaining, signal) => remaining * (1 - signal.weight), 1);
+    const first = signals[0];
+    const name = region.place?.name ||
+      (first.source === 'geotag' ? `${first.latitude!.toFixed(2)}, ${first.longitude!.toFixed(2)}` : first.name);
+
+    return {
+      name,
+      country: region.place?.country,
+      kind,
+      latitude: region.place?.latitude ?? region.latitude,
+      longitude: region.place?.longitude ?? region.longitude,
+      confidence: this.round(confidence),
+      signals: signals.slice(0, MAX_SIGNALS).map(({ source, platform, detail }) => ({ source, platform, detail })),
+      evidence: this.evidence(signals),
+    };
+  }
+
+  private timezoneSignal(platform: Platform, timezone: TimezoneEstimate): LocationSignal {
+    return {
+      source: 'timezone',
+      platform,
+      weight: TIMEZONE_WEIGHT * timezone.confidence,
+      detail: `Activity over ${timezone.itemCount} items fits ${this.formatOffset(timezone.utcOffset)}`,
+      name: this.formatOffset(timezone.utcOffset),
+    };
+  }
+
+  /**
+   * Content on weekdays in working hours was likely made at work, at night or on weekends at home
+   */
+  private localTimeHint(item: ContentItem, utcOffset: number): Exclude<RegionKind, 'frequent'> | undefined {
+    const time = new Date(item.timestamp).getTime();
+    if (isNaN(time)) return undefined;
+
+    const local = new Date(time + utcOffset * 60 * 60 * 1000);
+    const hour = local.getUTCHours();
+    const weekday = local.getUTCDay() >= 1 && local.getUTCDay() <= 5;
+    if (weekday && hour >= WORK_HOURS[0] && hour < WORK_HOURS[1]) return 'work';
+    if (!weekday || hour >= 20 || hour < 7) return 'home';
+    return undefined;
+  }
+
+  /**
+   * Reference the content items behind the strongest signals, with PII in their excerpts redacted
+   */
+  private evidence(signals: LocationSignal[]): InsightEvidence[] {
+    const seen = new Set<string>();
+    const evidence: InsightEvidence[] = [];
+    for (const { platform, index, item } of signals) {
+      if (!item || index === undefined || seen.has(`${platform}:${index}`)) continue;
+      seen.add(`${platform}:${index}`);
+      evidence.push({
+        platform,
+        itemIndex: index,
+        timestamp: item.timestamp,
+        excerpt: item.content ? piiScanner.excerpt(item, EXCERPT_LENGTH) : item.location?.name,
+        url: item.url,
+      });
+      if (evidence.length >= MAX_EVIDENCE) break;
+    }
+    return evidence;
+  }
+
+  private formatOffset(utcOffset: number): string {
+    const sign = utcOffset < 0 ? '-' : '+';
+    const hours = Math.floor(Math.abs(utcOffset));
+    const minutes = Math.round((Math.abs(utcOffset) - hours) * 60);
+    return `UTC${sign}${String(hours).padStart(2, '0')}:${String(minutes).padStart(2, '0')}`;
+  }
+
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
+
+export const locationInference = new LocationInferenceService();
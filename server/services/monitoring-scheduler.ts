@@ -0,0 +1,225 @@
+/**
+ * Monitoring Scheduler Service
+ *
+ * Re-runs digital footprint searches for watched identities on their cadence,
+ * compares each scan with the previous one and raises alerts when a change
+ * matches one of the identity's alert rules. Each scan is also handed to the
+ * user's deletion policies.
+ */
+
+import {
+  AlertRule,
+  FootprintDiff,
+  InsertMonitoringAlert,
+  MonitoringAlert,
+  WatchedIdentity,
+  monitoringCadenceIntervals
+} from '@shared/schema';
+import { storage } from '../storage';
+import { footprintDiff } from './footprint-diff';
+import { deletionPolicies } from './deletion-policies';
+import { log } from '../vite';
+
+// An alert before it is attached to a user, identity and search
+type RaisedAlert = Pick<InsertMonitoringAlert, 'ruleType' | 'severity' | 'message' | 'details'>;
+
+export class MonitoringSchedulerService {
+  private timer: NodeJS.Timeout | null = null;
+  private isTicking = false;
+  private checkInterval = 60 * 1000; // Look for due identities every minute
+
+  /**
+   * Start checking for identities that are due for a scan
+   */
+  public start(): void {
+    if (this.timer) return;
+
+    this.timer = setInterval(() => this.tick(), this.checkInterval);
+    log('Monitoring scheduler started', 'monitoring');
+  }
+
+  /**
+   * Stop the scheduler
+   */
+  public stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+      log('Monitoring scheduler stopped', 'monitoring');
+    }
+  }
+
+  /**
+   * Check whether an identity is due for another scan
+   * @param identity The watched identity
+   * @param now Current time
+   */
+  public isDue(identity: WatchedIdentity, now: Date = new Date()): boolean {
+    if (!identity.active) return false;
+    if (!identity.lastRunAt) return true;
+
+    const interval = monitoringCadenceIntervals[identity.cadence] ?? monitoringCadenceIntervals.daily;
+    return identity.lastRunAt.getTime() + interval <= now.getTime();
+  }
+
+  /**
+   * Scan every due identity, one at a time to stay within platform rate limits
+   */
+  private async tick(): Promise<void> {
+    // Skip this tick if the previous one is still scanning
+    if (this.isTicking) return;
+    this.isTicking = true;
+
+    try {
+      const now = new Date();
+      const identities = await storage.getActiveWatchedIdentities();
+      const dueIdentities = identities.filter(identity => this.isDue(identity, now));
+
+      for (const identity of dueIdentities) {
+        try {
+          await this.runScan(identity);
+        } catch (error: any) {
+          log(`Monitoring scan failed for identity ${identity.id}: ${error.message}`, 'monitoring');
+        }
+      }
+    } catch (error: any) {
+      log(`Error checking watched identities: ${error.message}`, 'monitoring');
+    } finally {
+      this.isTicking = false;
+    }
+  }
+
+  /**
+   * Run a monitoring scan for an identity and raise any alerts
+   * @param identity The watched identity to scan
+   * @returns Alerts raised by this scan
+   */
+  public async runScan(identity: WatchedIdentity): Promise<MonitoringAlert[]> {
+    log(`Running monitoring scan for identity ${identity.id} (${identity.label})`, 'monitoring');
+
+    const platforms = identity.platformUsernames.map(pu => pu.platform);
+    // A cached copy could hide changes made since the last scan
+    const result = await storage.aggregateDigitalFootprint({
+      platformUsernames: identity.platformUsernames,
+      platforms,
+    }, undefined, { skipCache: true });
+
+    const search = await storage.saveSearchResults({
+      userId: identity.userId,
+      username: identity.platformUsernames.map(pu => `${pu.platform}:${pu.username}`).join(', '),
+      platforms,
+    }, result);
+    result.searchId = search.id;
+
+    // The first scan only establishes a baseline
+    const alerts: MonitoringAlert[] = [];
+    const previous = identity.lastSearchId
+      ? await storage.getSearchResults(identity.lastSearchId)
+      : undefined;
+
+    if (previous) {
+      const diff = footprintDiff.diff(previous, result);
+
+      for (const raised of this.evaluateRules(identity.alertRules, diff)) {
+        alerts.push(await storage.createMonitoringAlert({
+          ...raised,
+          userId: identity.userId,
+          watchedIdentityId: identity.id,
+          searchId: search.id,
+        }));
+      }
+    }
+
+    // A policy that can't queue its items shouldn't hold up the scan
+    try {
+      await deletionPolicies.apply(identity.userId, result);
+    } catch (error: any) {
+      log(`Deletion policies could not run for identity ${identity.id}: ${error.message}`, 'monitoring');
+    }
+
+    await storage.updateWatchedIdentity(identity.id, {
+      lastRunAt: new Date(),
+      lastSearchId: search.id,
+    });
+
+    log(`Monitoring scan for identity ${identity.id} raised ${alerts.length} alert(s)`, 'monitoring');
+    return alerts;
+  }
+
+  /**
+   * Evaluate alert rules against the changes between two scans
+   * @param rules The identity's alert rules
+   * @param diff Changes since the previous scan
+   * @returns Alerts for every rule that matched
+   */
+  public evaluateRules(rules: AlertRule[], diff: FootprintDiff): RaisedAlert[] {
+    const alerts: RaisedAlert[] = [];
+
+    for (const rule of rules) {
+      switch (rule.type) {
+        case 'exposure_score_increase':
+          if (diff.exposureScore.change > rule.threshold) {
+            alerts.push({
+              ruleType: rule.type,
+              severity: 'medium',
+              message: `Exposure score rose by ${diff.exposureScore.change} (from ${diff.exposureScore.from ?? 0} to ${diff.exposureScore.to ?? 0}).`,
+              details: { exposureScore: diff.exposureScore, threshold: rule.threshold },
+            });
+          }
+          break;
+
+        case 'new_high_severity_concern':
+          for (const platform of diff.platforms) {
+            for (const concern of platform.newPrivacyConcerns) {
+              if (concern.severity !== 'high') continue;
+              alerts.push({
+                ruleType: rule.type,
+                severity: 'high',
+                message: `New high-severity privacy concern on ${platform.platformId}: ${concern.type}.`,
+                details: { platform: platform.platformId, concern },
+              });
+            }
+          }
+          break;
+
+        case 'content_mentions':
+          for (const platform of diff.platforms) {
+            const matches = platform.newContent.filter(
+              item => item.content && this.mentionsTerm(item.content, rule.term)
+            );
+            if (matches.length === 0) continue;
+
+            alerts.push({
+              ruleType: rule.type,
+              severity: 'high',
+              message: `${matches.length} new item(s) on ${platform.platformId} mention ${rule.label || 'a watched term'}.`,
+              details: { platform: platform.platformId, label: rule.label, items: matches },
+            });
+          }
+          break;
+      }
+    }
+
+    return alerts;
+  }
+
+  /**
+   * Check if text mentions a term
+   * Numbers such as phone numbers also match when written with different separators
+   */
+  private mentionsTerm(text: string, term: string): boolean {
+    if (text.toLowerCase().includes(term.toLowerCase())) {
+      return true;
+    }
+
+    const termDigits = term.replace(/\D/g, '');
+    if (termDigits.length < 7) {
+      return false;
+    }
+
+    const numberRuns = text.match(/\d[\d\s().+-]{5,}\d/g) || [];
+    return numberRuns.some(run => run.replace(/\D/g, '').includes(termDigits));
+  }
+}
+
+export const monitoringScheduler = new MonitoringSchedulerService();
@@ -0,0 +1,514 @@
+/**
+ * PII Scanner
+ *
+ * Finds personally identifiable information in text: email addresses, phone
+ * numbers, postal addresses, payment card numbers, IBANs, dates of birth and
+ * license plates. Pattern matches are validated (Luhn and IBAN checksums,
+ * phone number lengths, real calendar dates) to keep false positives down.
+ * Scanning runs locally; content is never sent to an external service.
+ *
+ * annotate() scans a platform's content and bio and adds the matching data
+ * categories and privacy concerns, so every connector and archive importer
+ * reports PII the same way.
+ */
+
+import { ContentItem, PiiFinding, PiiType, PlatformData, PrivacyConcern } from '@shared/schema';
+
+type Severity = 'low' | 'medium' | 'high';
+
+interface PiiSpan {
+  start: number;
+  end: number;
+}
+
+/**
+ * How each kind of PII is reported
+ */
+const PII_RULES: Record<PiiType, { label: string; category: string; severity: Severity }> = {
+  email: { label: 'Email address', category: 'Contact Information', severity: 'medium' },
+  phone: { label: 'Phone number', category: 'Contact Information', severity: 'high' },
+  postal_address: { label: 'Postal address', category: 'Home Address', severity: 'high' },
+  credit_card: { label: 'Payment card number', category: 'Financial Information', severity: 'high' },
+  iban: { label: 'Bank account number (IBAN)', category: 'Financial Information', severity: 'high' },
+  date_of_birth: { label: 'Date of birth', category: 'Date of Birth', severity: 'medium' },
+  license_plate: { label: 'License plate', category: 'Vehicle Information', severity: 'medium' },
+};
+
+// Detectors run in this order; later matches overlapping an earlier one are dropped
+const SCAN_ORDER: PiiType[] = [
+  'credit_card', 'iban', 'email', 'phone', 'date_of_birth', 'postal_address', 'license_plate'
+];
+
+const SEVERITY_ORDER: Record<Severity, number> = { low: 1, medium: 2, high: 3 };
+
+const PII_RECOMMENDED_ACTION =
+  'Remove contact details, addresses and financial information from your posts and profile';
+
+const EMAIL_PATTERN = /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,24}\b/g;
+const CARD_PATTERN = /\b\d(?:[ -]?\d){12,18}\b/g;
+// Issuer prefixes: Visa, Mastercard, Amex, Discover, JCB
+const CARD_PREFIX = /^(4|5[1-5]|2[2-7]|3[47]|6011|65|35)/;
+const IBAN_PATTERN = /\b[A-Z]{2}\d{2}(?: ?[A-Z0-9]){11,30}\b/g;
+const PHONE_PATTERN = /\+?\(?\d[\d ().-]{5,}\d/g;
+
+// IBAN length by country, for the countries most often seen
+const IBAN_LENGTHS: Record<string, number> = {
+  AD: 24, AT: 20, BE: 16, BG: 22, CH: 21, CY: 28, CZ: 24, DE: 22, DK: 18, EE: 20,
+  ES: 24, FI: 18, FR: 27, GB: 22, GR: 27, HR: 21, HU: 28, IE: 22, IS: 26, IT: 27,
+  LI: 21, LT: 20, LU: 20, LV: 21, MC: 27, MT: 31, NL: 18, NO: 15, PL: 28, PT: 25,
+  RO: 24, SE: 24, SI: 19, SK: 24, SM: 27, TR: 26, AE: 23, SA: 24, IL: 23, BR: 29,
+};
+
+const MONTHS = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'];
+const MONTH_NAMES = '(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)[a-z]*\\.?';
+
+// Dates of birth are only recognised after a phrase introducing one
+const DOB_CONTEXT = /\b(?:born(?:\s+on)?|birthday(?:\s+is)?|dob|d\.o\.b\.?|date\s+of\s+birth)\s*[:-]?\s*/gi;
+const DATE_NUMERIC = /^(\d{1,2})[\/.-](\d{1,2})[\/.-](\d{4}|\d{2})\b/;
+const DATE_ISO = /^(\d{4})-(\d{2})-(\d{2})\b/;
+const DATE_DAY_MONTH = new RegExp(`^(\\d{1,2})(?:st|nd|rd|th)?\\s+${MONTH_NAMES},?\\s+(\\d{4})\\b`, 'i');
+const DATE_MONTH_DAY = new RegExp(`^${MONTH_NAMES}\\s+(\\d{1,2})(?:st|nd|rd|th)?,?\\s+(\\d{4})\\b`, 'i');
+
+const STREET_SUFFIXES = 'Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|' +
+  'Terrace|Close|Crescent|Circle|Cir|Parkway|Pkwy|Highway|Hwy|Square|Sq';
+// "221B Baker Street, Apt 4, London" or "1600 Pennsylvania Ave, Washington, DC 20500"
+const STREET_ADDRESS_PATTERN = new RegExp(
+  `\\b\\d{1,5}[A-Za-z]?\\s+(?:[A-Z][A-Za-z'-]*\\.?\\s+){1,4}(?:${STREET_SUFFIXES})\\b\\.?` +
+  `(?:,?\\s+(?:Apt|Apartment|Suite|Unit|Flat|#)\\.?\\s*[A-Za-z0-9-]+)?` +
+  `(?:,\\s*[A-Z][A-Za-z]+(?:\\s[A-Z][A-Za-z]+)*(?:,?\\s+[A-Z]{2})?(?:\\s+\\d{5}(?:-\\d{4})?)?)?`,
+  'g'
+);
+// US city, state and ZIP code, e.g. "Springfield, IL 62704"
+const US_CITY_ZIP_PATTERN = /\b[A-Z][a-zA-Z]+(?:\s[A-Z][a-zA-Z]+)*,\s*[A-Z]{2}\s+\d{5}(?:-\d{4})?\b/g;
+// UK postcodes, e.g. "SW1A 1AA"
+const UK_POSTCODE_PATTERN = /\b[A-Z]{1,2}\d[A-Z\d]?\s+\d[A-Z]{2}\b/g;
+
+// License plates are recognised after a phrase introducing one, or in the current UK format
+const PLATE_CONTEXT = /\b(?:licen[cs]e\s+plate|number\s+plate|plate\s+(?:number|no\.?)|registration\s+(?:number|plate)|reg\s+(?:number|no\.?))(?:\s+(?:is|was|reads))?\s*[:#-]?\s*/gi;
+const PLATE_VALUE = /^[A-Z0-9]{1,4}(?:[ -]?[A-Z0-9]{1,4}){1,2}\b/;
+const UK_PLATE_PATTERN = /\b[A-Z]{2}\d{2}\s?[A-Z]{3}\b/g;
+
+/**
+ * Check a number with the Luhn algorithm used by payment cards
+ */
+function passesLuhn(digits: string): boolean {
+  let sum = 0;
+  for (let i = 0; i < digits.length; i++) {
+    let digit = Number(digits[digits.length - 1 - i]);
+    if (i % 2 === 1) {
+      digit *= 2;
+      if (digit > 9) digit -= 9;
+    }
+    sum += digit;
+  }
+  return sum % 10 === 0;
+}
+
+/**
+ * Check an IBAN's mod-97 checksum
+ */
+function passesIbanChecksum(iban: string): boolean {
+  const rearranged = iban.slice(4) + iban.slice(0, 4);
+  let remainder = 0;
+  for (const char of rearranged) {
+    // Letters count as two digits, A = 10 ... Z = 35
+    const value = /[A-Z]/.test(char) ? String(char.charCodeAt(0) - 55) : char;
+    for (const digit of value) {
+      remainder = (remainder * 10 + Number(digit)) % 97;
+    }
+  }
+  return remainder === 1;
+}
+
+/**
+ * Check that a day, month and year form a plausible date of birth
+ */
+function isValidBirthDate(day: number, month: number, year: number): boolean {
+  if (year < 100) year += year > new Date().getFullYear() % 100 ? 1900 : 2000;
+  if (month < 1 || month > 12 || day < 1 || year < 1900 || year > new Date().getFullYear()) {
+    return false;
+  }
+  return day <= new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Find every match of a global pattern
+ */
+function findAll(text: string, pattern: RegExp): Array<{ match: string; start: number; end: number }> {
+  const results: Array<{ match: string; start: number; end: number }> = [];
+  pattern.lastIndex = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(text)) !== null) {
+    results.push({ match: match[0], start: match.index, end: match.index + match[0].length });
+    // Guard against zero-length matches
+    if (match[0].length === 0) pattern.lastIndex++;
+  }
+  return results;
+}
+
+/**
+ * Mask the letters and digits of a match, keeping a few at the start and end
+ */
+function mask(value: string, keepStart: number, keepEnd: number): string {
+  const total = (value.match(/[A-Za-z0-9]/g) || []).length;
+  let seen = 0;
+  return value.replace(/[A-Za-z0-9]/g, char => {
+    seen++;
+    return seen <= keepStart || seen > total - keepEnd ? char : '*';
+  });
+}
+
+export class PiiScanner {
+  private readonly detectors: Record<PiiType, (text: string) => PiiSpan[]> = {
+    email: text => this.findEmails(text),
+    phone: text => this.findPhoneNumbers(text),
+    postal_address: text => this.findPostalAddresses(text),
+    credit_card: text => this.findCardNumbers(text),
+    iban: text => this.findIbans(text),
+    date_of_birth: text => this.findBirthDates(text),
+    license_plate: text => this.findLicensePlates(text),
+  };
+
+  /**
+   * Scan text for PII
+   * @param text The text to scan
+   * @returns Findings ordered by position; overlapping matches are reported once
+   */
+  public scanText(text: string | undefined): PiiFinding[] {
+    if (!text) return [];
+
+    const findings: PiiFinding[] = [];
+    for (const type of SCAN_ORDER) {
+      for (const span of this.detectors[type](text)) {
+        const overlaps = findings.some(finding => span.start < finding.end && finding.start < span.end);
+        if (!overlaps) {
+          findings.push({
+            type,
+            start: span.start,
+            end: span.end,
+            redacted: this.redact(type, text.slice(span.start, span.end))
+          });
+        }
+      }
+    }
+
+    return findings.sort((a, b) => a.start - b.start);
+  }
+
+  /**
+   * Scan a platform's content and bio for PII
+   * Each content item gets its findings, and PII data categories and privacy
+   * concerns replace those from any earlier scan, so data can be annotated
+   * again after it is merged.
+   * @param data Platform data from a connector or archive import
+   * @returns The data with PII findings, categories and concerns
+   */
+  public annotate(data: PlatformData): PlatformData {
+    const contentData = (data.contentData || []).map(item => {
+      const piiFindings = this.scanText(item.content);
+      return { ...item, piiFindings: piiFindings.length > 0 ? piiFindings : undefined };
+    });
+    const bioFindings = this.scanText(data.profileData?.bio);
+
+    // Count findings per type, and the content items and bio each type occurs in
+    const byType: Record<string, number> = {};
+    const itemsByType: Record<string, number> = {};
+    for (const findings of [...contentData.map(item => item.piiFindings || []), bioFindings]) {
+      for (const finding of findings) {
+        byType[finding.type] = (byType[finding.type] || 0) + 1;
+      }
+    }
+    for (const item of contentData) {
+      for (const type of Array.from(new Set((item.piiFindings || []).map(finding => finding.type)))) {
+        itemsByType[type] = (itemsByType[type] || 0) + 1;
+      }
+    }
+    const bioTypes = new Set(bioFindings.map(finding => finding.type));
+    const foundTypes = SCAN_ORDER.filter(type => byType[type]);
+
+    const piiConcerns: PrivacyConcern[] = foundTypes.map(type => {
+      const items = itemsByType[type] || 0;
+      const places = [
+        bioTypes.has(type) ? 'your bio' : '',
+        items > 0 ? `${items} ${items > 1 ? 'pieces' : 'piece'} of content` : ''
+      ].filter(Boolean);
+      return {
+        type: `pii_${type}`,
+        severity: PII_RULES[type].severity,
+        description: `${PII_RULES[type].label} found in ${places.join(' and ')}`
+      };
+    });
+
+    const piiCategories = new Map<string, Severity>();
+    for (const type of foundTypes) {
+      const { category, severity } = PII_RULES[type];
+      const current = piiCategories.get(category);
+      if (!current || SEVERITY_ORDER[severity] > SEVERITY_ORDER[current]) {
+        piiCategories.set(category, severity);
+      }
+    }
+
+    const analysisResults = data.analysisResults;
+    const previousConcerns = (analysisResults?.privacyConcerns || []).filter(concern => this.isPiiConcern(concern));
+    const previousDescriptions = new Set(previousConcerns.map(concern => concern.description));
+
+    const annotated: PlatformData = { ...data, contentData };
+
+    if (analysisResults) {
+      annotated.analysisResults = {
+        ...analysisResults,
+        dataCategories: this.mergeCategories(analysisResults.dataCategories || [], piiCategories),
+        privacyConcerns: [
+          ...piiConcerns,
+          ...analysisResults.privacyConcerns.filter(concern => !this.isPiiConcern(concern))
+        ].sort((a, b) => SEVERITY_ORDER[b.severity] - SEVERITY_ORDER[a.severity]),
+        recommendedActions: this.withRecommendedAction(analysisResults.recommendedActions, foundTypes.length > 0),
+        piiSummary: {
+          totalFindings: Object.values(byType).reduce((sum, count) => sum + count, 0),
+          itemsWithPii: contentData.filter(item => item.piiFindings).length,
+          byType,
+          bioFindings,
+          // Explanations come from the analysis provider; keep those still relevant after a rescan
+          explanations: this.keepExplanations(analysisResults.piiSummary?.explanations, foundTypes)
+        }
+      };
+    }
+
+    if (data.privacyMetrics) {
+      annotated.privacyMetrics = {
+        ...data.privacyMetrics,
+        dataCategories: this.mergeCategories(data.privacyMetrics.dataCategories, piiCategories),
+        potentialConcerns: [
+          ...piiConcerns.map(concern => ({ issue: concern.description, risk: concern.severity })),
+          ...data.privacyMetrics.potentialConcerns.filter(concern => !previousDescriptions.has(concern.issue))
+        ],
+        recommendedActions: this.withRecommendedAction(data.privacyMetrics.recommendedActions, foundTypes.length > 0) || []
+      };
+    }
+
+    return annotated;
+  }
+
+  /**
+   * Get the display name and severity of a kind of PII
+   * @param type The kind of PII
+   */
+  public describe(type: PiiType): { label: string; severity: Severity } {
+    const { label, severity } = PII_RULES[type];
+    return { label, severity };
+  }
+
+  /**
+   * Start of an item's content, with the PII found in it redacted
+   * @param item Content item annotated by the scanner
+   * @param maxLength Longest excerpt returned, in characters
+   */
+  public excerpt(item: Pick<ContentItem, 'content' | 'piiFindings'>, maxLength: number): string {
+    let text = item.content || '';
+    // Replace from the end so earlier offsets stay valid
+    const findings = (item.piiFindings || []).slice().sort((a, b) => b.start - a.start);
+    for (const finding of findings) {
+      text = text.slice(0, finding.start) + finding.redacted + text.slice(finding.end);
+    }
+    text = text.replace(/\s+/g, ' ').trim();
+    return text.length > maxLength ? `${text.slice(0, maxLength - 1).trimEnd()}…` : text;
+  }
+
+  private findEmails(text: string): PiiSpan[] {
+    return findAll(text, EMAIL_PATTERN).filter(({ match }) => {
+      const local = match.slice(0, match.indexOf('@'));
+      return !local.startsWith('.') && !local.endsWith('.') && !local.includes('..');
+    });
+  }
+
+  /**
+   * Phone numbers in international format, or national numbers written with separators
+   * Bare digit runs without separators are too often IDs or order numbers.
+   */
+  private findPhoneNumbers(text: string): PiiSpan[] {
+    return findAll(text, PHONE_PATTERN)
+      .map(candidate => {
+        // An unbalanced leading parenthesis is punctuation, not part of the number
+        if (candidate.match.startsWith('(') && !candidate.match.includes(')')) {
+          return { match: candidate.match.slice(1), start: candidate.start + 1, end: candidate.end };
+        }
+        return candidate;
+      })
+      .filter(({ match, start, end }) => {
+        if (/[A-Za-z0-9]/.test(text.charAt(start - 1)) || /[A-Za-z0-9]/.test(text.charAt(end))) {
+          return false;
+        }
+
+        const digits = match.replace(/\D/g, '');
+        if (/^(\d)\1+$/.test(digits)) return false;
+        if (match.startsWith('+')) {
+          return digits.length >= 8 && digits.length <= 15;
+        }
+
+        const hasSeparators = /[ ().-]/.test(match);
+        // Dates such as 2021-03-04 or 04.03.2021
+        if (/^\d{4}-\d{2}-\d{2}$/.test(match) || /^\d{1,2}[./-]\d{1,2}[./-]\d{2,4}$/.test(match)) {
+          return false;
+        }
+        // North American numbers: (555) 234-5678, 1-555-234-5678
+        const national = digits.length === 11 && digits.startsWith('1') ? digits.slice(1) : digits;
+        if (national.length === 10 && /^[2-9]\d{2}[2-9]/.test(national)) {
+          return hasSeparators;
+        }
+        // Numbers with a national trunk prefix, e.g. 020 7946 0958
+        return hasSeparators && digits.startsWith('0') && digits.length >= 10 && digits.length <= 11;
+      })
+      .map(({ start, end }) => ({ start, end }));
+  }
+
+  private findCardNumbers(text: string): PiiSpan[] {
+    return findAll(text, CARD_PATTERN).filter(({ match }) => {
+      const digits = match.replace(/\D/g, '');
+      return digits.length >= 13 && digits.length <= 19 && CARD_PREFIX.test(digits) && passesLuhn(digits);
+    });
+  }
+
+  /**
+   * IBANs of known length with a valid checksum
+   * The pattern can run on into following capitals, so matches are cut to the country's length.
+   */
+  private findIbans(text: string): PiiSpan[] {
+    const spans: PiiSpan[] = [];
+
+    for (const { match, start } of findAll(text, IBAN_PATTERN)) {
+      const length = IBAN_LENGTHS[match.slice(0, 2)];
+      if (!length) continue;
+
+      let count = 0;
+      let end = start;
+      for (let i = 0; i < match.length && count < length; i++) {
+        if (match[i] !== ' ') count++;
+        end = start + i + 1;
+      }
+      const iban = text.slice(start, end).replace(/ /g, '');
+      if (iban.length === length && passesIbanChecksum(iban)) {
+        spans.push({ start, end });
+      }
+    }
+
+    return spans;
+  }
+
+  private findBirthDates(text: string): PiiSpan[] {
+    const spans: PiiSpan[] = [];
+
+    for (const context of findAll(text, DOB_CONTEXT)) {
+      const rest = text.slice(context.end);
+      let match: RegExpMatchArray | null;
+      let valid = false;
+
+      if ((match = rest.match(DATE_ISO))) {
+        valid = isValidBirthDate(Number(match[3]), Number(match[2]), Number(match[1]));
+      } else if ((match = rest.match(DATE_NUMERIC))) {
+        // Either day/month or month/day order
+        const [first, second, year] = [Number(match[1]), Number(match[2]), Number(match[3])];
+        valid = isValidBirthDate(first, second, year) || isValidBirthDate(second, first, year);
+      } else if ((match = rest.match(DATE_DAY_MONTH))) {
+        valid = isValidBirthDate(Number(match[1]), MONTHS.indexOf(match[2].toLowerCase()) + 1, Number(match[3]));
+      } else if ((match = rest.match(DATE_MONTH_DAY))) {
+        valid = isValidBirthDate(Number(match[2]), MONTHS.indexOf(match[1].toLowerCase()) + 1, Number(match[3]));
+      }
+
+      if (match && valid) {
+        spans.push({ start: context.end, end: context.end + match[0].length });
+      }
+    }
+
+    return spans;
+  }
+
+  private findPostalAddresses(text: string): PiiSpan[] {
+    const spans: PiiSpan[] = findAll(text, STREET_ADDRESS_PATTERN);
+    // City/ZIP and postcodes on their own, when not already part of a street address
+    for (const span of [...findAll(text, US_CITY_ZIP_PATTERN), ...findAll(text, UK_POSTCODE_PATTERN)]) {
+      if (!spans.some(existing => span.start < existing.end && existing.start < span.end)) {
+        spans.push(span);
+      }
+    }
+    return spans.map(({ start, end }) => ({ start, end }));
+  }
+
+  private findLicensePlates(text: string): PiiSpan[] {
+    const spans: PiiSpan[] = [];
+
+    for (const context of findAll(text, PLATE_CONTEXT)) {
+      const match = text.slice(context.end).match(PLATE_VALUE);
+      const characters = match?.[0].replace(/[ -]/g, '') || '';
+      if (match && characters.length >= 4 && characters.length <= 8 && /\d/.test(characters) && /[A-Z]/.test(characters)) {
+        spans.push({ start: context.end, end: context.end + match[0].length });
+      }
+    }
+    for (const span of findAll(text, UK_PLATE_PATTERN)) {
+      if (!spans.some(existing => span.start < existing.end && existing.start < span.end)) {
+        spans.push({ start: span.start, end: span.end });
+      }
+    }
+
+    return spans;
+  }
+
+  /**
+   * Mask a match so it can be shown without repeating the PII
+   */
+  private redact(type: PiiType, value: string): string {
+    switch (type) {
+      case 'email': {
+        const at = value.indexOf('@');
+        return `${value[0]}***${value.slice(at)}`;
+      }
+      case 'credit_card':
+        return mask(value, 0, 4);
+      case 'iban':
+        return mask(value, 2, 4);
+      case 'phone':
+      case 'license_plate':
+        return mask(value, 0, 2);
+      default:
+        return mask(value, 0, 0);
+    }
+  }
+
+  private keepExplanations(explanations: Record<string, string> | undefined, foundTypes: PiiType[]): Record<string, string> | undefined {
+    const kept = foundTypes.filter(type => explanations?.[type]);
+    return kept.length > 0 ? Object.fromEntries(kept.map(type => [type, explanations![type]])) : undefined;
+  }
+
+  private isPiiConcern(concern: PrivacyConcern): boolean {
+    return concern.type.startsWith('pii_');
+  }
+
+  /**
+   * Add PII data categories, raising the severity of categories that already exist
+   */
+  private mergeCategories(
+    categories: Array<{ category: string; severity: Severity }>,
+    piiCategories: Map<string, Severity>
+  ): Array<{ category: string; severity: Severity }> {
+    const merged = categories.map(existing => {
+      const severity = piiCategories.get(existing.category);
+      return severity && SEVERITY_ORDER[severity] > SEVERITY_ORDER[existing.severity]
+        ? { ...existing, severity }
+        : existing;
+    });
+    for (const [category, severity] of Array.from(piiCategories.entries())) {
+      if (!merged.some(existing => existing.category === category)) {
+        merged.push({ category, severity });
+      }
+    }
+    return merged;
+  }
+
+  private withRecommendedAction(actions: string[] | undefined, hasPii: boolean): string[] | undefined {
+    if (!hasPii) return actions?.filter(action => action !== PII_RECOMMENDED_ACTION);
+    if (actions?.includes(PII_RECOMMENDED_ACTION)) return actions;
+    return [PII_RECOMMENDED_ACTION, ...(actions || [])];
+  }
+}
+
+// Create singleton instance
+export const piiScanner = new PiiScanner();
@@ -0,0 +1,115 @@
+/**
+ * Platform Connector Registry
+ *
+ * Every platform integration implements the PlatformConnector interface and is
+ * registered here. The rest of the server looks platforms up through the
+ * registry instead of hardcoding platform lists, so adding a platform only
+ * means writing a connector and registering it in connectors.ts.
+ */
+
+import { ContentItem, Platform, PlatformData } from '@shared/schema';
+import { log } from '../vite';
+
+/**
+ * Features a connector supports beyond fetching public data
+ */
+export interface ConnectorCapabilities {
+  // Can delete the user's content through the platform API
+  deletion: boolean;
+  // Supports user authorization via OAuth
+  oauth: boolean;
+  // Content types the connector can return in contentData
+  contentTypes: ContentItem['type'][];
+}
+
+/**
+ * Status reported by a connector's API integration
+ */
+export interface ConnectorStatus {
+  configured: boolean;
+  operational?: boolean;
+  // Set when the API is not operational because of rate limiting
+  rateLimited?: boolean;
+  message: string;
+}
+
+/**
+ * Common interface for all platform integrations
+ */
+export interface PlatformConnector {
+  readonly platform: Exclude<Platform, 'all'>;
+  readonly displayName: string;
+  readonly capabilities: ConnectorCapabilities;
+
+  /**
+   * Fetch public data for a user
+   * @param username Username on the platform
+   * @returns Platform data or null if not available
+   */
+  fetchUserData(username: string): Promise<PlatformData | null>;
+
+  /**
+   * Get the status of the platform API integration
+   */
+  getApiStatus(): Promise<ConnectorStatus>;
+
+  /**
+   * Check whether an account exists, without fetching its data
+   * Used to probe username variants; connectors that cannot check cheaply
+   * leave it out.
+   * @param username Username on the platform
+   * @returns Whether an account with this username exists
+   */
+  checkUsernameExists?(username: string): Promise<boolean>;
+}
+
+export class PlatformConnectorRegistry {
+  private connectors: Map<Platform, PlatformConnector> = new Map();
+
+  /**
+   * Register a connector, replacing any existing connector for the same platform
+   * @param connector The connector to register
+   */
+  public register(connector: PlatformConnector): void {
+    this.connectors.set(connector.platform, connector);
+    log(`Registered ${connector.displayName} connector`, 'platform-connector');
+  }
+
+  /**
+   * Get the connector for a platform
+   * @param platform The platform to look up
+   * @returns The connector, or undefined if the platform is not supported
+   */
+  public get(platform: Platform): PlatformConnector | undefined {
+    return this.connectors.get(platform);
+  }
+
+  /**
+   * Get all registered connectors in registration order
+   */
+  public getAll(): PlatformConnector[] {
+    return Array.from(this.connectors.values());
+  }
+
+  /**
+   * Get the platforms that have a registered connector
+   */
+  public getPlatforms(): Platform[] {
+    return Array.from(this.connectors.keys());
+  }
+
+  /**
+   * Expand a platform selection, replacing "all" with every registered platform
+   * @param platforms Platforms selected in a search
+   * @returns Platforms to search, without duplicates
+   */
+  public expandPlatforms(platforms: Platform[]): Platform[] {
+    if (platforms.includes('all')) {
+      return this.getPlatforms();
+    }
+    return Array.from(new Set(platforms));
+  }
+}
+
+// Create singleton instance
+export const connectorRegistry = new PlatformConnectorRegistry();
@@ -0,0 +1,139 @@
+/**
+ * Platform Errors
+ *
+ * Typed errors thrown by platform connectors. Each error carries a code, the
+ * platform it came from, an optional retry delay and a message that is safe to
+ * show to users. Internal details (raw API responses, stack traces) stay in the
+ * error's `message` for logging and are never sent to the client.
+ */
+
+import { PlatformErrorCode, PlatformErrorInfo } from '@shared/schema';
+import type { ConnectorStatus } from './platform-connector';
+
+interface PlatformErrorOptions {
+  // User-safe message, defaults to a generic message for the error code
+  message?: string;
+  // Internal details for logs
+  detail?: string;
+  // Seconds until the platform can be queried again
+  retryAfter?: number;
+}
+
+// Generic user-safe messages for each error code
+const defaultMessages: Record<PlatformErrorCode, (label: string) => string> = {
+  PRIVACY_ERROR: label => `This ${label} account is private or is blocking data access.`,
+  NOT_FOUND: label => `No ${label} account was found with this username.`,
+  RATE_LIMITED: label => `${label} API rate limit exceeded. Please try again later.`,
+  AUTH_ERROR: label => `${label} API authentication failed. Please try again later.`,
+  PERMISSION_ERROR: label => `${label} API does not have permission to access this data.`,
+  ACCESS_BLOCKED: label => `${label} is temporarily blocking data access. Please try again later.`,
+  UNAVAILABLE: label => `${label} API is currently unavailable.`,
+  API_ERROR: label => `Could not retrieve ${label} data. Please try again later.`,
+};
+
+function platformLabel(platform: string): string {
+  return platform.charAt(0).toUpperCase() + platform.slice(1);
+}
+
+export class PlatformError extends Error {
+  readonly code: PlatformErrorCode;
+  readonly platform: string;
+  readonly retryAfter?: number;
+  readonly userMessage: string;
+
+  constructor(code: PlatformErrorCode, platform: string, options: PlatformErrorOptions = {}) {
+    const userMessage = options.message ?? defaultMessages[code](platformLabel(platform));
+    super(options.detail ?? userMessage);
+    this.name = new.target.name;
+    this.code = code;
+    this.platform = platform;
+    this.retryAfter = options.retryAfter;
+    this.userMessage = userMessage;
+  }
+
+  /**
+   * Serialize the error for platformErrors in API responses
+   */
+  public toJSON(): PlatformErrorInfo {
+    return {
+      code: this.code,
+      platform: this.platform,
+      message: this.userMessage,
+      ...(this.retryAfter !== undefined ? { retryAfter: this.retryAfter } : {}),
+    };
+  }
+
+  /**
+   * Wrap any error thrown while talking to a platform
+   * @param error The caught error
+   * @param platform Platform the error came from
+   * @returns The error itself if it is already a PlatformError, otherwise a PlatformApiError
+   */
+  public static from(error: unknown, platform: string): PlatformError {
+    if (error instanceof PlatformError) {
+      return error;
+    }
+    const detail = error instanceof Error ? error.message : String(error);
+    return new PlatformApiError(platform, { detail });
+  }
+
+  /**
+   * Build an error from a connector status that is not operational
+   * @param platform The platform the status belongs to
+   * @param status The connector's API status
+   */
+  public static fromStatus(platform: string, status: Pick<ConnectorStatus, 'rateLimited' | 'message'>): PlatformError {
+    if (status.rateLimited) {
+      return new RateLimitError(platform, { message: status.message });
+    }
+    return new PlatformUnavailableError(platform, { message: status.message });
+  }
+}
+
+export class PrivacyError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('PRIVACY_ERROR', platform, options);
+  }
+}
+
+export class NotFoundError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('NOT_FOUND', platform, options);
+  }
+}
+
+export class RateLimitError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('RATE_LIMITED', platform, options);
+  }
+}
+
+export class AuthError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('AUTH_ERROR', platform, options);
+  }
+}
+
+export class PermissionError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('PERMISSION_ERROR', platform, options);
+  }
+}
+
+export class AccessBlockedError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('ACCESS_BLOCKED', platform, options);
+  }
+}
+
+export class PlatformUnavailableError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('UNAVAILABLE', platform, options);
+  }
+}
+
+export class PlatformApiError extends PlatformError {
+  constructor(platform: string, options?: PlatformErrorOptions) {
+    super('API_ERROR', platform, options);
+  }
+}
@@ -240,8 +240,17 @@ export const generalRateLimiter = new RateLimiter({
   refillInterval: 5000  // Refill every 5 seconds
 });
 
+// Create a Reddit rate limiter for calls made with users' OAuth tokens
+// Reddit allows 100 requests per minute per OAuth client, averaged over 10 minutes
+export const redditRateLimiter = new RateLimiter({
+  maxTokens: 10,
+  refillRate: 1,        // 60 requests per minute, leaving headroom for public lookups
+  refillInterval: 1000
+});
+
 // Export unified rate limiters
 export const rateLimiters = {
   instagram: instagramRateLimiter,
+  reddit: redditRateLimiter,
   general: generalRateLimiter
 };
\ No newline at end of file
@@ -7,17 +7,53 @@
  */
 
 import axios from 'axios';
-import { Platform, PlatformData } from '@shared/schema';
+import { DeletionItemResult, Platform, PlatformData } from '@shared/schema';
 import { log } from '../vite';
 import type { PlatformApiStatus } from './types.d.ts';
-import { openAiSentiment } from './openai-sentiment';
+import { analysis, topicShares } from './analysis-provider';
 import { tokenManager, TokenData } from './token-manager';
+import type { ConnectorCapabilities, PlatformConnector } from './platform-connector';
+import {
+  AuthError,
+  NotFoundError,
+  PermissionError,
+  PlatformApiError,
+  PlatformError,
+  PrivacyError,
+  RateLimitError
+} from './platform-errors';
+import { redditRateLimiter } from './rate-limiter';
 
-export class RedditApiService {
+// A post or comment to delete
+interface RedditThing {
+  fullname: string;
+  type: 'post' | 'comment';
+  url: string;
+  author: string;
+  editable: boolean;
+}
+
+// Text deleted items are overwritten with first
+const EDIT_PLACEHOLDER = 'This content was removed by its author.';
+
+// How long a listing of a user's own content is reused between deletion batches
+const LISTING_TTL = 30 * 60 * 1000;
+
+export class RedditApiService implements PlatformConnector {
+  readonly platform = 'reddit' as const;
+  readonly displayName = 'Reddit';
+  readonly capabilities: ConnectorCapabilities = {
+    deletion: true,
+    oauth: true,
+    contentTypes: ['post', 'comment']
+  };
+  
   private isConfigured: boolean = false;
   private isOperational: boolean = false;
   private tokenInitialized: boolean = false;
   private maxRetries: number = 2;
+  // Users' own content listed for deletion, by username and content types
+  private ownThingListings = new Map<string, { things: RedditThing[]; listedAt: number }>();
   
   constructor() {
     try {
@@ -175,26 +211,30 @@ export class RedditApiService {
               // Retry the API call with incremented retry count
               return this.callRedditApi(endpoint, retryCount + 1);
             } else {
-              throw new Error('AUTH_ERROR: Reddit API authentication failed after multiple attempts. Token expired or invalid.');
+              throw new AuthError('reddit', {
+                detail: 'Reddit API authentication failed after multiple attempts. Token expired or invalid.'
+              });
             }
           } else if (error.response.status === 404) {
-            throw new Error(`NOT_FOUND: Resource not found at ${endpoint}`);
+            throw new NotFoundError('reddit', { detail: `Resource not found at ${endpoint}` });
           } else if (error.response.status === 403) {
-            throw new Error(`PRIVACY_ERROR: Access forbidden to ${endpoint}. Check account privacy settings.`);
+            throw new PrivacyError('reddit', {
+              detail: `Access forbidden to ${endpoint}. Check account privacy settings.`
+            });
           } else if (error.response.status === 429) {
+            const retryAfter = error.response.headers['retry-after'] ? 
+              parseInt(error.response.headers['retry-after']) * 1000 : 
+              5000; // Default: 5 seconds
+            
             // Rate limited, wait and retry if we have retries left
             if (retryCount < this.maxRetries) {
-              const retryAfter = error.response.headers['retry-after'] ? 
-                parseInt(error.response.headers['retry-after']) * 1000 : 
-                5000; // Default: 5 seconds
-              
               log(`Rate limited by Reddit API. Waiting ${retryAfter/1000}s before retry ${retryCount + 1}/${this.maxRetries}`, 'reddit-api');
               await new Promise(resolve => setTimeout(resolve, retryAfter));
               
               // Retry the API call with incremented retry count
               return this.callRedditApi(endpoint, retryCount + 1);
             } else {
-              throw new Error(`RATE_LIMITED: Reddit API rate limit exceeded. Please try again later.`);
+              throw new RateLimitError('reddit', { retryAfter: Math.ceil(retryAfter / 1000) });
             }
           } else if (error.response.status >= 500) {
             // Server error, retry if we have retries left
@@ -211,7 +251,7 @@ export class RedditApiService {
       const errorMsg = error instanceof Error ? error.message : String(error);
       log(`Reddit API error for ${endpoint}: ${errorMsg}`, 'reddit-api');
       
-      throw new Error(`API_ERROR: Error calling Reddit API: ${errorMsg}`);
+      throw new PlatformApiError('reddit', { detail: `Error calling Reddit API: ${errorMsg}` });
     }
   }
 
@@ -268,26 +308,50 @@ export class RedditApiService {
     };
   }
   
+  /**
+   * Check whether a Reddit account exists from its about page alone
+   * Suspended accounts still exist, so they count as taken.
+   * @param username Reddit username
+   * @returns Whether the account exists
+   * @throws PlatformError if the API is unavailable or fails
+   */
+  public async checkUsernameExists(username: string): Promise<boolean> {
+    try {
+      const userData = await this.callRedditApi(`/user/${encodeURIComponent(username)}/about`);
+      return !!userData?.data;
+    } catch (error) {
+      if (error instanceof NotFoundError) return false;
+      throw error;
+    }
+  }
+  
   /**
    * Fetch user data from Reddit
    * @param username Reddit username
    * @returns Platform data or null if not found
    */
   public async fetchUserData(username: string): Promise<PlatformData | null> {
+    // Verify API status
+    const apiStatus = await this.getApiStatus();
+    if (!apiStatus.configured || !apiStatus.operational) {
+      log(`Cannot fetch Reddit data - API status: ${apiStatus.message}`, 'reddit-api');
+      return null;
+    }
+    
     try {
       log(`Fetching Reddit data for user: ${username}`, 'reddit-api');
       
       // Get user information
       const userData = await this.callRedditApi(`/user/${username}/about`);
       if (!userData || !userData.data) {
-        throw new Error(`NOT_FOUND: Reddit user ${username} not found.`);
+        throw new NotFoundError('reddit', { message: `Reddit user ${username} not found.` });
       }
       
       const user = userData.data;
       
       // Check if account is suspended
       if (user.is_suspended) {
-        throw new Error(`PRIVACY_ERROR: Reddit user ${username} account is suspended.`);
+        throw new PrivacyError('reddit', { message: `Reddit user ${username} account is suspended.` });
       }
       
       // Get recent submissions (posts)
@@ -360,66 +424,13 @@ export class RedditApiService {
         (a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
       );
       
-      // Process sentiment analysis
-      const openAiStatus = openAiSentiment.getStatus();
-      if (openAiStatus.operational) {
-        try {
-          // Extract just the texts for batch analysis
-          const contentTexts = contentData.map(item => item.content);
-          
-          // Perform batch sentiment analysis with OpenAI
-          log(`Analyzing sentiment for ${contentTexts.length} content items`, 'reddit-api');
-          const batchResults = await openAiSentiment.analyzeSentimentBatch(contentTexts);
-          
-          // Apply sentiment results to the content data
-          batchResults.detailedBreakdown.forEach((result, index) => {
-            if (index < contentData.length) {
-              contentData[index].sentiment = result.sentiment;
-            }
-          });
-          
-        } catch (error) {
-          log(`Failed to perform batch sentiment analysis: ${error}. Processing individually.`, 'reddit-api');
-          
-          // Process each content item individually
-          for (let i = 0; i < contentData.length; i++) {
-            try {
-              contentData[i].sentiment = await this.determineSentiment(contentData[i].content);
-            } catch (err) {
-              log(`Error determining sentiment for content item: ${err}`, 'reddit-api');
-            }
-          }
-        }
-      } else {
-        // OpenAI not available, process individually using simple sentiment
-        log('OpenAI not available. Using simple sentiment analysis for each content item.', 'reddit-api');
-        for (let i = 0; i < contentData.length; i++) {
-          contentData[i].sentiment = this.determineSimpleSentiment(contentData[i].content);
-        }
-      }
+      // Label and score each item with the configured analysis provider
+      log(`Analyzing sentiment for ${contentData.length} content items`, 'reddit-api');
+      const sentimentBreakdown = await analysis.scoreContent(contentData);
       
-      // Calculate exposure score (1-100) based on karma and activity
+      // Karma and account age are reported as concerns below
       const karmaTotal = postKarma + commentKarma;
-      let exposureScore = 30; // Base score
-      
-      // Add score based on karma (up to +40)
-      if (karmaTotal > 100000) exposureScore += 40;
-      else if (karmaTotal > 50000) exposureScore += 35;
-      else if (karmaTotal > 10000) exposureScore += 30;
-      else if (karmaTotal > 5000) exposureScore += 25;
-      else if (karmaTotal > 1000) exposureScore += 20;
-      else if (karmaTotal > 500) exposureScore += 15;
-      else if (karmaTotal > 100) exposureScore += 10;
-      else exposureScore += 5;
-      
-      // Add score based on account age (up to +30)
       const accountAgeInYears = accountAgeInDays / 365;
-      if (accountAgeInYears > 10) exposureScore += 30;
-      else if (accountAgeInYears > 7) exposureScore += 25;
-      else if (accountAgeInYears > 5) exposureScore += 20;
-      else if (accountAgeInYears > 3) exposureScore += 15;
-      else if (accountAgeInYears > 1) exposureScore += 10;
-      else exposureScore += 5;
       
       // Construct platform data response
       const platformData: PlatformData = {
@@ -441,7 +452,7 @@ export class RedditApiService {
         },
         contentData,
         privacyMetrics: {
-          exposureScore,
+          exposureScore: 0, // Scored by the exposure score engine
           dataCategories: [
             { category: "Personal Identification", severity: "medium" },
             { category: "Public Comments & Posts", severity: "low" },
@@ -471,9 +482,10 @@ export class RedditApiService {
           ]
         },
         analysisResults: {
-          exposureScore,
-          sentimentBreakdown: await this.calculateSentimentBreakdown(contentData),
-          topTopics: this.extractTopTopics(topSubreddits, contentData),
+          exposureScore: 0, // Scored by the exposure score engine
+          sentimentBreakdown,
+          // Share of items in each subreddit, replaced by extracted topics when there is enough text
+          topTopics: topicShares(contentData.map(item => item.topics || [])),
           // Generate activity timeline data
           activityTimeline: this.generateActivityTimeline(submissions, comments),
           // Include privacy concerns from potentialConcerns
@@ -517,142 +529,286 @@ export class RedditApiService {
       log(`Error fetching Reddit data for ${username}: ${error.message}`, 'reddit-api');
       
       // Handle specific Reddit API errors
-      if (error.message.includes('NOT_FOUND')) {
-        throw new Error(`NOT_FOUND: Reddit user ${username} not found.`);
-      } else if (error.message.includes('PRIVACY_ERROR')) {
-        throw new Error(`PRIVACY_ERROR: Reddit user ${username} has a private account or is blocking data access.`);
-      } else if (error.message.includes('RATE_LIMITED')) {
-        throw new Error(`RATE_LIMITED: Reddit API rate limit exceeded. Please try again later.`);
-      } else if (error.message.includes('AUTH_ERROR')) {
-        throw new Error(`AUTH_ERROR: Reddit API authentication failed. Please update your API credentials.`);
+      // Errors from the Reddit API calls are already typed
+      if (error instanceof PlatformError) {
+        throw error;
       }
       
       // Generic error
-      throw new Error(`API_ERROR: Error retrieving Reddit data: ${error.message}`);
+      throw new PlatformApiError('reddit', { detail: `Error retrieving Reddit data: ${error.message}` });
     }
   }
   
   /**
-   * Simple sentiment analysis based on text content
-   * @param text Content to analyze
-   * @returns Sentiment category
+   * Delete a user's posts and comments with their own OAuth token, overwriting
+   * each one's text first so copies taken after deletion don't keep it. Calls
+   * go through the Reddit rate limiter.
+   * @param accessToken The user's access token, with the history and edit scopes
+   * @param username The user's Reddit username
+   * @param selection Items to delete by URL, or the kinds of content to delete all of
+   * @param skipUrls Items already handled in an earlier run
+   * @param maxItems Most items to handle in this run
+   * @returns Outcome for each item handled and how many are left for later runs
+   * @throws PlatformError if the items to delete can't be listed, or if Reddit rate limits
+   * or rejects the token before any item is handled
    */
+  public async deleteUserContent(
+    accessToken: string,
+    username: string,
+    selection: { itemUrls?: string[]; types: ('post' | 'comment')[] },
+    skipUrls: Set<string> = new Set(),
+    maxItems: number = 100
+  ): Promise<{ results: DeletionItemResult[]; remaining: number }> {
+    const results: DeletionItemResult[] = [];
+    let pending: number;
+    let batch: RedditThing[];
+
+    if (selection.itemUrls) {
+      const urls = selection.itemUrls.filter(url => !skipUrls.has(url));
+      const batchUrls = urls.slice(0, maxItems);
+      batch = await this.resolveThings(accessToken, batchUrls);
+      pending = urls.length;
+
+      // Reported straight away, as nothing can be deleted for them
+      const resolved = new Set(batch.map(thing => thing.url));
+      const at = new Date().toISOString();
+      for (const url of batchUrls.filter(url => !resolved.has(url))) {
+        const fullname = this.fullnameFromUrl(url);
+        results.push({
+          url,
+          type: fullname?.startsWith('t1_') ? 'comment' : 'post',
+          status: 'failed',
+          edited: false,
+          error: fullname ? 'Not found on Reddit' : 'Not a link to a Reddit post or comment',
+          at,
+        });
+      }
+    } else {
+      const things = await this.pendingOwnThings(accessToken, username, selection.types, skipUrls);
+      batch = things.slice(0, maxItems);
+      pending = things.length;
+    }
+
+    for (const thing of batch) {
+      try {
+        results.push(await this.editThenDelete(accessToken, username, thing));
+      } catch (error) {
+        // Keep what this run handled; the next run hits the same error and backs off
+        if (results.length === 0) throw error;
+        log(`Stopped deleting after ${results.length} items: ${error instanceof Error ? error.message : error}`, 'reddit-api');
+        break;
+      }
+    }
+
+    return { results, remaining: pending - results.length };
+  }
+
   /**
-   * Simple fallback sentiment analysis using word matching
-   * Used as a backup when OpenAI is not available
+   * Get the fullname, e.g. t1_abc123, of the post or comment a Reddit URL points to
+   * @param url Permalink of a post or comment
+   * @returns The fullname, or null if the URL isn't a Reddit permalink
    */
-  private determineSimpleSentiment(text: string): 'positive' | 'neutral' | 'negative' {
-    if (!text) return 'neutral';
-    
-    const positiveWords = ['happy', 'good', 'great', 'excellent', 'awesome', 'amazing', 'love', 'best', 'thanks', 'appreciate', 'helpful', 'perfect', 'recommend'];
-    const negativeWords = ['bad', 'terrible', 'awful', 'horrible', 'hate', 'worst', 'sucks', 'disappointed', 'disappointing', 'unfortunately', 'issue', 'problem', 'error', 'fail'];
-    
-    const textLower = text.toLowerCase();
-    let positiveCount = 0;
-    let negativeCount = 0;
-    
-    positiveWords.forEach(word => {
-      if (textLower.includes(word)) positiveCount++;
-    });
-    
-    negativeWords.forEach(word => {
-      if (textLower.includes(word)) negativeCount++;
-    });
-    
-    if (positiveCount > negativeCount) return 'positive';
-    if (negativeCount > positiveCount) return 'negative';
-    return 'neutral';
+  public fullnameFromUrl(url: string): string | null {
+    const match = url.match(/reddit\.com\/(?:r\/[^/]+\/)?comments\/([a-z0-9]+)(?:\/[^/]*\/([a-z0-9]+))?/i);
+    if (!match) return null;
+    return match[2] ? `t1_${match[2]}` : `t3_${match[1]}`;
   }
-  
+
   /**
-   * Determine sentiment of text using OpenAI when available,
-   * falling back to simple analysis when needed
+   * Look up the posts and comments behind a set of URLs
    */
-  private async determineSentiment(text: string): Promise<'positive' | 'neutral' | 'negative'> {
-    if (!text) return 'neutral';
-    
-    // Check if OpenAI service is available and operational
-    const openAiStatus = openAiSentiment.getStatus();
-    
-    if (openAiStatus.operational && text.length > 0) {
-      try {
-        // Try to use OpenAI for more accurate sentiment analysis
-        log('Using OpenAI for sentiment analysis', 'reddit-api');
-        const result = await openAiSentiment.analyzeSentiment(text);
-        return result.sentiment;
-      } catch (error) {
-        // Log error and fall back to simple sentiment analysis
-        log(`Error using OpenAI for sentiment analysis: ${error}. Falling back to simple analysis.`, 'reddit-api');
-        return this.determineSimpleSentiment(text);
-      }
-    } else {
-      // Use simple sentiment analysis if OpenAI is not available
-      if (!openAiStatus.operational) {
-        log('OpenAI service not operational. Using simple sentiment analysis.', 'reddit-api');
+  private async resolveThings(accessToken: string, urls: string[]): Promise<RedditThing[]> {
+    const byFullname = new Map<string, string>();
+    for (const url of urls) {
+      const fullname = this.fullnameFromUrl(url);
+      if (fullname) byFullname.set(fullname, url);
+    }
+
+    const things: RedditThing[] = [];
+    const fullnames = Array.from(byFullname.keys());
+    // /api/info takes up to 100 fullnames at a time
+    for (let i = 0; i < fullnames.length; i += 100) {
+      const info = await this.callUserApi(accessToken, 'GET', `/api/info?id=${fullnames.slice(i, i + 100).join(',')}`);
+      for (const child of info?.data?.children || []) {
+        things.push(this.toThing(child, byFullname.get(child.data.name)));
       }
-      return this.determineSimpleSentiment(text);
     }
+    return things;
   }
-  
+
   /**
-   * Calculate sentiment breakdown from content data
-   * @param contentData Array of content items
-   * @returns Sentiment percentages between 0-1
+   * A user's posts and/or comments still to delete, reusing the listing from earlier batches
    */
-  private async calculateSentimentBreakdown(contentData: any[]): Promise<{ positive: number, neutral: number, negative: number }> {
-    if (!contentData || contentData.length === 0) {
-      return { positive: 0.33, neutral: 0.34, negative: 0.33 };
+  private async pendingOwnThings(
+    accessToken: string,
+    username: string,
+    types: ('post' | 'comment')[],
+    skipUrls: Set<string>
+  ): Promise<RedditThing[]> {
+    const key = `${username.toLowerCase()}:${types.join(',')}`;
+    const cached = this.ownThingListings.get(key);
+    let pending = cached && Date.now() - cached.listedAt < LISTING_TTL
+      ? cached.things.filter(thing => !skipUrls.has(thing.url))
+      : [];
+
+    // List again once the cached listing is used up, to reach content past its 1000 item limit
+    if (pending.length === 0) {
+      const things = await this.listOwnThings(accessToken, username, types);
+      this.ownThingListings.set(key, { things, listedAt: Date.now() });
+      pending = things.filter(thing => !skipUrls.has(thing.url));
     }
-    
-    // Check if OpenAI service is operational
-    const openAiStatus = openAiSentiment.getStatus();
-    
-    if (openAiStatus.operational) {
-      try {
-        // Use OpenAI batch sentiment analysis for more accurate results
-        log('Using OpenAI for batch sentiment analysis', 'reddit-api');
-        
-        // Extract content text for analysis
-        const contentTexts = contentData
-          .filter(item => item.content && item.content.length > 0)
-          .map(item => item.content);
-        
-        // If we have content to analyze
-        if (contentTexts.length > 0) {
-          const results = await openAiSentiment.analyzeSentimentBatch(contentTexts);
-          log(`OpenAI sentiment analysis complete. Positive: ${results.positive.toFixed(2)}, Neutral: ${results.neutral.toFixed(2)}, Negative: ${results.negative.toFixed(2)}`, 'reddit-api');
-          return results;
+
+    if (pending.length === 0) this.ownThingListings.delete(key);
+    return pending;
+  }
+
+  /**
+   * List all of a user's posts and/or comments, newest first
+   * Reddit listings stop after 1000 items, so older content shows up as newer content is deleted.
+   */
+  private async listOwnThings(accessToken: string, username: string, types: ('post' | 'comment')[]): Promise<RedditThing[]> {
+    const things: RedditThing[] = [];
+
+    for (const type of types) {
+      const listing = type === 'post' ? 'submitted' : 'comments';
+      let after: string | null = null;
+      do {
+        const page = await this.callUserApi(
+          accessToken,
+          'GET',
+          `/user/${encodeURIComponent(username)}/${listing}?limit=100&raw_json=1${after ? `&after=${after}` : ''}`
+        );
+        for (const child of page?.data?.children || []) {
+          things.push(this.toThing(child));
         }
+        after = page?.data?.after ?? null;
+      } while (after);
+    }
+
+    return things;
+  }
+
+  private toThing(child: any, url?: string): RedditThing {
+    const data = child.data;
+    return {
+      fullname: data.name,
+      type: child.kind === 't1' ? 'comment' : 'post',
+      // Match the URLs used in contentData
+      url: url ?? `https://reddit.com${data.permalink}`,
+      author: data.author,
+      // Link posts have no text to overwrite
+      editable: child.kind === 't1' || !!data.is_self,
+    };
+  }
+
+  /**
+   * Overwrite an item's text, then delete it
+   */
+  private async editThenDelete(accessToken: string, username: string, thing: RedditThing): Promise<DeletionItemResult> {
+    const result = (status: DeletionItemResult['status'], edited: boolean, error?: string): DeletionItemResult => ({
+      url: thing.url,
+      type: thing.type,
+      status,
+      edited,
+      error,
+      at: new Date().toISOString(),
+    });
+
+    if (thing.author.toLowerCase() !== username.toLowerCase()) {
+      return result('failed', false, thing.author === '[deleted]' ? 'Already deleted' : `Posted by u/${thing.author}, not u/${username}`);
+    }
+
+    let edited = false;
+    if (thing.editable) {
+      try {
+        await this.callUserApi(accessToken, 'POST', '/api/editusertext', {
+          thing_id: thing.fullname,
+          text: EDIT_PLACEHOLDER,
+          api_type: 'json',
+        });
+        edited = true;
       } catch (error) {
-        // Log error and fall back to simple calculation
-        log(`Error using OpenAI for batch sentiment analysis: ${error}. Falling back to simple calculation.`, 'reddit-api');
+        if (this.stopsRun(error)) throw error;
+        // Archived items can't be edited but can still be deleted
+        log(`Could not overwrite ${thing.fullname} before deleting: ${error instanceof Error ? error.message : error}`, 'reddit-api');
       }
     }
-    
-    // Fallback to simple counting if OpenAI fails or isn't available
-    let positive = 0, neutral = 0, negative = 0;
-    
-    for (const item of contentData) {
-      // If the item already has a sentiment, use it
-      if (item.sentiment) {
-        if (item.sentiment === 'positive') positive++;
-        else if (item.sentiment === 'negative') negative++;
-        else neutral++;
-      } else {
-        // Otherwise try to calculate it
-        const sentiment = await this.determineSimpleSentiment(item.content || '');
-        if (sentiment === 'positive') positive++;
-        else if (sentiment === 'negative') negative++;
-        else neutral++;
-      }
+
+    try {
+      await this.callUserApi(accessToken, 'POST', '/api/del', { id: thing.fullname });
+      return result('deleted', edited);
+    } catch (error) {
+      if (this.stopsRun(error)) throw error;
+      const message = error instanceof PlatformError ? error.userMessage : String(error);
+      return result('failed', edited, message);
     }
-    
-    const total = contentData.length;
-    return {
-      positive: parseFloat((positive / total).toFixed(2)),
-      neutral: parseFloat((neutral / total).toFixed(2)),
-      negative: parseFloat((negative / total).toFixed(2))
-    };
+  }
+
+  /**
+   * Whether an error is about the account or rate limit rather than the item, so a
+   * deletion run should stop and be retried instead of recording the item as failed
+   */
+  private stopsRun(error: unknown): boolean {
+    return error instanceof RateLimitError || error instanceof AuthError;
+  }
+
+  /**
+   * Call the Reddit API as a user, through the Reddit rate limiter
+   * @throws PlatformError describing why the call failed
+   */
+  private async callUserApi(
+    accessToken: string,
+    method: 'GET' | 'POST',
+    endpoint: string,
+    form?: Record<string, string>
+  ): Promise<any> {
+    return redditRateLimiter.schedule({
+      platform: 'reddit',
+      execute: async () => {
+        try {
+          const response = await axios.request({
+            method,
+            url: `https://oauth.reddit.com${endpoint}`,
+            data: form ? new URLSearchParams(form).toString() : undefined,
+            headers: {
+              'User-Agent': 'DigitalFootprintTracker/1.0.0 (by /u/anonymous_user)',
+              'Authorization': `Bearer ${accessToken}`,
+              ...(form ? { 'Content-Type': 'application/x-www-form-urlencoded' } : {})
+            }
+          });
+
+          // Form posts with api_type=json report errors in the body
+          const errors = response.data?.json?.errors;
+          if (Array.isArray(errors) && errors.length > 0) {
+            throw new PlatformApiError('reddit', {
+              message: `Reddit refused the change: ${errors.map((e: string[]) => e[1] || e[0]).join('; ')}`
+            });
+          }
+          return response.data;
+        } catch (error) {
+          if (error instanceof PlatformError) throw error;
+          if (axios.isAxiosError(error) && error.response) {
+            const status = error.response.status;
+            if (status === 401) {
+              throw new AuthError('reddit', { message: 'Your Reddit connection has expired. Please connect Reddit again.' });
+            }
+            if (status === 403) {
+              throw new PermissionError('reddit', { detail: `Forbidden: ${method} ${endpoint}` });
+            }
+            if (status === 404) {
+              throw new NotFoundError('reddit', { detail: `Not found: ${method} ${endpoint}` });
+            }
+            if (status === 429) {
+              const retryAfter = parseInt(error.response.headers['retry-after'] || '60', 10);
+              throw new RateLimitError('reddit', { retryAfter });
+            }
+          }
+          throw new PlatformApiError('reddit', {
+            detail: `Error calling ${method} ${endpoint}: ${error instanceof Error ? error.message : error}`
+          });
+        }
+      }
+    });
   }
   
   /**
@@ -720,41 +876,6 @@ export class RedditApiService {
       { period: 'Older', count: olderCount }
     ];
   }
-
-  /**
-   * Extract top topics from subreddits and content data
-   * @param subreddits Top subreddits
-   * @param contentData Content data
-   * @returns Top topics with percentages
-   */
-  private extractTopTopics(subreddits: string[], contentData: any[]): Array<{ topic: string, percentage: number }> {
-    // Use subreddits as the primary topics
-    const subredditTopics = subreddits.slice(0, 5).map((subreddit, index) => {
-      // Weight by position (higher for index 0, lower for index 4)
-      const weight = 1 - (index * 0.15);
-      return {
-        topic: subreddit,
-        percentage: Math.round(weight * 20)
-      };
-    });
-    
-    // Ensure percentages add up to 100
-    const totalPercentage = subredditTopics.reduce((sum, topic) => sum + topic.percentage, 0);
-    if (totalPercentage !== 100) {
-      // Adjust the first topic to make the total 100
-      const diff = 100 - totalPercentage;
-      if (subredditTopics.length > 0) {
-        subredditTopics[0].percentage += diff;
-      }
-    }
-    
-    // If no topics, return a default
-    if (subredditTopics.length === 0) {
-      return [{ topic: 'No activity', percentage: 100 }];
-    }
-    
-    return subredditTopics;
-  }
 }
 
 export const redditApi = new RedditApiService();
\ No newline at end of file
@@ -0,0 +1,356 @@
+/**
+ * Reddit Data Export Importer
+ *
+ * Parses the export Reddit sends in response to a GDPR/CCPA data request
+ * (reddit.com/settings/data-request). Every data set is a CSV file in the root
+ * of the ZIP: posts, comments, votes, saved items, subscriptions and the IP
+ * addresses the account was used from.
+ *
+ * Votes and saved items have no timestamps, so they are counted and used for
+ * topic analysis rather than imported as content.
+ */
+
+import { parse as parseCsv } from 'csv-parse/sync';
+import { ContentItem, PlatformData, PrivacyConcern } from '@shared/schema';
+import {
+  ArchiveFiles,
+  ArchiveImportError,
+  ArchiveImporter,
+  ArchiveParseResult,
+  yearlyActivityTimeline
+} from './archive-import';
+import { analysis } from './analysis-provider';
+
+// Data set files, optionally nested in an extra folder
+const csvFile = (name: string) => new RegExp(`(^|/)${name}\\.csv$`);
+
+const STATISTICS_FILE = csvFile('statistics');
+const POSTS_FILE = csvFile('posts');
+const COMMENTS_FILE = csvFile('comments');
+const POST_VOTES_FILE = csvFile('post_votes');
+const COMMENT_VOTES_FILE = csvFile('comment_votes');
+const SAVED_POSTS_FILE = csvFile('saved_posts');
+const SAVED_COMMENTS_FILE = csvFile('saved_comments');
+const IP_LOGS_FILE = csvFile('ip_logs');
+const SUBSCRIPTIONS_FILE = csvFile('subscribed_subreddits');
+
+// More distinct IP addresses than this is a high severity concern
+const IP_ADDRESSES_HIGH_SEVERITY = 10;
+
+type CsvRow = Record<string, string>;
+
+/**
+ * Convert an export date ("2023-04-01 18:22:05 UTC") to ISO 8601
+ */
+function toIsoTimestamp(date: string | undefined): string | undefined {
+  if (!date) return undefined;
+  const parsed = new Date(date.trim().replace(' UTC', 'Z').replace(' ', 'T'));
+  return isNaN(parsed.getTime()) ? undefined : parsed.toISOString();
+}
+
+/**
+ * Get the subreddit from a permalink such as https://www.reddit.com/r/privacy/comments/abc123/...
+ */
+function subredditFromPermalink(permalink: string | undefined): string | undefined {
+  return permalink?.match(/\/r\/([^/]+)/)?.[1];
+}
+
+export class RedditArchiveImporter implements ArchiveImporter {
+  readonly platform = 'reddit' as const;
+  readonly displayName = 'Reddit data request export';
+
+  public canImport(files: ArchiveFiles): boolean {
+    return files.find(STATISTICS_FILE).length > 0 &&
+      (files.find(POSTS_FILE).length > 0 || files.find(COMMENTS_FILE).length > 0);
+  }
+
+  public async parse(files: ArchiveFiles): Promise<ArchiveParseResult> {
+    const statistics: Record<string, string> = {};
+    for (const row of await this.readCsv(files, STATISTICS_FILE)) {
+      if (row.statistic) statistics[row.statistic.trim().toLowerCase()] = row.value;
+    }
+    const username = statistics['account name']?.trim();
+    if (!username) {
+      throw new ArchiveImportError('The Reddit export does not contain the account name (statistics.csv).');
+    }
+
+    const posts = await this.readCsv(files, POSTS_FILE);
+    const comments = await this.readCsv(files, COMMENTS_FILE);
+    const votes = [
+      ...await this.readCsv(files, POST_VOTES_FILE),
+      ...await this.readCsv(files, COMMENT_VOTES_FILE)
+    ].filter(vote => vote.direction === 'up' || vote.direction === 'down');
+    const savedItems = [
+      ...await this.readCsv(files, SAVED_POSTS_FILE),
+      ...await this.readCsv(files, SAVED_COMMENTS_FILE)
+    ];
+    const ipLogs = await this.readCsv(files, IP_LOGS_FILE);
+    const subscriptions = (await this.readCsv(files, SUBSCRIPTIONS_FILE))
+      .map(row => row.subreddit)
+      .filter(Boolean);
+
+    const postContent = posts
+      .map(post => this.rowToContent(post, 'post', [post.title, post.body]))
+      .filter((item): item is ContentItem => !!item);
+    const commentContent = comments
+      .map(comment => this.rowToContent(comment, 'comment', [comment.body]))
+      .filter((item): item is ContentItem => !!item);
+
+    const contentData = [...postContent, ...commentContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    // Posts and comments also record the address they were submitted from
+    const ipRecords = [...ipLogs, ...posts, ...comments]
+      .filter(row => row.ip)
+      .map(row => ({ ip: row.ip, timestamp: toIsoTimestamp(row.date) }));
+
+    const stats = {
+      posts: postContent.length,
+      comments: commentContent.length,
+      upvotes: votes.filter(vote => vote.direction === 'up').length,
+      downvotes: votes.filter(vote => vote.direction === 'down').length,
+      savedItems: savedItems.length,
+      ipAddresses: new Set(ipRecords.map(record => record.ip)).size,
+      subscriptions: subscriptions.length,
+    };
+
+    const data = await this.transformExport({
+      username,
+      registrationDate: toIsoTimestamp(statistics['registration date']),
+      contentData,
+      votes,
+      savedItems,
+      ipRecords,
+      subscriptions,
+    });
+
+    return { data, stats };
+  }
+
+  /**
+   * Parse every CSV file matching a pattern
+   * @param files The export
+   * @param pattern File pattern
+   * @returns Rows keyed by column name, or an empty list if no file matches
+   */
+  private async readCsv(files: ArchiveFiles, pattern: RegExp): Promise<CsvRow[]> {
+    const rows: CsvRow[] = [];
+
+    for (const path of files.find(pattern)) {
+      let part: CsvRow[];
+      try {
+        part = parseCsv(await files.readText(path), {
+          columns: true,
+          bom: true,
+          skip_empty_lines: true,
+          relax_column_count: true
+        });
+      } catch (error: any) {
+        throw new ArchiveImportError(`Could not read ${path} from the Reddit export.`);
+      }
+      for (const row of part) {
+        rows.push(row);
+      }
+    }
+
+    return rows;
+  }
+
+  /**
+   * Map a post or comment row to a content item
+   * Rows without a valid date (e.g. deleted content) are skipped.
+   */
+  private rowToContent(row: CsvRow, type: 'post' | 'comment', text: Array<string | undefined>): ContentItem | null {
+    const timestamp = toIsoTimestamp(row.date);
+    if (!timestamp) return null;
+
+    const subreddit = row.subreddit || subredditFromPermalink(row.permalink);
+    return {
+      type,
+      content: text.filter(Boolean).join('\n\n'),
+      timestamp,
+      url: row.permalink || undefined,
+      topics: subreddit ? [subreddit] : undefined
+    };
+  }
+
+  /**
+   * Build platform data from the parsed export
+   */
+  private async transformExport(exportData: {
+    username: string;
+    registrationDate?: string;
+    contentData: ContentItem[];
+    votes: CsvRow[];
+    savedItems: CsvRow[];
+    ipRecords: Array<{ ip: string, timestamp?: string }>;
+    subscriptions: string[];
+  }): Promise<PlatformData> {
+    const { username, contentData, votes, savedItems, ipRecords, subscriptions } = exportData;
+
+    const posts = contentData.filter(item => item.type === 'post').length;
+    const comments = contentData.filter(item => item.type === 'comment').length;
+    const upvotes = votes.filter(vote => vote.direction === 'up').length;
+
+    // Subreddits the user posts in, most active first
+    const subredditCounts: Record<string, number> = {};
+    for (const item of contentData) {
+      for (const subreddit of item.topics || []) {
+        subredditCounts[subreddit] = (subredditCounts[subreddit] || 0) + 1;
+      }
+    }
+    const sortedSubreddits = Object.entries(subredditCounts).sort((a, b) => b[1] - a[1]);
+
+    // Subreddits the user votes in, which say more about their interests than what they post
+    const votedSubredditCounts: Record<string, number> = {};
+    for (const vote of votes) {
+      const subreddit = subredditFromPermalink(vote.permalink);
+      if (subreddit) {
+        votedSubredditCounts[subreddit] = (votedSubredditCounts[subreddit] || 0) + 1;
+      }
+    }
+    const sortedVotedSubreddits = Object.entries(votedSubredditCounts).sort((a, b) => b[1] - a[1]);
+
+    const distinctIps = new Set(ipRecords.map(record => record.ip));
+    const ipTimestamps = ipRecords
+      .map(record => record.timestamp)
+      .filter((timestamp): timestamp is string => !!timestamp)
+      .sort();
+
+    // Privacy concerns
+    const privacyConcerns: PrivacyConcern[] = [];
+    if (distinctIps.size > 0) {
+      const period = ipTimestamps.length > 0
+        ? ` between ${ipTimestamps[0].slice(0, 10)} and ${ipTimestamps[ipTimestamps.length - 1].slice(0, 10)}`
+        : '';
+      privacyConcerns.push({
+        type: 'ip_log_retention',
+        severity: distinctIps.size > IP_ADDRESSES_HIGH_SEVERITY ? 'high' : 'medium',
+        description: `Reddit logged ${ipRecords.length} record${ipRecords.length > 1 ? 's' : ''} of your activity from ` +
+          `${distinctIps.size} IP address${distinctIps.size > 1 ? 'es' : ''}${period}, revealing your approximate locations`
+      });
+    }
+    if (votes.length > 0) {
+      const examples = sortedVotedSubreddits.slice(0, 3).map(([subreddit]) => `r/${subreddit}`).join(', ');
+      privacyConcerns.push({
+        type: 'vote_history',
+        severity: 'medium',
+        description: `Reddit stores ${votes.length} vote${votes.length > 1 ? 's' : ''} across ` +
+          `${sortedVotedSubreddits.length} subreddit${sortedVotedSubreddits.length !== 1 ? 's' : ''}, ` +
+          `revealing interests and opinions you never posted about` + (examples ? `, mostly in ${examples}` : '')
+      });
+    }
+    if (contentData.length > 0) {
+      privacyConcerns.push({
+        type: 'post_history',
+        severity: 'low',
+        description: `${posts} posts and ${comments} comments are linked to your account`
+      });
+    }
+    if (savedItems.length > 0) {
+      privacyConcerns.push({
+        type: 'saved_items',
+        severity: 'low',
+        description: `${savedItems.length} saved posts and comments are stored with your account`
+      });
+    }
+
+    const dataCategories: { category: string, severity: 'low' | 'medium' | 'high' }[] = [
+      { category: 'Posts & Comments', severity: 'medium' }
+    ];
+    if (votes.length > 0) {
+      dataCategories.push({ category: 'Voting History', severity: 'medium' });
+    }
+    if (distinctIps.size > 0) {
+      dataCategories.push({
+        category: 'IP Address Logs',
+        severity: distinctIps.size > IP_ADDRESSES_HIGH_SEVERITY ? 'high' : 'medium'
+      });
+    }
+    if (savedItems.length > 0) {
+      dataCategories.push({ category: 'Saved Items', severity: 'low' });
+    }
+    if (subscriptions.length > 0) {
+      dataCategories.push({ category: 'Subscriptions', severity: 'low' });
+    }
+
+    const recommendedActions: string[] = [];
+    if (distinctIps.size > 0) {
+      recommendedActions.push("Use a VPN when browsing Reddit to keep your home and work IP addresses out of its logs");
+    }
+    if (votes.length > 0) {
+      recommendedActions.push("Remember that every vote is kept for as long as the account exists; use a separate account for sensitive interests");
+    }
+    if (savedItems.length > 0) {
+      recommendedActions.push("Unsave posts and comments you no longer need");
+    }
+    recommendedActions.push("Review and delete old posts and comments that reveal personal details");
+
+    // Share of posts and comments per subreddit
+    const topTopics = sortedSubreddits.slice(0, 5).map(([topic, count]) => ({
+      topic,
+      percentage: count / contentData.length
+    }));
+
+    const joinDate = exportData.registrationDate ?? contentData[contentData.length - 1]?.timestamp;
+    const accountAgeInDays = joinDate ? (Date.now() - new Date(joinDate).getTime()) / (24 * 60 * 60 * 1000) : 0;
+
+    // Label and score each item with the configured analysis provider
+    const sentimentBreakdown = await analysis.scoreContent(contentData);
+
+    return {
+      platformId: 'reddit',
+      username,
+      profileData: {
+        displayName: username,
+        joinDate,
+        profileUrl: `https://reddit.com/user/${username}`
+      },
+      activityData: {
+        totalPosts: posts,
+        totalComments: comments,
+        totalLikes: upvotes,
+        postsPerDay: accountAgeInDays > 0 ? (posts + comments) / accountAgeInDays : 0,
+        lastActive: contentData[0]?.timestamp,
+        topSubreddits: sortedSubreddits.slice(0, 10).map(([subreddit]) => subreddit)
+      },
+      contentData,
+      privacyMetrics: {
+        exposureScore: 0, // Scored by the exposure score engine
+        dataCategories,
+        potentialConcerns: privacyConcerns.map(concern => ({
+          issue: concern.description,
+          risk: concern.severity
+        })),
+        recommendedActions
+      },
+      analysisResults: {
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics,
+        activityTimeline: yearlyActivityTimeline(contentData),
+        sentimentBreakdown,
+        dataCategories,
+        privacyConcerns,
+        recommendedActions,
+        platformSpecificMetrics: {
+          votes: {
+            up: upvotes,
+            down: votes.length - upvotes,
+            topSubreddits: sortedVotedSubreddits.slice(0, 10).map(([subreddit, count]) => ({ subreddit, count }))
+          },
+          savedItems: savedItems.length,
+          ipAddresses: {
+            distinct: distinctIps.size,
+            records: ipRecords.length,
+            firstSeen: ipTimestamps[0],
+            lastSeen: ipTimestamps[ipTimestamps.length - 1]
+          },
+          subscribedSubreddits: subscriptions
+        }
+      }
+    };
+  }
+}
+
+// Create singleton instance
+export const redditArchiveImporter = new RedditArchiveImporter();
@@ -0,0 +1,216 @@
+import axios from 'axios';
+import { PlatformConnection } from '@shared/schema';
+import { log } from '../vite';
+import { storage } from '../storage';
+
+/**
+ * Reddit OAuth Service for connecting users' own Reddit accounts
+ *
+ * This service manages the authorization code flow that lets a user grant
+ * access to their Reddit account, so their content can be deleted for them:
+ * 1. Generating authorization URLs for user login
+ * 2. Exchanging authorization codes for access and refresh tokens
+ * 3. Refreshing access tokens, which last an hour
+ * 4. Storing each user's connection through the storage layer
+ *
+ * Unlike the application-only token in RedditApiService, these tokens act as
+ * the user and are stored per user.
+ */
+export class RedditOAuthService {
+  private clientId: string | undefined;
+  private clientSecret: string | undefined;
+  private redirectUri: string;
+  private readonly userAgent = 'DigitalFootprintTracker/1.0.0 (by /u/anonymous_user)';
+
+  // Scopes needed to find, overwrite and delete the user's posts and comments
+  static readonly DELETION_SCOPES = ['identity', 'history', 'edit'];
+
+  constructor() {
+    this.clientId = process.env.REDDIT_CLIENT_ID;
+    this.clientSecret = process.env.REDDIT_CLIENT_SECRET;
+
+    // If we're running on Replit, use the Replit domain for the redirect URI
+    const replitSlug = process.env.REPL_SLUG;
+    const replitOwner = process.env.REPL_OWNER;
+    const replitDomain = replitSlug && replitOwner ?
+      `https://${replitSlug}.${replitOwner}.repl.co` : null;
+
+    // Use Replit domain if available, otherwise use environment variable or local fallback
+    this.redirectUri = process.env.REDDIT_REDIRECT_URI ||
+      (replitDomain ? `${replitDomain}/api/reddit/callback` : 'http://localhost:5000/api/reddit/callback');
+
+    log(`Reddit OAuth Service initialized with client ID: ${this.clientId ? 'configured' : 'missing'}`, 'reddit-oauth');
+  }
+
+  /**
+   * Check if the service is properly configured with client credentials
+   */
+  public isConfigured(): boolean {
+    return !!this.clientId && !!this.clientSecret;
+  }
+
+  /**
+   * Generate an authorization URL for Reddit login
+   * @param state Random value tied to the user's session, checked on the callback
+   * @param scopes The permissions to request
+   * @returns URL to redirect the user to for Reddit authorization
+   */
+  public getAuthorizationUrl(state: string, scopes: string[] = RedditOAuthService.DELETION_SCOPES): string {
+    if (!this.isConfigured()) {
+      throw new Error('Reddit OAuth is not configured. Missing client ID or secret.');
+    }
+
+    const authUrl = new URL('https://www.reddit.com/api/v1/authorize');
+
+    authUrl.searchParams.append('client_id', this.clientId!);
+    authUrl.searchParams.append('response_type', 'code');
+    authUrl.searchParams.append('state', state);
+    authUrl.searchParams.append('redirect_uri', this.redirectUri);
+    // Permanent access comes with a refresh token, so deletions can run in the background
+    authUrl.searchParams.append('duration', 'permanent');
+    authUrl.searchParams.append('scope', scopes.join(' '));
+
+    return authUrl.toString();
+  }
+
+  /**
+   * Exchange an authorization code for tokens and store the user's connection
+   * @param userId The user connecting their account
+   * @param code Authorization code from callback
+   * @returns The stored connection
+   */
+  public async connectAccount(userId: number, code: string): Promise<PlatformConnection> {
+    if (!this.isConfigured()) {
+      throw new Error('Reddit OAuth is not configured. Missing client ID or secret.');
+    }
+
+    try {
+      const formData = new URLSearchParams();
+      formData.append('grant_type', 'authorization_code');
+      formData.append('code', code);
+      formData.append('redirect_uri', this.redirectUri);
+
+      const response = await axios.post('https://www.reddit.com/api/v1/access_token', formData.toString(), {
+        headers: this.tokenHeaders()
+      });
+
+      // Reddit reports failures such as a reused code in a 200 response
+      const { access_token, refresh_token, expires_in, scope, error } = response.data;
+      if (error || !access_token) {
+        throw new Error(`Reddit did not issue a token: ${error || 'no access token in response'}`);
+      }
+
+      // Find out which account was connected
+      const me = await axios.get('https://oauth.reddit.com/api/v1/me', {
+        headers: {
+          'User-Agent': this.userAgent,
+          'Authorization': `Bearer ${access_token}`
+        }
+      });
+
+      const connection = await storage.savePlatformConnection({
+        userId,
+        platform: 'reddit',
+        platformUsername: me.data.name,
+        accessToken: access_token,
+        refreshToken: refresh_token ?? null,
+        expiresAt: new Date(Date.now() + expires_in * 1000),
+        scopes: typeof scope === 'string' ? scope.split(/[\s,]+/).filter(Boolean) : RedditOAuthService.DELETION_SCOPES,
+        connectedAt: new Date()
+      });
+
+      log(`Connected Reddit account u/${connection.platformUsername} for user ${userId}`, 'reddit-oauth');
+      return connection;
+    } catch (error: any) {
+      log(`Error exchanging code for token: ${error.message}`, 'reddit-oauth');
+      if (error.response?.data) {
+        log(`Error details: ${JSON.stringify(error.response.data)}`, 'reddit-oauth');
+      }
+      throw error;
+    }
+  }
+
+  /**
+   * Get a user's connection with a current access token, refreshing it if it has expired
+   * @param userId The user whose Reddit account to act as
+   * @returns The connection, or null if the user hasn't connected Reddit or access was revoked
+   */
+  public async getConnection(userId: number): Promise<PlatformConnection | null> {
+    const connection = await storage.getPlatformConnection(userId, 'reddit');
+    if (!connection) return null;
+
+    // Refresh a minute early so the token doesn't expire mid-request
+    const expired = connection.expiresAt && connection.expiresAt.getTime() - 60 * 1000 <= Date.now();
+    if (!expired) return connection;
+
+    if (!connection.refreshToken || !this.isConfigured()) {
+      return null;
+    }
+
+    try {
+      const formData = new URLSearchParams();
+      formData.append('grant_type', 'refresh_token');
+      formData.append('refresh_token', connection.refreshToken);
+
+      const response = await axios.post('https://www.reddit.com/api/v1/access_token', formData.toString(), {
+        headers: this.tokenHeaders()
+      });
+
+      const { access_token, expires_in, error } = response.data;
+      if (error || !access_token) {
+        throw new Error(`Reddit did not refresh the token: ${error || 'no access token in response'}`);
+      }
+
+      return await storage.savePlatformConnection({
+        ...connection,
+        accessToken: access_token,
+        expiresAt: new Date(Date.now() + expires_in * 1000)
+      });
+    } catch (error: any) {
+      // A revoked grant can't be refreshed; the user has to connect again
+      log(`Error refreshing Reddit token for user ${userId}: ${error.message}`, 'reddit-oauth');
+      return null;
+    }
+  }
+
+  /**
+   * Revoke a user's Reddit tokens and forget the connection
+   * @param userId The user disconnecting their account
+   */
+  public async disconnect(userId: number): Promise<void> {
+    const connection = await storage.getPlatformConnection(userId, 'reddit');
+    if (!connection) return;
+
+    if (this.isConfigured()) {
+      try {
+        const formData = new URLSearchParams();
+        formData.append('token', connection.refreshToken ?? connection.accessToken);
+        formData.append('token_type_hint', connection.refreshToken ? 'refresh_token' : 'access_token');
+
+        await axios.post('https://www.reddit.com/api/v1/revoke_token', formData.toString(), {
+          headers: this.tokenHeaders()
+        });
+      } catch (error: any) {
+        // Forget the connection even if Reddit couldn't be reached
+        log(`Error revoking Reddit token for user ${userId}: ${error.message}`, 'reddit-oauth');
+      }
+    }
+
+    await storage.deletePlatformConnection(connection.id);
+  }
+
+  /**
+   * Headers for Reddit's token endpoints, which use HTTP basic auth with the client credentials
+   */
+  private tokenHeaders(): Record<string, string> {
+    const authString = Buffer.from(`${this.clientId}:${this.clientSecret}`).toString('base64');
+    return {
+      'User-Agent': this.userAgent,
+      'Content-Type': 'application/x-www-form-urlencoded',
+      'Authorization': `Basic ${authString}`
+    };
+  }
+}
+
+// Export as a singleton
+export const redditOAuth = new RedditOAuthService();
@@ -0,0 +1,233 @@
+/**
+ * Search Job Service
+ *
+ * Runs digital footprint searches in the background so the client does not
+ * have to wait for the slowest platform. Each job records the progress events
+ * it emits; subscribers receive the events recorded so far and then every new
+ * event until the job finishes.
+ */
+
+import { EventEmitter } from 'events';
+import { randomUUID } from 'crypto';
+import {
+  DigitalFootprintResponse,
+  Platform,
+  PlatformData,
+  SearchJobEvent,
+  SearchQuery
+} from '@shared/schema';
+import { storage } from '../storage';
+import { platformApi } from './platform-api';
+import { archiveImportService } from './archive-importers';
+import { deletionPolicies } from './deletion-policies';
+import { log } from '../vite';
+
+export type SearchJobStatus = 'running' | 'completed' | 'failed';
+
+export interface SearchJob {
+  id: string;
+  // Owner of the job, undefined for anonymous searches
+  userId?: number;
+  status: SearchJobStatus;
+  events: SearchJobEvent[];
+  createdAt: Date;
+}
+
+export class SearchJobService {
+  private jobs: Map<string, SearchJob> = new Map();
+  private emitter = new EventEmitter();
+  private readonly JOB_TTL = 10 * 60 * 1000; // Keep finished jobs for 10 minutes
+
+  constructor() {
+    // One listener per open event stream
+    this.emitter.setMaxListeners(0);
+  }
+
+  /**
+   * Run a search to completion
+   * Used directly by POST /api/search and in the background by search jobs
+   * @param searchQuery The validated search query
+   * @param userId Saves the search to this user's history and merges their archive imports when set
+   * @param onEvent Receives an event as each platform finishes
+   * @returns The aggregated footprint, including platform errors
+   */
+  public async runSearch(
+    searchQuery: SearchQuery,
+    userId?: number,
+    onEvent?: (event: SearchJobEvent) => void
+  ): Promise<DigitalFootprintResponse> {
+    // Check platform API status first to identify issues before processing the search
+    const statusErrors = await platformApi.getStatusErrors(platformApi.expandPlatforms(searchQuery.platforms));
+
+    // Archives the user imported for the searched accounts
+    const importedData = userId
+      ? await archiveImportService.getImportedData(userId, searchQuery)
+      : new Map<Platform, PlatformData>();
+    const mergedData = new Map<Platform, PlatformData>();
+
+    const completedData: PlatformData[] = [];
+    const result = await storage.aggregateDigitalFootprint(searchQuery, ({ platform, data: fetchedData, error }) => {
+      let data = fetchedData;
+      const imported = importedData.get(platform);
+      if (imported) {
+        data = archiveImportService.mergeImportedData(imported, fetchedData);
+        mergedData.set(platform, data);
+      }
+
+      if (!onEvent) return;
+
+      const platformError = data ? undefined : statusErrors[platform] ?? error;
+      if (platformError) {
+        onEvent({
+          type: platformError.code === 'RATE_LIMITED' ? 'platform_rate_limited' : 'platform_failed',
+          platform,
+          error: platformError,
+        });
+        return;
+      }
+
+      if (data) {
+        completedData.push(data);
+      }
+      onEvent({
+        type: 'platform_completed',
+        platform,
+        data,
+        summary: storage.buildSummary(completedData),
+      });
+    });
+
+    // API status errors take precedence over errors found during fetching
+    result.platformErrors = {
+      ...(result.platformErrors || {}),
+      ...statusErrors,
+    };
+
+    // Imported archives stand in for platforms the API could not fetch
+    if (mergedData.size > 0) {
+      result.platformData = [
+        ...result.platformData.filter(data => !mergedData.has(data.platformId)),
+        ...Array.from(mergedData.values()),
+      ];
+      for (const platform of Array.from(mergedData.keys())) {
+        delete result.platformErrors[platform];
+      }
+      result.summary = storage.buildSummary(result.platformData);
+    }
+
+    // Save the search to history along with a snapshot per platform, and apply the user's
+    // deletion policies to it (if user is authenticated)
+    if (userId) {
+      const search = await storage.saveSearchResults({
+        userId,
+        username: this.describeQuery(searchQuery),
+        platforms: searchQuery.platforms,
+      }, result);
+
+      result.searchId = search.id;
+
+      // A policy that can't queue its items shouldn't hold up the search
+      try {
+        await deletionPolicies.apply(userId, result);
+      } catch (error: any) {
+        log(`Deletion policies could not run for search ${search.id}: ${error.message}`, 'search-jobs');
+      }
+    }
+
+    return result;
+  }
+
+  /**
+   * Start a search in the background
+   * @param searchQuery The validated search query
+   * @param userId Owner of the job, if the user is logged in
+   * @returns The new job
+   */
+  public createJob(searchQuery: SearchQuery, userId?: number): SearchJob {
+    const job: SearchJob = {
+      id: randomUUID(),
+      userId,
+      status: 'running',
+      events: [],
+      createdAt: new Date(),
+    };
+    this.jobs.set(job.id, job);
+
+    this.emit(job, {
+      type: 'job_started',
+      jobId: job.id,
+      username: this.describeQuery(searchQuery),
+      platforms: platformApi.expandPlatforms(searchQuery.platforms),
+    });
+
+    this.runSearch(searchQuery, userId, event => this.emit(job, event))
+      .then(result => {
+        job.status = 'completed';
+        this.emit(job, { type: 'job_completed', result });
+      })
+      .catch((error: any) => {
+        log(`Search job ${job.id} failed: ${error.message}`, 'search-jobs');
+        job.status = 'failed';
+        this.emit(job, { type: 'job_failed', message: 'The search could not be completed. Please try again.' });
+      })
+      .finally(() => {
+        // Forget the job once clients have had time to read the results
+        setTimeout(() => this.jobs.delete(job.id), this.JOB_TTL).unref();
+      });
+
+    log(`Started search job ${job.id}`, 'search-jobs');
+    return job;
+  }
+
+  /**
+   * Get a job by ID
+   * @param id The job ID
+   * @returns The job, or undefined if it does not exist or has expired
+   */
+  public getJob(id: string): SearchJob | undefined {
+    return this.jobs.get(id);
+  }
+
+  /**
+   * Receive every event of a job, starting with those already emitted
+   * @param job The job to follow
+   * @param listener Called with each event
+   * @returns Function that stops the subscription
+   */
+  public subscribe(job: SearchJob, listener: (event: SearchJobEvent) => void): () => void {
+    for (const event of job.events) {
+      listener(event);
+    }
+
+    if (job.status !== 'running') {
+      return () => {};
+    }
+
+    const channel = `job:${job.id}`;
+    this.emitter.on(channel, listener);
+    return () => {
+      this.emitter.off(channel, listener);
+    };
+  }
+
+  /**
+   * Record an event and send it to the job's subscribers
+   */
+  private emit(job: SearchJob, event: SearchJobEvent): void {
+    job.events.push(event);
+    this.emitter.emit(`job:${job.id}`, event);
+  }
+
+  /**
+   * Describe the searched usernames, as saved in search history
+   */
+  private describeQuery(searchQuery: SearchQuery): string {
+    return searchQuery.username ||
+      (searchQuery.platformUsernames && searchQuery.platformUsernames.length > 0 ?
+        searchQuery.platformUsernames.map((pu: { platform: Platform, username: string }) =>
+          `${pu.platform}:${pu.username}`).join(', ') :
+        "unknown");
+  }
+}
+
+export const searchJobs = new SearchJobService();
@@ -0,0 +1,351 @@
+/**
+ * Topic Extractor
+ *
+ * Finds what content is about from the text itself, offline: every item is
+ * weighted with TF-IDF, the items are grouped with spherical k-means, and each
+ * group is named after the terms that weigh most in it. The same extraction
+ * runs on the content of every connector and imported archive, and on the
+ * content of all platforms together for the footprint summary, replacing
+ * topics guessed from subreddit names, hashtags or keyword lists.
+ */
+
+import { ContentItem, Platform, PlatformData, TopicShare } from '@shared/schema';
+import { piiScanner } from './pii-scanner';
+
+// Content of one platform to extract topics from
+export interface TopicSource {
+  platform: Platform;
+  items: ContentItem[];
+}
+
+// Items with usable terms needed before topics are extracted
+const MIN_ITEMS = 5;
+
+// Items a group needs to count as a topic
+const MIN_TOPIC_ITEMS = 2;
+
+// Documents a term must appear in to be used
+const MIN_DOCUMENT_FREQUENCY = 2;
+
+// Most terms weighed, the most widespread first
+const MAX_VOCABULARY = 2000;
+
+const MAX_CLUSTERS = 8;
+const MAX_ITERATIONS = 20;
+const MAX_TOPICS = 5;
+const REPRESENTATIVE_ITEMS = 3;
+const EXCERPT_LENGTH = 120;
+
+// A second term joins the label when it weighs at least this share of the first
+const SECOND_TERM_WEIGHT = 0.6;
+
+// Words that say nothing about what a text is about
+const STOPWORDS = new Set([
+  'about', 'above', 'after', 'again', 'against', 'all', 'almost', 'also', 'always', 'am', 'amp', 'and', 'another',
+  'any', 'anyone', 'anything', 'are', 'around', 'away', 'back', 'because', 'been', 'before', 'being', 'below',
+  'best', 'better', 'between', 'both', 'but', 'can', 'cannot', 'cant', 'com', 'come', 'could', 'couldnt', 'day',
+  'days', 'did', 'didnt', 'does', 'doesnt', 'doing', 'done', 'dont', 'down', 'during', 'each', 'edit', 'either',
+  'else', 'enough', 'etc', 'even', 'ever', 'every', 'everyone', 'everything', 'feel', 'few', 'find', 'first', 'for',
+  'from', 'further', 'get', 'gets', 'getting', 'give', 'going', 'gone', 'good', 'got', 'great', 'had', 'has', 'hasnt',
+  'have', 'havent', 'having', 'her', 'here', 'hers', 'herself', 'him', 'himself', 'his', 'how', 'http', 'https',
+  'ill', 'im', 'into', 'isnt', 'its', 'itself', 'ive', 'just', 'keep', 'know', 'last', 'later', 'least', 'less',
+  'let', 'lets', 'like', 'little', 'lol', 'long', 'look', 'looking', 'lot', 'lots', 'made', 'make', 'makes',
+  'making', 'many', 'may', 'maybe', 'might', 'more', 'most', 'much', 'must', 'myself', 'need', 'never', 'new',
+  'next', 'nice', 'nor', 'not', 'nothing', 'now', 'off', 'often', 'old', 'once', 'one', 'only', 'other', 'others',
+  'our', 'ours', 'ourselves', 'out', 'over', 'own', 'people', 'please', 'post', 'posted', 'pretty', 'put', 'quite',
+  'rather', 'really', 'right', 'said', 'same', 'say', 'says', 'see', 'seen', 'she', 'should', 'shouldnt', 'since',
+  'some', 'someone', 'something', 'still', 'such', 'sure', 'take', 'than', 'thank', 'thanks', 'that', 'thats',
+  'the', 'their', 'theirs', 'them', 'themselves', 'then', 'there', 'theres', 'these', 'they', 'theyre', 'thing',
+  'things', 'think', 'this', 'those', 'though', 'through', 'time', 'today', 'together', 'too', 'two', 'under',
+  'until', 'upon', 'use', 'used', 'using', 'very', 'via', 'want', 'was', 'wasnt', 'way', 'well', 'went', 'were',
+  'werent', 'what', 'whats', 'when', 'where', 'whether', 'which', 'while', 'who', 'whole', 'whom', 'why', 'will',
+  'with', 'without', 'wont', 'would', 'wouldnt', 'www', 'yeah', 'year', 'years', 'yes', 'yet', 'you', 'youd',
+  'youll', 'your', 'youre', 'yours', 'yourself', 'yourselves', 'youve',
+]);
+
+// A content item with the terms found in it
+interface Document {
+  platform: Platform;
+  index: number;
+  item: ContentItem;
+  // Term index to L2-normalized TF-IDF weight
+  weights: Map<number, number>;
+}
+
+interface Cluster {
+  centroid: Float64Array;
+  members: Document[];
+}
+
+export class TopicExtractor {
+  /**
+   * Extract the topics of one or more platforms' content
+   * @param sources Content of each platform
+   * @returns The most common topics, with the share of items with text about each
+   */
+  public extract(sources: TopicSource[]): TopicShare[] {
+    const texts: Array<{ platform: Platform; index: number; item: ContentItem; terms: string[] }> = [];
+    // Most common spelling of each term, used in labels
+    const spellings = new Map<string, Map<string, number>>();
+
+    for (const { platform, items } of sources) {
+      items.forEach((item, index) => {
+        if (!item.content?.trim()) return;
+        const terms = this.tokenize(item.content).map(word => {
+          const term = this.stem(word);
+          const counts = spellings.get(term) || new Map<string, number>();
+          counts.set(word, (counts.get(word) || 0) + 1);
+          spellings.set(term, counts);
+          return term;
+        });
+        texts.push({ platform, index, item, terms });
+      });
+    }
+
+    const vocabulary = this.buildVocabulary(texts.map(text => text.terms));
+    const documents = texts
+      .map(({ platform, index, item, terms }) => ({ platform, index, item, weights: this.weigh(terms, vocabulary, texts.length) }))
+      .filter(document => document.weights.size > 0);
+    if (documents.length < MIN_ITEMS) return [];
+
+    const terms = Array.from(vocabulary.keys());
+    const k = Math.min(MAX_CLUSTERS, Math.max(2, Math.round(Math.sqrt(documents.length))));
+    const clusters = this.cluster(documents, k, terms.length);
+
+    // Groups named after the same term are one topic
+    const topics = new Map<string, { members: Document[]; centroid: Float64Array }>();
+    for (const cluster of clusters) {
+      if (cluster.members.length === 0) continue;
+      const label = this.label(cluster.centroid, terms, spellings);
+      const existing = topics.get(label);
+      if (existing) {
+        existing.members.push(...cluster.members);
+      } else {
+        topics.set(label, { members: cluster.members.slice(), centroid: cluster.centroid });
+      }
+    }
+
+    return Array.from(topics.entries())
+      .filter(([, topic]) => topic.members.length >= MIN_TOPIC_ITEMS)
+      .sort((a, b) => b[1].members.length - a[1].members.length || a[0].localeCompare(b[0]))
+      .slice(0, MAX_TOPICS)
+      .map(([label, topic]) => ({
+        topic: label,
+        percentage: Math.round(topic.members.length / texts.length * 100) / 100,
+        representativeItems: topic.members
+          .map(document => ({ document, similarity: this.similarity(document, topic.centroid) }))
+          .sort((a, b) => b.similarity - a.similarity)
+          .slice(0, REPRESENTATIVE_ITEMS)
+          .map(({ document: { platform, index, item } }) => ({
+            platform,
+            itemIndex: index,
+            timestamp: item.timestamp,
+            excerpt: piiScanner.excerpt(item, EXCERPT_LENGTH),
+            url: item.url,
+          })),
+      }));
+  }
+
+  /**
+   * Replace a platform's top topics with those extracted from its content
+   *
+   * When there is too little text to find topics, the topics the connector
+   * derived itself are kept.
+   * @param data Platform data, annotated by the PII scanner so excerpts are redacted
+   * @returns The data with extracted top topics
+   */
+  public applyTo(data: PlatformData): PlatformData {
+    if (!data.analysisResults || !data.contentData?.length) return data;
+
+    const topTopics = this.extract([{ platform: data.platformId, items: data.contentData }]);
+    if (topTopics.length === 0) return data;
+
+    return {
+      ...data,
+      analysisResults: { ...data.analysisResults, topTopics },
+    };
+  }
+
+  /**
+   * Lowercase words of a text, without links, mentions, numbers or stopwords
+   */
+  private tokenize(text: string): string[] {
+    return text
+      .toLowerCase()
+      .replace(/https?:\/\/\S+|www\.\S+/g, ' ')
+      .replace(/(^|\s)(@|u\/)\w+/g, ' ')
+      .replace(/['’]/g, '')
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length >= 3 && !/^\d+$/.test(word) && !STOPWORDS.has(word));
+  }
+
+  /**
+   * Fold plurals into their singular so both count as one term
+   */
+  private stem(word: string): string {
+    if (word.length > 4 && word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+    if (word.length > 3 && word.endsWith('s') && !/(ss|us|is)$/.test(word)) return word.slice(0, -1);
+    return word;
+  }
+
+  /**
+   * Terms that recur across documents, mapped to their position and document frequency
+   */
+  private buildVocabulary(documents: string[][]): Map<string, { position: number; frequency: number }> {
+    const frequencies = new Map<string, number>();
+    for (const terms of documents) {
+      for (const term of Array.from(new Set(terms))) {
+        frequencies.set(term, (frequencies.get(term) || 0) + 1);
+      }
+    }
+
+    const vocabulary = new Map<string, { position: number; frequency: number }>();
+    Array.from(frequencies.entries())
+      .filter(([, frequency]) => frequency >= MIN_DOCUMENT_FREQUENCY)
+      .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+      .slice(0, MAX_VOCABULARY)
+      .forEach(([term, frequency], position) => vocabulary.set(term, { position, frequency }));
+    return vocabulary;
+  }
+
+  /**
+   * L2-normalized TF-IDF weights of a document's terms
+   */
+  private weigh(
+    terms: string[],
+    vocabulary: Map<string, { position: number; frequency: number }>,
+    documentCount: number
+  ): Map<number, number> {
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      if (vocabulary.has(term)) counts.set(term, (counts.get(term) || 0) + 1);
+    }
+
+    const weights = new Map<number, number>();
+    let norm = 0;
+    counts.forEach((count, term) => {
+      const { position, frequency } = vocabulary.get(term)!;
+      const weight = (1 + Math.log(count)) * (1 + Math.log(documentCount / frequency));
+      weights.set(position, weight);
+      norm += weight * weight;
+    });
+
+    norm = Math.sqrt(norm);
+    weights.forEach((weight, position) => weights.set(position, weight / norm));
+    return weights;
+  }
+
+  /**
+   * Group documents with spherical k-means
+   *
+   * Seeds are chosen deterministically, so the same content always yields the
+   * same topics: the document closest to the mean first, then repeatedly the
+   * document least similar to every seed so far.
+   */
+  private cluster(documents: Document[], k: number, dimensions: number): Cluster[] {
+    const mean = this.centroidOf(documents, dimensions);
+    const seeds: Document[] = [this.closest(documents, mean)];
+    const nearest = documents.map(document => this.similarity(document, this.vectorOf(seeds[0], dimensions)));
+    while (seeds.length < k) {
+      let candidate = -1;
+      for (let i = 0; i < documents.length; i++) {
+        if (!seeds.includes(documents[i]) && (candidate === -1 || nearest[i] < nearest[candidate])) candidate = i;
+      }
+      if (candidate === -1) break;
+      seeds.push(documents[candidate]);
+      const seed = this.vectorOf(documents[candidate], dimensions);
+      documents.forEach((document, i) => {
+        nearest[i] = Math.max(nearest[i], this.similarity(document, seed));
+      });
+    }
+
+    const clusters: Cluster[] = seeds.map(seed => ({ centroid: this.vectorOf(seed, dimensions), members: [] }));
+    let assignments: number[] = [];
+    for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+      const next = documents.map(document => {
+        let best = -1;
+        let bestSimilarity = 0;
+        clusters.forEach((cluster, index) => {
+          const similarity = this.similarity(document, cluster.centroid);
+          if (similarity > bestSimilarity) {
+            best = index;
+            bestSimilarity = similarity;
+          }
+        });
+        return best;
+      });
+      if (next.every((assignment, i) => assignment === assignments[i])) break;
+      assignments = next;
+
+      clusters.forEach((cluster, index) => {
+        cluster.members = documents.filter((_, i) => assignments[i] === index);
+        // An emptied cluster keeps its centroid and may win documents back
+        if (cluster.members.length > 0) cluster.centroid = this.centroidOf(cluster.members, dimensions);
+      });
+    }
+    return clusters;
+  }
+
+  /**
+   * Name a group after its heaviest term, and the next one when it weighs nearly as much
+   */
+  private label(centroid: Float64Array, terms: string[], spellings: Map<string, Map<string, number>>): string {
+    const ranked = Array.from(centroid)
+      .map((weight, position) => ({ weight, term: terms[position] }))
+      .sort((a, b) => b.weight - a.weight || a.term.localeCompare(b.term));
+
+    const words = [ranked[0]];
+    if (ranked[1] && ranked[1].weight > 0 && ranked[1].weight >= ranked[0].weight * SECOND_TERM_WEIGHT) {
+      words.push(ranked[1]);
+    }
+    return words.map(({ term }) => this.capitalize(this.spelling(term, spellings))).join(' & ');
+  }
+
+  private spelling(term: string, spellings: Map<string, Map<string, number>>): string {
+    const counts = Array.from(spellings.get(term)?.entries() || []);
+    if (counts.length === 0) return term;
+    return counts.sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))[0][0];
+  }
+
+  private capitalize(word: string): string {
+    return word.charAt(0).toUpperCase() + word.slice(1);
+  }
+
+  private centroidOf(documents: Document[], dimensions: number): Float64Array {
+    const centroid = new Float64Array(dimensions);
+    for (const document of documents) {
+      document.weights.forEach((weight, position) => {
+        centroid[position] += weight;
+      });
+    }
+    const norm = Math.sqrt(centroid.reduce((sum, value) => sum + value * value, 0));
+    return norm > 0 ? centroid.map(value => value / norm) : centroid;
+  }
+
+  private vectorOf(document: Document, dimensions: number): Float64Array {
+    const vector = new Float64Array(dimensions);
+    document.weights.forEach((weight, position) => {
+      vector[position] = weight;
+    });
+    return vector;
+  }
+
+  private closest(documents: Document[], centroid: Float64Array): Document {
+    return documents.reduce((best, document) =>
+      this.similarity(document, centroid) > this.similarity(best, centroid) ? document : best
+    );
+  }
+
+  /**
+   * Cosine similarity of a document to a normalized centroid
+   */
+  private similarity(document: Document, centroid: Float64Array): number {
+    let sum = 0;
+    document.weights.forEach((weight, position) => {
+      sum += weight * centroid[position];
+    });
+    return sum;
+  }
+}
+
+export const topicExtractor = new TopicExtractor();
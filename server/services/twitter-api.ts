@@ -1,8 +1,10 @@
 import { TwitterApi } from 'twitter-api-v2';
-import { Platform, PlatformData } from '@shared/schema';
+import { ContentItem, Platform, PlatformData } from '@shared/schema';
 import { log } from '../vite';
-import { openAiSentiment } from './openai-sentiment';
+import { analysis } from './analysis-provider';
 import { tokenManager } from './token-manager';
+import type { ConnectorCapabilities, ConnectorStatus, PlatformConnector } from './platform-connector';
+import { AuthError, NotFoundError, PermissionError, PlatformError, PlatformUnavailableError, RateLimitError } from './platform-errors';
 
 /**
  * Twitter API Service - Manages interactions with the Twitter/X API
@@ -10,7 +12,15 @@ import { tokenManager } from './token-manager';
  * This service provides methods to fetch user data from Twitter and handle data deletion requests
  * when users want to remove their digital footprint.
  */
-export class TwitterApiService {
+export class TwitterApiService implements PlatformConnector {
+  readonly platform = 'twitter' as const;
+  readonly displayName = 'Twitter';
+  readonly capabilities: ConnectorCapabilities = {
+    deletion: true,
+    oauth: false,
+    contentTypes: ['post']
+  };
+  
   private client: TwitterApi | null = null;
   private isConfigured: boolean = false;
 
@@ -87,13 +97,13 @@ export class TwitterApiService {
   }
 
   // Cache the API status to avoid unnecessary calls
-  private apiStatusCache: { status: { configured: boolean; message: string; operational?: boolean }, timestamp: number } | null = null;
+  private apiStatusCache: { status: ConnectorStatus, timestamp: number } | null = null;
   private readonly API_STATUS_CACHE_TTL = 60 * 1000; // 1 minute cache for API status
   
   /**
    * Get API status - used to show which platforms have active connections
    */
-  public async getApiStatus(): Promise<{ configured: boolean; message: string; operational?: boolean }> {
+  public async getApiStatus(): Promise<ConnectorStatus> {
     // Return cached status if available and recent
     if (this.apiStatusCache && (Date.now() - this.apiStatusCache.timestamp) < this.API_STATUS_CACHE_TTL) {
       return this.apiStatusCache.status;
@@ -124,6 +134,7 @@ export class TwitterApiService {
       const status = {
         configured: true,
         operational: false,
+        rateLimited: true,
         message: 'Twitter API is rate limited. Please try again later.'
       };
       this.apiStatusCache = { status, timestamp: Date.now() };
@@ -215,6 +226,7 @@ export class TwitterApiService {
         const status = {
           configured: true,
           operational: false,
+          rateLimited: true,
           message: 'Twitter API is rate limited. Please try again later.'
         };
         this.apiStatusCache = { status, timestamp: Date.now() };
@@ -293,7 +305,7 @@ export class TwitterApiService {
     const status = await this.getApiStatus();
     if (status.operational === false) {
       // Use a more specific error message based on the status message
-      if (status.message.includes('rate limited')) {
+      if (status.rateLimited) {
         log(`Cannot fetch Twitter data - API is rate limited. Please try again later.`, 'twitter-api');
       } else if (status.message.includes('service is currently unavailable')) {
         log(`Cannot fetch Twitter data - Twitter API service is down. Please try again later.`, 'twitter-api');
@@ -399,7 +411,7 @@ export class TwitterApiService {
         log('Twitter API rate limit exceeded, will retry later', 'twitter-api');
         // We'll remember we got rate limited
         this.handleRateLimitExceeded();
-        throw new Error('RATE_LIMITED: Twitter API rate limit exceeded. Please try again later.');
+        throw new RateLimitError('twitter', { retryAfter: this.getRateLimitRetryAfter() });
       } else if (error.code === 401 || error.message.includes('401')) {
         log('Twitter API authentication failed after refresh attempt', 'twitter-api');
         // Mark the API as not properly configured so future calls will fail quickly
@@ -417,13 +429,19 @@ export class TwitterApiService {
           });
         }, 5000); // Try again in 5 seconds
         
-        throw new Error('AUTH_ERROR: Twitter API authentication failed. The system will try to refresh automatically.');
+        throw new AuthError('twitter', {
+          message: 'Twitter API authentication failed. The system will try to refresh automatically.'
+        });
       } else if (error.code === 403) {
         log('Twitter API permission denied - credentials may lack necessary scopes', 'twitter-api');
-        throw new Error('PERMISSION_ERROR: Twitter API requires additional permissions to access this data.');
+        throw new PermissionError('twitter', {
+          message: 'Twitter API requires additional permissions to access this data.'
+        });
       } else if (error.code === 50 || error.message.includes('not found')) {
         log('Twitter user not found', 'twitter-api');
-        throw new Error(`NOT_FOUND: Twitter user does not exist or cannot be accessed.`);
+        throw new NotFoundError('twitter', {
+          message: 'Twitter user does not exist or cannot be accessed.'
+        });
       }
       
       // For other errors, return null
@@ -471,6 +489,14 @@ export class TwitterApiService {
     this.lastRequestTime = Date.now();
   }
   
+  /**
+   * Seconds until our rate limit window resets
+   */
+  private getRateLimitRetryAfter(): number {
+    const resetAt = this.lastRequestTime + this.RATE_LIMIT_RESET_INTERVAL;
+    return Math.max(0, Math.ceil((resetAt - Date.now()) / 1000));
+  }
+  
   /**
    * Wait for specified time with rate limit awareness
    */
@@ -523,12 +549,12 @@ export class TwitterApiService {
    * 
    * @param username The Twitter username
    * @param details Additional details about what to delete
-   * @returns Success status and message
+   * @returns Success status, message, and request ID
    */
   public async processDeletionRequest(
     username: string,
     details: { reason?: string; tweetIds?: string[] }
-  ): Promise<{ success: boolean; message: string }> {
+  ): Promise<{ success: boolean; message: string; requestId?: string }> {
     if (!this.client || !this.isConfigured) {
       return {
         success: false,
@@ -540,7 +566,7 @@ export class TwitterApiService {
     const status = await this.getApiStatus();
     if (status.operational === false) {
       // Provide more specific error messages based on the status
-      if (status.message.includes('rate limited')) {
+      if (status.rateLimited) {
         return {
           success: false,
           message: 'Twitter API is currently rate limited. Please try again later.'
@@ -566,6 +592,18 @@ export class TwitterApiService {
       // For premium users, we would generate deletion instructions
       // In a real implementation, this would use OAuth to authenticate the user
       
+      if (details.tweetIds?.length) {
+        const requestId = `twitter-${Date.now()}-${Math.floor(Math.random() * 1000)}`;
+        log(`Twitter deletion request ${requestId}: tweets ${details.tweetIds.join(', ')} logged for deletion`, 'twitter-api');
+        
+        // Nothing is deleted until the user authorises via OAuth, so don't report the tweets as gone
+        return {
+          success: true,
+          message: `Deletion logged for ${details.tweetIds.length} selected tweet${details.tweetIds.length === 1 ? '' : 's'}; a re-scan checks whether they are gone`,
+          requestId
+        };
+      }
+      
       return {
         success: true,
         message: 'Deletion request logged. For actual tweet deletion, users need to authorize via OAuth.'
@@ -579,6 +617,16 @@ export class TwitterApiService {
     }
   }
   
+  /**
+   * Get the ID of the tweet a Twitter or X URL points to
+   * @param url Link to a tweet
+   * @returns The tweet ID, or null if the URL isn't a link to a tweet
+   */
+  public tweetIdFromUrl(url: string): string | null {
+    const match = url.match(/(?:twitter|x)\.com\/(?:[^/]+|i\/web)\/status(?:es)?\/(\d+)/i);
+    return match ? match[1] : null;
+  }
+
   /**
    * API method to request data deletion from Twitter
    * This is an extended version of processDeletionRequest that handles platform-specific options
@@ -607,7 +655,7 @@ export class TwitterApiService {
     const status = await this.getApiStatus();
     if (status.operational === false) {
       // Provide more specific error messages based on the status
-      if (status.message.includes('rate limited')) {
+      if (status.rateLimited) {
         return {
           success: false,
           message: 'Twitter API is currently rate limited. Please try again later.'
@@ -672,111 +720,6 @@ export class TwitterApiService {
   /**
    * Transform Twitter API data to our platform format
    */
-  /**
-   * Analyze sentiment of tweet content using OpenAI
-   * @param tweets Array of tweets to analyze
-   * @returns Sentiment breakdown
-   */
-  private async analyzeSentiment(tweets: any[]): Promise<{
-    positive: number;
-    neutral: number;
-    negative: number;
-  }> {
-    // Check if there's content to analyze
-    if (!tweets || tweets.length === 0) {
-      return { positive: 0.33, neutral: 0.34, negative: 0.33 };
-    }
-    
-    // Check if OpenAI service is operational
-    const openAiStatus = openAiSentiment.getStatus();
-    
-    if (openAiStatus.operational) {
-      try {
-        // Use OpenAI batch sentiment analysis for more accurate results
-        log('Using OpenAI for Twitter sentiment analysis', 'twitter-api');
-        
-        // Extract content text for analysis
-        const contentTexts = tweets
-          .filter(tweet => tweet.text && tweet.text.length > 0)
-          .map(tweet => tweet.text);
-        
-        // If we have content to analyze
-        if (contentTexts.length > 0) {
-          const results = await openAiSentiment.analyzeSentimentBatch(contentTexts);
-          log(`Twitter sentiment analysis complete. Positive: ${results.positive.toFixed(2)}, Neutral: ${results.neutral.toFixed(2)}, Negative: ${results.negative.toFixed(2)}`, 'twitter-api');
-          return {
-            positive: results.positive,
-            neutral: results.neutral,
-            negative: results.negative
-          };
-        }
-      } catch (error) {
-        // Log error and fall back to simple calculation
-        log(`Error using OpenAI for Twitter sentiment analysis: ${error}. Falling back to simple calculation.`, 'twitter-api');
-      }
-    }
-    
-    // Fallback to simple keyword-based sentiment analysis
-    log('Using simple sentiment analysis for Twitter content', 'twitter-api');
-    
-    // Simple sentiment analysis based on keywords
-    const positiveWords = [
-      'happy', 'great', 'excellent', 'good', 'love', 'awesome', 'amazing',
-      'wonderful', 'best', 'fantastic', 'beautiful', 'perfect', 'thanks', 'thank you'
-    ];
-    
-    const negativeWords = [
-      'bad', 'terrible', 'awful', 'hate', 'dislike', 'horrible', 'worst',
-      'sucks', 'disappointed', 'poor', 'sad', 'angry', 'upset', 'unfortunately'
-    ];
-    
-    let positiveCount = 0;
-    let negativeCount = 0;
-    let neutralCount = 0;
-    
-    for (const tweet of tweets) {
-      if (!tweet.text) {
-        neutralCount++;
-        continue;
-      }
-      
-      const content = tweet.text.toLowerCase();
-      let isPositive = false;
-      let isNegative = false;
-      
-      // Check for positive keywords
-      for (const word of positiveWords) {
-        if (content.includes(word)) {
-          isPositive = true;
-          break;
-        }
-      }
-      
-      // Check for negative keywords
-      for (const word of negativeWords) {
-        if (content.includes(word)) {
-          isNegative = true;
-          break;
-        }
-      }
-      
-      if (isPositive && !isNegative) {
-        positiveCount++;
-      } else if (!isPositive && isNegative) {
-        negativeCount++;
-      } else {
-        neutralCount++;
-      }
-    }
-    
-    const total = Math.max(tweets.length, 1);
-    return {
-      positive: parseFloat((positiveCount / total).toFixed(2)),
-      neutral: parseFloat((neutralCount / total).toFixed(2)),
-      negative: parseFloat((negativeCount / total).toFixed(2))
-    };
-  }
-  
   private async transformUserData(
     user: any,
     tweets: any[],
@@ -790,7 +733,7 @@ export class TwitterApiService {
     const totalShares = tweets.reduce((sum, tweet) => sum + (tweet.public_metrics?.retweet_count || 0), 0);
     
     // Create recent content items from tweets
-    const contentItems = tweets.map(tweet => ({
+    const contentItems: ContentItem[] = tweets.map(tweet => ({
       type: "post" as const,
       content: tweet.text,
       timestamp: tweet.created_at,
@@ -802,8 +745,9 @@ export class TwitterApiService {
       }
     }));
     
-    // Analyze sentiment using OpenAI or fallback to simple keyword analysis
-    const sentimentResults = await this.analyzeSentiment(tweets);
+    // Label, score and tag each tweet with the configured analysis provider
+    const sentimentResults = await analysis.scoreContent(contentItems);
+    const topTopics = await analysis.tagTopics(contentItems);
     
     // Convert decimal values to percentages for display
     const sentimentBreakdown = {
@@ -837,12 +781,8 @@ export class TwitterApiService {
       },
       contentData: contentItems,
       analysisResults: {
-        exposureScore: 65, // Example score
-        topTopics: [
-          { topic: "Technology", percentage: 45 },
-          { topic: "Business", percentage: 30 },
-          { topic: "Entertainment", percentage: 25 }
-        ],
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics,
         activityTimeline: [
           { period: "Jan", count: 45 },
           { period: "Feb", count: 50 },
@@ -875,16 +815,18 @@ export class TwitterApiService {
 
   /**
    * Check if a Twitter username exists
+   * @returns Whether the account exists; only a definite answer is returned
+   * @throws PlatformError when the API can't give one, e.g. rate limited or unconfigured
    */
   public async checkUsernameExists(username: string): Promise<boolean> {
     if (!this.client || !this.isConfigured) {
-      return false;
+      throw new PlatformUnavailableError('twitter', { message: 'Twitter API is not configured.' });
     }
     
     // Check if we're currently rate limited
     if (this.isRateLimited()) {
       log(`Twitter API rate limiting in effect. Try again later.`, 'twitter-api');
-      return false;
+      throw new RateLimitError('twitter', { retryAfter: this.getRateLimitRetryAfter() });
     }
     
     // Normalize username (remove @ if present)
@@ -900,15 +842,8 @@ export class TwitterApiService {
     // Verify credentials before making the real API call
     const status = await this.getApiStatus();
     if (status.operational === false) {
-      // Use a more specific error message based on the status message
-      if (status.message.includes('rate limited')) {
-        log(`Cannot check Twitter username - API is rate limited. Please try again later.`, 'twitter-api');
-      } else if (status.message.includes('service is currently unavailable')) {
-        log(`Cannot check Twitter username - Twitter API service is down. Please try again later.`, 'twitter-api');
-      } else {
-        log(`Cannot check Twitter username - API credentials issue: ${status.message}`, 'twitter-api');
-      }
-      return false;
+      log(`Cannot check Twitter username: ${status.message}`, 'twitter-api');
+      throw PlatformError.fromStatus('twitter', status);
     }
 
     try {
@@ -927,7 +862,7 @@ export class TwitterApiService {
       log(`Error checking Twitter username: ${error.message}`, 'twitter-api');
       
       // Check for specific error that means user not found
-      if (error.code === 50) {
+      if (error.code === 50 || error.code === 404) {
         log(`Twitter username not found: ${normalizedUsername}`, 'twitter-api');
         return false;
       }
@@ -936,9 +871,10 @@ export class TwitterApiService {
       if (error.code === 429 || (error.response && error.response.status === 429)) {
         log('Twitter API rate limit exceeded during username check', 'twitter-api');
         this.handleRateLimitExceeded();
+        throw new RateLimitError('twitter', { retryAfter: this.getRateLimitRetryAfter() });
       }
       
-      return false;
+      throw PlatformError.from(error, 'twitter');
     }
   }
 }
@@ -0,0 +1,358 @@
+/**
+ * Twitter/X Archive Importer
+ *
+ * Parses the archive from "Settings > Your account > Download an archive of
+ * your data". The archive stores each data set as a JavaScript file of the form
+ * `window.YTD.tweets.part0 = [...]`, split into -part1, -part2... files for
+ * large accounts. Every tweet and like is imported; direct messages and ad
+ * engagements are only counted, their content is never stored.
+ */
+
+import { ContentItem, PlatformData, PrivacyConcern } from '@shared/schema';
+import {
+  ArchiveFiles,
+  ArchiveImportError,
+  ArchiveImporter,
+  ArchiveParseResult,
+  yearlyActivityTimeline
+} from './archive-import';
+import { analysis } from './analysis-provider';
+
+// Data set files, optionally split into parts and nested in an extra folder
+const dataFile = (name: string) => new RegExp(`(^|/)data/${name}(-part\\d+)?\\.js$`);
+
+const ACCOUNT_FILE = dataFile('account');
+const PROFILE_FILE = dataFile('profile');
+// Older archives name the file tweet.js
+const TWEETS_FILE = dataFile('tweets?');
+const LIKES_FILE = dataFile('like');
+const FOLLOWERS_FILE = dataFile('follower');
+const FOLLOWING_FILE = dataFile('following');
+const DIRECT_MESSAGES_FILE = dataFile('direct-messages(-group)?');
+const AD_ENGAGEMENTS_FILE = dataFile('ad-engagements');
+
+// Twitter snowflake IDs count milliseconds since this epoch in their upper bits
+const TWITTER_EPOCH = 1288834974657;
+const SNOWFLAKE_TIMESTAMP_SHIFT = 2 ** 22;
+// IDs issued before snowflakes were introduced in November 2010 are sequential
+const FIRST_SNOWFLAKE_ID = 29700859247;
+
+export class TwitterArchiveImporter implements ArchiveImporter {
+  readonly platform = 'twitter' as const;
+  readonly displayName = 'Twitter/X archive';
+
+  public canImport(files: ArchiveFiles): boolean {
+    return files.find(ACCOUNT_FILE).length > 0 && files.find(TWEETS_FILE).length > 0;
+  }
+
+  public async parse(files: ArchiveFiles): Promise<ArchiveParseResult> {
+    const [account] = (await this.readDataSet(files, ACCOUNT_FILE)).map(entry => entry.account);
+    if (!account?.username) {
+      throw new ArchiveImportError('The Twitter/X archive does not contain account details.');
+    }
+
+    const [profile] = (await this.readDataSet(files, PROFILE_FILE)).map(entry => entry.profile);
+    const tweets = (await this.readDataSet(files, TWEETS_FILE)).map(entry => entry.tweet).filter(Boolean);
+    const likes = (await this.readDataSet(files, LIKES_FILE)).map(entry => entry.like).filter(Boolean);
+    const followers = await this.readDataSet(files, FOLLOWERS_FILE);
+    const following = await this.readDataSet(files, FOLLOWING_FILE);
+    const conversations = (await this.readDataSet(files, DIRECT_MESSAGES_FILE))
+      .map(entry => entry.dmConversation)
+      .filter(Boolean);
+    const adEngagements = (await this.readDataSet(files, AD_ENGAGEMENTS_FILE))
+      .flatMap(entry => entry.ad?.adsUserData?.adEngagements?.engagements || []);
+
+    const directMessages = conversations.reduce(
+      (sum: number, conversation: any) => sum + (conversation.messages || []).filter((m: any) => m.messageCreate).length,
+      0
+    );
+
+    const stats = {
+      tweets: tweets.length,
+      likes: likes.length,
+      followers: followers.length,
+      following: following.length,
+      dmConversations: conversations.length,
+      directMessages,
+      adEngagements: adEngagements.length,
+    };
+
+    const data = await this.transformArchive({
+      account,
+      profile,
+      tweets,
+      likes,
+      followerCount: followers.length,
+      followingCount: following.length,
+      dmConversations: conversations.length,
+      directMessages,
+      adEngagements,
+    });
+
+    return { data, stats };
+  }
+
+  /**
+   * Read every part of a data set
+   * @param files The archive
+   * @param pattern Data set file pattern
+   * @returns The entries of all parts, or an empty list if the data set is not in the archive
+   */
+  private async readDataSet(files: ArchiveFiles, pattern: RegExp): Promise<any[]> {
+    const entries: any[] = [];
+
+    for (const path of files.find(pattern)) {
+      const text = await files.readText(path);
+      // Strip the "window.YTD.<name>.partN =" assignment to get plain JSON
+      const json = text.slice(text.indexOf('=') + 1).trim();
+      let part: any[];
+      try {
+        part = JSON.parse(json);
+      } catch (error: any) {
+        throw new ArchiveImportError(`Could not read ${path} from the Twitter/X archive.`);
+      }
+      // Parts can hold tens of thousands of entries, too many to spread into push()
+      for (const entry of part) {
+        entries.push(entry);
+      }
+    }
+
+    return entries;
+  }
+
+  /**
+   * Convert a tweet ID to the time it was posted
+   * Likes carry no timestamp of their own, so the liked tweet's time is used.
+   * Tweets from before snowflake IDs are dated to the switch-over.
+   */
+  private snowflakeToTimestamp(id: string): string {
+    const numericId = Number(id) || 0;
+    if (numericId < FIRST_SNOWFLAKE_ID) {
+      return new Date(TWITTER_EPOCH).toISOString();
+    }
+    return new Date(Math.floor(numericId / SNOWFLAKE_TIMESTAMP_SHIFT) + TWITTER_EPOCH).toISOString();
+  }
+
+  /**
+   * Map a tweet to a content item
+   * Retweets are shares and replies are comments.
+   */
+  private tweetToContent(tweet: any, username: string): ContentItem {
+    const text: string = tweet.full_text || tweet.text || '';
+    const isRetweet = text.startsWith('RT @');
+    const isReply = !!tweet.in_reply_to_status_id_str;
+
+    return {
+      type: isRetweet ? 'share' : isReply ? 'comment' : 'post',
+      content: text,
+      timestamp: new Date(tweet.created_at).toISOString(),
+      url: `https://twitter.com/${username}/status/${tweet.id_str}`,
+      engagement: {
+        likes: Number(tweet.favorite_count) || 0,
+        shares: Number(tweet.retweet_count) || 0
+      },
+      topics: (tweet.entities?.hashtags || []).map((hashtag: any) => `#${hashtag.text}`)
+    };
+  }
+
+  /**
+   * Build platform data from the parsed archive
+   */
+  private async transformArchive(archive: {
+    account: any;
+    profile: any;
+    tweets: any[];
+    likes: any[];
+    followerCount: number;
+    followingCount: number;
+    dmConversations: number;
+    directMessages: number;
+    adEngagements: any[];
+  }): Promise<PlatformData> {
+    const { account, profile, tweets, likes, adEngagements } = archive;
+    const username: string = account.username;
+
+    const tweetContent = tweets.map(tweet => this.tweetToContent(tweet, username));
+    const likeContent: ContentItem[] = likes.map(like => ({
+      type: 'like',
+      content: like.fullText,
+      timestamp: this.snowflakeToTimestamp(like.tweetId),
+      url: like.expandedUrl || `https://twitter.com/i/web/status/${like.tweetId}`
+    }));
+
+    const contentData = [...tweetContent, ...likeContent]
+      .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime());
+
+    const posts = tweetContent.filter(item => item.type === 'post').length;
+    const replies = tweetContent.filter(item => item.type === 'comment').length;
+    const retweets = tweetContent.filter(item => item.type === 'share').length;
+
+    // Hashtags used across the user's tweets
+    const hashtagCounts: Record<string, number> = {};
+    for (const item of tweetContent) {
+      for (const hashtag of item.topics || []) {
+        hashtagCounts[hashtag.toLowerCase()] = (hashtagCounts[hashtag.toLowerCase()] || 0) + 1;
+      }
+    }
+    const sortedHashtags = Object.entries(hashtagCounts).sort((a, b) => b[1] - a[1]);
+    const hashtagTotal = sortedHashtags.reduce((sum, [, count]) => sum + count, 0);
+    const topTopics = sortedHashtags
+      .slice(0, 5)
+      .map(([topic, count]) => ({ topic, percentage: Math.round(count / hashtagTotal * 100) / 100 }));
+
+    // Hour of day (UTC) with the most tweets
+    const hourCounts = new Array(24).fill(0);
+    for (const item of tweetContent) {
+      hourCounts[new Date(item.timestamp).getUTCHours()]++;
+    }
+    const busiestHour = hourCounts.indexOf(Math.max(...hourCounts));
+
+    const activityTimeline = yearlyActivityTimeline(contentData);
+
+    // Privacy concerns
+    const geotaggedTweets = tweets.filter(tweet => tweet.coordinates || tweet.geo || tweet.place).length;
+    const advertisers = new Set(
+      adEngagements.map(e => e.impressionAttributes?.advertiserInfo?.advertiserName).filter(Boolean)
+    );
+    const targetingTypes = new Set<string>(
+      adEngagements.flatMap(e => (e.impressionAttributes?.matchedTargetingCriteria || [])
+        .map((criteria: any) => criteria.targetingType))
+        .filter(Boolean)
+    );
+    const location: string | undefined = profile?.description?.location || undefined;
+
+    const privacyConcerns: PrivacyConcern[] = [];
+    if (geotaggedTweets > 0) {
+      privacyConcerns.push({
+        type: 'location_tagging',
+        severity: 'high',
+        description: `${geotaggedTweets} tweet${geotaggedTweets > 1 ? 's include' : ' includes'} location data`
+      });
+    }
+    if (location) {
+      privacyConcerns.push({
+        type: 'location_disclosure',
+        severity: 'medium',
+        description: `Location shown on public profile: ${location}`
+      });
+    }
+    if (archive.directMessages > 0) {
+      privacyConcerns.push({
+        type: 'message_retention',
+        severity: 'medium',
+        description: `Twitter/X retains ${archive.directMessages} direct messages across ${archive.dmConversations} ` +
+          `conversation${archive.dmConversations > 1 ? 's' : ''}`
+      });
+    }
+    if (advertisers.size > 0) {
+      const examples = Array.from(targetingTypes).slice(0, 3).join(', ');
+      privacyConcerns.push({
+        type: 'ad_targeting',
+        severity: 'medium',
+        description: `${advertisers.size} advertiser${advertisers.size > 1 ? 's' : ''} reached you through ` +
+          `${adEngagements.length} ad engagement${adEngagements.length > 1 ? 's' : ''}` +
+          (examples ? `, targeting you by ${examples}` : '')
+      });
+    }
+    if (likes.length > 0) {
+      privacyConcerns.push({
+        type: 'like_history',
+        severity: 'low',
+        description: `${likes.length} liked tweets reveal interests and opinions`
+      });
+    }
+
+    const dataCategories: { category: string, severity: 'low' | 'medium' | 'high' }[] = [
+      { category: 'Posts & Replies', severity: 'medium' },
+      { category: 'Likes', severity: 'low' }
+    ];
+    if (geotaggedTweets > 0 || location) {
+      dataCategories.push({ category: 'Location', severity: geotaggedTweets > 0 ? 'high' : 'medium' });
+    }
+    if (archive.directMessages > 0) {
+      dataCategories.push({ category: 'Private Messages', severity: 'medium' });
+    }
+    if (advertisers.size > 0) {
+      dataCategories.push({ category: 'Advertising Profile', severity: 'medium' });
+    }
+
+    const recommendedActions: string[] = [];
+    if (geotaggedTweets > 0) {
+      recommendedActions.push("Remove location information from past tweets in Privacy and safety settings");
+    }
+    if (advertisers.size > 0) {
+      recommendedActions.push("Turn off personalized ads and review your interests in Privacy and safety settings");
+    }
+    if (archive.directMessages > 0) {
+      recommendedActions.push("Delete direct message conversations you no longer need");
+    }
+    recommendedActions.push("Review old tweets and likes that no longer reflect you");
+
+    const joinDate = account.createdAt ? new Date(account.createdAt) : undefined;
+    const accountAgeInDays = joinDate ? (Date.now() - joinDate.getTime()) / (24 * 60 * 60 * 1000) : 0;
+
+    // Label and score each item with the configured analysis provider
+    const sentimentBreakdown = await analysis.scoreContent(contentData);
+
+    return {
+      platformId: 'twitter',
+      username,
+      profileData: {
+        displayName: account.accountDisplayName || username,
+        bio: profile?.description?.bio || '',
+        followerCount: archive.followerCount,
+        followingCount: archive.followingCount,
+        joinDate: joinDate?.toISOString(),
+        profileUrl: `https://twitter.com/${username}`,
+        avatarUrl: profile?.avatarMediaUrl,
+        location
+      },
+      activityData: {
+        totalPosts: posts,
+        totalComments: replies,
+        totalLikes: likes.length,
+        totalShares: retweets,
+        postsPerDay: accountAgeInDays > 0 ? tweets.length / accountAgeInDays : 0,
+        mostActiveTime: tweetContent.length > 0 ? `${busiestHour}:00 UTC` : undefined,
+        lastActive: tweetContent.reduce<string | undefined>(
+          (latest, item) => !latest || item.timestamp > latest ? item.timestamp : latest,
+          undefined
+        ),
+        topHashtags: sortedHashtags.slice(0, 10).map(([hashtag]) => hashtag)
+      },
+      contentData,
+      privacyMetrics: {
+        exposureScore: 0, // Scored by the exposure score engine
+        dataCategories,
+        potentialConcerns: privacyConcerns.map(concern => ({
+          issue: concern.description,
+          risk: concern.severity
+        })),
+        recommendedActions
+      },
+      analysisResults: {
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics,
+        activityTimeline,
+        sentimentBreakdown,
+        dataCategories,
+        privacyConcerns,
+        recommendedActions,
+        platformSpecificMetrics: {
+          tweets: tweets.length,
+          retweets,
+          replies,
+          likes: likes.length,
+          geotaggedTweets,
+          dmConversations: archive.dmConversations,
+          directMessages: archive.directMessages,
+          adEngagements: adEngagements.length,
+          advertisers: advertisers.size
+        }
+      }
+    };
+  }
+}
+
+// Create singleton instance
+export const twitterArchiveImporter = new TwitterArchiveImporter();
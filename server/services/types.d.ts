@@ -5,5 +5,6 @@ declare module 'facebook-nodejs-business-sdk';
 export interface PlatformApiStatus {
   configured: boolean;
   operational: boolean;
+  rateLimited?: boolean;
   message: string;
 }
\ No newline at end of file
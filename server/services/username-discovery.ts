@@ -0,0 +1,195 @@
+/**
+ * Username Discovery Service
+ *
+ * People rarely hold the same username everywhere: the footprint of "john_doe"
+ * may also live under johndoe, john.doe, johndoe92 or jdoe. This service
+ * derives likely variants from a username and display name, probes each
+ * platform connector's existence check for them, and ranks the accounts that
+ * exist by how likely they are to belong to the same person.
+ *
+ * Probes go through the general rate limiter at low priority so they never
+ * hold up regular searches, and results are cached for a few hours.
+ */
+
+import {
+  DiscoveredAccount,
+  Platform,
+  UsernameDiscoveryQuery,
+  UsernameDiscoveryResult,
+} from '@shared/schema';
+import { log } from '../vite';
+import { cacheService } from './cache-service';
+import { connectorRegistry } from './connectors';
+import type { PlatformConnector, PlatformConnectorRegistry } from './platform-connector';
+import { PlatformError } from './platform-errors';
+import { rateLimiters } from './rate-limiter';
+
+// A candidate username and how it was derived
+export interface UsernameVariant {
+  username: string;
+  reason: string;
+  // 0-1, prior likelihood that the same person uses this variant
+  likelihood: number;
+}
+
+// Most variants probed per search, most likely first
+const MAX_VARIANTS = 10;
+
+// Extra confidence for each other platform the same variant exists on
+const CROSS_PLATFORM_BONUS = 0.05;
+
+// Lower than regular searches, which use the default priority of 1
+const PROBE_PRIORITY = 0;
+
+// Usernames each platform accepts, so impossible variants are not probed
+const USERNAME_RULES: Partial<Record<Platform, RegExp>> = {
+  twitter: /^[a-z0-9_]{1,15}$/,
+  instagram: /^[a-z0-9._]{1,30}$/,
+  facebook: /^[a-z0-9.]{5,50}$/,
+  reddit: /^[a-z0-9_\-]{3,20}$/,
+  github: /^[a-z0-9](?:[a-z0-9]|-(?=[a-z0-9])){0,38}$/,
+};
+const DEFAULT_USERNAME_RULE = /^[a-z0-9._\-]{1,30}$/;
+
+export class UsernameDiscoveryService {
+  constructor(private readonly registry: PlatformConnectorRegistry = connectorRegistry) {}
+
+  /**
+   * Probe variants of a username on every requested platform
+   * @param query Base username, optional display name and platforms to search
+   * @returns Existing accounts under the variants, most likely first
+   */
+  public async discover(query: UsernameDiscoveryQuery): Promise<UsernameDiscoveryResult> {
+    const variants = this.generateVariants(query.username, query.displayName);
+    const skippedPlatforms: UsernameDiscoveryResult['skippedPlatforms'] = [];
+    const found: Array<{ platform: Platform; variant: UsernameVariant }> = [];
+
+    await Promise.all(this.registry.expandPlatforms(query.platforms).map(async platform => {
+      const connector = this.registry.get(platform);
+      if (!connector?.checkUsernameExists) {
+        skippedPlatforms.push({ platform, reason: 'This platform has no account lookup' });
+        return;
+      }
+
+      const status = await connector.getApiStatus();
+      if (!status.configured || status.operational === false) {
+        skippedPlatforms.push({ platform, reason: status.message });
+        return;
+      }
+
+      const rule = USERNAME_RULES[platform] || DEFAULT_USERNAME_RULE;
+      const probes = variants.filter(variant => rule.test(variant.username));
+      // Probe one variant at a time so a platform's own rate limit is seen before
+      // the rest are sent, and stop at the first failure, keeping earlier answers
+      for (const variant of probes) {
+        try {
+          if (await this.probe(connector, variant.username)) found.push({ platform, variant });
+        } catch (error) {
+          const platformError = PlatformError.from(error, platform);
+          log(`Username discovery on ${platform} stopped: ${platformError.message}`, 'username-discovery');
+          skippedPlatforms.push({ platform, reason: platformError.userMessage });
+          break;
+        }
+      }
+    }));
+
+    // A variant held on several platforms is more likely a deliberate handle
+    const platformsPerVariant = new Map<string, number>();
+    for (const { variant } of found) {
+      platformsPerVariant.set(variant.username, (platformsPerVariant.get(variant.username) || 0) + 1);
+    }
+
+    const candidates: DiscoveredAccount[] = found.map(({ platform, variant }) => ({
+      platform,
+      username: variant.username,
+      reason: variant.reason,
+      confidence: Math.round(Math.min(0.99,
+        variant.likelihood + CROSS_PLATFORM_BONUS * ((platformsPerVariant.get(variant.username) || 1) - 1)
+      ) * 100) / 100,
+    }));
+    candidates.sort((a, b) => b.confidence - a.confidence || a.platform.localeCompare(b.platform));
+
+    log(`Username discovery for ${query.username}: ${candidates.length} accounts under ${variants.length} variants`, 'username-discovery');
+    return {
+      username: query.username,
+      variants: variants.map(variant => variant.username),
+      candidates,
+      skippedPlatforms,
+    };
+  }
+
+  /**
+   * Derive likely variants of a username, excluding the username itself
+   * @param username The searched username
+   * @param displayName Name shown on a profile, if known
+   * @returns Up to MAX_VARIANTS variants, most likely first
+   */
+  public generateVariants(username: string, displayName?: string): UsernameVariant[] {
+    const base = username.trim().replace(/^@/, '').replace(/^\/?u\//, '').toLowerCase();
+    const variants = new Map<string, UsernameVariant>();
+    const add = (candidate: string, reason: string, likelihood: number) => {
+      if (!candidate || candidate === base) return;
+      const existing = variants.get(candidate);
+      if (!existing || existing.likelihood < likelihood) {
+        variants.set(candidate, { username: candidate, reason, likelihood });
+      }
+    };
+
+    // Split "john_doe92" or "JohnDoe92" into words and a trailing number
+    const words = username.trim().replace(/^@/, '').replace(/^\/?u\//, '')
+      .replace(/([a-z])([A-Z])/g, '$1 $2')
+      .replace(/([a-zA-Z])(\d+)$/, '$1 $2')
+      .toLowerCase()
+      .split(/[^a-z0-9]+/)
+      .filter(word => word.length > 0);
+    const digits = words.length > 1 && /^\d+$/.test(words[words.length - 1]) ? words.pop()! : '';
+
+    for (const separator of ['', '_', '.', '-']) {
+      add(words.join(separator) + digits, 'Same name with different separators', 0.8);
+      if (digits) add(words.join(separator), 'Without the trailing number', 0.65);
+    }
+    if (words.length >= 2) {
+      const first = words[0];
+      const last = words[words.length - 1];
+      add(first.charAt(0) + last + digits, 'First initial and last name', 0.45);
+      add(first + last.charAt(0) + digits, 'First name and last initial', 0.35);
+    }
+
+    // A display name like "John Doe" suggests handles built from the real name
+    const nameWords = (displayName || '').toLowerCase().split(/[^a-z]+/).filter(word => word.length > 0);
+    if (nameWords.length >= 2) {
+      const first = nameWords[0];
+      const last = nameWords[nameWords.length - 1];
+      for (const separator of ['', '_', '.']) {
+        add(first + separator + last, 'First and last name from the display name', 0.6);
+        if (digits) add(first + separator + last + digits, 'Display name with the username\'s number', 0.55);
+      }
+      add(first.charAt(0) + last, 'Initial and last name from the display name', 0.4);
+    }
+
+    return Array.from(variants.values())
+      .sort((a, b) => b.likelihood - a.likelihood)
+      .slice(0, MAX_VARIANTS);
+  }
+
+  /**
+   * Check one username on one platform, through the cache and rate limiter.
+   * Errors propagate uncached, so only a definite answer is remembered.
+   */
+  private async probe(connector: PlatformConnector, username: string): Promise<boolean> {
+    const cacheKey = `${connector.platform}:${username}`;
+    const cached = cacheService.usernameExists.get(cacheKey);
+    if (cached !== null) return cached;
+
+    const exists = await rateLimiters.general.schedule({
+      execute: () => connector.checkUsernameExists!(username),
+      platform: connector.platform,
+      username,
+      priority: PROBE_PRIORITY,
+    });
+    cacheService.usernameExists.set(cacheKey, exists);
+    return exists;
+  }
+}
+
+export const usernameDiscovery = new UsernameDiscoveryService();
@@ -3,13 +3,38 @@ import {
   SearchQuery, SearchHistory, InsertSearchHistory,
   DigitalFootprint, InsertDigitalFootprint,
   DeletionRequest, InsertDeletionRequest,
-  Platform, PlatformData, DigitalFootprintResponse,
-  PlatformUsername, subscriptionPlansData
+  Platform, PlatformData, DigitalFootprintResponse, FootprintSummary, PlatformErrorInfo,
+  PlatformUsername, subscriptionPlansData,
+  WatchedIdentity, InsertWatchedIdentity,
+  MonitoringAlert, InsertMonitoringAlert,
+  ArchiveImport, InsertArchiveImport,
+  PlatformConnection, InsertPlatformConnection,
+  UserSubscription, InsertUserSubscription,
+  DeletionPolicy, InsertDeletionPolicy,
+  users, searchHistory, digitalFootprints, deletionRequests, subscriptionPlans, userSubscriptions,
+  watchedIdentities, monitoringAlerts, archiveImports, platformConnections, deletionPolicies
 } from "@shared/schema";
 import session from 'express-session';
 import createMemoryStore from 'memorystore';
+import connectPg from 'connect-pg-simple';
+import { and, asc, desc, eq, inArray } from 'drizzle-orm';
+import { getDb, getPool } from './db';
+import { PlatformError } from './services/platform-errors';
+import { exposureScoring } from './services/exposure-score';
+import { identityLinkage } from './services/identity-linkage';
+import { insightGenerator } from './services/insight-generator';
+import { locationInference } from './services/location-inference';
+import { topicExtractor } from './services/topic-extractor';
 
 const MemoryStore = createMemoryStore(session);
+// Cast needed because server/types.d.ts redeclares the express-session module
+const PostgresSessionStore = connectPg(session as any);
+
+// Fields of a watched identity that can change after it is created
+export type WatchedIdentityUpdate = Partial<Omit<WatchedIdentity, "id" | "userId" | "createdAt">>;
+
+// Fields of a deletion policy that can change after it is created
+export type DeletionPolicyUpdate = Partial<Omit<DeletionPolicy, "id" | "userId" | "createdAt">>;
 
 // Interface for all storage operations
 export interface IStorage {
@@ -24,192 +49,90 @@ export interface IStorage {
   // Search history operations
   saveSearch(search: InsertSearchHistory): Promise<SearchHistory>;
   getSearchHistoryByUser(userId: number): Promise<SearchHistory[]>;
+  getSearchById(id: number): Promise<SearchHistory | undefined>;
   
   // Digital footprint operations
   saveDigitalFootprint(footprint: InsertDigitalFootprint): Promise<DigitalFootprint>;
   getDigitalFootprintById(id: number): Promise<DigitalFootprint | undefined>;
   getDigitalFootprintsByUsername(username: string): Promise<DigitalFootprint[]>;
+  getDigitalFootprintsBySearchId(searchId: number): Promise<DigitalFootprint[]>;
   
   // Deletion request operations
   createDeletionRequest(request: InsertDeletionRequest): Promise<DeletionRequest>;
   getDeletionRequestsByUser(userId: number): Promise<DeletionRequest[]>;
+  getDeletionRequestById(id: number): Promise<DeletionRequest | undefined>;
+  // Requests the deletion workflow still has to drive, pending or in progress
+  getActiveDeletionRequests(): Promise<DeletionRequest[]>;
+  updateDeletionRequest(id: number, updates: Partial<Pick<DeletionRequest, 'status' | 'details'>>): Promise<DeletionRequest>;
   
   // Subscription plans
   getSubscriptionPlans(): Promise<typeof subscriptionPlansData>;
+  // A new subscription replaces the user's previous one
+  createUserSubscription(subscription: InsertUserSubscription): Promise<UserSubscription>;
+  getActiveUserSubscription(userId: number): Promise<UserSubscription | undefined>;
+  
+  // Deletion policy operations
+  createDeletionPolicy(policy: InsertDeletionPolicy): Promise<DeletionPolicy>;
+  getDeletionPolicyById(id: number): Promise<DeletionPolicy | undefined>;
+  getDeletionPoliciesByUser(userId: number): Promise<DeletionPolicy[]>;
+  updateDeletionPolicy(id: number, updates: DeletionPolicyUpdate): Promise<DeletionPolicy>;
+  deleteDeletionPolicy(id: number): Promise<void>;
+  
+  // Monitoring operations
+  createWatchedIdentity(identity: InsertWatchedIdentity): Promise<WatchedIdentity>;
+  getWatchedIdentityById(id: number): Promise<WatchedIdentity | undefined>;
+  getWatchedIdentitiesByUser(userId: number): Promise<WatchedIdentity[]>;
+  getActiveWatchedIdentities(): Promise<WatchedIdentity[]>;
+  updateWatchedIdentity(id: number, updates: WatchedIdentityUpdate): Promise<WatchedIdentity>;
+  deleteWatchedIdentity(id: number): Promise<void>;
+  createMonitoringAlert(alert: InsertMonitoringAlert): Promise<MonitoringAlert>;
+  getMonitoringAlertsByUser(userId: number): Promise<MonitoringAlert[]>;
+  markMonitoringAlertRead(id: number): Promise<MonitoringAlert>;
+  
+  // Archive import operations
+  saveArchiveImport(archiveImport: InsertArchiveImport): Promise<ArchiveImport>;
+  getArchiveImportById(id: number): Promise<ArchiveImport | undefined>;
+  getArchiveImportsByUser(userId: number): Promise<ArchiveImport[]>;
+  deleteArchiveImport(id: number): Promise<void>;
+  
+  // Platform connection operations; a user has at most one connection per platform
+  savePlatformConnection(connection: InsertPlatformConnection): Promise<PlatformConnection>;
+  getPlatformConnection(userId: number, platform: Platform): Promise<PlatformConnection | undefined>;
+  getPlatformConnectionsByUser(userId: number): Promise<PlatformConnection[]>;
+  deletePlatformConnection(id: number): Promise<void>;
   
   // Platform data operations
-  fetchPlatformData(username: string, platform: Platform): Promise<PlatformData | null>;
-  aggregateDigitalFootprint(searchQuery: SearchQuery): Promise<DigitalFootprintResponse>;
+  fetchPlatformData(username: string, platform: Platform, options?: { skipCache?: boolean }): Promise<PlatformData | null>;
+  aggregateDigitalFootprint(
+    searchQuery: SearchQuery,
+    onPlatformResult?: (result: PlatformFetchResult) => void,
+    options?: { skipCache?: boolean }
+  ): Promise<DigitalFootprintResponse>;
+  buildSummary(platformData: PlatformData[]): FootprintSummary;
+  getSearchResults(searchId: number): Promise<DigitalFootprintResponse | undefined>;
+  saveSearchResults(search: InsertSearchHistory, result: DigitalFootprintResponse): Promise<SearchHistory>;
   
   // Session store for express-session
   sessionStore: any; // Using any for now to avoid type issues
 }
 
-// In-memory implementation of the storage interface
-export class MemStorage implements IStorage {
-  private users: Map<number, User>;
-  private searches: Map<number, SearchHistory>;
-  private footprints: Map<number, DigitalFootprint>;
-  private deletionRequests: Map<number, DeletionRequest>;
-  
-  private currentUserId: number;
-  private currentSearchId: number;
-  private currentFootprintId: number;
-  private currentRequestId: number;
-  
-  public sessionStore: any; // Memory-based session store
-  
-  constructor() {
-    this.users = new Map();
-    this.searches = new Map();
-    this.footprints = new Map();
-    this.deletionRequests = new Map();
-    
-    this.currentUserId = 1;
-    this.currentSearchId = 1;
-    this.currentFootprintId = 1;
-    this.currentRequestId = 1;
-    
-    // Initialize the memory store for sessions
-    this.sessionStore = new MemoryStore({
-      checkPeriod: 86400000 // prune expired entries every 24h
-    });
-  }
-  
-  // User operations
-  async getUser(id: number): Promise<User | undefined> {
-    return this.users.get(id);
-  }
-  
-  async getUserByUsername(username: string): Promise<User | undefined> {
-    return Array.from(this.users.values()).find(
-      (user) => user.username === username
-    );
-  }
-  
-  async createUser(insertUser: InsertUser): Promise<User> {
-    const id = this.currentUserId++;
-    const createdAt = new Date();
-    const user: User = { 
-      ...insertUser, 
-      id, 
-      createdAt,
-      stripeCustomerId: null, 
-      stripeSubscriptionId: null 
-    };
-    this.users.set(id, user);
-    return user;
-  }
-  
-  async updateStripeCustomerId(userId: number, customerId: string): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      throw new Error(`User with id ${userId} not found`);
-    }
-    
-    const updatedUser = { ...user, stripeCustomerId: customerId };
-    this.users.set(userId, updatedUser);
-    return updatedUser;
-  }
-  
-  async updateStripeSubscriptionId(userId: number, subscriptionId: string): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      throw new Error(`User with id ${userId} not found`);
-    }
-    
-    const updatedUser = { ...user, stripeSubscriptionId: subscriptionId };
-    this.users.set(userId, updatedUser);
-    return updatedUser;
-  }
-  
-  async updateUserStripeInfo(userId: number, info: { customerId: string, subscriptionId: string }): Promise<User> {
-    const user = await this.getUser(userId);
-    if (!user) {
-      throw new Error(`User with id ${userId} not found`);
-    }
-    
-    const updatedUser = { 
-      ...user, 
-      stripeCustomerId: info.customerId,
-      stripeSubscriptionId: info.subscriptionId 
-    };
-    this.users.set(userId, updatedUser);
-    return updatedUser;
-  }
-  
-  // Search history operations
-  async saveSearch(search: InsertSearchHistory): Promise<SearchHistory> {
-    const id = this.currentSearchId++;
-    const timestamp = new Date();
-    const newSearch: SearchHistory = { 
-      ...search, 
-      id, 
-      timestamp,
-      userId: search.userId || null,
-    };
-    this.searches.set(id, newSearch);
-    return newSearch;
-  }
-  
-  async getSearchHistoryByUser(userId: number): Promise<SearchHistory[]> {
-    return Array.from(this.searches.values()).filter(
-      (search) => search.userId === userId
-    );
-  }
-  
-  // Digital footprint operations
-  async saveDigitalFootprint(footprint: InsertDigitalFootprint): Promise<DigitalFootprint> {
-    const id = this.currentFootprintId++;
-    const timestamp = new Date();
-    const newFootprint: DigitalFootprint = { 
-      ...footprint, 
-      id, 
-      timestamp,
-      searchId: footprint.searchId || null 
-    };
-    this.footprints.set(id, newFootprint);
-    return newFootprint;
-  }
-  
-  async getDigitalFootprintById(id: number): Promise<DigitalFootprint | undefined> {
-    return this.footprints.get(id);
-  }
-  
-  async getDigitalFootprintsByUsername(username: string): Promise<DigitalFootprint[]> {
-    return Array.from(this.footprints.values()).filter(
-      (footprint) => footprint.username === username
-    );
-  }
-  
-  // Deletion request operations
-  async createDeletionRequest(request: InsertDeletionRequest): Promise<DeletionRequest> {
-    const id = this.currentRequestId++;
-    const timestamp = new Date();
-    const newRequest: DeletionRequest = { 
-      ...request, 
-      id, 
-      status: "pending", 
-      timestamp,
-      userId: request.userId || null
-    };
-    this.deletionRequests.set(id, newRequest);
-    return newRequest;
-  }
-  
-  async getDeletionRequestsByUser(userId: number): Promise<DeletionRequest[]> {
-    return Array.from(this.deletionRequests.values()).filter(
-      (request) => request.userId === userId
-    );
-  }
-  
-  // Subscription plans
-  async getSubscriptionPlans() {
-    return subscriptionPlansData;
-  }
+// Outcome of fetching one platform during a search
+export interface PlatformFetchResult {
+  platform: Platform;
+  data: PlatformData | null;
+  error?: PlatformErrorInfo;
+}
+
+// Shared platform data operations used by every storage backend
+export abstract class BaseStorage {
+  // Persistence operations each backend must provide for the shared logic below
+  abstract saveSearch(search: InsertSearchHistory): Promise<SearchHistory>;
+  abstract getSearchById(id: number): Promise<SearchHistory | undefined>;
+  abstract saveDigitalFootprint(footprint: InsertDigitalFootprint): Promise<DigitalFootprint>;
+  abstract getDigitalFootprintsBySearchId(searchId: number): Promise<DigitalFootprint[]>;
   
   // Platform data operations using our specialized API service
-  async fetchPlatformData(username: string, platform: Platform): Promise<PlatformData | null> {
+  async fetchPlatformData(username: string, platform: Platform, options: { skipCache?: boolean } = {}): Promise<PlatformData | null> {
     try {
       console.log(`Fetching platform data for ${username} on ${platform}`);
       
@@ -218,11 +141,11 @@ export class MemStorage implements IStorage {
       
       if (platform === "all") {
         // Special case for "all" platform - return overview data
-        return this.getAggregateData(username);
+        return exposureScoring.applyTo(topicExtractor.applyTo(await this.getAggregateData(username)));
       }
       
       // For specific platforms, use the API integration service
-      const result = await platformApi.fetchUserData(platform, username);
+      const result = await platformApi.fetchUserData(platform, username, options);
       
       // Log the result for debugging
       if (result) {
@@ -235,14 +158,9 @@ export class MemStorage implements IStorage {
     } catch (error: any) {
       console.error(`Error fetching platform data for ${username} on ${platform}:`, error);
       
-      // Important: Rethrow specific error types to be handled by the aggregateDigitalFootprint method
+      // Important: Rethrow platform errors to be handled by the aggregateDigitalFootprint method
       // This ensures privacy errors, rate limiting and other expected errors are properly communicated to the client
-      if (error.message && (
-        error.message.includes('PRIVACY_ERROR') || 
-        error.message.includes('AUTH_ERROR') || 
-        error.message.includes('RATE_LIMITED') ||
-        error.message.includes('NOT_FOUND')
-      )) {
+      if (error instanceof PlatformError) {
         throw error;
       }
       
@@ -292,14 +210,14 @@ export class MemStorage implements IStorage {
         topics: ["digital footprint", "privacy", "online presence", "data security"].slice(0, Math.floor(Math.random() * 3) + 1),
       })),
       privacyMetrics: {
-        exposureScore: Math.floor(Math.random() * 30) + 50,
+        exposureScore: 0, // Scored by the exposure score engine
         dataCategories: [
           { category: "Cross-Platform Information", severity: "high" },
           { category: "Aggregate Activity Patterns", severity: "medium" },
           { category: "Digital Identity", severity: "medium" }
         ],
+        // Cross-platform linkage is analyzed from the real accounts in the search summary
         potentialConcerns: [
-          { issue: "Digital identity linkage across platforms", risk: "high" },
           { issue: "Comprehensive profile building possible", risk: "medium" }
         ],
         recommendedActions: [
@@ -310,13 +228,8 @@ export class MemStorage implements IStorage {
         ]
       },
       analysisResults: {
-        exposureScore: Math.floor(Math.random() * 30) + 50,
-        topTopics: [
-          { topic: "Technology", percentage: 0.45 },
-          { topic: "Privacy", percentage: 0.25 },
-          { topic: "Digital Life", percentage: 0.15 },
-          { topic: "Social", percentage: 0.15 },
-        ],
+        exposureScore: 0, // Scored by the exposure score engine
+        topTopics: [], // Extracted from the content by the topic extractor
         activityTimeline: Array.from({ length: 12 }, (_, i) => ({
           period: `2023-${(i + 1).toString().padStart(2, '0')}`,
           count: Math.floor(Math.random() * 30) + 5,
@@ -327,11 +240,6 @@ export class MemStorage implements IStorage {
           negative: 0.1,
         },
         privacyConcerns: [
-          {
-            type: "Cross-Platform Exposure",
-            description: "Your identity can be tracked across multiple platforms",
-            severity: "high",
-          },
           {
             type: "Digital Footprint",
             description: "Significant online presence with consistent activity patterns",
@@ -342,164 +250,77 @@ export class MemStorage implements IStorage {
     };
   }
   
-  async aggregateDigitalFootprint(searchQuery: SearchQuery): Promise<DigitalFootprintResponse> {
-    // In a production environment, this would fetch real data from platforms
-    const platformsToFetch = searchQuery.platforms.includes("all") 
-      ? ["instagram", "facebook", "reddit", "twitter", "linkedin"] as Platform[]
-      : searchQuery.platforms;
-    
-    // Determine which username to use for each platform and track any errors
-    // Initialize platformErrors as an empty object, not undefined
-    const platformErrors: Record<string, string> = {};
+  /**
+   * Fetch one platform, capturing any platform error instead of throwing
+   * @param username Username on the platform
+   * @param platform The platform to fetch
+   * @param options.skipCache Fetch fresh data even if a cached copy exists
+   */
+  private async fetchPlatformResult(
+    username: string,
+    platform: Platform,
+    options: { skipCache?: boolean }
+  ): Promise<PlatformFetchResult> {
+    try {
+      return { platform, data: await this.fetchPlatformData(username, platform, options) };
+    } catch (error) {
+      const platformError = PlatformError.from(error, platform);
+      console.log(`Adding ${platform} error for ${username}: ${platformError.message}`);
+      
+      // Return null for this platform since we encountered an error
+      return { platform, data: null, error: platformError.toJSON() };
+    }
+  }
+  
+  /**
+   * Fetch every requested platform and aggregate the results
+   * @param searchQuery The search to run
+   * @param onPlatformResult Called as soon as each platform finishes
+   * @param options.skipCache Fetch fresh data from every platform even if cached copies exist
+   * @returns The aggregated digital footprint
+   */
+  async aggregateDigitalFootprint(
+    searchQuery: SearchQuery,
+    onPlatformResult?: (result: PlatformFetchResult) => void,
+    options: { skipCache?: boolean } = {}
+  ): Promise<DigitalFootprintResponse> {
+    // "all" expands to every platform with a registered connector
+    const { platformApi } = await import('./services/platform-api');
+    const platformsToFetch = platformApi.expandPlatforms(searchQuery.platforms);
     
-    // Use Promise.allSettled to handle both successful and failed promises
-    const platformDataPromises = platformsToFetch.map(platform => {
-      // Create a promise that includes the platform information
-      return new Promise<{platform: Platform, data: PlatformData | null}>((resolve) => {
-        let username = '';
-        
-        // Check if we have a platform-specific username
-        if (searchQuery.platformUsernames) {
-          const platformUsername = searchQuery.platformUsernames.find(
-            (pu: { platform: Platform, username: string }) => pu.platform === platform
-          );
-          if (platformUsername) {
-            username = platformUsername.username;
-            
-            // Use the platform-specific username if available
-            this.fetchPlatformData(username, platform)
-              .then(data => resolve({platform, data}))
-              .catch((error: any) => {
-                // Catch specific errors and add them to platformErrors
-                if (error.message) {
-                  console.log(`Adding ${platform} error for ${username}: ${error.message}`);
-                  
-                  if (error.message.includes('PRIVACY_ERROR')) {
-                    platformErrors[platform] = `The ${platform} user ${username} has a private account or is blocking data access.`;
-                  } else if (error.message.includes('NOT_FOUND')) {
-                    platformErrors[platform] = `Username ${username} not found on ${platform}.`;
-                  } else if (error.message.includes('RATE_LIMITED')) {
-                    platformErrors[platform] = `${platform} API rate limit exceeded. Please try again later.`;
-                  } else if (error.message.includes('AUTH_ERROR')) {
-                    platformErrors[platform] = `${platform} API authentication error.`;
-                  } else {
-                    platformErrors[platform] = `Error accessing ${platform} data: ${error.message}`;
-                  }
-                  
-                  // Log the accumulated errors after each addition
-                  console.log(`Current platform errors: ${JSON.stringify(platformErrors)}`);
-                }
-                
-                // Return null for this platform since we encountered an error
-                resolve({platform, data: null});
-              });
-            return;
-          }
-        }
-        
-        // Fall back to the global username
-        if (searchQuery.username) {
-          username = searchQuery.username;
-          
-          this.fetchPlatformData(username, platform)
-            .then(data => resolve({platform, data}))
-            .catch((error: any) => {
-              // Catch specific errors and add them to platformErrors
-              if (error.message) {
-                console.log(`Adding ${platform} error for ${username}: ${error.message}`);
-                
-                if (error.message.includes('PRIVACY_ERROR')) {
-                  platformErrors[platform] = `The ${platform} user ${username} has a private account or is blocking data access.`;
-                } else if (error.message.includes('NOT_FOUND')) {
-                  platformErrors[platform] = `Username ${username} not found on ${platform}.`;
-                } else if (error.message.includes('RATE_LIMITED')) {
-                  platformErrors[platform] = `${platform} API rate limit exceeded. Please try again later.`;
-                } else if (error.message.includes('AUTH_ERROR')) {
-                  platformErrors[platform] = `${platform} API authentication error.`;
-                } else {
-                  platformErrors[platform] = `Error accessing ${platform} data: ${error.message}`;
-                }
-                
-                // Log the accumulated errors after each addition
-                console.log(`Current platform errors: ${JSON.stringify(platformErrors)}`);
-              }
-              
-              // Return null for this platform since we encountered an error
-              resolve({platform, data: null});
-            });
-          return;
-        }
-        
-        // If no username is available for this platform, return null
-        resolve({platform, data: null});
-      });
+    const platformDataPromises = platformsToFetch.map(async platform => {
+      // Use the platform-specific username if available, otherwise the global username
+      const platformUsername = searchQuery.platformUsernames?.find(
+        (pu: { platform: Platform, username: string }) => pu.platform === platform
+      );
+      const username = platformUsername ? platformUsername.username : searchQuery.username;
+      
+      // If no username is available for this platform, return null
+      const result: PlatformFetchResult = username
+        ? await this.fetchPlatformResult(username, platform, options)
+        : { platform, data: null };
+      
+      onPlatformResult?.(result);
+      return result;
     });
     
     // Wait for all platform data fetches to complete (both successful and failed)
     const platformDataResults = await Promise.all(platformDataPromises);
     
+    // Track the error of every platform that failed
+    // Initialize platformErrors as an empty object, not undefined
+    const platformErrors: Record<string, PlatformErrorInfo> = {};
+    for (const result of platformDataResults) {
+      if (result.error) {
+        platformErrors[result.platform] = result.error;
+      }
+    }
+    
     // Extract just the data from the results
     const validPlatformData = platformDataResults
       .map(result => result.data)
       .filter(result => result !== null) as PlatformData[];
     
-    // Calculate aggregated statistics
-    let totalPosts = 0;
-    let totalComments = 0;
-    let totalLikes = 0;
-    let totalShares = 0;
-    let totalExposureScore = 0;
-    
-    validPlatformData.forEach(data => {
-      if (data.activityData) {
-        totalPosts += data.activityData.totalPosts || 0;
-        totalComments += data.activityData.totalComments || 0;
-        totalLikes += data.activityData.totalLikes || 0;
-        totalShares += data.activityData.totalShares || 0;
-      }
-      if (data.analysisResults) {
-        totalExposureScore += data.analysisResults.exposureScore;
-      }
-    });
-    
-    // Calculate average exposure score
-    const averageExposureScore = Math.round(
-      validPlatformData.length > 0 ? totalExposureScore / validPlatformData.length : 0
-    );
-    
-    // Generate summary insights
-    const insights = [
-      {
-        insight: `Most active on ${validPlatformData[0]?.platformId || "platforms"} with ${totalComments} comments across various topics.`,
-        type: "info" as const,
-      },
-      {
-        insight: "Content primarily focuses on technology, programming, and gaming topics with occasional posts about travel.",
-        type: "info" as const,
-      },
-      {
-        insight: "Peak activity occurs during evenings (8-11pm) and weekends, with consistent posting patterns since 2018.",
-        type: "info" as const,
-      },
-      {
-        insight: "Tone analysis indicates predominantly neutral and informative communication style with occasional technical advice.",
-        type: "info" as const,
-      },
-      {
-        insight: "Potential personal information disclosed includes general location (San Francisco area), profession (software developer), and technical skillset.",
-        type: "warning" as const,
-      },
-    ];
-    
-    // Generate recommendations
-    const recommendations = [
-      "Review and update privacy settings on all platforms",
-      "Consider removing location data from public profiles",
-      "Check third-party app permissions that may have access to your accounts",
-      "Set up alerts for new mentions of your username across platforms",
-      "Regularly audit and clean up old posts and comments",
-    ];
-    
     // Create the aggregated response
     // Use the global username for the response, or create a composite username if only platform-specific ones exist
     const responseUsername = searchQuery.username || 
@@ -510,7 +331,6 @@ export class MemStorage implements IStorage {
         
     // Check platform status for APIs that didn't return data
     try {
-      const { platformApi } = await import('./services/platform-api');
       const platformStatus = await platformApi.getPlatformStatus();
       
       // Additional API-status related errors (we already have platform-specific errors from above)
@@ -520,15 +340,16 @@ export class MemStorage implements IStorage {
         const twitterStatus = platformStatus.twitter as unknown as { 
           configured: boolean; 
           operational: boolean; 
+          rateLimited?: boolean;
           message: string 
         };
         
         // Log Twitter API status for debugging
         console.log("Twitter API status check during response creation:", twitterStatus);
         
-        // If Twitter API credentials are configured but not operational or contains an error message, add error
-        if (twitterStatus.message && twitterStatus.message !== 'Twitter API configured and operational.') {
-          platformErrors.twitter = twitterStatus.message;
+        // If Twitter API credentials are not configured or not operational, add error
+        if (twitterStatus.configured === false || twitterStatus.operational === false) {
+          platformErrors.twitter = PlatformError.fromStatus('twitter', twitterStatus).toJSON();
           console.log("Adding Twitter error to response:", twitterStatus.message);
         }
       }
@@ -546,7 +367,7 @@ export class MemStorage implements IStorage {
         
         // If Instagram API is not available or configured, add error message
         if ((instagramStatus.available === false || instagramStatus.configured === false) && instagramStatus.message) {
-          platformErrors.instagram = instagramStatus.message;
+          platformErrors.instagram = PlatformError.fromStatus('instagram', instagramStatus).toJSON();
           console.log("Adding Instagram error to response:", instagramStatus.message);
         }
       }
@@ -565,7 +386,7 @@ export class MemStorage implements IStorage {
         if (instagramOAuthStatus.configured === false && instagramOAuthStatus.message) {
           // Only add this if we don't already have an Instagram error
           if (!platformErrors.instagram) {
-            platformErrors.instagram = instagramOAuthStatus.message;
+            platformErrors.instagram = PlatformError.fromStatus('instagram', instagramOAuthStatus).toJSON();
             console.log("Adding Instagram OAuth error to response:", instagramOAuthStatus.message);
           }
         }
@@ -578,19 +399,7 @@ export class MemStorage implements IStorage {
         platforms: platformsToFetch,
         platformData: validPlatformData,
         platformErrors: Object.keys(platformErrors).length > 0 ? platformErrors : {},
-        summary: {
-          exposureScore: averageExposureScore,
-          platformsFound: validPlatformData.length,
-          totalContentItems: totalPosts + totalComments + totalLikes + totalShares,
-          breakdownByType: {
-            posts: totalPosts,
-            comments: totalComments,
-            likes: totalLikes,
-            shares: totalShares,
-          },
-          topInsights: insights,
-          recommendations,
-        },
+        summary: this.buildSummary(validPlatformData),
       };
       
       // Log if platform errors were added to the response
@@ -609,25 +418,914 @@ export class MemStorage implements IStorage {
         platforms: platformsToFetch,
         platformData: validPlatformData,
         platformErrors: Object.keys(platformErrors).length > 0 ? platformErrors : {},
-        summary: {
-          exposureScore: averageExposureScore,
-          platformsFound: validPlatformData.length,
-          totalContentItems: totalPosts + totalComments + totalLikes + totalShares,
-          breakdownByType: {
-            posts: totalPosts,
-            comments: totalComments,
-            likes: totalLikes,
-            shares: totalShares,
-          },
-          topInsights: insights,
-          recommendations,
-        },
+        summary: this.buildSummary(validPlatformData),
       };
     
       return response;
     }
   }
+  /**
+   * Build the cross-platform summary for a set of platform results
+   * @param validPlatformData Platform data that was successfully fetched
+   * @returns Summary section of the digital footprint response
+   */
+  buildSummary(validPlatformData: PlatformData[]): FootprintSummary {
+    // Calculate aggregated statistics
+    let totalPosts = 0;
+    let totalComments = 0;
+    let totalLikes = 0;
+    let totalShares = 0;
+    
+    validPlatformData.forEach(data => {
+      if (data.activityData) {
+        totalPosts += data.activityData.totalPosts || 0;
+        totalComments += data.activityData.totalComments || 0;
+        totalLikes += data.activityData.totalLikes || 0;
+        totalShares += data.activityData.totalShares || 0;
+      }
+    });
+    
+    // Work out which of the accounts can be tied to each other
+    const linkage = identityLinkage.analyze(validPlatformData);
+    
+    // Score the footprint as a whole rather than averaging per-platform scores
+    const exposure = exposureScoring.scoreFootprint(validPlatformData, linkage);
+    
+    // Derive insights and recommendations from the platform data
+    const { insights, recommendations } = insightGenerator.generate(validPlatformData, linkage);
+    
+    // Work out where the content places the account holder
+    const locations = locationInference.infer(validPlatformData);
+    
+    // Find topics in the content of all platforms together
+    const topTopics = topicExtractor.extract(validPlatformData.map(data => ({
+      platform: data.platformId,
+      items: data.contentData || [],
+    })));
+    
+    return {
+      exposureScore: exposure.score,
+      exposureBreakdown: exposure.breakdown,
+      platformsFound: validPlatformData.length,
+      totalContentItems: totalPosts + totalComments + totalLikes + totalShares,
+      breakdownByType: {
+        posts: totalPosts,
+        comments: totalComments,
+        likes: totalLikes,
+        shares: totalShares,
+      },
+      topInsights: insights,
+      recommendations,
+      topTopics,
+      identityLinkage: linkage,
+      locationInference: locations,
+    };
+  }
+  
+  /**
+   * Rebuild the response for a previously saved search from its snapshots
+   * @param searchId ID of the search history entry
+   * @returns The stored digital footprint, or undefined if the search does not exist
+   */
+  async getSearchResults(searchId: number): Promise<DigitalFootprintResponse | undefined> {
+    const search = await this.getSearchById(searchId);
+    if (!search) {
+      return undefined;
+    }
+    
+    const footprints = await this.getDigitalFootprintsBySearchId(searchId);
+    const platformData = footprints.map(footprint => footprint.data as PlatformData);
+    
+    return {
+      searchId: search.id,
+      username: search.username,
+      timestamp: search.timestamp.toISOString(),
+      platforms: search.platforms as Platform[],
+      platformData,
+      platformErrors: search.platformErrors ?? {},
+      summary: this.buildSummary(platformData),
+    };
+  }
+  
+  /**
+   * Save a search and the platforms it couldn't reach, along with a snapshot of each platform's data
+   * @param search Search history entry to create
+   * @param result Aggregated results of the search
+   * @returns The saved search history entry
+   */
+  async saveSearchResults(search: InsertSearchHistory, result: DigitalFootprintResponse): Promise<SearchHistory> {
+    const savedSearch = await this.saveSearch({ ...search, platformErrors: result.platformErrors ?? {} });
+    
+    for (const platformData of result.platformData) {
+      await this.saveDigitalFootprint({
+        searchId: savedSearch.id,
+        platform: platformData.platformId,
+        username: platformData.username,
+        data: platformData,
+        analysisResults: platformData.analysisResults ?? {},
+      });
+    }
+    
+    return savedSearch;
+  }
+}
+
+// In-memory implementation of the storage interface
+export class MemStorage extends BaseStorage implements IStorage {
+  private users: Map<number, User>;
+  private searches: Map<number, SearchHistory>;
+  private footprints: Map<number, DigitalFootprint>;
+  private deletionRequests: Map<number, DeletionRequest>;
+  private watchedIdentities: Map<number, WatchedIdentity>;
+  private monitoringAlerts: Map<number, MonitoringAlert>;
+  private archiveImports: Map<number, ArchiveImport>;
+  private platformConnections: Map<number, PlatformConnection>;
+  private userSubscriptions: Map<number, UserSubscription>;
+  private deletionPolicies: Map<number, DeletionPolicy>;
+  
+  private currentUserId: number;
+  private currentSearchId: number;
+  private currentFootprintId: number;
+  private currentRequestId: number;
+  private currentWatchedIdentityId: number;
+  private currentAlertId: number;
+  private currentArchiveImportId: number;
+  private currentConnectionId: number;
+  private currentSubscriptionId: number;
+  private currentPolicyId: number;
+  
+  public sessionStore: any; // Memory-based session store
+  
+  constructor() {
+    super();
+    this.users = new Map();
+    this.searches = new Map();
+    this.footprints = new Map();
+    this.deletionRequests = new Map();
+    this.watchedIdentities = new Map();
+    this.monitoringAlerts = new Map();
+    this.archiveImports = new Map();
+    this.platformConnections = new Map();
+    this.userSubscriptions = new Map();
+    this.deletionPolicies = new Map();
+    
+    this.currentUserId = 1;
+    this.currentSearchId = 1;
+    this.currentFootprintId = 1;
+    this.currentRequestId = 1;
+    this.currentWatchedIdentityId = 1;
+    this.currentAlertId = 1;
+    this.currentArchiveImportId = 1;
+    this.currentConnectionId = 1;
+    this.currentSubscriptionId = 1;
+    this.currentPolicyId = 1;
+    
+    // Initialize the memory store for sessions
+    this.sessionStore = new MemoryStore({
+      checkPeriod: 86400000 // prune expired entries every 24h
+    });
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    return this.users.get(id);
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    return Array.from(this.users.values()).find(
+      (user) => user.username === username
+    );
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const id = this.currentUserId++;
+    const createdAt = new Date();
+    const user: User = { 
+      ...insertUser, 
+      id, 
+      createdAt,
+      stripeCustomerId: null, 
+      stripeSubscriptionId: null 
+    };
+    this.users.set(id, user);
+    return user;
+  }
+  
+  async updateStripeCustomerId(userId: number, customerId: string): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    
+    const updatedUser = { ...user, stripeCustomerId: customerId };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateStripeSubscriptionId(userId: number, subscriptionId: string): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    
+    const updatedUser = { ...user, stripeSubscriptionId: subscriptionId };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  async updateUserStripeInfo(userId: number, info: { customerId: string, subscriptionId: string }): Promise<User> {
+    const user = await this.getUser(userId);
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    
+    const updatedUser = { 
+      ...user, 
+      stripeCustomerId: info.customerId,
+      stripeSubscriptionId: info.subscriptionId 
+    };
+    this.users.set(userId, updatedUser);
+    return updatedUser;
+  }
+  
+  // Search history operations
+  async saveSearch(search: InsertSearchHistory): Promise<SearchHistory> {
+    const id = this.currentSearchId++;
+    const timestamp = new Date();
+    const newSearch: SearchHistory = { 
+      ...search, 
+      id, 
+      timestamp,
+      userId: search.userId || null,
+      platformErrors: search.platformErrors ?? null,
+    };
+    this.searches.set(id, newSearch);
+    return newSearch;
+  }
+  
+  async getSearchHistoryByUser(userId: number): Promise<SearchHistory[]> {
+    return Array.from(this.searches.values()).filter(
+      (search) => search.userId === userId
+    );
+  }
+  
+  async getSearchById(id: number): Promise<SearchHistory | undefined> {
+    return this.searches.get(id);
+  }
+  
+  // Digital footprint operations
+  async saveDigitalFootprint(footprint: InsertDigitalFootprint): Promise<DigitalFootprint> {
+    const id = this.currentFootprintId++;
+    const timestamp = new Date();
+    const newFootprint: DigitalFootprint = { 
+      ...footprint, 
+      id, 
+      timestamp,
+      searchId: footprint.searchId || null 
+    };
+    this.footprints.set(id, newFootprint);
+    return newFootprint;
+  }
+  
+  async getDigitalFootprintById(id: number): Promise<DigitalFootprint | undefined> {
+    return this.footprints.get(id);
+  }
+  
+  async getDigitalFootprintsByUsername(username: string): Promise<DigitalFootprint[]> {
+    return Array.from(this.footprints.values()).filter(
+      (footprint) => footprint.username === username
+    );
+  }
+  
+  async getDigitalFootprintsBySearchId(searchId: number): Promise<DigitalFootprint[]> {
+    return Array.from(this.footprints.values()).filter(
+      (footprint) => footprint.searchId === searchId
+    );
+  }
+  
+  // Deletion request operations
+  async createDeletionRequest(request: InsertDeletionRequest): Promise<DeletionRequest> {
+    const id = this.currentRequestId++;
+    const timestamp = new Date();
+    const newRequest: DeletionRequest = { 
+      ...request, 
+      id, 
+      status: "pending", 
+      timestamp,
+      userId: request.userId || null
+    };
+    this.deletionRequests.set(id, newRequest);
+    return newRequest;
+  }
+  
+  async getDeletionRequestsByUser(userId: number): Promise<DeletionRequest[]> {
+    return Array.from(this.deletionRequests.values()).filter(
+      (request) => request.userId === userId
+    );
+  }
+  
+  async getDeletionRequestById(id: number): Promise<DeletionRequest | undefined> {
+    return this.deletionRequests.get(id);
+  }
+  
+  async getActiveDeletionRequests(): Promise<DeletionRequest[]> {
+    return Array.from(this.deletionRequests.values()).filter(
+      (request) => request.status === "pending" || request.status === "in_progress"
+    );
+  }
+  
+  async updateDeletionRequest(id: number, updates: Partial<Pick<DeletionRequest, 'status' | 'details'>>): Promise<DeletionRequest> {
+    const request = this.deletionRequests.get(id);
+    if (!request) {
+      throw new Error(`Deletion request with id ${id} not found`);
+    }
+    
+    const updatedRequest = { ...request, ...updates };
+    this.deletionRequests.set(id, updatedRequest);
+    return updatedRequest;
+  }
+  
+  // Subscription plans
+  async getSubscriptionPlans() {
+    return subscriptionPlansData;
+  }
+  
+  async createUserSubscription(subscription: InsertUserSubscription): Promise<UserSubscription> {
+    Array.from(this.userSubscriptions.values())
+      .filter((existing) => existing.userId === subscription.userId && existing.active)
+      .forEach((existing) => this.userSubscriptions.set(existing.id, { ...existing, active: false, endDate: new Date() }));
+    
+    const id = this.currentSubscriptionId++;
+    const newSubscription: UserSubscription = {
+      id,
+      userId: subscription.userId ?? null,
+      planId: subscription.planId ?? null,
+      startDate: subscription.startDate ?? new Date(),
+      endDate: subscription.endDate ?? null,
+      active: subscription.active ?? true,
+    };
+    this.userSubscriptions.set(id, newSubscription);
+    return newSubscription;
+  }
+  
+  async getActiveUserSubscription(userId: number): Promise<UserSubscription | undefined> {
+    return Array.from(this.userSubscriptions.values()).find(
+      (subscription) => subscription.userId === userId && subscription.active
+    );
+  }
+  
+  // Deletion policy operations
+  async createDeletionPolicy(policy: InsertDeletionPolicy): Promise<DeletionPolicy> {
+    const id = this.currentPolicyId++;
+    const newPolicy: DeletionPolicy = {
+      ...policy,
+      id,
+      active: policy.active ?? true,
+      lastAppliedAt: null,
+      createdAt: new Date(),
+    };
+    this.deletionPolicies.set(id, newPolicy);
+    return newPolicy;
+  }
+  
+  async getDeletionPolicyById(id: number): Promise<DeletionPolicy | undefined> {
+    return this.deletionPolicies.get(id);
+  }
+  
+  async getDeletionPoliciesByUser(userId: number): Promise<DeletionPolicy[]> {
+    return Array.from(this.deletionPolicies.values()).filter(
+      (policy) => policy.userId === userId
+    );
+  }
+  
+  async updateDeletionPolicy(id: number, updates: DeletionPolicyUpdate): Promise<DeletionPolicy> {
+    const policy = this.deletionPolicies.get(id);
+    if (!policy) {
+      throw new Error(`Deletion policy with id ${id} not found`);
+    }
+    
+    const updatedPolicy = { ...policy, ...updates };
+    this.deletionPolicies.set(id, updatedPolicy);
+    return updatedPolicy;
+  }
+  
+  async deleteDeletionPolicy(id: number): Promise<void> {
+    this.deletionPolicies.delete(id);
+  }
+  
+  // Monitoring operations
+  async createWatchedIdentity(identity: InsertWatchedIdentity): Promise<WatchedIdentity> {
+    const id = this.currentWatchedIdentityId++;
+    const newIdentity: WatchedIdentity = {
+      ...identity,
+      id,
+      cadence: identity.cadence ?? "daily",
+      active: identity.active ?? true,
+      lastRunAt: null,
+      lastSearchId: null,
+      createdAt: new Date(),
+    };
+    this.watchedIdentities.set(id, newIdentity);
+    return newIdentity;
+  }
+  
+  async getWatchedIdentityById(id: number): Promise<WatchedIdentity | undefined> {
+    return this.watchedIdentities.get(id);
+  }
+  
+  async getWatchedIdentitiesByUser(userId: number): Promise<WatchedIdentity[]> {
+    return Array.from(this.watchedIdentities.values()).filter(
+      (identity) => identity.userId === userId
+    );
+  }
+  
+  async getActiveWatchedIdentities(): Promise<WatchedIdentity[]> {
+    return Array.from(this.watchedIdentities.values()).filter(
+      (identity) => identity.active
+    );
+  }
+  
+  async updateWatchedIdentity(id: number, updates: WatchedIdentityUpdate): Promise<WatchedIdentity> {
+    const identity = this.watchedIdentities.get(id);
+    if (!identity) {
+      throw new Error(`Watched identity with id ${id} not found`);
+    }
+    
+    const updatedIdentity = { ...identity, ...updates };
+    this.watchedIdentities.set(id, updatedIdentity);
+    return updatedIdentity;
+  }
+  
+  async deleteWatchedIdentity(id: number): Promise<void> {
+    this.watchedIdentities.delete(id);
+    
+    // Alerts belong to the identity that raised them
+    Array.from(this.monitoringAlerts.values())
+      .filter((alert) => alert.watchedIdentityId === id)
+      .forEach((alert) => this.monitoringAlerts.delete(alert.id));
+  }
+  
+  async createMonitoringAlert(alert: InsertMonitoringAlert): Promise<MonitoringAlert> {
+    const id = this.currentAlertId++;
+    const newAlert: MonitoringAlert = {
+      ...alert,
+      id,
+      searchId: alert.searchId ?? null,
+      read: false,
+      createdAt: new Date(),
+    };
+    this.monitoringAlerts.set(id, newAlert);
+    return newAlert;
+  }
+  
+  async getMonitoringAlertsByUser(userId: number): Promise<MonitoringAlert[]> {
+    return Array.from(this.monitoringAlerts.values())
+      .filter((alert) => alert.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async markMonitoringAlertRead(id: number): Promise<MonitoringAlert> {
+    const alert = this.monitoringAlerts.get(id);
+    if (!alert) {
+      throw new Error(`Monitoring alert with id ${id} not found`);
+    }
+    
+    const updatedAlert = { ...alert, read: true };
+    this.monitoringAlerts.set(id, updatedAlert);
+    return updatedAlert;
+  }
+  
+  // Archive import operations
+  async saveArchiveImport(archiveImport: InsertArchiveImport): Promise<ArchiveImport> {
+    const id = this.currentArchiveImportId++;
+    const newImport: ArchiveImport = {
+      ...archiveImport,
+      id,
+      importedAt: new Date(),
+    };
+    this.archiveImports.set(id, newImport);
+    return newImport;
+  }
+  
+  async getArchiveImportById(id: number): Promise<ArchiveImport | undefined> {
+    return this.archiveImports.get(id);
+  }
+  
+  async getArchiveImportsByUser(userId: number): Promise<ArchiveImport[]> {
+    return Array.from(this.archiveImports.values())
+      .filter((archiveImport) => archiveImport.userId === userId)
+      .sort((a, b) => b.id - a.id);
+  }
+  
+  async deleteArchiveImport(id: number): Promise<void> {
+    this.archiveImports.delete(id);
+  }
+  
+  // Platform connection operations
+  async savePlatformConnection(connection: InsertPlatformConnection): Promise<PlatformConnection> {
+    // Reconnecting replaces the previous connection
+    const existing = await this.getPlatformConnection(connection.userId, connection.platform);
+    const id = existing?.id ?? this.currentConnectionId++;
+    const saved: PlatformConnection = {
+      ...connection,
+      id,
+      refreshToken: connection.refreshToken ?? null,
+      expiresAt: connection.expiresAt ?? null,
+      connectedAt: connection.connectedAt ?? new Date(),
+    };
+    this.platformConnections.set(id, saved);
+    return saved;
+  }
+  
+  async getPlatformConnection(userId: number, platform: Platform): Promise<PlatformConnection | undefined> {
+    return Array.from(this.platformConnections.values()).find(
+      (connection) => connection.userId === userId && connection.platform === platform
+    );
+  }
+  
+  async getPlatformConnectionsByUser(userId: number): Promise<PlatformConnection[]> {
+    return Array.from(this.platformConnections.values()).filter(
+      (connection) => connection.userId === userId
+    );
+  }
+  
+  async deletePlatformConnection(id: number): Promise<void> {
+    this.platformConnections.delete(id);
+  }
+}
+
+// Postgres implementation of the storage interface backed by Drizzle
+export class DatabaseStorage extends BaseStorage implements IStorage {
+  public sessionStore: any; // Postgres-backed session store
+  
+  constructor() {
+    super();
+    
+    // Sessions live in the same database so logins survive restarts
+    this.sessionStore = new PostgresSessionStore({
+      pool: getPool(),
+      createTableIfMissing: true
+    });
+  }
+  
+  // User operations
+  async getUser(id: number): Promise<User | undefined> {
+    const [user] = await getDb().select().from(users).where(eq(users.id, id));
+    return user;
+  }
+  
+  async getUserByUsername(username: string): Promise<User | undefined> {
+    const [user] = await getDb().select().from(users).where(eq(users.username, username));
+    return user;
+  }
+  
+  async createUser(insertUser: InsertUser): Promise<User> {
+    const [user] = await getDb().insert(users).values(insertUser).returning();
+    return user;
+  }
+  
+  async updateStripeCustomerId(userId: number, customerId: string): Promise<User> {
+    return this.updateUser(userId, { stripeCustomerId: customerId });
+  }
+  
+  async updateStripeSubscriptionId(userId: number, subscriptionId: string): Promise<User> {
+    return this.updateUser(userId, { stripeSubscriptionId: subscriptionId });
+  }
+  
+  async updateUserStripeInfo(userId: number, info: { customerId: string, subscriptionId: string }): Promise<User> {
+    return this.updateUser(userId, {
+      stripeCustomerId: info.customerId,
+      stripeSubscriptionId: info.subscriptionId
+    });
+  }
+  
+  private async updateUser(userId: number, values: Partial<User>): Promise<User> {
+    const [user] = await getDb()
+      .update(users)
+      .set(values)
+      .where(eq(users.id, userId))
+      .returning();
+    if (!user) {
+      throw new Error(`User with id ${userId} not found`);
+    }
+    return user;
+  }
+  
+  // Search history operations
+  async saveSearch(search: InsertSearchHistory): Promise<SearchHistory> {
+    const [newSearch] = await getDb().insert(searchHistory).values(search).returning();
+    return newSearch;
+  }
+  
+  async getSearchHistoryByUser(userId: number): Promise<SearchHistory[]> {
+    return getDb()
+      .select()
+      .from(searchHistory)
+      .where(eq(searchHistory.userId, userId))
+      .orderBy(asc(searchHistory.id));
+  }
+  
+  async getSearchById(id: number): Promise<SearchHistory | undefined> {
+    const [search] = await getDb().select().from(searchHistory).where(eq(searchHistory.id, id));
+    return search;
+  }
+  
+  // Digital footprint operations
+  async saveDigitalFootprint(footprint: InsertDigitalFootprint): Promise<DigitalFootprint> {
+    const [newFootprint] = await getDb().insert(digitalFootprints).values(footprint).returning();
+    return newFootprint;
+  }
+  
+  async getDigitalFootprintById(id: number): Promise<DigitalFootprint | undefined> {
+    const [footprint] = await getDb()
+      .select()
+      .from(digitalFootprints)
+      .where(eq(digitalFootprints.id, id));
+    return footprint;
+  }
+  
+  async getDigitalFootprintsByUsername(username: string): Promise<DigitalFootprint[]> {
+    return getDb()
+      .select()
+      .from(digitalFootprints)
+      .where(eq(digitalFootprints.username, username))
+      .orderBy(asc(digitalFootprints.id));
+  }
+  
+  async getDigitalFootprintsBySearchId(searchId: number): Promise<DigitalFootprint[]> {
+    return getDb()
+      .select()
+      .from(digitalFootprints)
+      .where(eq(digitalFootprints.searchId, searchId))
+      .orderBy(asc(digitalFootprints.id));
+  }
+  
+  // Deletion request operations
+  async createDeletionRequest(request: InsertDeletionRequest): Promise<DeletionRequest> {
+    const [newRequest] = await getDb()
+      .insert(deletionRequests)
+      .values({ ...request, status: "pending" })
+      .returning();
+    return newRequest;
+  }
+  
+  async getDeletionRequestsByUser(userId: number): Promise<DeletionRequest[]> {
+    return getDb()
+      .select()
+      .from(deletionRequests)
+      .where(eq(deletionRequests.userId, userId))
+      .orderBy(asc(deletionRequests.id));
+  }
+  
+  async getDeletionRequestById(id: number): Promise<DeletionRequest | undefined> {
+    const [request] = await getDb().select().from(deletionRequests).where(eq(deletionRequests.id, id));
+    return request;
+  }
+  
+  async getActiveDeletionRequests(): Promise<DeletionRequest[]> {
+    return getDb()
+      .select()
+      .from(deletionRequests)
+      .where(inArray(deletionRequests.status, ["pending", "in_progress"]))
+      .orderBy(asc(deletionRequests.id));
+  }
+  
+  async updateDeletionRequest(id: number, updates: Partial<Pick<DeletionRequest, 'status' | 'details'>>): Promise<DeletionRequest> {
+    const [request] = await getDb()
+      .update(deletionRequests)
+      .set(updates)
+      .where(eq(deletionRequests.id, id))
+      .returning();
+    if (!request) {
+      throw new Error(`Deletion request with id ${id} not found`);
+    }
+    return request;
+  }
+  
+  // Subscription plans
+  async getSubscriptionPlans() {
+    const plans = await getDb().select().from(subscriptionPlans).orderBy(asc(subscriptionPlans.id));
+    if (plans.length > 0) {
+      return plans;
+    }
+    
+    // Seed the default plans the first time they are requested
+    await getDb().insert(subscriptionPlans).values(subscriptionPlansData).onConflictDoNothing();
+    return subscriptionPlansData;
+  }
+  
+  async createUserSubscription(subscription: InsertUserSubscription): Promise<UserSubscription> {
+    if (subscription.userId) {
+      await getDb()
+        .update(userSubscriptions)
+        .set({ active: false, endDate: new Date() })
+        .where(and(eq(userSubscriptions.userId, subscription.userId), eq(userSubscriptions.active, true)));
+    }
+    
+    const [newSubscription] = await getDb().insert(userSubscriptions).values(subscription).returning();
+    return newSubscription;
+  }
+  
+  async getActiveUserSubscription(userId: number): Promise<UserSubscription | undefined> {
+    const [subscription] = await getDb()
+      .select()
+      .from(userSubscriptions)
+      .where(and(eq(userSubscriptions.userId, userId), eq(userSubscriptions.active, true)))
+      .orderBy(desc(userSubscriptions.startDate))
+      .limit(1);
+    return subscription;
+  }
+  
+  // Deletion policy operations
+  async createDeletionPolicy(policy: InsertDeletionPolicy): Promise<DeletionPolicy> {
+    const [newPolicy] = await getDb().insert(deletionPolicies).values(policy).returning();
+    return newPolicy;
+  }
+  
+  async getDeletionPolicyById(id: number): Promise<DeletionPolicy | undefined> {
+    const [policy] = await getDb()
+      .select()
+      .from(deletionPolicies)
+      .where(eq(deletionPolicies.id, id));
+    return policy;
+  }
+  
+  async getDeletionPoliciesByUser(userId: number): Promise<DeletionPolicy[]> {
+    return getDb()
+      .select()
+      .from(deletionPolicies)
+      .where(eq(deletionPolicies.userId, userId))
+      .orderBy(asc(deletionPolicies.id));
+  }
+  
+  async updateDeletionPolicy(id: number, updates: DeletionPolicyUpdate): Promise<DeletionPolicy> {
+    const [policy] = await getDb()
+      .update(deletionPolicies)
+      .set(updates)
+      .where(eq(deletionPolicies.id, id))
+      .returning();
+    if (!policy) {
+      throw new Error(`Deletion policy with id ${id} not found`);
+    }
+    return policy;
+  }
+  
+  async deleteDeletionPolicy(id: number): Promise<void> {
+    await getDb().delete(deletionPolicies).where(eq(deletionPolicies.id, id));
+  }
+  
+  // Monitoring operations
+  async createWatchedIdentity(identity: InsertWatchedIdentity): Promise<WatchedIdentity> {
+    const [newIdentity] = await getDb().insert(watchedIdentities).values(identity).returning();
+    return newIdentity;
+  }
+  
+  async getWatchedIdentityById(id: number): Promise<WatchedIdentity | undefined> {
+    const [identity] = await getDb()
+      .select()
+      .from(watchedIdentities)
+      .where(eq(watchedIdentities.id, id));
+    return identity;
+  }
+  
+  async getWatchedIdentitiesByUser(userId: number): Promise<WatchedIdentity[]> {
+    return getDb()
+      .select()
+      .from(watchedIdentities)
+      .where(eq(watchedIdentities.userId, userId))
+      .orderBy(asc(watchedIdentities.id));
+  }
+  
+  async getActiveWatchedIdentities(): Promise<WatchedIdentity[]> {
+    return getDb()
+      .select()
+      .from(watchedIdentities)
+      .where(eq(watchedIdentities.active, true))
+      .orderBy(asc(watchedIdentities.id));
+  }
+  
+  async updateWatchedIdentity(id: number, updates: WatchedIdentityUpdate): Promise<WatchedIdentity> {
+    const [identity] = await getDb()
+      .update(watchedIdentities)
+      .set(updates)
+      .where(eq(watchedIdentities.id, id))
+      .returning();
+    if (!identity) {
+      throw new Error(`Watched identity with id ${id} not found`);
+    }
+    return identity;
+  }
+  
+  async deleteWatchedIdentity(id: number): Promise<void> {
+    await getDb().delete(watchedIdentities).where(eq(watchedIdentities.id, id));
+  }
+  
+  async createMonitoringAlert(alert: InsertMonitoringAlert): Promise<MonitoringAlert> {
+    const [newAlert] = await getDb().insert(monitoringAlerts).values(alert).returning();
+    return newAlert;
+  }
+  
+  async getMonitoringAlertsByUser(userId: number): Promise<MonitoringAlert[]> {
+    return getDb()
+      .select()
+      .from(monitoringAlerts)
+      .where(eq(monitoringAlerts.userId, userId))
+      .orderBy(desc(monitoringAlerts.id));
+  }
+  
+  async markMonitoringAlertRead(id: number): Promise<MonitoringAlert> {
+    const [alert] = await getDb()
+      .update(monitoringAlerts)
+      .set({ read: true })
+      .where(eq(monitoringAlerts.id, id))
+      .returning();
+    if (!alert) {
+      throw new Error(`Monitoring alert with id ${id} not found`);
+    }
+    return alert;
+  }
+  
+  // Archive import operations
+  async saveArchiveImport(archiveImport: InsertArchiveImport): Promise<ArchiveImport> {
+    const [newImport] = await getDb().insert(archiveImports).values(archiveImport).returning();
+    return newImport;
+  }
+  
+  async getArchiveImportById(id: number): Promise<ArchiveImport | undefined> {
+    const [archiveImport] = await getDb().select().from(archiveImports).where(eq(archiveImports.id, id));
+    return archiveImport;
+  }
+  
+  async getArchiveImportsByUser(userId: number): Promise<ArchiveImport[]> {
+    return getDb()
+      .select()
+      .from(archiveImports)
+      .where(eq(archiveImports.userId, userId))
+      .orderBy(desc(archiveImports.id));
+  }
+  
+  async deleteArchiveImport(id: number): Promise<void> {
+    await getDb().delete(archiveImports).where(eq(archiveImports.id, id));
+  }
+  
+  // Platform connection operations
+  async savePlatformConnection(connection: InsertPlatformConnection): Promise<PlatformConnection> {
+    // Reconnecting replaces the previous connection
+    const existing = await this.getPlatformConnection(connection.userId, connection.platform);
+    if (existing) {
+      const [updated] = await getDb()
+        .update(platformConnections)
+        .set(connection)
+        .where(eq(platformConnections.id, existing.id))
+        .returning();
+      return updated;
+    }
+    
+    const [saved] = await getDb().insert(platformConnections).values(connection).returning();
+    return saved;
+  }
+  
+  async getPlatformConnection(userId: number, platform: Platform): Promise<PlatformConnection | undefined> {
+    const [connection] = await getDb()
+      .select()
+      .from(platformConnections)
+      .where(and(eq(platformConnections.userId, userId), eq(platformConnections.platform, platform)));
+    return connection;
+  }
+  
+  async getPlatformConnectionsByUser(userId: number): Promise<PlatformConnection[]> {
+    return getDb()
+      .select()
+      .from(platformConnections)
+      .where(eq(platformConnections.userId, userId))
+      .orderBy(asc(platformConnections.id));
+  }
+  
+  async deletePlatformConnection(id: number): Promise<void> {
+    await getDb().delete(platformConnections).where(eq(platformConnections.id, id));
+  }
+}
+
+/**
+ * Create the storage backend selected by configuration
+ * 
+ * STORAGE_BACKEND may be "memory" or "postgres". When it is not set, Postgres
+ * is used if DATABASE_URL is available and memory otherwise.
+ */
+export function createStorage(): IStorage {
+  const backend = process.env.STORAGE_BACKEND || (process.env.DATABASE_URL ? 'postgres' : 'memory');
+  
+  switch (backend) {
+    case 'postgres':
+      console.log('Using Postgres storage backend');
+      return new DatabaseStorage();
+    case 'memory':
+      console.log('Using in-memory storage backend');
+      return new MemStorage();
+    default:
+      throw new Error(`Unknown STORAGE_BACKEND "${backend}". Expected "memory" or "postgres".`);
+  }
 }
 
 // Export the storage instance
-export const storage = new MemStorage();
+export const storage = createStorage();
@@ -0,0 +1,12 @@
+window.YTD.account.part0 = [
+  {
+    "account" : {
+      "email" : "jane.fixture@example.com",
+      "createdVia" : "web",
+      "username" : "janefixture",
+      "accountId" : "1000001",
+      "createdAt" : "2015-06-01T12:00:00.000Z",
+      "accountDisplayName" : "Jane Fixture"
+    }
+  }
+]
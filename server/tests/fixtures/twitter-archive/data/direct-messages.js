@@ -0,0 +1,11 @@
+window.YTD.direct_messages.part0 = [
+  {
+    "dmConversation" : {
+      "conversationId" : "1000001-2000001",
+      "messages" : [
+        { "messageCreate" : { "id" : "1", "text" : "Never stored", "createdAt" : "2022-03-01T10:00:00.000Z" } },
+        { "messageCreate" : { "id" : "2", "text" : "Never stored", "createdAt" : "2022-03-01T10:05:00.000Z" } }
+      ]
+    }
+  }
+]
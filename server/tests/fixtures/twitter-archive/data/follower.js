@@ -0,0 +1,4 @@
+window.YTD.follower.part0 = [
+  { "follower" : { "accountId" : "2000001" } },
+  { "follower" : { "accountId" : "2000002" } }
+]
@@ -0,0 +1,3 @@
+window.YTD.following.part0 = [
+  { "following" : { "accountId" : "3000001" } }
+]
@@ -0,0 +1,9 @@
+window.YTD.like.part0 = [
+  {
+    "like" : {
+      "tweetId" : "1400000000000000000",
+      "fullText" : "Ten tips for growing tomatoes",
+      "expandedUrl" : "https://twitter.com/i/web/status/1400000000000000000"
+    }
+  }
+]
@@ -0,0 +1,12 @@
+window.YTD.profile.part0 = [
+  {
+    "profile" : {
+      "description" : {
+        "bio" : "Gardener and runner",
+        "website" : "",
+        "location" : "Springfield"
+      },
+      "avatarMediaUrl" : "https://pbs.twimg.com/profile_images/1/avatar.jpg"
+    }
+  }
+]
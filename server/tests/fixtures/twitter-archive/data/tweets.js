@@ -0,0 +1,44 @@
+window.YTD.tweets.part0 = [
+  {
+    "tweet" : {
+      "id_str" : "1500000000000000001",
+      "created_at" : "Tue Mar 01 08:15:00 +0000 2022",
+      "full_text" : "Morning run done #running #garden",
+      "favorite_count" : "4",
+      "retweet_count" : "1",
+      "entities" : { "hashtags" : [ { "text" : "running" }, { "text" : "garden" } ] }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1500000000000000002",
+      "created_at" : "Wed Mar 02 08:30:00 +0000 2022",
+      "full_text" : "Tomatoes are in #garden",
+      "favorite_count" : "2",
+      "retweet_count" : "0",
+      "entities" : { "hashtags" : [ { "text" : "Garden" } ] },
+      "coordinates" : { "type" : "Point", "coordinates" : [ "-89.6", "39.8" ] }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1500000000000000003",
+      "created_at" : "Thu Mar 03 19:00:00 +0000 2022",
+      "full_text" : "@friend text me on 555-867-5309 about the seeds",
+      "in_reply_to_status_id_str" : "1499999999999999999",
+      "favorite_count" : "0",
+      "retweet_count" : "0",
+      "entities" : { "hashtags" : [ { "text" : "garden" } ] }
+    }
+  },
+  {
+    "tweet" : {
+      "id_str" : "1500000000000000004",
+      "created_at" : "Fri Mar 04 09:00:00 +0000 2022",
+      "full_text" : "RT @parks: Volunteers wanted this weekend",
+      "favorite_count" : "0",
+      "retweet_count" : "3",
+      "entities" : { "hashtags" : [ ] }
+    }
+  }
+]
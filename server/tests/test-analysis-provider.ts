@@ -0,0 +1,105 @@
+/**
+ * Analysis Provider Test
+ *
+ * Checks how the analysis configuration is read from the environment, and
+ * how content is scored, tagged and explained with the offline provider.
+ *
+ * To run: npx tsx server/tests/test-analysis-provider.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, PlatformData } from '@shared/schema';
+import { AnalysisService, loadAnalysisConfig, topicShares } from '../services/analysis-provider';
+import { lexiconAnalysis } from '../services/lexicon-analysis';
+
+function testConfig(): void {
+  console.log('\n📋 Reading configuration');
+
+  assert.equal(loadAnalysisConfig({}).provider, 'lexicon');
+  const openai = loadAnalysisConfig({ OPENAI_API_KEY: 'sk-test' });
+  assert.equal(openai.provider, 'openai');
+  assert.equal(openai.apiKey, 'sk-test');
+  assert.equal(openai.model, 'gpt-3.5-turbo');
+
+  const local = loadAnalysisConfig({
+    OPENAI_API_KEY: 'sk-test',
+    ANALYSIS_PROVIDER: 'local',
+    ANALYSIS_MODEL: 'llama-3-8b',
+    ANALYSIS_BATCH_SIZE: '4',
+    ANALYSIS_CACHE_TTL_MS: '0',
+  });
+  assert.equal(local.provider, 'local');
+  assert.equal(local.baseUrl, 'http://localhost:8080/v1');
+  // The OpenAI key is never sent to another endpoint
+  assert.equal(local.apiKey, undefined);
+  assert.equal(local.model, 'llama-3-8b');
+  assert.equal(local.batchSize, 4);
+  assert.equal(local.cacheTtlMs, 0);
+
+  const invalid = loadAnalysisConfig({ ANALYSIS_PROVIDER: 'magic', ANALYSIS_BATCH_SIZE: 'lots' });
+  assert.equal(invalid.provider, 'lexicon');
+  assert.equal(invalid.batchSize, 10);
+  console.log('✅ Configuration checks passed');
+}
+
+async function testOfflineAnalysis(): Promise<void> {
+  console.log('\n📋 Offline analysis');
+
+  const analysis = new AnalysisService(loadAnalysisConfig({ ANALYSIS_PROVIDER: 'lexicon' }));
+  const items: ContentItem[] = [
+    { type: 'post', timestamp: '2024-01-01T00:00:00Z', content: 'Loved the new recipe from that restaurant' },
+    { type: 'post', timestamp: '2024-01-02T00:00:00Z', content: 'The election debate was awful' },
+    { type: 'post', timestamp: '2024-01-03T00:00:00Z', content: 'Happy birthday!' },
+    { type: 'comment', timestamp: '2024-01-04T00:00:00Z', content: 'r/food', topics: ['food'] },
+  ];
+
+  const sentiment = await analysis.scoreContent(items);
+  assert.deepEqual(items.map(item => item.sentiment), ['positive', 'negative', 'positive', 'neutral']);
+  assert.deepEqual(sentiment, { positive: 0.5, neutral: 0.25, negative: 0.25 });
+
+  // Items with topics keep them; "app" does not match inside "happy"
+  const topTopics = await analysis.tagTopics(items);
+  assert.deepEqual(items.map(item => item.topics), [['Food'], ['Politics'], undefined, ['food']]);
+  assert.deepEqual(topTopics, [{ topic: 'Food', percentage: 0.33 }, { topic: 'Politics', percentage: 0.33 }]);
+
+  const data: PlatformData = {
+    platformId: 'twitter',
+    username: 'sample',
+    analysisResults: {
+      exposureScore: 40,
+      topTopics: [],
+      activityTimeline: [],
+      sentimentBreakdown: sentiment,
+      privacyConcerns: [],
+      piiSummary: { totalFindings: 3, itemsWithPii: 2, byType: { email: 2, phone: 1 }, bioFindings: [] },
+    },
+  };
+  const explained = await analysis.explainPii(data);
+  assert.deepEqual(Object.keys(explained.analysisResults!.piiSummary!.explanations!), ['email', 'phone']);
+  assert.ok(explained.analysisResults!.piiSummary!.explanations!.phone.includes('SIM-swap'));
+  console.log('✅ Offline analysis checks passed');
+}
+
+function testTopicShares(): void {
+  console.log('\n📋 Topic shares');
+
+  assert.deepEqual(topicShares([]), []);
+  assert.deepEqual(topicShares([['Sports'], ['Sports', 'Travel'], [], ['Travel'], ['Sports']]), [
+    { topic: 'Sports', percentage: 0.6 },
+    { topic: 'Travel', percentage: 0.4 },
+  ]);
+  assert.deepEqual(lexiconAnalysis.topicsOf('Flights booked, hotels next', ['Travel', 'Custom']), ['Travel']);
+  console.log('✅ Topic share checks passed');
+}
+
+(async () => {
+  try {
+    testConfig();
+    await testOfflineAnalysis();
+    testTopicShares();
+    process.exit(0);
+  } catch (error: any) {
+    console.error(`\n❌ Analysis provider test failed: ${error.message}`);
+    process.exit(1);
+  }
+})();
@@ -0,0 +1,356 @@
+/**
+ * Archive Import Test
+ *
+ * Parses small account archives built from the fixtures in
+ * server/tests/fixtures and checks the imported content, topic shares, the PII
+ * scan over imported content, how missing or malformed files are reported, and
+ * the limits that keep oversized archives from being unpacked.
+ *
+ * To run: STORAGE_BACKEND=memory npx tsx server/tests/test-archive-import.ts
+ */
+
+import assert from 'node:assert/strict';
+import fs from 'fs';
+import path from 'path';
+import { fileURLToPath } from 'url';
+import JSZip from 'jszip';
+import { ArchiveFiles, ArchiveImportError, ArchiveImportService } from '../services/archive-import';
+import { archiveImportService } from '../services/archive-importers';
+import { facebookArchiveImporter } from '../services/facebook-archive';
+import { instagramArchiveImporter } from '../services/instagram-archive';
+import { redditArchiveImporter } from '../services/reddit-archive';
+import { twitterArchiveImporter } from '../services/twitter-archive';
+import { storage } from '../storage';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures');
+
+type ArchiveContents = Record<string, string>;
+
+// Every file under a fixture directory, keyed by its path inside the archive
+function readFixture(name: string, prefix = ''): ArchiveContents {
+  const root = path.join(FIXTURES_DIR, name);
+  const contents: ArchiveContents = {};
+  const walk = (dir: string) => {
+    for (const entry of fs.readdirSync(dir, { withFileTypes: true })) {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) {
+        walk(fullPath);
+      } else {
+        contents[prefix + path.relative(root, fullPath).split(path.sep).join('/')] = fs.readFileSync(fullPath, 'utf8');
+      }
+    }
+  };
+  walk(root);
+  return contents;
+}
+
+// Archive files read straight from memory, as the importers see them
+function archiveFiles(contents: ArchiveContents): ArchiveFiles {
+  const paths = Object.keys(contents);
+  return {
+    find: pattern => paths.filter(p => pattern.test(p)),
+    readText: async p => contents[p],
+  };
+}
+
+async function zip(contents: ArchiveContents): Promise<Buffer> {
+  const archive = new JSZip();
+  for (const [p, text] of Object.entries(contents)) {
+    archive.file(p, text);
+  }
+  return archive.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' });
+}
+
+// Topic shares are fractions of 1 on every platform
+function assertTopicScale(topics: Array<{ topic: string; percentage: number }> | undefined): void {
+  assert.ok(topics && topics.length > 0, 'expected topics');
+  for (const { topic, percentage } of topics) {
+    assert.ok(percentage > 0 && percentage <= 1, `${topic} share ${percentage} is not a fraction`);
+  }
+}
+
+async function testTwitter(userId: number): Promise<void> {
+  console.log('\n📋 Twitter/X archive');
+
+  const contents = readFixture('twitter-archive', 'twitter-2022-03-05/');
+  const files = archiveFiles(contents);
+  assert.ok(twitterArchiveImporter.canImport(files));
+
+  const { data, stats } = await twitterArchiveImporter.parse(files);
+  assert.deepEqual(stats, {
+    tweets: 4, likes: 1, followers: 2, following: 1, dmConversations: 1, directMessages: 2, adEngagements: 0,
+  });
+  assert.equal(data.username, 'janefixture');
+  assert.deepEqual(
+    [data.activityData?.totalPosts, data.activityData?.totalComments, data.activityData?.totalShares],
+    [2, 1, 1]
+  );
+  // Direct messages are counted, never imported
+  assert.ok(!data.contentData!.some(item => item.content?.includes('Never stored')));
+  assert.ok(data.analysisResults!.privacyConcerns.some(concern => concern.type === 'location_tagging'));
+
+  // Hashtags are counted case-insensitively: 3 of the 4 uses are #garden
+  assertTopicScale(data.analysisResults?.topTopics);
+  assert.deepEqual(data.analysisResults?.topTopics, [
+    { topic: '#garden', percentage: 0.75 },
+    { topic: '#running', percentage: 0.25 },
+  ]);
+
+  // The full import scans the imported tweets for PII
+  const imported = await archiveImportService.importArchive(userId, await zip(contents));
+  const phoneTweet = imported.data.contentData!.find(item => item.content?.includes('555-867-5309'));
+  assert.ok(phoneTweet?.piiFindings?.some(finding => finding.type === 'phone'), 'expected the phone number to be flagged');
+  assert.ok((imported.data.analysisResults?.piiSummary?.byType.phone ?? 0) >= 1);
+  assertTopicScale(imported.data.analysisResults?.topTopics);
+
+  // The exposure score engine scores the import; the importer itself leaves it at 0
+  assert.equal(data.analysisResults?.exposureScore, 0);
+  assert.ok(imported.data.analysisResults!.exposureScore > 0);
+  assert.ok(imported.data.analysisResults?.exposureBreakdown?.some(factor => factor.factor === 'pii' && factor.points > 0));
+
+  // A truncated data file is reported by name
+  const truncated = { ...contents, 'twitter-2022-03-05/data/tweets.js': 'window.YTD.tweets.part0 = [ {' };
+  await assert.rejects(
+    twitterArchiveImporter.parse(archiveFiles(truncated)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('tweets.js')
+  );
+
+  // Without account details the archive isn't recognised as Twitter's
+  const { ['twitter-2022-03-05/data/account.js']: _account, ...withoutAccount } = contents;
+  assert.ok(!twitterArchiveImporter.canImport(archiveFiles(withoutAccount)));
+  await assert.rejects(
+    archiveImportService.importArchive(userId, await zip(withoutAccount)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('not recognised')
+  );
+  console.log('✅ Twitter/X archive checks passed');
+}
+
+async function testFacebook(userId: number): Promise<void> {
+  console.log('\n📋 Facebook export');
+
+  const contents = readFixture('facebook-archive', 'facebook-janefixture-2024/');
+  const files = archiveFiles(contents);
+  assert.ok(facebookArchiveImporter.canImport(files));
+
+  const { data, stats } = await facebookArchiveImporter.parse(files);
+  assert.deepEqual(stats, {
+    posts: 3, comments: 1, reactions: 1, checkIns: 1, locationHistory: 0, offFacebookCompanies: 2, offFacebookEvents: 3, apps: 1,
+  });
+  // The username comes from the profile URL
+  assert.equal(data.username, 'jane.fixture');
+  assert.deepEqual(
+    [data.activityData?.totalPosts, data.activityData?.totalComments, data.activityData?.totalLikes, data.activityData?.totalShares],
+    [2, 1, 1, 1]
+  );
+  // Meta's exports encode text as UTF-8 bytes written out as Latin-1 characters
+  assert.ok(data.contentData!.some(item => item.location?.name === 'Café Central'));
+  const concerns = data.analysisResults!.privacyConcerns.map(concern => concern.type);
+  assert.ok(concerns.includes('off_facebook_activity'));
+  assert.ok(concerns.includes('connected_apps'));
+
+  // Two of the five items with text are about food, one is about health
+  assertTopicScale(data.analysisResults?.topTopics);
+  assert.deepEqual(data.analysisResults?.topTopics, [
+    { topic: 'Food', percentage: 0.4 },
+    { topic: 'Health', percentage: 0.2 },
+  ]);
+
+  // The full import scans the imported posts and comments for PII
+  const imported = await archiveImportService.importArchive(userId, await zip(contents));
+  const piiTypes = imported.data.analysisResults?.piiSummary?.byType;
+  assert.ok((piiTypes?.phone ?? 0) >= 1, 'expected the phone number to be flagged');
+  assert.ok((piiTypes?.email ?? 0) >= 1, 'expected the email address to be flagged');
+  assertTopicScale(imported.data.analysisResults?.topTopics);
+
+  // A truncated data file is reported by name
+  const postsPath = 'facebook-janefixture-2024/your_facebook_activity/posts/your_posts__check_ins__photos_and_videos_1.json';
+  await assert.rejects(
+    facebookArchiveImporter.parse(archiveFiles({ ...contents, [postsPath]: '[ { "timestamp": 1709280900,' })),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('your_posts__check_ins__photos_and_videos_1.json')
+  );
+
+  // HTML exports and other JSON without profile details are turned away with a hint
+  const profilePath = 'facebook-janefixture-2024/personal_information/profile_information/profile_information.json';
+  await assert.rejects(
+    facebookArchiveImporter.parse(archiveFiles({ ...contents, [profilePath]: '{}' })),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('exported as JSON')
+  );
+
+  // Without profile information the archive isn't recognised as Facebook's
+  const { [profilePath]: _profile, ...withoutProfile } = contents;
+  assert.ok(!facebookArchiveImporter.canImport(archiveFiles(withoutProfile)));
+  await assert.rejects(
+    archiveImportService.importArchive(userId, await zip(withoutProfile)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('not recognised')
+  );
+  console.log('✅ Facebook export checks passed');
+}
+
+async function testInstagram(userId: number): Promise<void> {
+  console.log('\n📋 Instagram export');
+
+  const contents = readFixture('instagram-archive', 'instagram-janefixture-2024/');
+  const files = archiveFiles(contents);
+  assert.ok(instagramArchiveImporter.canImport(files));
+
+  const { data, stats } = await instagramArchiveImporter.parse(files);
+  assert.deepEqual(stats, {
+    posts: 2, reels: 0, stories: 1, comments: 1, likes: 1, followers: 2, following: 1, geotaggedMedia: 1, advertisers: 2,
+  });
+  assert.equal(data.username, 'janefixture');
+  assert.equal(data.profileData?.displayName, 'Jane Fixture');
+  const concerns = data.analysisResults!.privacyConcerns.map(concern => concern.type);
+  assert.ok(concerns.includes('photo_location'));
+  assert.ok(concerns.includes('location_profiling'));
+  assert.ok(concerns.includes('ad_targeting'));
+
+  // Hashtags are counted case-insensitively: 3 of the 4 uses are #garden
+  assertTopicScale(data.analysisResults?.topTopics);
+  assert.deepEqual(data.analysisResults?.topTopics, [
+    { topic: 'garden', percentage: 0.75 },
+    { topic: 'running', percentage: 0.25 },
+  ]);
+
+  // The full import scans captions, including stories, for PII
+  const imported = await archiveImportService.importArchive(userId, await zip(contents));
+  const story = imported.data.contentData!.find(item => item.content?.includes('555-867-5309'));
+  assert.ok(story?.piiFindings?.some(finding => finding.type === 'phone'), 'expected the phone number to be flagged');
+  assertTopicScale(imported.data.analysisResults?.topTopics);
+
+  // A truncated data file is reported by name
+  const postsPath = 'instagram-janefixture-2024/your_instagram_activity/content/posts_1.json';
+  await assert.rejects(
+    instagramArchiveImporter.parse(archiveFiles({ ...contents, [postsPath]: '[ { "media": [' })),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('posts_1.json')
+  );
+
+  // HTML exports are recognised, then turned away with a request to export as JSON
+  const profilePath = 'instagram-janefixture-2024/personal_information/personal_information/personal_information.json';
+  const { [profilePath]: _profile, ...withoutProfile } = contents;
+  const htmlExport = { ...withoutProfile, [profilePath.replace(/\.json$/, '.html')]: '<html></html>' };
+  assert.ok(instagramArchiveImporter.canImport(archiveFiles(htmlExport)));
+  await assert.rejects(
+    instagramArchiveImporter.parse(archiveFiles(htmlExport)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('choose JSON')
+  );
+
+  // Without personal information the archive isn't recognised as Instagram's
+  assert.ok(!instagramArchiveImporter.canImport(archiveFiles(withoutProfile)));
+  await assert.rejects(
+    archiveImportService.importArchive(userId, await zip(withoutProfile)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('not recognised')
+  );
+  console.log('✅ Instagram export checks passed');
+}
+
+async function testReddit(userId: number): Promise<void> {
+  console.log('\n📋 Reddit export');
+
+  // Reddit's export has every CSV file in the root of the ZIP
+  const contents = readFixture('reddit-archive');
+  const files = archiveFiles(contents);
+  assert.ok(redditArchiveImporter.canImport(files));
+
+  // The deleted post has no date and is skipped; votes without a direction are not counted
+  const { data, stats } = await redditArchiveImporter.parse(files);
+  assert.deepEqual(stats, {
+    posts: 1, comments: 3, upvotes: 2, downvotes: 1, savedItems: 1, ipAddresses: 2, subscriptions: 2,
+  });
+  assert.equal(data.username, 'jane_fixture');
+  assert.equal(data.profileData?.joinDate, '2015-06-01T12:00:00.000Z');
+  const concerns = data.analysisResults!.privacyConcerns.map(concern => concern.type);
+  assert.ok(concerns.includes('ip_log_retention'));
+  assert.ok(concerns.includes('vote_history'));
+
+  // Topics are subreddits: 3 of the 4 posts and comments are in r/gardening
+  assertTopicScale(data.analysisResults?.topTopics);
+  assert.deepEqual(data.analysisResults?.topTopics, [
+    { topic: 'gardening', percentage: 0.75 },
+    { topic: 'running', percentage: 0.25 },
+  ]);
+
+  // The full import scans posts and comments for PII
+  const imported = await archiveImportService.importArchive(userId, await zip(contents));
+  const comment = imported.data.contentData!.find(item => item.content?.includes('jane.fixture@example.com'));
+  assert.ok(comment?.piiFindings?.some(finding => finding.type === 'email'), 'expected the email address to be flagged');
+  assertTopicScale(imported.data.analysisResults?.topTopics);
+
+  // A CSV file with an unterminated quote is reported by name
+  await assert.rejects(
+    redditArchiveImporter.parse(archiveFiles({ ...contents, 'comments.csv': 'id,date,body\nkq1,2024-03-02 10:00:00 UTC,"unterminated' })),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('comments.csv')
+  );
+
+  // Statistics without the account name can't be attributed to an account
+  await assert.rejects(
+    redditArchiveImporter.parse(archiveFiles({ ...contents, 'statistics.csv': 'statistic,value\nis_deleted,False\n' })),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('account name')
+  );
+
+  // Without statistics.csv the archive isn't recognised as Reddit's
+  const { ['statistics.csv']: _statistics, ...withoutStatistics } = contents;
+  assert.ok(!redditArchiveImporter.canImport(archiveFiles(withoutStatistics)));
+  await assert.rejects(
+    archiveImportService.importArchive(userId, await zip(withoutStatistics)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('not recognised')
+  );
+  console.log('✅ Reddit export checks passed');
+}
+
+async function testInvalidUploads(userId: number): Promise<void> {
+  console.log('\n📋 Invalid uploads');
+
+  await assert.rejects(
+    archiveImportService.importArchive(userId, Buffer.from('not a zip file')),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('not a valid ZIP')
+  );
+  console.log('✅ Invalid upload checks passed');
+}
+
+async function testLimits(userId: number): Promise<void> {
+  console.log('\n📋 Archive limits');
+
+  const limited = new ArchiveImportService({ maxEntries: 20, maxUncompressedBytes: 64 * 1024 });
+  limited.register(twitterArchiveImporter);
+  const contents = readFixture('twitter-archive');
+
+  // Within the limits the archive imports as usual
+  const imported = await limited.importArchive(userId, await zip(contents));
+  assert.equal(imported.username, 'janefixture');
+
+  // Entries are counted before anything is decompressed
+  const crowded = { ...contents };
+  for (let i = 0; i < 20; i++) {
+    crowded[`data/tweets_media/${i}.jpg`] = 'x';
+  }
+  await assert.rejects(
+    limited.importArchive(userId, await zip(crowded)),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('too many files')
+  );
+
+  // A data file that inflates far beyond its compressed size is cut off at the limit
+  const bomb = { ...contents, 'data/tweets-part1.js': `window.YTD.tweets.part1 = [${' '.repeat(1024 * 1024)}]` };
+  const bombZip = await zip(bomb);
+  assert.ok(bombZip.length < 64 * 1024);
+  await assert.rejects(
+    limited.importArchive(userId, bombZip),
+    (error: Error) => error instanceof ArchiveImportError && error.message.includes('too large')
+  );
+  console.log('✅ Archive limit checks passed');
+}
+
+async function run(): Promise<void> {
+  const user = await storage.createUser({ username: 'archivist', email: 'archivist@example.com', password: 'secret' });
+  await testTwitter(user.id);
+  await testFacebook(user.id);
+  await testInstagram(user.id);
+  await testReddit(user.id);
+  await testInvalidUploads(user.id);
+  await testLimits(user.id);
+}
+
+// The platform services imported along the way keep timers running, so exit once done
+run().then(() => process.exit(0)).catch((error: any) => {
+  console.error(`\n❌ Archive import test failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,152 @@
+/**
+ * Deletion Policy Test
+ *
+ * Checks which items deletion policies match, the monthly allowance each plan
+ * gives them, dry-run previews, and queueing matches from new snapshots into
+ * deletion requests without queueing the same item twice.
+ *
+ * To run: STORAGE_BACKEND=memory npx tsx server/tests/test-deletion-policies.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, DeletionRequestDetails, DigitalFootprintResponse, Platform, PlatformData } from '@shared/schema';
+import { storage } from '../storage';
+import { DeletionWorkflowService } from '../services/deletion-workflow';
+import { DeletionPolicyService } from '../services/deletion-policies';
+
+const NOW = new Date();
+const daysAgo = (n: number) => new Date(NOW.getTime() - n * 24 * 60 * 60 * 1000).toISOString();
+
+// Platforms can't be scanned, so requests go straight to instructions
+const policies = new DeletionPolicyService(new DeletionWorkflowService(async () => null));
+
+function item(id: string, overrides: Partial<ContentItem> = {}): ContentItem {
+  return { type: 'comment', timestamp: daysAgo(1), content: 'Something I said', url: `https://example.com/${id}`, ...overrides };
+}
+
+function snapshot(platforms: Partial<Record<Platform, ContentItem[]>>): DigitalFootprintResponse {
+  const platformData: PlatformData[] = Object.entries(platforms).map(([platform, items]) => ({
+    platformId: platform as Platform,
+    username: 'sample',
+    contentData: items,
+  }));
+  return { username: 'sample', timestamp: NOW.toISOString(), platformData } as DigitalFootprintResponse;
+}
+
+function testMatching(): void {
+  console.log('\n📋 Matching items');
+
+  // "Delete my Reddit comments older than 90 days"
+  const oldComments = { platforms: ['reddit' as const], contentTypes: ['comment' as const], olderThanDays: 90 };
+  assert.ok(policies.matches(oldComments, 'reddit', item('a', { timestamp: daysAgo(120) }), NOW));
+  assert.ok(!policies.matches(oldComments, 'reddit', item('b', { timestamp: daysAgo(30) }), NOW));
+  assert.ok(!policies.matches(oldComments, 'reddit', item('c', { type: 'post', timestamp: daysAgo(120) }), NOW));
+  assert.ok(!policies.matches(oldComments, 'twitter', item('d', { timestamp: daysAgo(120) }), NOW));
+
+  // "Delete any post the PII scanner flags high"; an email address is only medium
+  const highPii = { minPiiSeverity: 'high' as const };
+  const phone = { type: 'phone' as const, start: 0, end: 12, redacted: '***-***-5678' };
+  const email = { type: 'email' as const, start: 0, end: 16, redacted: 'j***@example.com' };
+  assert.ok(policies.matches(highPii, 'facebook', item('e', { piiFindings: [email, phone] }), NOW));
+  assert.ok(!policies.matches(highPii, 'facebook', item('f', { piiFindings: [email] }), NOW));
+  assert.ok(!policies.matches(highPii, 'facebook', item('g'), NOW));
+
+  // "Delete tweets with negative sentiment and zero engagement"
+  const unloved = { platforms: ['twitter' as const], sentiments: ['negative' as const], maxEngagement: 0 };
+  assert.ok(policies.matches(unloved, 'twitter', item('h', { sentiment: 'negative', engagement: { likes: 0 } }), NOW));
+  assert.ok(policies.matches(unloved, 'twitter', item('i', { sentiment: 'negative' }), NOW));
+  assert.ok(!policies.matches(unloved, 'twitter', item('j', { sentiment: 'negative', engagement: { shares: 1 } }), NOW));
+  assert.ok(!policies.matches(unloved, 'twitter', item('k', { sentiment: 'neutral' }), NOW));
+  console.log('✅ Matching checks passed');
+}
+
+async function testQueueing(): Promise<void> {
+  console.log('\n📋 Previewing and queueing within the monthly allowance');
+
+  const user = await storage.createUser({ username: 'tidy', email: 'tidy@example.com', password: 'secret' });
+  await storage.createDeletionPolicy({
+    userId: user.id,
+    name: 'Old Reddit comments',
+    conditions: { platforms: ['reddit'], contentTypes: ['comment'], olderThanDays: 90 },
+    active: true,
+  });
+  const paused = await storage.createDeletionPolicy({
+    userId: user.id, name: 'Everything on Twitter', conditions: { platforms: ['twitter'] }, active: false,
+  });
+
+  const first = snapshot({
+    reddit: [
+      item('r1', { timestamp: daysAgo(200) }),
+      item('r2', { timestamp: daysAgo(100) }),
+      item('r3', { timestamp: daysAgo(10) }),
+      // Without a link there is nothing to delete
+      item('r4', { timestamp: daysAgo(300), url: undefined }),
+    ],
+    twitter: [item('t1', { type: 'post' })],
+  });
+
+  // Without a plan, policies can be previewed but queue nothing
+  let quota = await policies.getQuota(user.id, NOW);
+  assert.equal(quota.monthlyLimit, 0);
+  assert.equal(await policies.apply(user.id, first, NOW), undefined);
+
+  // A dry run of an unsaved policy doesn't create a request
+  const preview = await policies.preview(user.id, [{ id: null, conditions: { platforms: ['twitter'] } }], first, NOW);
+  assert.deepEqual(preview.matches.map(match => [match.item.url, match.outcome]), [['https://example.com/t1', 'over_quota']]);
+  assert.deepEqual(preview.matches[0].policyIds, []);
+  assert.equal((await storage.getDeletionRequestsByUser(user.id)).length, 0);
+
+  // Basic Cleanup allows 50 items a month
+  await storage.createUserSubscription({ userId: user.id, planId: 1 });
+  quota = await policies.getQuota(user.id, NOW);
+  assert.equal(quota.planName, 'Basic Cleanup');
+  assert.equal(quota.remaining, 50);
+
+  const request = (await policies.apply(user.id, first, NOW))!;
+  const workflow = (request.details as DeletionRequestDetails).workflow!;
+  assert.equal((request.details as DeletionRequestDetails).requestType, 'policy');
+  assert.deepEqual(request.platforms, ['reddit']);
+  assert.deepEqual(workflow.platforms[0].selectedItems!.map(selected => selected.url), [
+    'https://example.com/r1', 'https://example.com/r2',
+  ]);
+  assert.equal(workflow.platforms[0].step, 'await_confirmation');
+  assert.ok((await storage.getDeletionPoliciesByUser(user.id)).every(policy =>
+    policy.id === paused.id ? policy.lastAppliedAt === null : policy.lastAppliedAt?.getTime() === NOW.getTime()
+  ));
+  assert.equal((await policies.getQuota(user.id, NOW)).used, 2);
+
+  // The next snapshot only queues what hasn't been requested yet
+  const second = snapshot({
+    reddit: [item('r1', { timestamp: daysAgo(200) }), item('r2', { timestamp: daysAgo(100) }), item('r5', { timestamp: daysAgo(95) })],
+  });
+  const next = (await policies.apply(user.id, second, NOW))!;
+  assert.deepEqual((next.details as DeletionRequestDetails).workflow!.platforms[0].selectedItems!.map(selected => selected.url), [
+    'https://example.com/r5',
+  ]);
+  assert.equal(await policies.apply(user.id, second, NOW), undefined);
+
+  // Matches beyond the allowance wait for next month
+  const many = snapshot({
+    reddit: Array.from({ length: 60 }, (_, i) => item(`bulk-${i}`, { timestamp: daysAgo(365) })),
+  });
+  const active = (await storage.getDeletionPoliciesByUser(user.id)).filter(policy => policy.active);
+  const previewed = await policies.preview(user.id, active, many, NOW);
+  assert.equal(previewed.matches.filter(match => match.outcome === 'queue').length, 47);
+  assert.equal(previewed.matches.filter(match => match.outcome === 'over_quota').length, 13);
+
+  await policies.apply(user.id, many, NOW);
+  quota = await policies.getQuota(user.id, NOW);
+  assert.equal(quota.used, 50);
+  assert.equal(quota.remaining, 0);
+  console.log('✅ Queueing checks passed');
+}
+
+async function run(): Promise<void> {
+  testMatching();
+  await testQueueing();
+}
+
+run().catch((error: any) => {
+  console.error(`\n❌ Deletion policy test failed: ${error.message}`);
+  process.exit(1);
+});
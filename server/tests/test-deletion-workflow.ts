@@ -0,0 +1,310 @@
+/**
+ * Deletion Workflow Test
+ *
+ * Drives deletion requests through ownership verification, deletion through
+ * an API or by hand, confirmation and re-scans against in-memory storage and
+ * stubbed platforms, and checks retries, cancellation and the event history.
+ *
+ * To run: STORAGE_BACKEND=memory npx tsx server/tests/test-deletion-workflow.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, DeletionItem, DeletionOptions, DeletionRequestDetails, Platform, PlatformData } from '@shared/schema';
+import { storage } from '../storage';
+import { PlatformError } from '../services/platform-errors';
+import { DeletionExecutor, DeletionWorkflowError, DeletionWorkflowService } from '../services/deletion-workflow';
+
+const START = new Date('2024-03-01T12:00:00Z');
+const minutes = (n: number) => new Date(START.getTime() + n * 60 * 1000);
+
+// Accounts the stubbed platforms know about, by platform
+const accounts = new Map<Platform, { bio: string; items: ContentItem[] } | 'missing'>();
+
+function item(type: ContentItem['type']): ContentItem {
+  return { type, timestamp: START.toISOString(), content: 'Something I said' };
+}
+
+async function fetchPlatform(platform: Platform, username: string): Promise<PlatformData | null> {
+  const account = accounts.get(platform);
+  if (!account) return null;
+  if (account === 'missing') throw new PlatformError('NOT_FOUND', platform);
+  return { platformId: platform, username, profileData: { bio: account.bio }, contentData: account.items };
+}
+
+const executorCalls: string[] = [];
+const twitterExecutor: DeletionExecutor = {
+  isAvailable: async () => true,
+  execute: async ({ username }) => {
+    executorCalls.push(username);
+    return { success: true, message: 'Deletion queued', requestId: 'tw-123' };
+  },
+};
+
+// Deletes selected items two at a time, failing the one ending in /locked
+const redditExecutor: DeletionExecutor = {
+  isAvailable: async ({ userId }) => userId !== null,
+  execute: async ({ options, previousResults }) => {
+    const done = new Set(previousResults.map(result => result.url));
+    const pending = options.itemUrls!.filter(url => !done.has(url));
+    const itemResults = pending.slice(0, 2).map(url => ({
+      url,
+      type: 'comment' as const,
+      status: url.endsWith('/locked') ? 'failed' as const : 'deleted' as const,
+      edited: true,
+      at: START.toISOString(),
+    }));
+    return { success: true, message: `Deleted ${itemResults.length} items`, itemResults, remaining: pending.length - itemResults.length };
+  },
+};
+
+const workflow = new DeletionWorkflowService(fetchPlatform, { twitter: twitterExecutor, reddit: redditExecutor });
+
+async function createRequest(
+  platforms: Platform[],
+  options: Partial<DeletionOptions> = {},
+  userId: number | null = null,
+  items: DeletionItem[] = []
+) {
+  const details: DeletionRequestDetails = {
+    workflow: workflow.createWorkflow(platforms.map(platform => ({
+      platform,
+      username: '@sample',
+      items: items.filter(selected => selected.url.includes(platform)),
+    })), {
+      deleteAll: false, deleteTweets: false, deleteComments: false, deleteLikes: false, ...options,
+    }, START),
+  };
+  return storage.createDeletionRequest({ userId, platforms, details });
+}
+
+function detailsOf(request: { details: unknown }) {
+  return (request.details as DeletionRequestDetails).workflow!;
+}
+
+async function testApiDeletion(): Promise<void> {
+  console.log('\n📋 Deleting through a platform API');
+
+  const request = await createRequest(['twitter'], { deleteTweets: true });
+  const code = detailsOf(request).verificationCode;
+  assert.match(code, /^FP-[0-9A-F]{6}$/);
+  assert.equal(request.status, 'pending');
+
+  // The code isn't in the bio yet
+  accounts.set('twitter', { bio: 'Just a person', items: [item('post'), item('like')] });
+  let advanced = (await workflow.advance(request.id, START))!;
+  let progress = detailsOf(advanced).platforms[0];
+  assert.equal(advanced.status, 'in_progress');
+  assert.equal(progress.username, 'sample');
+  assert.equal(progress.step, 'verify_ownership');
+  assert.equal(progress.status, 'waiting');
+  assert.equal(progress.nextAttemptAt, minutes(5).toISOString());
+  assert.ok(!workflow.isDue(progress, minutes(4)));
+
+  // Once it is, the API deletes and the re-scan runs on its own schedule
+  accounts.set('twitter', { bio: `Just a person ${code.toLowerCase()}`, items: [item('post'), item('like')] });
+  advanced = (await workflow.advance(request.id, minutes(5)))!;
+  progress = detailsOf(advanced).platforms[0];
+  assert.deepEqual(executorCalls, ['sample']);
+  assert.equal(progress.method, 'api');
+  assert.equal(progress.externalRequestId, 'tw-123');
+  assert.equal(progress.baselineItems, 2);
+  assert.equal(progress.step, 'verify_rescan');
+
+  // The post is still there, so it checks again later with a longer wait
+  assert.equal(progress.remainingItems, 1);
+  assert.equal(progress.attempts, 1);
+  assert.equal(progress.nextAttemptAt, minutes(65).toISOString());
+
+  // Only posts were to be deleted, so the remaining like doesn't count
+  accounts.set('twitter', { bio: code, items: [item('like')] });
+  advanced = (await workflow.advance(request.id, minutes(65)))!;
+  progress = detailsOf(advanced).platforms[0];
+  assert.equal(progress.status, 'completed');
+  assert.equal(progress.completedAt, minutes(65).toISOString());
+  assert.equal(advanced.status, 'completed');
+
+  const events = detailsOf(advanced).events;
+  assert.deepEqual(events.map(event => event.type), [
+    'created', 'waiting', 'retry_scheduled', 'step_completed', 'step_completed', 'retry_scheduled', 'completed', 'completed',
+  ]);
+  assert.ok(events.every(event => event.at));
+
+  // Finished requests are left alone
+  assert.equal((await workflow.advance(request.id, minutes(600)))!.status, 'completed');
+  await assert.rejects(workflow.cancel(advanced), DeletionWorkflowError);
+  console.log('✅ API deletion checks passed');
+}
+
+async function testManualDeletion(): Promise<void> {
+  console.log('\n📋 Deleting by hand');
+
+  // Instagram has no deletion API; LinkedIn can't be scanned
+  accounts.set('instagram', { bio: '', items: [item('post')] });
+  const request = await createRequest(['instagram', 'linkedin']);
+  const code = detailsOf(request).verificationCode;
+  accounts.set('instagram', { bio: code, items: [item('post')] });
+
+  let advanced = (await workflow.advance(request.id, START))!;
+  const [instagram, linkedin] = detailsOf(advanced).platforms;
+  assert.equal(instagram.step, 'await_confirmation');
+  assert.equal(instagram.status, 'waiting');
+  assert.equal(instagram.method, 'instructions');
+  assert.ok(instagram.instructions!.length > 0);
+  assert.ok(instagram.settingsUrl!.startsWith('https://www.instagram.com/'));
+  assert.equal(linkedin.step, 'await_confirmation');
+  assert.ok(!workflow.isDue(instagram, minutes(60)));
+
+  // Only platforms waiting for confirmation can be confirmed
+  await assert.rejects(workflow.confirm(advanced, 'twitter'), DeletionWorkflowError);
+
+  // The account is gone by the time of the re-scan
+  accounts.set('instagram', 'missing');
+  advanced = await workflow.confirm(advanced, 'instagram', minutes(10));
+  assert.equal(detailsOf(advanced).platforms[0].status, 'completed');
+  assert.equal(advanced.status, 'in_progress');
+
+  // Without a connector the confirmation is taken at its word
+  advanced = await workflow.confirm(advanced, 'linkedin', minutes(20));
+  assert.equal(detailsOf(advanced).platforms[1].status, 'completed');
+  assert.equal(advanced.status, 'completed');
+  console.log('✅ Manual deletion checks passed');
+}
+
+async function testItemDeletion(): Promise<void> {
+  console.log('\n📋 Deleting selected items in batches');
+
+  // A connected account proves ownership without the bio code
+  const user = await storage.createUser({ username: 'owner', email: 'owner@example.com', password: 'secret' });
+  await storage.savePlatformConnection({
+    userId: user.id, platform: 'reddit', platformUsername: 'Sample', accessToken: 'token', scopes: ['identity', 'history', 'edit'],
+  });
+
+  const urls = ['a', 'b', 'locked'].map(id => `https://reddit.com/r/test/comments/abc/post/${id}`);
+  accounts.set('reddit', { bio: '', items: [item('comment'), { ...item('comment'), url: urls[2] }] });
+  const request = await createRequest(['reddit'], { itemUrls: urls }, user.id);
+
+  let advanced = (await workflow.advance(request.id, START))!;
+  let progress = detailsOf(advanced).platforms[0];
+  assert.equal(detailsOf(advanced).events[1].message, 'Ownership of sample verified through your connected Reddit account');
+  assert.equal(progress.step, 'execute');
+  assert.equal(progress.itemResults!.length, 2);
+  assert.equal(progress.nextAttemptAt, minutes(1).toISOString());
+  assert.equal(detailsOf(advanced).events.at(-1)!.type, 'progress');
+
+  // The last batch finishes the step and the failed item is still visible at the re-scan
+  advanced = (await workflow.advance(request.id, minutes(1)))!;
+  progress = detailsOf(advanced).platforms[0];
+  assert.deepEqual(progress.itemResults!.map(result => result.status), ['deleted', 'deleted', 'failed']);
+  assert.equal(progress.method, 'api');
+  assert.equal(progress.step, 'verify_rescan');
+  assert.equal(progress.remainingItems, 1);
+  assert.ok(detailsOf(advanced).events.some(event => event.message.endsWith('(1 could not be deleted)')));
+
+  // An item the API reported as deleted but that stays visible fails on the last re-scan
+  accounts.set('reddit', { bio: '', items: [{ ...item('comment'), url: urls[0] }, { ...item('comment'), url: urls[2] }] });
+  for (let day = 1; day <= 6; day++) {
+    const statuses = progress.itemResults!.map(result => result.status);
+    assert.deepEqual(statuses, ['deleted', 'deleted', 'failed']);
+    advanced = (await workflow.advance(request.id, minutes(day * 24 * 60)))!;
+    progress = detailsOf(advanced).platforms[0];
+  }
+  assert.equal(progress.status, 'failed');
+  assert.deepEqual(progress.itemResults!.map(result => [result.status, result.error]), [
+    ['failed', 'Still visible after re-scanning'],
+    ['deleted', undefined],
+    ['failed', undefined],
+  ]);
+  console.log('✅ Item deletion checks passed');
+}
+
+async function testSelectedItems(): Promise<void> {
+  console.log('\n📋 Deleting items picked from the Content tab');
+
+  const user = await storage.createUser({ username: 'picker', email: 'picker@example.com', password: 'secret' });
+  await storage.savePlatformConnection({
+    userId: user.id, platform: 'reddit', platformUsername: 'sample', accessToken: 'token', scopes: ['identity', 'history', 'edit'],
+  });
+
+  // Each platform only gets its own items
+  const items: DeletionItem[] = [
+    { url: 'https://reddit.com/r/test/comments/abc/post/c1', type: 'comment' },
+    { url: 'https://www.pinterest.com/pin/1', type: 'post' },
+    { url: 'https://www.pinterest.com/pin/2', type: 'post' },
+  ];
+  const pins = [{ ...item('post'), url: items[1].url }, { ...item('post'), url: items[2].url }, item('post')];
+  accounts.set('reddit', { bio: '', items: [] });
+  accounts.set('pinterest', { bio: '', items: pins });
+  const request = await createRequest(['reddit', 'pinterest'], { deleteAll: true }, user.id, items);
+  assert.equal(detailsOf(request).events[0].message, 'Deletion of 3 selected items requested for Reddit, Pinterest');
+
+  const code = detailsOf(request).verificationCode;
+  accounts.set('pinterest', { bio: code, items: pins });
+  let advanced = (await workflow.advance(request.id, START))!;
+  let [reddit, pinterest] = detailsOf(advanced).platforms;
+  assert.deepEqual(reddit.itemResults!.map(result => result.url), [items[0].url]);
+  assert.equal(reddit.step, 'verify_rescan');
+
+  // Deleting by hand points at the items rather than the account settings
+  assert.equal(pinterest.step, 'await_confirmation');
+  assert.equal(pinterest.baselineItems, 2);
+  assert.equal(pinterest.settingsUrl, undefined);
+  assert.match(pinterest.instructions![1], /2 selected items/);
+
+  // The unselected pin stays; each selected one is recorded once it's gone
+  accounts.set('pinterest', { bio: code, items: [pins[1], pins[2]] });
+  advanced = await workflow.confirm(advanced, 'pinterest', minutes(10));
+  pinterest = detailsOf(advanced).platforms[1];
+  assert.equal(pinterest.remainingItems, 1);
+  assert.deepEqual(pinterest.itemResults!.map(result => [result.url, result.status]), [[items[1].url, 'deleted']]);
+
+  accounts.set('pinterest', { bio: code, items: [pins[2]] });
+  advanced = (await workflow.advance(request.id, minutes(70)))!;
+  pinterest = detailsOf(advanced).platforms[1];
+  assert.equal(pinterest.status, 'completed');
+  assert.deepEqual(pinterest.itemResults!.map(result => result.url), [items[1].url, items[2].url]);
+  console.log('✅ Selected item checks passed');
+}
+
+async function testFailuresAndCancelling(): Promise<void> {
+  console.log('\n📋 Retrying, failing and cancelling');
+
+  // No such account
+  accounts.set('youtube', 'missing');
+  const missing = await createRequest(['youtube']);
+  const failed = (await workflow.advance(missing.id, START))!;
+  assert.equal(failed.status, 'failed');
+  assert.equal(detailsOf(failed).platforms[0].status, 'failed');
+
+  // Rate limits wait at least as long as the platform asks
+  const rateLimited = new DeletionWorkflowService(async platform => {
+    throw new PlatformError('RATE_LIMITED', platform, { retryAfter: 3600 });
+  });
+  const limited = await createRequest(['github']);
+  const retried = (await rateLimited.advance(limited.id, START))!;
+  const progress = detailsOf(retried).platforms[0];
+  assert.equal(progress.status, 'in_progress');
+  assert.equal(progress.nextAttemptAt, minutes(60).toISOString());
+  assert.match(progress.lastError!, /rate limit/);
+
+  // Cancelling stops every platform and records why
+  const cancelled = await workflow.cancel(retried, minutes(1));
+  assert.equal(cancelled.status, 'cancelled');
+  assert.equal(detailsOf(cancelled).platforms[0].status, 'cancelled');
+  assert.equal(detailsOf(cancelled).events.at(-1)!.type, 'cancelled');
+  assert.ok(!workflow.isDue(detailsOf(cancelled).platforms[0], minutes(600)));
+  assert.equal((await storage.getActiveDeletionRequests()).some(request => request.id === cancelled.id), false);
+  console.log('✅ Failure and cancellation checks passed');
+}
+
+async function run(): Promise<void> {
+  await testApiDeletion();
+  await testManualDeletion();
+  await testItemDeletion();
+  await testSelectedItems();
+  await testFailuresAndCancelling();
+}
+
+run().catch((error: any) => {
+  console.error(`\n❌ Deletion workflow test failed: ${error.message}`);
+  process.exit(1);
+});
@@ -0,0 +1,178 @@
+/**
+ * Exposure Score Test
+ *
+ * Checks the value and points of each exposure factor for sample accounts,
+ * how weights are changed and rescaled, and how a whole footprint is scored.
+ *
+ * To run: npx tsx server/tests/test-exposure-score.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ExposureFactor, ExposureFactorScore, PlatformData } from '@shared/schema';
+import { DEFAULT_EXPOSURE_WEIGHTS, ExposureScoreService } from '../services/exposure-score';
+import { piiScanner } from '../services/pii-scanner';
+
+const YEAR_MS = 365 * 24 * 60 * 60 * 1000;
+
+function account(data: Omit<PlatformData, 'analysisResults' | 'privacyMetrics'>): PlatformData {
+  return piiScanner.annotate({
+    ...data,
+    privacyMetrics: { exposureScore: 0, dataCategories: [], potentialConcerns: [], recommendedActions: [] },
+    analysisResults: {
+      exposureScore: 0,
+      topTopics: [],
+      activityTimeline: [],
+      sentimentBreakdown: { positive: 0, neutral: 1, negative: 0 },
+      privacyConcerns: [],
+    },
+  });
+}
+
+// A public account with something to find for every factor
+const exposed = account({
+  platformId: 'twitter',
+  username: 'janefixture',
+  profileData: {
+    displayName: 'Jane Fixture',
+    bio: 'Gardener, see https://jane.example',
+    location: 'Springfield',
+    followerCount: 999,
+    joinDate: new Date(Date.now() - 5 * YEAR_MS).toISOString(),
+  },
+  activityData: { totalPosts: 999 },
+  contentData: [
+    { type: 'post', timestamp: '2024-03-04T08:00:00Z', content: 'Call me on 555-867-5309' },
+    { type: 'post', timestamp: '2024-03-03T08:00:00Z', content: 'Write to jane.fixture@example.com' },
+    { type: 'post', timestamp: '2024-03-02T08:00:00Z', content: 'Back from therapy, feeling good', location: { name: 'Springfield' } },
+    { type: 'post', timestamp: '2024-03-01T08:00:00Z', content: 'Tomatoes are in', location: { name: 'Springfield' } },
+    // Liked posts are someone else's words
+    { type: 'like', timestamp: '2024-03-01T09:00:00Z', content: 'My diagnosis came back' },
+  ],
+});
+
+// A new account with nothing on it
+const quiet = account({ platformId: 'github', username: 'quiet', profileData: {}, contentData: [] });
+
+function byFactor(breakdown: ExposureFactorScore[]): Record<ExposureFactor, ExposureFactorScore> {
+  return Object.fromEntries(breakdown.map(factor => [factor.factor, factor])) as Record<ExposureFactor, ExposureFactorScore>;
+}
+
+function testFactors(): void {
+  console.log('\n📋 Factors');
+
+  const scoring = new ExposureScoreService();
+  const { score, breakdown } = scoring.scorePlatform(exposed);
+  const factors = byFactor(breakdown);
+
+  // Phone numbers are high severity (0.5), email addresses medium (0.3)
+  assert.equal(factors.pii.value, 0.8);
+  assert.equal(factors.pii.detail, 'Phone number, Email address found in 2 pieces of content');
+  // Profile location 0.3, plus 0.04 per geotagged item
+  assert.equal(factors.location.value, 0.38);
+  // 1 of 4 own posts is sensitive; one in five is the maximum. The liked diagnosis does not count
+  assert.equal(factors.sensitive_topics.value, 1);
+  assert.equal(factors.sensitive_topics.detail, '1 of 4 items mention health');
+  // 999 followers is halfway to a million on a log scale
+  assert.equal(factors.audience_reach.value, 0.5);
+  // Real name 0.25, email address 0.25 and links in bio 0.2
+  assert.equal(factors.linkability.value, 0.7);
+  // Activity counts cover more than the fetched content: 999 posts is 3/4 of the way to 10,000
+  assert.equal(factors.content_volume.value, 0.75);
+  // 5 of 10 years of history
+  assert.equal(factors.account_age.value, 0.5);
+
+  // Points are value * weight, and the score adds them up
+  for (const factor of breakdown) {
+    assert.equal(factor.weight, DEFAULT_EXPOSURE_WEIGHTS[factor.factor]);
+    assert.equal(factor.points, Math.round(factor.weight * factor.value * 10) / 10);
+  }
+  assert.equal(score, 68);
+  console.log(`✅ Factor checks passed (score ${score})`);
+
+  const empty = scoring.scorePlatform(quiet);
+  assert.equal(empty.score, 0);
+  assert.ok(empty.breakdown.every(factor => factor.value === 0 && factor.points === 0));
+  assert.equal(byFactor(empty.breakdown).audience_reach.detail, 'Follower count unknown');
+  console.log('✅ An empty account scores 0');
+}
+
+function testWeights(): void {
+  console.log('\n📋 Weights');
+
+  const scoring = new ExposureScoreService();
+  assert.deepEqual(scoring.getWeights(), DEFAULT_EXPOSURE_WEIGHTS);
+
+  // Factors not given keep their default weight, then all are rescaled to add up to 100
+  scoring.setWeights({ pii: 50 });
+  const weights = scoring.getWeights();
+  assert.equal(weights.pii, 40);
+  assert.equal(weights.location, 16);
+  assert.equal(Math.round(Object.values(weights).reduce((sum, weight) => sum + weight, 0)), 100);
+
+  // With every other factor switched off the score is the PII factor alone
+  scoring.setWeights({
+    pii: 1, location: 0, sensitive_topics: 0, audience_reach: 0, linkability: 0, content_volume: 0, account_age: 0,
+  });
+  assert.equal(scoring.scorePlatform(exposed).score, 80);
+
+  // Invalid weights are rejected and leave the current weights alone
+  const current = scoring.getWeights();
+  assert.throws(() => scoring.setWeights({ pii: -1 }), /non-negative/);
+  assert.throws(() => scoring.setWeights({ trust: 10 } as any), /Unknown exposure factor/);
+  assert.throws(() => scoring.setWeights({
+    pii: 0, location: 0, sensitive_topics: 0, audience_reach: 0, linkability: 0, content_volume: 0, account_age: 0,
+  }), /At least one/);
+  assert.deepEqual(scoring.getWeights(), current);
+
+  // Weights can be set from the environment; invalid JSON falls back to the defaults
+  process.env.EXPOSURE_SCORE_WEIGHTS = '{"pii": 25, "location": 0, "account_age": 0}';
+  assert.equal(new ExposureScoreService().getWeights().location, 0);
+  process.env.EXPOSURE_SCORE_WEIGHTS = '{pii: 40';
+  assert.deepEqual(new ExposureScoreService().getWeights(), DEFAULT_EXPOSURE_WEIGHTS);
+  delete process.env.EXPOSURE_SCORE_WEIGHTS;
+  console.log('✅ Weight checks passed');
+}
+
+function testFootprint(): void {
+  console.log('\n📋 Footprint and applying scores');
+
+  const scoring = new ExposureScoreService();
+  const other = account({
+    platformId: 'github',
+    username: 'janefixture',
+    profileData: { followerCount: 9000 },
+    contentData: [],
+  });
+
+  // Followers add up across platforms, and linked accounts raise linkability
+  const linkage = { nodes: [], links: [], clusters: [['twitter' as const, 'github' as const]] };
+  const factors = byFactor(scoring.scoreFootprint([exposed, other], linkage).breakdown);
+  assert.equal(factors.audience_reach.value, 0.67);
+  assert.equal(factors.linkability.value, 1);
+  assert.ok(factors.linkability.detail.includes('accounts on 2 platforms linkable to each other'));
+  assert.equal(factors.pii.value, 0.8);
+
+  // Without links the footprint scores as the platforms' combined signals
+  const unlinked = byFactor(scoring.scoreFootprint([exposed, other], { nodes: [], links: [], clusters: [] }).breakdown);
+  assert.equal(unlinked.linkability.value, 0.7);
+
+  // Applying replaces any score a connector set, in both places
+  const applied = scoring.applyTo({
+    ...exposed,
+    privacyMetrics: { ...exposed.privacyMetrics!, exposureScore: 99 },
+  });
+  assert.equal(applied.analysisResults?.exposureScore, 68);
+  assert.equal(applied.privacyMetrics?.exposureScore, 68);
+  assert.equal(applied.analysisResults?.exposureBreakdown?.length, 7);
+  assert.equal(scoring.applyTo({ platformId: 'github', username: 'bare' }).analysisResults, undefined);
+  console.log('✅ Footprint checks passed');
+}
+
+try {
+  testFactors();
+  testWeights();
+  testFootprint();
+} catch (error: any) {
+  console.error(`\n❌ Exposure score test failed: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,159 @@
+/**
+ * GitHub API Test Client
+ *
+ * Without arguments, runs the GitHub service against the recorded responses in
+ * server/tests/fixtures/github and checks how they are mapped to platform data.
+ * With a username, fetches that user from the live GitHub API instead.
+ *
+ * To run: npx tsx server/tests/test-github-api.ts [username]
+ */
+
+import 'dotenv/config';
+import assert from 'node:assert/strict';
+import { readFile } from 'node:fs/promises';
+import path from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { GitHubApiService, GitHubTransport, githubApi } from '../services/github-api';
+import { NotFoundError, RateLimitError } from '../services/platform-errors';
+
+const FIXTURES_DIR = path.join(path.dirname(fileURLToPath(import.meta.url)), 'fixtures', 'github');
+
+/**
+ * Transport that answers requests from fixture files
+ * "/users/octo-fixture/events/public?per_page=100" is read from
+ * users-octo-fixture-events-public.json; missing fixtures answer 404.
+ */
+const fixtureTransport: GitHubTransport = async (requestPath) => {
+  const name = requestPath.split('?')[0].replace(/^\//, '').replace(/\//g, '-');
+  try {
+    return JSON.parse(await readFile(path.join(FIXTURES_DIR, `${name}.json`), 'utf-8'));
+  } catch (error: any) {
+    if (error.code !== 'ENOENT') throw error;
+    return { status: 404, headers: {}, data: { message: 'Not Found' } };
+  }
+};
+
+/**
+ * Check the mapping of the recorded fixture responses
+ */
+async function testGitHubFixtures() {
+  console.log('\n📱 Testing GitHub API against recorded fixtures');
+  console.log('------------------------------------------');
+
+  const service = new GitHubApiService(fixtureTransport);
+
+  const status = await service.getApiStatus();
+  assert.equal(status.operational, true);
+  console.log(`✅ API status: ${status.message}`);
+
+  const data = await service.fetchUserData('octo-fixture');
+  assert.ok(data);
+  assert.equal(data.platformId, 'github');
+  assert.equal(data.username, 'octo-fixture');
+  assert.equal(data.profileData?.displayName, 'Octo Fixture');
+  assert.equal(data.profileData?.location, 'Berlin, Germany');
+  assert.equal(data.profileData?.followerCount, 142);
+  assert.equal(data.activityData?.totalPosts, 4);
+  assert.equal(data.activityData?.totalComments, 1);
+  assert.equal(data.activityData?.totalLikes, 1);
+  assert.equal(data.activityData?.totalShares, 1);
+  console.log('✅ Profile and activity mapped');
+
+  // 3 repos, 1 gist and 5 reportable events; the CreateEvent is skipped
+  assert.equal(data.contentData?.length, 9);
+  const timestamps = data.contentData!.map(item => new Date(item.timestamp).getTime());
+  assert.deepEqual(timestamps, [...timestamps].sort((a, b) => b - a));
+  assert.ok(data.contentData!.some(item => item.content?.startsWith('Forked repository octo-fixture/left-pad')));
+  console.log(`✅ ${data.contentData!.length} content items mapped`);
+
+  // Items are scored like any other platform's; stars are someone else's work and aren't
+  const scored = data.contentData!.filter(item => item.type !== 'like');
+  assert.ok(scored.every(item => item.sentiment && typeof item.sentimentScore === 'number'));
+  assert.equal(data.contentData!.find(item => item.type === 'like')?.sentiment, undefined);
+  const breakdown = data.analysisResults!.sentimentBreakdown;
+  assert.equal(Math.round((breakdown.positive + breakdown.neutral + breakdown.negative) * 10) / 10, 1);
+  console.log(`✅ Sentiment scored: ${JSON.stringify(breakdown)}`);
+
+  // The fork does not count towards the user's languages
+  assert.deepEqual(data.analysisResults?.topTopics.map(t => t.topic).sort(), ['Shell', 'TypeScript']);
+  // Shares are fractions of 1, like every other platform's topics
+  assert.deepEqual(data.analysisResults?.topTopics.map(t => t.percentage), [0.5, 0.5]);
+
+  // Commit emails are deduplicated, lower-cased and exclude noreply addresses
+  const concerns = data.analysisResults!.privacyConcerns;
+  const emailConcern = concerns.find(concern => concern.type === 'commit_email_exposure');
+  assert.ok(emailConcern, 'expected a commit email concern');
+  assert.equal(emailConcern.severity, 'high');
+  assert.ok(emailConcern.description.includes('octo.fixture@personal-mail.example'));
+  assert.ok(emailConcern.description.includes('octo.work@acme.example'));
+  assert.ok(!emailConcern.description.includes('noreply'));
+  assert.equal(data.analysisResults?.platformSpecificMetrics?.exposedCommitEmails, 2);
+  console.log(`✅ Commit email exposure flagged: ${emailConcern.description}`);
+
+  assert.deepEqual(
+    concerns.map(concern => concern.type).sort(),
+    ['commit_email_exposure', 'cross_platform_links', 'employer_disclosure', 'location_disclosure']
+  );
+  // Scoring is left to the exposure score engine
+  assert.equal(data.analysisResults?.exposureScore, 0);
+  assert.equal(data.privacyMetrics?.exposureScore, 0);
+  console.log('✅ Exposure score left to the scoring engine');
+
+  await assert.rejects(service.fetchUserData('ghost-fixture'), NotFoundError);
+  console.log('✅ Unknown user raises NotFoundError');
+
+  await assert.rejects(service.fetchUserData('limited-fixture'), (error: unknown) => {
+    assert.ok(error instanceof RateLimitError);
+    assert.ok(error.retryAfter !== undefined && error.retryAfter > 0);
+    return true;
+  });
+  console.log('✅ Exhausted rate limit raises RateLimitError with retryAfter');
+
+  console.log('\n✅ All GitHub fixture checks passed');
+}
+
+/**
+ * Fetch a user from the live GitHub API
+ * @param username GitHub login to fetch
+ */
+async function testGitHubLive(username: string) {
+  console.log(`\n📱 Testing GitHub API for user: ${username}`);
+  console.log('------------------------------------------');
+
+  const status = await githubApi.getApiStatus();
+  console.log(`API status: ${status.message}`);
+
+  const data = await githubApi.fetchUserData(username);
+  console.log(`✅ Found ${data?.profileData?.displayName} with ${data?.contentData?.length} content items`);
+  for (const concern of data?.analysisResults?.privacyConcerns || []) {
+    console.log(`- [${concern.severity}] ${concern.description}`);
+  }
+}
+
+/**
+ * Run the fixture checks, or a live fetch when a username is given
+ * @param username GitHub login to fetch live
+ */
+async function testGitHubAPI(username?: string) {
+  try {
+    if (username) {
+      await testGitHubLive(username);
+    } else {
+      await testGitHubFixtures();
+    }
+  } catch (error: any) {
+    console.error(`\n❌ GitHub API test failed: ${error.message}`);
+    process.exit(1);
+  }
+}
+
+// If this file is run directly, run the test with command line arguments,
+// exiting once done as the analysis provider keeps a timer running
+if (import.meta.url === `file://${process.argv[1]}`) {
+  testGitHubAPI(process.argv[2]).then(() => process.exit(0)).catch(error => {
+    console.error('Unhandled error:', error);
+    process.exit(1);
+  });
+}
+
+export default testGitHubAPI;
@@ -0,0 +1,102 @@
+/**
+ * Identity Linkage Test
+ *
+ * Checks which signals link sample accounts to each other, how confident the
+ * links are and how linked accounts are grouped.
+ *
+ * To run: npx tsx server/tests/test-identity-linkage.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, Platform, PlatformData } from '@shared/schema';
+import { identityLinkage } from '../services/identity-linkage';
+
+/**
+ * Posts written in one voice, at the given UTC hour each day
+ */
+function posts(hour: number, text: string): ContentItem[] {
+  return Array.from({ length: 12 }, (_, day) => ({
+    type: 'post' as const,
+    timestamp: new Date(Date.UTC(2024, 0, day + 1, hour)).toISOString(),
+    content: text,
+  }));
+}
+
+function account(platformId: Platform, username: string, profileData: PlatformData['profileData'], contentData: ContentItem[] = []): PlatformData {
+  return { platformId, username, profileData, contentData };
+}
+
+const CASUAL = 'honestly i just think this is really cool lol!! anyway, not sure about the rest tbh... what do you think?';
+const FORMAL = 'The proposal outlines several considerations regarding infrastructure; consequently, further review is warranted.';
+
+function testLinks(): void {
+  console.log('\n📋 Linking accounts');
+
+  const linkage = identityLinkage.analyze([
+    account('twitter', 'jane_doe', {
+      displayName: 'Jane Doe',
+      bio: 'Photographer in Leeds. Code at github.com/janedoe and prints at janedoe.photo.com',
+      avatarUrl: 'https://pbs.example.com/profile/a1b2c3d4e5f6.jpg',
+      location: 'Leeds, UK',
+    }, posts(21, CASUAL)),
+    account('github', 'janedoe', {
+      displayName: 'Jane Doe',
+      bio: 'Prints at janedoe.photo.com',
+      avatarUrl: 'https://avatars.example.com/u/a1b2c3d4e5f6.jpg',
+      location: 'Leeds',
+    }, posts(21, CASUAL)),
+    account('reddit', 'quiet_reader', {}, posts(9, FORMAL)),
+    account('all', 'jane_doe', { displayName: 'Jane Doe' }),
+  ]);
+
+  // The "all" overview is not an account of its own
+  assert.deepEqual(linkage.nodes.map(node => node.platform), ['twitter', 'github', 'reddit']);
+  assert.equal(linkage.links.length, 1);
+
+  const [link] = linkage.links;
+  assert.equal(link.source, 'twitter');
+  assert.equal(link.target, 'github');
+  assert.ok(link.confidence > 0.95);
+  assert.deepEqual(link.signals.map(signal => signal.signal).sort(), [
+    'avatar', 'bio', 'display_name', 'location', 'posting_times', 'profile_link', 'username', 'writing_style',
+  ]);
+  assert.equal(link.signals[0].signal, 'profile_link');
+  assert.deepEqual(linkage.clusters, [['twitter', 'github']]);
+  assert.equal(identityLinkage.countLinkedPlatforms(linkage), 2);
+  console.log('✅ Link checks passed');
+}
+
+function testWeakSignals(): void {
+  console.log('\n📋 Weak and missing signals');
+
+  // A shared city alone is too common to link accounts
+  const city = identityLinkage.analyze([
+    account('twitter', 'first_person', { location: 'London' }),
+    account('instagram', 'second_person', { location: 'London' }),
+  ]);
+  assert.deepEqual(city.links, []);
+  assert.deepEqual(city.clusters, []);
+
+  // A username that only contains the other one is not a profile link
+  const prefix = identityLinkage.analyze([
+    account('twitter', 'sam', { bio: 'Follow github.com/samuel_writes' }),
+    account('github', 'samuel', {}),
+  ]);
+  assert.ok(prefix.links.every(link => link.signals.every(signal => signal.signal !== 'profile_link')));
+
+  // Too little content to compare style or timing
+  const sparse = identityLinkage.analyze([
+    account('twitter', 'alpha', {}, posts(21, CASUAL).slice(0, 3)),
+    account('reddit', 'omega', {}, posts(21, CASUAL).slice(0, 3)),
+  ]);
+  assert.deepEqual(sparse.links, []);
+  console.log('✅ Weak signal checks passed');
+}
+
+try {
+  testLinks();
+  testWeakSignals();
+} catch (error: any) {
+  console.error(`\n❌ Identity linkage test failed: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,184 @@
+/**
+ * Insight Generator Test
+ *
+ * Generates insights for a sample footprint and checks each kind: disclosed
+ * PII and locations, linkable accounts, the most exposed platform, peak
+ * posting hours, dominant topics and sentiment drift, with the evidence they
+ * point to and the recommendations they add. Also checks that patterns are
+ * not reported from too little content.
+ *
+ * To run: npx tsx server/tests/test-insight-generator.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, FootprintInsight, IdentityLinkage, PlatformData } from '@shared/schema';
+import { InsightGenerator } from '../services/insight-generator';
+import { piiScanner } from '../services/pii-scanner';
+
+const NO_LINKAGE: IdentityLinkage = { nodes: [], links: [], clusters: [] };
+
+function account(data: PlatformData, exposureScore: number, extra: Partial<NonNullable<PlatformData['analysisResults']>> = {}): PlatformData {
+  return piiScanner.annotate({
+    ...data,
+    analysisResults: {
+      exposureScore,
+      topTopics: [],
+      activityTimeline: [],
+      sentimentBreakdown: { positive: 0, neutral: 1, negative: 0 },
+      privacyConcerns: [],
+      ...extra,
+    },
+  });
+}
+
+/**
+ * Twenty daily posts: 16 at 08:00 UTC and 4 at 20:00, cheerful at first and gloomy lately.
+ * Twelve are about #garden and four about #running.
+ */
+function dailyPosts(): ContentItem[] {
+  return Array.from({ length: 20 }, (_, day): ContentItem => ({
+    type: 'post',
+    timestamp: new Date(Date.UTC(2024, 2, 20 - day, day % 5 === 4 ? 20 : 8)).toISOString(),
+    content: day === 0 ? 'Call me on 555-867-5309 about the seedlings #garden'
+      : day < 12 ? `Day ${20 - day} in the #garden`
+      : day < 16 ? `Run number ${20 - day} #running`
+      : `Just a note, day ${20 - day}`,
+    sentiment: day < 10 ? 'negative' : 'positive',
+    location: day === 1 || day === 2 ? { name: 'Springfield Allotments' } : undefined,
+  }));
+}
+
+function twitter(): PlatformData {
+  return account({
+    platformId: 'twitter',
+    username: 'janefixture',
+    profileData: { location: 'Springfield' },
+    contentData: [
+      ...dailyPosts(),
+      // Liked posts are someone else's words and never count
+      { type: 'like', timestamp: '2024-03-21T08:00:00Z', content: 'Email me at someone.else@example.com' },
+    ],
+  }, 40);
+}
+
+function github(): PlatformData {
+  return account({
+    platformId: 'github',
+    username: 'janefixture',
+    profileData: { bio: 'Write to jane.fixture@example.com' },
+    contentData: [],
+  }, 72, {
+    exposureBreakdown: [
+      { factor: 'pii', label: 'Personal identifiers', weight: 25, value: 0.8, points: 20, detail: 'Email address found in your profile' },
+      { factor: 'linkability', label: 'Cross-platform linkability', weight: 15, value: 0.5, points: 7.5, detail: 'Email address shown' },
+    ],
+  });
+}
+
+const LINKAGE: IdentityLinkage = {
+  nodes: [],
+  links: [{
+    source: 'twitter',
+    target: 'github',
+    confidence: 0.8,
+    signals: [{ signal: 'username', strength: 1, detail: 'Both accounts use the username "janefixture"' }],
+  }],
+  clusters: [['twitter', 'github']],
+};
+
+function find(insights: FootprintInsight[], start: string): FootprintInsight {
+  const insight = insights.find(insight => insight.insight.startsWith(start));
+  assert.ok(insight, `expected an insight starting with "${start}"`);
+  return insight;
+}
+
+function testFootprint(): void {
+  console.log('\n📋 Sample footprint');
+
+  const { insights, recommendations } = new InsightGenerator().generate([twitter(), github()], LINKAGE);
+
+  // Warnings come first, each kind in a fixed order, then information
+  assert.deepEqual(insights.map(insight => insight.type), [
+    'warning', 'warning', 'warning', 'warning', 'warning', 'warning', 'info',
+  ]);
+
+  const pii = find(insights, 'Personal information found');
+  assert.equal(pii.insight, 'Personal information found in 1 item and the GitHub bio: phone number (1) and email address (1).');
+  // Evidence points at the item, with the number redacted from the excerpt
+  assert.equal(pii.evidence?.length, 1);
+  assert.equal(pii.evidence![0].platform, 'twitter');
+  assert.equal(pii.evidence![0].itemIndex, 0);
+  assert.ok(!pii.evidence![0].excerpt!.includes('555-867-5309'));
+
+  const location = find(insights, 'Location disclosed');
+  assert.equal(location.insight,
+    'Location disclosed: your Twitter profile lists "Springfield"; 2 items are tagged with places such as Springfield Allotments.');
+  assert.deepEqual(location.evidence?.map(evidence => evidence.itemIndex), [1, 2]);
+
+  const linked = find(insights, 'Your Twitter and GitHub accounts can be linked');
+  assert.ok(linked.insight.includes('(80% confidence)'));
+  assert.equal(linked.type, 'warning');
+
+  const exposed = find(insights, 'GitHub is your most exposed account');
+  assert.equal(exposed.insight,
+    'GitHub is your most exposed account, with an exposure score of 72/100, mainly from personal identifiers (Email address found in your profile).');
+
+  // 16 of 20 posts fall in one three hour window, regular enough to warn about
+  const peak = find(insights, 'Peak activity');
+  assert.ok(peak.insight.startsWith('Peak activity is between 07:00 and 10:00 UTC, when 80% of 20 timestamped posts and comments were made.'));
+  assert.equal(peak.type, 'warning');
+  assert.equal(peak.evidence?.length, 5);
+
+  const drift = find(insights, 'Your tone has become more negative');
+  assert.ok(drift.insight.includes('from +1.00 in older content to -1.00 in the most recent 10 items'));
+
+  const topics = find(insights, 'Most discussed topics');
+  assert.equal(topics.insight, 'Most discussed topics: #garden (75% of 16 items with topics) and #running (25%).');
+  assert.equal(topics.type, 'info');
+
+  // Recommendations follow the insights, most important first, capped at six
+  assert.deepEqual(recommendations, [
+    'Remove or edit the item that reveals your phone number',
+    'Remove your email address from your GitHub bio',
+    'Remove the location from your Twitter profile',
+    'Turn off location tagging and remove the place from 2 tagged items',
+    'Use different usernames on Twitter and GitHub if the accounts should stay separate',
+    // The first recommended action of the most exposed platform, here the PII scanner's
+    'Start with GitHub: remove contact details, addresses and financial information from your posts and profile',
+  ]);
+  console.log('✅ Sample footprint checks passed');
+}
+
+function testThresholds(): void {
+  console.log('\n📋 Thresholds');
+
+  const generator = new InsightGenerator();
+
+  // Nothing to go on
+  const empty = generator.generate([], NO_LINKAGE);
+  assert.deepEqual(empty.insights, [{ insight: 'Not enough public content was found to derive insights.', type: 'info' }]);
+  assert.deepEqual(empty.recommendations, ['Regularly audit and clean up old posts and comments']);
+
+  // Too few posts for hours, topics or sentiment; date-only timestamps have no time of day
+  const few = account({
+    platformId: 'reddit',
+    username: 'quiet',
+    contentData: [
+      ...dailyPosts().slice(0, 4).map(item => ({ ...item, content: 'Nothing to see #quiet', location: undefined })),
+      ...Array.from({ length: 10 }, (_, day): ContentItem => ({ type: 'comment', timestamp: `2024-02-${10 + day}`, content: 'ok' })),
+    ],
+  }, 10);
+  const { insights } = generator.generate([few], NO_LINKAGE);
+  assert.deepEqual(insights.map(insight => insight.insight), [
+    'Your Reddit account has an exposure score of 10/100.',
+  ]);
+  console.log('✅ Threshold checks passed');
+}
+
+try {
+  testFootprint();
+  testThresholds();
+} catch (error: any) {
+  console.error(`\n❌ Insight generator test failed: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,134 @@
+/**
+ * Legal Request Test
+ *
+ * Checks that GDPR and CCPA letters are filled in from the account and the
+ * footprint, and that sent letters get a statutory deadline, reminders once it
+ * passes, and a recorded response.
+ *
+ * To run: STORAGE_BACKEND=memory npx tsx server/tests/test-legal-requests.ts
+ */
+
+import assert from 'node:assert/strict';
+import { DeletionRequestDetails, DigitalFootprintResponse } from '@shared/schema';
+import { storage } from '../storage';
+import { LegalRequestError, LegalRequestService } from '../services/legal-requests';
+
+const DAY = 24 * 60 * 60 * 1000;
+const NOW = new Date('2026-03-02T09:00:00Z');
+const later = (days: number) => new Date(NOW.getTime() + days * DAY);
+
+const legalRequests = new LegalRequestService();
+
+const snapshot = {
+  username: 'jdoe',
+  timestamp: NOW.toISOString(),
+  platformData: [
+    { platformId: 'reddit', username: 'jdoe_r', profileData: { profileUrl: 'https://www.reddit.com/user/jdoe_r' } },
+    { platformId: 'twitter', username: 'jdoe_tw' },
+  ],
+} as DigitalFootprintResponse;
+
+const account = { username: 'jdoe', email: 'jdoe@example.com' };
+
+function testLetters(): void {
+  console.log('\n📋 Generating letters');
+
+  // A platform's letter only lists the user's account on that platform
+  const erasure = legalRequests.generateLetter(account, { recipientId: 'reddit', type: 'gdpr_erasure', fullName: 'Jane Doe' }, snapshot, NOW);
+  assert.equal(erasure.addressee, 'Reddit, Inc.');
+  assert.equal(erasure.subject, 'Request for erasure under Article 17 GDPR');
+  assert.deepEqual(erasure.identifiers, [
+    { label: 'Full name', value: 'Jane Doe' },
+    { label: 'Email address', value: 'jdoe@example.com' },
+    { label: 'Reddit username', value: 'jdoe_r' },
+    { label: 'Reddit profile', value: 'https://www.reddit.com/user/jdoe_r' },
+  ]);
+  assert.ok(erasure.body.includes('Date: 2 March 2026'));
+  assert.ok(erasure.body.includes('- Reddit username: jdoe_r'));
+  assert.ok(!erasure.body.includes('jdoe_tw'));
+  assert.ok(erasure.body.endsWith('Jane Doe'));
+
+  // The CCPA letter goes to the US entity
+  const deletion = legalRequests.generateLetter(account, { recipientId: 'youtube', type: 'ccpa_delete' }, snapshot, NOW);
+  assert.equal(deletion.addressee, 'Google LLC');
+  assert.ok(deletion.body.includes('1798.105'));
+  assert.ok(deletion.body.includes('YouTube channel'));
+  assert.ok(deletion.body.endsWith('jdoe'));
+
+  // Data brokers get every account found, with the postal address they index people by
+  const broker = legalRequests.generateLetter(
+    account,
+    { recipientId: 'spokeo', type: 'ccpa_opt_out', postalAddress: '1 Main St, Springfield' },
+    snapshot,
+    NOW
+  );
+  assert.deepEqual(broker.identifiers.map(identifier => identifier.label), [
+    'Email address', 'Postal address', 'Reddit username', 'Reddit profile', 'Twitter / X username',
+  ]);
+  assert.ok(broker.body.includes('people-search'));
+
+  assert.throws(
+    () => legalRequests.generateLetter(account, { recipientId: 'nobody', type: 'gdpr_access' }, snapshot, NOW),
+    LegalRequestError
+  );
+  console.log('✅ Letter checks passed');
+}
+
+async function testTracking(): Promise<void> {
+  console.log('\n📋 Tracking deadlines');
+
+  const user = await storage.createUser({ username: 'jdoe', email: 'jdoe@example.com', password: 'secret' });
+  const gdpr = await legalRequests.create(user, { recipientId: 'reddit', type: 'gdpr_access' }, snapshot, NOW);
+  const ccpa = await legalRequests.create(user, { recipientId: 'acxiom', type: 'ccpa_delete' }, snapshot, NOW);
+  assert.equal(gdpr.status, 'pending');
+  assert.deepEqual(gdpr.platforms, ['reddit']);
+  assert.deepEqual(ccpa.platforms, []);
+  assert.equal((gdpr.details as DeletionRequestDetails).requestType, 'legal_request');
+
+  // There's nothing to respond to until the letter is sent
+  await assert.rejects(legalRequests.recordResponse(gdpr, 'complied', undefined, NOW), LegalRequestError);
+
+  const sentGdpr = await legalRequests.markSent(gdpr, NOW);
+  const sentCcpa = await legalRequests.markSent(ccpa, NOW);
+  assert.equal(sentGdpr.status, 'in_progress');
+  assert.equal((sentGdpr.details as DeletionRequestDetails).legalRequest!.deadline, later(30).toISOString());
+  assert.equal((sentCcpa.details as DeletionRequestDetails).legalRequest!.deadline, later(45).toISOString());
+  await assert.rejects(legalRequests.markSent(sentGdpr, NOW), LegalRequestError);
+
+  // Nothing is due before the deadline
+  assert.equal((await legalRequests.checkDeadlines(later(29))).length, 0);
+
+  // Only the GDPR letter is overdue after 31 days
+  let reminded = await legalRequests.checkDeadlines(later(31));
+  assert.deepEqual(reminded.map(request => request.id), [gdpr.id]);
+  assert.ok((reminded[0].details as DeletionRequestDetails).legalRequest!.reminders[0].message.includes('missed'));
+
+  // The reminder repeats weekly, not on every check
+  assert.equal((await legalRequests.checkDeadlines(later(32))).length, 0);
+  reminded = await legalRequests.checkDeadlines(later(38));
+  assert.deepEqual(reminded.map(request => request.id), [gdpr.id]);
+  assert.ok((reminded[0].details as DeletionRequestDetails).legalRequest!.reminders[1].message.includes('8 days after the deadline'));
+
+  // A response finishes the request and stops the reminders
+  const current = (await storage.getDeletionRequestById(gdpr.id))!;
+  const responded = await legalRequests.recordResponse(current, 'complied', 'Data export received', later(40));
+  assert.equal(responded.status, 'completed');
+  assert.equal((responded.details as DeletionRequestDetails).legalRequest!.response!.outcome, 'complied');
+
+  reminded = await legalRequests.checkDeadlines(later(50));
+  assert.deepEqual(reminded.map(request => request.id), [ccpa.id]);
+
+  const refused = await legalRequests.recordResponse((await storage.getDeletionRequestById(ccpa.id))!, 'refused', undefined, later(51));
+  assert.equal(refused.status, 'failed');
+  console.log('✅ Tracking checks passed');
+}
+
+async function run(): Promise<void> {
+  testLetters();
+  await testTracking();
+}
+
+run().catch((error: any) => {
+  console.error(`\n❌ Legal request test failed: ${error.message}`);
+  process.exit(1);
+});
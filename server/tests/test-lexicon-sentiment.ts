@@ -0,0 +1,83 @@
+/**
+ * Lexicon Sentiment Test
+ *
+ * Checks how negations, intensifiers, "but" clauses, emphasis, emoticons and
+ * emoji move compound scores, and how content items are scored in place.
+ *
+ * To run: npx tsx server/tests/test-lexicon-sentiment.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem } from '@shared/schema';
+import { lexiconSentiment } from '../services/lexicon-sentiment';
+
+function compound(text: string): number {
+  return lexiconSentiment.analyze(text).compound;
+}
+
+function testScoring(): void {
+  console.log('\n📋 Scoring text');
+
+  assert.equal(lexiconSentiment.analyze('I love this').sentiment, 'positive');
+  assert.equal(lexiconSentiment.analyze('This is terrible').sentiment, 'negative');
+  assert.equal(lexiconSentiment.analyze('Meeting at 5pm in room 2').sentiment, 'neutral');
+  assert.deepEqual(lexiconSentiment.analyze(''), { sentiment: 'neutral', compound: 0, positive: 0, neutral: 1, negative: 0 });
+
+  // Negations flip a valence, including contractions
+  assert.equal(lexiconSentiment.analyze('I do not love this').sentiment, 'negative');
+  assert.equal(lexiconSentiment.analyze("I don't hate it").sentiment, 'positive');
+  assert.equal(lexiconSentiment.analyze('no problem').sentiment, 'positive');
+
+  // Intensifiers, caps and exclamation marks strengthen it
+  assert.ok(compound('This is very good') > compound('This is good'));
+  assert.ok(compound('This is slightly good') < compound('This is good'));
+  assert.ok(compound('This is GOOD') > compound('This is good'));
+  assert.ok(compound('This is good!!') > compound('This is good'));
+
+  // The clause after "but" outweighs the one before it
+  assert.equal(lexiconSentiment.analyze('The food was good but the service was terrible').sentiment, 'negative');
+  assert.equal(lexiconSentiment.analyze('The food was terrible but the service was good').sentiment, 'positive');
+
+  // Emoticons, emoji and stretched words
+  assert.equal(lexiconSentiment.analyze('see you tomorrow :)').sentiment, 'positive');
+  assert.equal(lexiconSentiment.analyze('missed the bus :(').sentiment, 'negative');
+  assert.equal(lexiconSentiment.analyze('exam results 😭').sentiment, 'negative');
+  assert.equal(lexiconSentiment.analyze('new job 🎉').sentiment, 'positive');
+  assert.equal(lexiconSentiment.analyze('sooo goood').sentiment, 'positive');
+
+  const proportions = lexiconSentiment.analyze('Great day, awful traffic');
+  assert.ok(Math.abs(proportions.positive + proportions.neutral + proportions.negative - 1) < 0.01);
+  console.log('✅ Scoring checks passed');
+}
+
+function testContent(): void {
+  console.log('\n📋 Scoring content items');
+
+  const items: ContentItem[] = [
+    { type: 'post', timestamp: '2024-01-01T00:00:00Z', content: 'What a wonderful morning' },
+    { type: 'comment', timestamp: '2024-01-02T00:00:00Z', content: 'This update is useless' },
+    { type: 'like', timestamp: '2024-01-03T00:00:00Z', content: 'Worst take I have ever read' },
+    { type: 'post', timestamp: '2024-01-04T00:00:00Z' },
+  ];
+  const breakdown = lexiconSentiment.scoreContent(items);
+
+  assert.equal(items[0].sentiment, 'positive');
+  assert.ok(items[0].sentimentScore! > 0);
+  assert.equal(items[1].sentiment, 'negative');
+  assert.ok(items[1].sentimentScore! < 0);
+  // Likes are someone else's words, and items without text have nothing to score
+  assert.equal(items[2].sentiment, undefined);
+  assert.equal(items[3].sentimentScore, undefined);
+  assert.deepEqual(breakdown, { positive: 0.5, neutral: 0, negative: 0.5 });
+
+  assert.deepEqual(lexiconSentiment.scoreContent([]), { positive: 0, neutral: 1, negative: 0 });
+  console.log('✅ Content checks passed');
+}
+
+try {
+  testScoring();
+  testContent();
+} catch (error: any) {
+  console.error(`\n❌ Lexicon sentiment test failed: ${error.message}`);
+  process.exit(1);
+}
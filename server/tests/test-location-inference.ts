@@ -0,0 +1,115 @@
+/**
+ * Location Inference Test
+ *
+ * Checks that profile locations, geotags, check-ins and place mentions are
+ * grouped into ranked home and work regions, that the time zone is estimated
+ * from activity hours, and that passing mentions are left out.
+ *
+ * To run: npx tsx server/tests/test-location-inference.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, PlatformData } from '@shared/schema';
+import { gazetteer } from '../services/gazetteer';
+import { locationInference } from '../services/location-inference';
+
+function platform(platformId: PlatformData['platformId'], contentData: ContentItem[], location?: string): PlatformData {
+  return { platformId, username: 'sample', profileData: location ? { location } : undefined, contentData };
+}
+
+// An item at a UTC time on 2024-01-01 (a Monday) plus some days
+function at(day: number, utcHour: number, extra: Partial<ContentItem> = {}): ContentItem {
+  const timestamp = new Date(Date.UTC(2024, 0, 1 + day, utcHour, 15)).toISOString();
+  return { type: 'post', timestamp, content: 'Another day', ...extra };
+}
+
+function testGazetteer(): void {
+  console.log('\n📋 Looking up places');
+
+  assert.equal(gazetteer.find('Berlin, Germany')?.name, 'Berlin');
+  assert.equal(gazetteer.find('NYC')?.name, 'New York');
+  assert.equal(gazetteer.find('Somewhere nice'), undefined);
+  assert.deepEqual(gazetteer.mentionsIn('Flying from New York City to Paris').map(m => m.place.name), ['New York', 'Paris']);
+  // Names are matched as written and as whole words
+  assert.deepEqual(gazetteer.mentionsIn('paris hilton and Romeo'), []);
+  assert.equal(gazetteer.nearest(52.5, 13.35, 50)?.name, 'Berlin');
+  assert.equal(gazetteer.nearest(0, 0, 50), undefined);
+  console.log('✅ Gazetteer checks passed');
+}
+
+function testRegions(): void {
+  console.log('\n📋 Inferring regions');
+
+  // Berlin is UTC+1: working hours are 8-16 UTC, evenings from 19 UTC
+  const instagram = platform('instagram', [
+    at(0, 20, { location: { name: '52.5200, 13.4050', latitude: 52.52, longitude: 13.405 } }),
+    at(1, 21, { location: { name: '52.5300, 13.4100', latitude: 52.53, longitude: 13.41 } }),
+    at(5, 11, { location: { name: '52.5100, 13.3900', latitude: 52.51, longitude: 13.39 } }),
+  ]);
+  const facebook = platform('facebook', [
+    at(2, 10, { location: { name: 'Factory Campus', latitude: 53.55, longitude: 9.99 } }),
+    at(3, 11, { location: { name: 'Factory Campus', latitude: 53.551, longitude: 9.995 } }),
+    at(4, 9, { content: 'Back at the office, I work in Hamburg most weeks' }),
+    at(6, 12, { content: 'Paris was lovely' }),
+  ], 'Berlin, Germany');
+
+  const { regions } = locationInference.infer([instagram, facebook]);
+  assert.deepEqual(regions.map(region => region.name), ['Berlin', 'Hamburg']);
+
+  const [berlin, hamburg] = regions;
+  assert.equal(berlin.kind, 'home');
+  assert.equal(berlin.country, 'Germany');
+  assert.ok(berlin.confidence > hamburg.confidence);
+  assert.deepEqual(Array.from(new Set(berlin.signals.map(signal => signal.source))).sort(), ['geotag', 'profile']);
+  assert.equal(berlin.evidence.length, 3);
+  assert.equal(berlin.evidence[0].platform, 'instagram');
+
+  // Check-ins in working hours and a stated workplace
+  assert.equal(hamburg.kind, 'work');
+  assert.ok(hamburg.signals.some(signal => signal.detail === 'Says they work in Hamburg'));
+
+  // Paris is named once in passing
+  assert.ok(!regions.some(region => region.name === 'Paris'));
+
+  assert.deepEqual(locationInference.infer([]), { regions: [], timezone: undefined });
+  console.log('✅ Region checks passed');
+}
+
+function testTimezone(): void {
+  console.log('\n📋 Estimating the time zone');
+
+  // Active from 7am to 11pm in UTC+9, so quiet between 14 and 22 UTC
+  const items: ContentItem[] = [];
+  for (let day = 0; day < 10; day++) {
+    for (const localHour of [7, 9, 12, 15, 18, 21, 23]) {
+      items.push(at(day, (localHour - 9 + 24) % 24));
+    }
+  }
+
+  const inference = locationInference.infer([platform('twitter', items, 'Tokyo')]);
+  assert.equal(inference.timezone!.utcOffset, 9);
+  assert.equal(inference.timezone!.confidence, 1);
+  assert.equal(inference.timezone!.itemCount, 70);
+
+  // The profile city agrees with the activity hours
+  const [tokyo] = inference.regions;
+  assert.equal(tokyo.name, 'Tokyo');
+  assert.ok(tokyo.signals.some(signal => signal.source === 'timezone'));
+
+  // Without a place, the time zone alone narrows it down
+  const unplaced = locationInference.infer([platform('twitter', items)]);
+  assert.deepEqual(unplaced.regions.map(region => region.name), ['UTC+09:00 time zone']);
+
+  // Too few items to tell
+  assert.equal(locationInference.infer([platform('twitter', items.slice(0, 10))]).timezone, undefined);
+  console.log('✅ Time zone checks passed');
+}
+
+try {
+  testGazetteer();
+  testRegions();
+  testTimezone();
+} catch (error: any) {
+  console.error(`\n❌ Location inference test failed: ${error.message}`);
+  process.exit(1);
+}
@@ -0,0 +1,90 @@
+/**
+ * PII Scanner Test
+ *
+ * Checks what the PII scanner detects in sample text, including numbers that
+ * match a pattern but fail validation, and how findings are added to
+ * platform data.
+ *
+ * To run: npx tsx server/tests/test-pii-scanner.ts
+ */
+
+import assert from 'node:assert/strict';
+import { PlatformData } from '@shared/schema';
+import { piiScanner } from '../services/pii-scanner';
+
+/**
+ * Scan text and return the type and matched text of each finding
+ */
+function detect(text: string): Array<[string, string]> {
+  return piiScanner.scanText(text).map(finding => [finding.type, text.slice(finding.start, finding.end)]);
+}
+
+function testDetection(): void {
+  console.log('\n📋 Detection');
+
+  assert.deepEqual(detect('Email jane.doe@example.com or call (555) 234-5678'), [
+    ['email', 'jane.doe@example.com'],
+    ['phone', '(555) 234-5678'],
+  ]);
+  assert.deepEqual(detect('Call +44 20 7946 0958'), [['phone', '+44 20 7946 0958']]);
+  // Luhn check: only the first number is a valid card number
+  assert.deepEqual(detect('Card 4111 1111 1111 1111, not 4111 1111 1111 1112'), [
+    ['credit_card', '4111 1111 1111 1111'],
+  ]);
+  // Checksum and country length: only the first is a valid IBAN
+  assert.deepEqual(detect('IBAN DE89 3704 0044 0532 0130 00 OK, not GB00 1234 5678 9012 3456 78'), [
+    ['iban', 'DE89 3704 0044 0532 0130 00'],
+  ]);
+  assert.deepEqual(detect('Born on 14/03/1990, DOB: 1985-02-30'), [['date_of_birth', '14/03/1990']]);
+  assert.deepEqual(detect('Moved to 221B Baker Street, Apt 4, London'), [
+    ['postal_address', '221B Baker Street, Apt 4, London'],
+  ]);
+  assert.deepEqual(detect('My license plate is 7ABC123'), [['license_plate', '7ABC123']]);
+  // Dates, IDs, versions and prices are not phone numbers
+  assert.deepEqual(detect('Order 2021-03-04, id 1234567890, v1.2.3.4, $1,299.99, @handle'), []);
+
+  const [card] = piiScanner.scanText('4111 1111 1111 1111');
+  assert.equal(card.redacted, '**** **** **** 1111');
+  console.log('✅ Detection checks passed');
+}
+
+function testAnnotate(): void {
+  console.log('\n📋 Annotating platform data');
+
+  const data: PlatformData = {
+    platformId: 'twitter',
+    username: 'fixture',
+    profileData: { bio: 'Text me on 555-234-5678' },
+    contentData: [
+      { type: 'post', timestamp: '2024-01-02T00:00:00Z', content: 'Write to me at fixture@example.com' },
+      { type: 'post', timestamp: '2024-01-01T00:00:00Z', content: 'Nothing personal here' },
+    ],
+    analysisResults: {
+      exposureScore: 10,
+      topTopics: [],
+      activityTimeline: [],
+      sentimentBreakdown: { positive: 0, neutral: 1, negative: 0 },
+      privacyConcerns: [],
+    },
+  };
+
+  const annotated = piiScanner.annotate(data);
+  assert.equal(annotated.contentData![0].piiFindings?.[0].type, 'email');
+  assert.equal(annotated.contentData![1].piiFindings, undefined);
+  assert.deepEqual(annotated.analysisResults!.privacyConcerns.map(concern => concern.type), ['pii_phone', 'pii_email']);
+  assert.deepEqual(annotated.analysisResults!.dataCategories, [{ category: 'Contact Information', severity: 'high' }]);
+  assert.equal(annotated.analysisResults!.piiSummary?.itemsWithPii, 1);
+  assert.equal(annotated.analysisResults!.piiSummary?.bioFindings.length, 1);
+
+  // Annotating again replaces the earlier PII concerns instead of adding to them
+  assert.deepEqual(piiScanner.annotate(annotated), annotated);
+  console.log('✅ Annotation checks passed');
+}
+
+try {
+  testDetection();
+  testAnnotate();
+} catch (error: any) {
+  console.error(`\n❌ PII scanner test failed: ${error.message}`);
+  process.exit(1);
+}
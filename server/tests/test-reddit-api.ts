@@ -120,20 +120,20 @@ async function testRedditAPI(username: string = 'evanhaus') {
     console.error(`\n❌ Error: ${error.message}`);
     
     // Provide more helpful context based on error type
-    if (error.message.includes('API_ERROR') || error.message.includes('API error')) {
+    if (error.code === 'API_ERROR' || error.message.includes('API error')) {
       console.log('\nThis may be due to:');
       console.log('- Incorrect API credentials');
       console.log('- Rate limiting from Reddit');
       console.log('- Network connectivity issues');
-    } else if (error.message.includes('AUTH_ERROR')) {
+    } else if (error.code === 'AUTH_ERROR') {
       console.log('\nAuthentication failed. Please check:');
       console.log('- REDDIT_CLIENT_ID');
       console.log('- REDDIT_CLIENT_SECRET');
       console.log('- REDDIT_USERNAME (if using script auth)');
       console.log('- REDDIT_PASSWORD (if using script auth)');
-    } else if (error.message.includes('NOT_FOUND')) {
+    } else if (error.code === 'NOT_FOUND') {
       console.log('\nThe specified username does not exist on Reddit.');
-    } else if (error.message.includes('PRIVACY_ERROR')) {
+    } else if (error.code === 'PRIVACY_ERROR') {
       console.log('\nThe user account exists but access to data is restricted due to:');
       console.log('- Account privacy settings');
       console.log('- Account suspension');
@@ -0,0 +1,116 @@
+/**
+ * Topic Extractor Test
+ *
+ * Checks that content is grouped into labelled topics with the share of items
+ * about each, that representative items are redacted references back to the
+ * content, and that sparse content keeps the connector's own topics.
+ *
+ * To run: npx tsx server/tests/test-topic-extractor.ts
+ */
+
+import assert from 'node:assert/strict';
+import { ContentItem, PlatformData } from '@shared/schema';
+import { piiScanner } from '../services/pii-scanner';
+import { topicExtractor } from '../services/topic-extractor';
+
+function post(content: string, day: number): ContentItem {
+  return { type: 'post', timestamp: `2024-01-${String(day).padStart(2, '0')}T12:00:00Z`, content, url: `https://example.com/${day}` };
+}
+
+const REDDIT: ContentItem[] = [
+  post('Switched my phone to a privacy focused browser and a VPN', 1),
+  post('Is this VPN any safe for privacy?', 2),
+  post('Privacy settings on my browser keep resetting', 3),
+  post('Espresso beans for a home coffee setup', 4),
+  post('My coffee grinder broke again', 5),
+  post('Pour over coffee or espresso in the morning', 6),
+  post('Marathon training week 5, long run done', 7),
+  post('New running shoes for marathon training', 8),
+  post('Knee pain after running, any tips?', 9),
+  post('Hello world', 10),
+];
+
+function testExtraction(): void {
+  console.log('\n📋 Extracting topics');
+
+  const topics = topicExtractor.extract([{ platform: 'reddit', items: REDDIT }]);
+  assert.deepEqual(topics.map(topic => topic.topic).sort(), ['Coffee & Espresso', 'Privacy & Browser', 'Running & Marathon']);
+  // Shares are of every item with text, including those in no topic
+  assert.ok(topics.every(topic => topic.percentage === 0.3));
+
+  const coffee = topics.find(topic => topic.topic === 'Coffee & Espresso')!;
+  assert.deepEqual(coffee.representativeItems!.map(item => item.itemIndex).sort(), [3, 4, 5]);
+  assert.equal(coffee.representativeItems![0].platform, 'reddit');
+  assert.equal(coffee.representativeItems![0].url, `https://example.com/${coffee.representativeItems![0].itemIndex + 1}`);
+
+  // The same content always yields the same topics
+  assert.deepEqual(topicExtractor.extract([{ platform: 'reddit', items: REDDIT }]), topics);
+
+  // Too little text to find topics in
+  assert.deepEqual(topicExtractor.extract([{ platform: 'reddit', items: REDDIT.slice(0, 3) }]), []);
+  assert.deepEqual(topicExtractor.extract([]), []);
+  console.log('✅ Extraction checks passed');
+}
+
+function testAcrossPlatforms(): void {
+  console.log('\n📋 Extracting topics across platforms');
+
+  const twitter = [
+    post('Morning run before work, marathon is close', 11),
+    post('Best coffee shop in town for espresso', 12),
+  ];
+  const topics = topicExtractor.extract([
+    { platform: 'reddit', items: REDDIT },
+    { platform: 'twitter', items: twitter },
+  ]);
+
+  // Items point back to their position in their own platform's content
+  const running = topics.find(topic => topic.topic.startsWith('Running') || topic.topic.startsWith('Marathon'))!;
+  assert.ok(running.representativeItems!.some(item => item.platform === 'reddit'));
+  const twitterItems = topics.flatMap(topic => topic.representativeItems!).filter(item => item.platform === 'twitter');
+  assert.ok(twitterItems.every(item => item.itemIndex < twitter.length));
+  console.log('✅ Cross-platform checks passed');
+}
+
+function testApplyTo(): void {
+  console.log('\n📋 Applying topics to platform data');
+
+  const data = (contentData: ContentItem[]): PlatformData => ({
+    platformId: 'reddit',
+    username: 'sample',
+    contentData,
+    analysisResults: {
+      exposureScore: 0,
+      topTopics: [{ topic: 'r/coffee', percentage: 1 }],
+      activityTimeline: [],
+      sentimentBreakdown: { positive: 0, neutral: 1, negative: 0 },
+      privacyConcerns: [],
+    },
+  });
+
+  const extracted = topicExtractor.applyTo(data(REDDIT));
+  assert.equal(extracted.analysisResults!.topTopics.length, 3);
+
+  // Sparse content keeps the topics the connector derived
+  const sparse = topicExtractor.applyTo(data(REDDIT.slice(0, 2)));
+  assert.deepEqual(sparse.analysisResults!.topTopics, [{ topic: 'r/coffee', percentage: 1 }]);
+
+  // Excerpts of scanned content have their PII redacted
+  const withEmail = REDDIT.map((item, index) =>
+    index === 4 ? { ...item, content: 'My coffee grinder broke again, email me at jane.doe@example.com' } : item
+  );
+  const annotated = topicExtractor.applyTo(piiScanner.annotate(data(withEmail)));
+  const excerpts = annotated.analysisResults!.topTopics.flatMap(topic => topic.representativeItems!.map(item => item.excerpt!));
+  assert.ok(excerpts.some(excerpt => excerpt.startsWith('My coffee grinder')));
+  assert.ok(excerpts.every(excerpt => !excerpt.includes('jane.doe@example.com')));
+  console.log('✅ Platform data checks passed');
+}
+
+try {
+  testExtraction();
+  testAcrossPlatforms();
+  testApplyTo();
+} catch (error: any) {
+  console.error(`\n❌ Topic extractor test failed: ${error.message}`);
+  process.exit(1);
+}
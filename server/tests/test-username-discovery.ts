@@ -0,0 +1,144 @@
+/**
+ * Username Discovery Test
+ *
+ * Checks which variants are derived from a username and display name, and
+ * probes them against fake connectors: which variants each platform is asked
+ * about, how found accounts are ranked, that answers are cached and that a
+ * rate limited platform stops being probed.
+ *
+ * To run: npx tsx server/tests/test-username-discovery.ts
+ */
+
+import assert from 'node:assert/strict';
+import { Platform } from '@shared/schema';
+import { cacheService } from '../services/cache-service';
+import { ConnectorStatus, PlatformConnector, PlatformConnectorRegistry } from '../services/platform-connector';
+import { RateLimitError } from '../services/platform-errors';
+import { UsernameDiscoveryService } from '../services/username-discovery';
+
+/**
+ * A connector whose lookups answer from a fixed set of accounts and record what was asked
+ */
+function fakeConnector(
+  platform: Exclude<Platform, 'all'>,
+  accounts: string[],
+  options: { status?: ConnectorStatus; rateLimitAt?: string; noLookup?: boolean } = {}
+): PlatformConnector & { probed: string[]; rateLimitAt?: string } {
+  const connector = {
+    platform,
+    displayName: `Fake ${platform}`,
+    capabilities: { deletion: false, oauth: false, contentTypes: [] },
+    probed: [] as string[],
+    rateLimitAt: options.rateLimitAt,
+    fetchUserData: async () => null,
+    getApiStatus: async () => options.status ?? { configured: true, operational: true, message: 'OK' },
+    checkUsernameExists: async (username: string) => {
+      connector.probed.push(username);
+      if (username === connector.rateLimitAt) {
+        throw new RateLimitError(platform, { retryAfter: 60 });
+      }
+      return accounts.includes(username);
+    },
+  };
+  if (options.noLookup) {
+    return { ...connector, checkUsernameExists: undefined };
+  }
+  return connector;
+}
+
+function testVariants(): void {
+  console.log('\n📋 Variant generation');
+
+  const discovery = new UsernameDiscoveryService(new PlatformConnectorRegistry());
+  const variants = discovery.generateVariants('john_doe92', 'John Doe');
+  assert.deepEqual(variants.map(variant => variant.username), [
+    'johndoe92', 'john.doe92', 'john-doe92',
+    'johndoe', 'john_doe', 'john.doe', 'john-doe',
+    'jdoe92', 'jdoe', 'johnd92',
+  ]);
+  // Likeliest first; the searched username itself is never a variant
+  assert.deepEqual(variants.map(variant => variant.likelihood), [...variants.map(v => v.likelihood)].sort((a, b) => b - a));
+  assert.ok(!variants.some(variant => variant.username === 'john_doe92'));
+
+  // camelCase and @ or u/ prefixes split into the same words
+  assert.deepEqual(discovery.generateVariants('@JaneDoe').map(variant => variant.username),
+    ['jane_doe', 'jane.doe', 'jane-doe', 'jdoe', 'janed']);
+  assert.deepEqual(discovery.generateVariants('u/jane_doe').map(variant => variant.username),
+    ['janedoe', 'jane.doe', 'jane-doe', 'jdoe', 'janed']);
+
+  // The display name adds handles built from the real name
+  const fromName = discovery.generateVariants('gardenfan', 'Jane Q. Public');
+  assert.ok(fromName.some(variant => variant.username === 'jane_public' && variant.reason.includes('display name')));
+  assert.ok(fromName.some(variant => variant.username === 'jpublic'));
+  console.log('✅ Variant checks passed');
+}
+
+async function testDiscovery(): Promise<void> {
+  console.log('\n📋 Discovery');
+
+  cacheService.usernameExists.clear();
+  const twitter = fakeConnector('twitter', ['johndoe92', 'jdoe']);
+  const github = fakeConnector('github', ['johndoe92']);
+  const reddit = fakeConnector('reddit', ['john-doe92'], { rateLimitAt: 'johndoe' });
+  const instagram = fakeConnector('instagram', [], {
+    status: { configured: false, message: 'Instagram API is not configured.' },
+  });
+  const facebook = fakeConnector('facebook', [], { noLookup: true });
+
+  const registry = new PlatformConnectorRegistry();
+  [twitter, github, reddit, instagram, facebook].forEach(connector => registry.register(connector));
+  const discovery = new UsernameDiscoveryService(registry);
+  const query = { username: 'john_doe92', displayName: 'John Doe', platforms: ['all' as const] };
+
+  const result = await discovery.discover(query);
+
+  // Only variants a platform accepts are probed, one at a time in order of likelihood
+  assert.deepEqual(twitter.probed, ['johndoe92', 'johndoe', 'john_doe', 'jdoe92', 'jdoe', 'johnd92']);
+  assert.deepEqual(github.probed, ['johndoe92', 'john-doe92', 'johndoe', 'john-doe', 'jdoe92', 'jdoe', 'johnd92']);
+  assert.equal(instagram.probed.length, 0);
+
+  // Reddit stops at the rate limit and keeps what it found before it
+  assert.deepEqual(reddit.probed, ['johndoe92', 'john-doe92', 'johndoe']);
+
+  // A variant found on several platforms gets a bonus, then ties are ordered by platform
+  assert.deepEqual(result.candidates.map(c => [c.platform, c.username, c.confidence]), [
+    ['github', 'johndoe92', 0.85],
+    ['twitter', 'johndoe92', 0.85],
+    ['reddit', 'john-doe92', 0.8],
+    ['twitter', 'jdoe', 0.4],
+  ]);
+  assert.deepEqual(
+    [...result.skippedPlatforms].sort((a, b) => a.platform.localeCompare(b.platform)),
+    [
+      { platform: 'facebook', reason: 'This platform has no account lookup' },
+      { platform: 'instagram', reason: 'Instagram API is not configured.' },
+      { platform: 'reddit', reason: new RateLimitError('reddit').userMessage },
+    ]
+  );
+  assert.equal(result.variants.length, 10);
+  console.log('✅ Discovery checks passed');
+
+  // Answers are cached; the rate limited probe was not, so Reddit resumes there
+  twitter.probed.length = 0;
+  github.probed.length = 0;
+  reddit.probed.length = 0;
+  reddit.rateLimitAt = undefined;
+  const again = await discovery.discover(query);
+  assert.equal(twitter.probed.length, 0);
+  assert.equal(github.probed.length, 0);
+  assert.deepEqual(reddit.probed, ['johndoe', 'john_doe', 'john-doe', 'jdoe92', 'jdoe', 'johnd92']);
+  assert.equal(again.candidates.length, 4);
+  assert.ok(!again.skippedPlatforms.some(skipped => skipped.platform === 'reddit'));
+  console.log('✅ Caching checks passed');
+}
+
+async function run(): Promise<void> {
+  testVariants();
+  await testDiscovery();
+}
+
+// The rate limiter keeps a timer running, so exit once done
+run().then(() => process.exit(0)).catch((error: any) => {
+  console.error(`\n❌ Username discovery test failed: ${error.message}`);
+  process.exit(1);
+});
@@ -4,6 +4,8 @@ declare namespace Express {
     session?: {
       userId?: number | null;
       lastActivity?: number;
+      // State sent with the Reddit OAuth redirect, checked on the callback
+      redditOAuthState?: string;
       destroy: (callback: (err: any) => void) => void;
     }
     // Add custom user property for use with loadUser middleware
@@ -22,5 +24,6 @@ declare module 'express-session' {
   interface SessionData {
     userId?: number | null;
     lastActivity?: number;
+    redditOAuthState?: string;
   }
 }
\ No newline at end of file
@@ -69,16 +69,81 @@ export const searchQuerySchemaWithValidation = searchQuerySchema.refine(
 
 export type SearchQuery = z.infer<typeof searchQuerySchema>;
 
+// Request to look for accounts under variants of a username
+export const usernameDiscoveryQuerySchema = z.object({
+  username: z.string().trim().min(1, "Username is required"),
+  // Names are a source of variants such as first_last or flast
+  displayName: z.string().trim().optional(),
+  platforms: z.array(platformEnum).min(1, "At least one platform must be selected"),
+});
+
+export type UsernameDiscoveryQuery = z.infer<typeof usernameDiscoveryQuerySchema>;
+
+// An existing account found under a username variant
+export const discoveredAccountSchema = z.object({
+  platform: platformEnum,
+  username: z.string(),
+  // How the variant was derived from the username or display name
+  reason: z.string(),
+  // 0-1, how likely the account belongs to the same person
+  confidence: z.number(),
+});
+
+export type DiscoveredAccount = z.infer<typeof discoveredAccountSchema>;
+
+export const usernameDiscoveryResultSchema = z.object({
+  username: z.string(),
+  variants: z.array(z.string()),
+  // Most likely accounts first
+  candidates: z.array(discoveredAccountSchema),
+  // Platforms that could not be checked, and why
+  skippedPlatforms: z.array(z.object({
+    platform: platformEnum,
+    reason: z.string(),
+  })),
+});
+
+export type UsernameDiscoveryResult = z.infer<typeof usernameDiscoveryResultSchema>;
+
+// Reasons a platform lookup can fail
+export const platformErrorCodeEnum = z.enum([
+  "PRIVACY_ERROR",
+  "NOT_FOUND",
+  "RATE_LIMITED",
+  "AUTH_ERROR",
+  "PERMISSION_ERROR",
+  "ACCESS_BLOCKED",
+  "UNAVAILABLE",
+  "API_ERROR",
+]);
+
+export type PlatformErrorCode = z.infer<typeof platformErrorCodeEnum>;
+
+// Platform failure as reported to the client
+export const platformErrorInfoSchema = z.object({
+  code: platformErrorCodeEnum,
+  platform: z.string(),
+  message: z.string(),
+  // Seconds until the platform can be queried again
+  retryAfter: z.number().optional(),
+});
+
+export type PlatformErrorInfo = z.infer<typeof platformErrorInfoSchema>;
+
 // History of searches
 export const searchHistory = pgTable("search_history", {
   id: serial("id").primaryKey(),
   userId: integer("user_id").references(() => users.id),
   username: text("username").notNull(),
   platforms: text("platforms").array().notNull(),
+  // Platforms that could not be searched, by platform
+  platformErrors: jsonb("platform_errors").$type<Record<string, PlatformErrorInfo>>(),
   timestamp: timestamp("timestamp").defaultNow().notNull(),
 });
 
-export const insertSearchHistorySchema = createInsertSchema(searchHistory).omit({
+export const insertSearchHistorySchema = createInsertSchema(searchHistory, {
+  platformErrors: z.record(platformErrorInfoSchema).nullable().optional(),
+}).omit({
   id: true,
   timestamp: true,
 });
@@ -114,6 +179,168 @@ export const insertDeletionRequestSchema = createInsertSchema(deletionRequests).
   timestamp: true,
 });
 
+export const deletionStatusEnum = z.enum(["pending", "in_progress", "completed", "failed", "cancelled"]);
+
+export type DeletionStatus = z.infer<typeof deletionStatusEnum>;
+
+// Steps each platform in a deletion request goes through, in order
+export const deletionStepEnum = z.enum([
+  "verify_ownership",
+  "execute",
+  "await_confirmation",
+  "verify_rescan",
+]);
+
+export type DeletionStep = z.infer<typeof deletionStepEnum>;
+
+// What to delete; without any option set, everything is deleted
+export const deletionOptionsSchema = z.object({
+  deleteAll: z.boolean().optional().default(false),
+  deleteTweets: z.boolean().optional().default(false),
+  deleteComments: z.boolean().optional().default(false),
+  deleteLikes: z.boolean().optional().default(false),
+  // URLs of the only items to delete, as in contentData
+  itemUrls: z.array(z.string().url()).optional(),
+});
+
+export type DeletionOptions = z.infer<typeof deletionOptionsSchema>;
+
+// Outcome of deleting one content item, through a platform's API or by hand
+export const deletionItemResultSchema = z.object({
+  url: z.string(),
+  type: z.enum(["post", "comment", "like", "share"]),
+  // Pending until a re-scan shows whether an item the platform accepted for deletion is gone
+  status: z.enum(["deleted", "pending", "failed"]),
+  // Whether the text was overwritten before deleting, so copies taken later don't keep it
+  edited: z.boolean(),
+  error: z.string().optional(),
+  at: z.string(),
+});
+
+export type DeletionItemResult = z.infer<typeof deletionItemResultSchema>;
+
+// A content item picked for deletion, as in contentData
+export const deletionItemSchema = z.object({
+  url: z.string().url(),
+  type: z.enum(["post", "comment", "like", "share"]),
+});
+
+export type DeletionItem = z.infer<typeof deletionItemSchema>;
+
+// Progress of one platform through the deletion steps
+export const deletionPlatformProgressSchema = z.object({
+  platform: platformEnum,
+  username: z.string(),
+  step: deletionStepEnum,
+  // "waiting" means waiting on the user, e.g. to add the verification code or delete by hand
+  status: z.enum(["pending", "in_progress", "waiting", "completed", "failed", "cancelled"]),
+  // Attempts at the current step
+  attempts: z.number(),
+  // When the current step runs again, or gives up waiting on the user
+  nextAttemptAt: z.string().optional(),
+  // Deleted through the platform's API or by the user following instructions
+  method: z.enum(["api", "instructions"]).optional(),
+  instructions: z.array(z.string()).optional(),
+  settingsUrl: z.string().optional(),
+  // ID the platform gave the deletion when it went through its API
+  externalRequestId: z.string().optional(),
+  // The only items to delete on this platform, in place of the request's options
+  selectedItems: z.array(deletionItemSchema).optional(),
+  // Outcome for each item deleted, in the order they were processed or found gone
+  itemResults: z.array(deletionItemResultSchema).optional(),
+  // Content items found when ownership was verified and at the last re-scan
+  baselineItems: z.number().optional(),
+  remainingItems: z.number().optional(),
+  lastError: z.string().optional(),
+  updatedAt: z.string(),
+  completedAt: z.string().optional(),
+});
+
+export type DeletionPlatformProgress = z.infer<typeof deletionPlatformProgressSchema>;
+
+export const deletionEventSchema = z.object({
+  at: z.string(),
+  platform: platformEnum.optional(),
+  step: deletionStepEnum.optional(),
+  type: z.enum([
+    "created",
+    "step_completed",
+    // Part of a step done, e.g. a batch of items deleted
+    "progress",
+    "waiting",
+    "retry_scheduled",
+    "confirmed",
+    "completed",
+    "failed",
+    "cancelled",
+  ]),
+  message: z.string(),
+});
+
+export type DeletionEvent = z.infer<typeof deletionEventSchema>;
+
+// State of the deletion workflow, kept in a deletion request's details
+export const deletionWorkflowSchema = z.object({
+  // Code the user adds to their profile bio to prove they own the accounts
+  verificationCode: z.string(),
+  options: deletionOptionsSchema,
+  platforms: z.array(deletionPlatformProgressSchema),
+  // Oldest first
+  events: z.array(deletionEventSchema),
+});
+
+export type DeletionWorkflow = z.infer<typeof deletionWorkflowSchema>;
+
+// Formal data-subject requests, for recipients with no deletion API
+export const legalRequestTypeEnum = z.enum([
+  // GDPR Article 15, right of access
+  "gdpr_access",
+  // GDPR Article 17, right to erasure
+  "gdpr_erasure",
+  // CCPA right to delete
+  "ccpa_delete",
+  // CCPA right to opt out of sale or sharing
+  "ccpa_opt_out",
+]);
+
+export type LegalRequestType = z.infer<typeof legalRequestTypeEnum>;
+
+// Days a recipient has to respond once the letter is sent
+export const legalRequestResponseDays: Record<LegalRequestType, number> = {
+  gdpr_access: 30,
+  gdpr_erasure: 30,
+  ccpa_delete: 45,
+  ccpa_opt_out: 45,
+};
+
+// A generated letter and its deadline tracking, kept in a deletion request's details
+export const legalRequestSchema = z.object({
+  type: legalRequestTypeEnum,
+  recipientId: z.string(),
+  recipientName: z.string(),
+  // Legal entity the letter is addressed to
+  addressee: z.string(),
+  // Where the recipient publishes its current privacy contact details
+  contactUrl: z.string().url(),
+  subject: z.string(),
+  body: z.string(),
+  // Details the letter lists so the recipient can find the user's data
+  identifiers: z.array(z.object({ label: z.string(), value: z.string() })),
+  generatedAt: z.string(),
+  // Set once the user has sent the letter, which starts the clock
+  sentAt: z.string().optional(),
+  deadline: z.string().optional(),
+  // Raised while the deadline has passed without a response
+  reminders: z.array(z.object({ at: z.string(), message: z.string() })),
+  response: z.object({
+    at: z.string(),
+    outcome: z.enum(["complied", "refused"]),
+    notes: z.string().optional(),
+  }).optional(),
+});
+
+export type LegalRequest = z.infer<typeof legalRequestSchema>;
+
 // Subscription plan
 export const subscriptionPlans = pgTable("subscription_plans", {
   id: serial("id").primaryKey(),
@@ -132,6 +359,151 @@ export const userSubscriptions = pgTable("user_subscriptions", {
   active: boolean("active").default(true),
 });
 
+// How often a watched identity is re-scanned
+export const monitoringCadenceEnum = z.enum(["hourly", "daily", "weekly"]);
+
+export type MonitoringCadence = z.infer<typeof monitoringCadenceEnum>;
+
+export const monitoringCadenceIntervals: Record<MonitoringCadence, number> = {
+  hourly: 60 * 60 * 1000,
+  daily: 24 * 60 * 60 * 1000,
+  weekly: 7 * 24 * 60 * 60 * 1000,
+};
+
+// Rules that raise an alert when a monitoring scan finds a matching change
+export const alertRuleSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("exposure_score_increase"),
+    threshold: z.number().min(0),
+  }),
+  z.object({
+    type: z.literal("new_high_severity_concern"),
+  }),
+  z.object({
+    type: z.literal("content_mentions"),
+    term: z.string().min(1, "A term to look for is required"),
+    label: z.string().optional(),
+  }),
+]);
+
+export type AlertRule = z.infer<typeof alertRuleSchema>;
+
+// Identities a user has asked us to re-scan on a schedule
+export const watchedIdentities = pgTable("watched_identities", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  label: text("label").notNull(),
+  platformUsernames: jsonb("platform_usernames").$type<PlatformUsername[]>().notNull(),
+  cadence: text("cadence").$type<MonitoringCadence>().notNull().default("daily"),
+  alertRules: jsonb("alert_rules").$type<AlertRule[]>().notNull(),
+  active: boolean("active").notNull().default(true),
+  lastRunAt: timestamp("last_run_at"),
+  lastSearchId: integer("last_search_id").references(() => searchHistory.id),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertWatchedIdentitySchema = createInsertSchema(watchedIdentities, {
+  label: z.string().min(1, "Label is required"),
+  platformUsernames: z.array(z.object({
+    platform: platformEnum.exclude(["all"]),
+    username: z.string().min(1, "Username is required"),
+  })).min(1, "At least one platform username is required"),
+  cadence: monitoringCadenceEnum,
+  alertRules: z.array(alertRuleSchema),
+}).omit({
+  id: true,
+  lastRunAt: true,
+  lastSearchId: true,
+  createdAt: true,
+});
+
+// Alerts raised by monitoring scans
+export const monitoringAlerts = pgTable("monitoring_alerts", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  watchedIdentityId: integer("watched_identity_id").references(() => watchedIdentities.id, { onDelete: "cascade" }).notNull(),
+  searchId: integer("search_id").references(() => searchHistory.id),
+  ruleType: text("rule_type").notNull(),
+  severity: text("severity").$type<"low" | "medium" | "high">().notNull(),
+  message: text("message").notNull(),
+  details: jsonb("details").notNull(),
+  read: boolean("read").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertMonitoringAlertSchema = createInsertSchema(monitoringAlerts, {
+  severity: z.enum(["low", "medium", "high"]),
+}).omit({
+  id: true,
+  read: true,
+  createdAt: true,
+});
+
+// Platform data imported from account archives that users download themselves
+export const archiveImports = pgTable("archive_imports", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  platform: text("platform").$type<Platform>().notNull(),
+  username: text("username").notNull(),
+  data: jsonb("data").$type<PlatformData>().notNull(),
+  // Number of records found in the archive by kind, e.g. { tweets: 1200 }
+  stats: jsonb("stats").$type<Record<string, number>>().notNull(),
+  importedAt: timestamp("imported_at").defaultNow().notNull(),
+});
+
+// Platform accounts users have connected through OAuth, so we can act on their behalf
+export const platformConnections = pgTable("platform_connections", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  platform: text("platform").$type<Platform>().notNull(),
+  // Username of the connected account on the platform
+  platformUsername: text("platform_username").notNull(),
+  accessToken: text("access_token").notNull(),
+  refreshToken: text("refresh_token"),
+  expiresAt: timestamp("expires_at"),
+  scopes: text("scopes").array().notNull(),
+  connectedAt: timestamp("connected_at").defaultNow().notNull(),
+});
+
+// What an item must match for a deletion policy to delete it; every condition set must match
+export const deletionPolicyConditionsSchema = z.object({
+  platforms: z.array(platformEnum.exclude(["all"])).optional(),
+  contentTypes: z.array(z.enum(["post", "comment", "like", "share"])).optional(),
+  // Only items posted at least this many days ago
+  olderThanDays: z.number().int().min(1).optional(),
+  // Only items with PII the scanner rates at least this severe
+  minPiiSeverity: z.enum(["low", "medium", "high"]).optional(),
+  sentiments: z.array(z.enum(["positive", "neutral", "negative"])).optional(),
+  // Only items with at most this many likes, comments and shares combined
+  maxEngagement: z.number().int().min(0).optional(),
+}).refine(
+  conditions => Object.values(conditions).some(value => value !== undefined && (!Array.isArray(value) || value.length > 0)),
+  "A policy needs at least one condition"
+);
+
+export type DeletionPolicyConditions = z.infer<typeof deletionPolicyConditionsSchema>;
+
+// Standing rules that queue matching items for deletion whenever a new snapshot comes in
+export const deletionPolicies = pgTable("deletion_policies", {
+  id: serial("id").primaryKey(),
+  userId: integer("user_id").references(() => users.id).notNull(),
+  name: text("name").notNull(),
+  conditions: jsonb("conditions").$type<DeletionPolicyConditions>().notNull(),
+  active: boolean("active").notNull().default(true),
+  // When the policy last queued items
+  lastAppliedAt: timestamp("last_applied_at"),
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+});
+
+export const insertDeletionPolicySchema = createInsertSchema(deletionPolicies, {
+  name: z.string().min(1, "Name is required"),
+  conditions: deletionPolicyConditionsSchema,
+}).omit({
+  id: true,
+  lastAppliedAt: true,
+  createdAt: true,
+});
+
 // Export all types
 export type User = typeof users.$inferSelect;
 export type InsertUser = z.infer<typeof insertUserSchema>;
@@ -143,6 +515,23 @@ export type DeletionRequest = typeof deletionRequests.$inferSelect;
 export type InsertDeletionRequest = z.infer<typeof insertDeletionRequestSchema>;
 export type SubscriptionPlan = typeof subscriptionPlans.$inferSelect;
 export type UserSubscription = typeof userSubscriptions.$inferSelect;
+export type InsertUserSubscription = typeof userSubscriptions.$inferInsert;
+export type WatchedIdentity = typeof watchedIdentities.$inferSelect;
+export type InsertWatchedIdentity = z.infer<typeof insertWatchedIdentitySchema>;
+export type MonitoringAlert = typeof monitoringAlerts.$inferSelect;
+export type InsertMonitoringAlert = z.infer<typeof insertMonitoringAlertSchema>;
+export type ArchiveImport = typeof archiveImports.$inferSelect;
+export type DeletionPolicy = typeof deletionPolicies.$inferSelect;
+export type InsertDeletionPolicy = z.infer<typeof insertDeletionPolicySchema>;
+export type PlatformConnection = typeof platformConnections.$inferSelect;
+export type InsertPlatformConnection = typeof platformConnections.$inferInsert;
+// Connection as listed to the client, without its tokens
+export type PlatformConnectionSummary = Omit<PlatformConnection, "accessToken" | "refreshToken">;
+export type InsertArchiveImport = typeof archiveImports.$inferInsert;
+// Archive import as listed to the client, without the imported data
+export type ArchiveImportSummary = Omit<ArchiveImport, "data">;
+// Largest archive upload accepted; the importers only read data files, so media can be left out
+export const maxArchiveUploadMb = 200;
 
 // Define a more specific type for DeletionRequest details to use in the frontend
 export type DeletionRequestDetails = {
@@ -150,9 +539,124 @@ export type DeletionRequestDetails = {
   requestedAt?: string;
   ipAddress?: string;
   userAgent?: string;
+  workflow?: DeletionWorkflow;
+  legalRequest?: LegalRequest;
   [key: string]: unknown;
 };
 
+// Kinds of personally identifiable information the PII scanner detects
+export const piiTypeEnum = z.enum([
+  "email",
+  "phone",
+  "postal_address",
+  "credit_card",
+  "iban",
+  "date_of_birth",
+  "license_plate",
+]);
+
+export type PiiType = z.infer<typeof piiTypeEnum>;
+
+// PII found in a piece of text; start and end are character offsets into the text
+export const piiFindingSchema = z.object({
+  type: piiTypeEnum,
+  start: z.number(),
+  end: z.number(),
+  // The match with most characters masked, safe to display and store
+  redacted: z.string(),
+});
+
+export type PiiFinding = z.infer<typeof piiFindingSchema>;
+
+// Factors that make up an exposure score
+export const exposureFactorEnum = z.enum([
+  "pii",
+  "location",
+  "sensitive_topics",
+  "audience_reach",
+  "account_age",
+  "linkability",
+  "content_volume",
+]);
+
+export type ExposureFactor = z.infer<typeof exposureFactorEnum>;
+
+// One factor's contribution to an exposure score
+export const exposureFactorScoreSchema = z.object({
+  factor: exposureFactorEnum,
+  label: z.string(),
+  // Maximum points the factor can contribute; the weights of all factors add up to 100
+  weight: z.number(),
+  // How strongly the factor applies, from 0 to 1
+  value: z.number(),
+  // Points contributed to the score (weight * value)
+  points: z.number(),
+  // What the value is based on, e.g. "Phone number found in 2 pieces of content"
+  detail: z.string(),
+});
+
+export type ExposureFactorScore = z.infer<typeof exposureFactorScoreSchema>;
+
+// A single piece of content found on a platform
+export const contentItemSchema = z.object({
+  type: z.enum(["post", "comment", "like", "share"]),
+  content: z.string().optional(),
+  timestamp: z.string(),
+  url: z.string().optional(),
+  engagement: z.object({
+    likes: z.number().optional(),
+    comments: z.number().optional(),
+    shares: z.number().optional(),
+  }).optional(),
+  sentiment: z.enum(["positive", "neutral", "negative"]).optional(),
+  // Compound sentiment from -1 (most negative) to 1 (most positive)
+  sentimentScore: z.number().min(-1).max(1).optional(),
+  topics: z.array(z.string()).optional(),
+  // Place the content was tagged with, e.g. a check-in
+  location: z.object({
+    name: z.string(),
+    latitude: z.number().optional(),
+    longitude: z.number().optional(),
+  }).optional(),
+  // PII detected in the content
+  piiFindings: z.array(piiFindingSchema).optional(),
+});
+
+export type ContentItem = z.infer<typeof contentItemSchema>;
+
+// A privacy concern raised by platform analysis
+export const privacyConcernSchema = z.object({
+  type: z.string(),
+  description: z.string(),
+  severity: z.enum(["low", "medium", "high"]),
+});
+
+export type PrivacyConcern = z.infer<typeof privacyConcernSchema>;
+
+// A content item that an insight was derived from
+export const insightEvidenceSchema = z.object({
+  platform: platformEnum,
+  // Position of the item in the platform's contentData
+  itemIndex: z.number(),
+  timestamp: z.string(),
+  // Start of the content, with any PII redacted
+  excerpt: z.string().optional(),
+  url: z.string().optional(),
+});
+
+export type InsightEvidence = z.infer<typeof insightEvidenceSchema>;
+
+// A topic the content is about, with the share of items about it
+export const topicShareSchema = z.object({
+  topic: z.string(),
+  // Fraction of the items with text
+  percentage: z.number(),
+  // Items that best represent the topic
+  representativeItems: z.array(insightEvidenceSchema).optional(),
+});
+
+export type TopicShare = z.infer<typeof topicShareSchema>;
+
 // API response schema for platform data
 export const platformDataSchema = z.object({
   platformId: platformEnum,
@@ -179,19 +683,7 @@ export const platformDataSchema = z.object({
     topSubreddits: z.array(z.string()).optional(),
     topHashtags: z.array(z.string()).optional(),
   }).optional(),
-  contentData: z.array(z.object({
-    type: z.enum(["post", "comment", "like", "share"]),
-    content: z.string().optional(),
-    timestamp: z.string(),
-    url: z.string().optional(),
-    engagement: z.object({
-      likes: z.number().optional(),
-      comments: z.number().optional(),
-      shares: z.number().optional(),
-    }).optional(),
-    sentiment: z.enum(["positive", "neutral", "negative"]).optional(),
-    topics: z.array(z.string()).optional(),
-  })).optional(),
+  contentData: z.array(contentItemSchema).optional(),
   privacyMetrics: z.object({
     exposureScore: z.number(),
     dataCategories: z.array(z.object({
@@ -206,10 +698,7 @@ export const platformDataSchema = z.object({
   }).optional(),
   analysisResults: z.object({
     exposureScore: z.number(),
-    topTopics: z.array(z.object({
-      topic: z.string(),
-      percentage: z.number(),
-    })),
+    topTopics: z.array(topicShareSchema),
     activityTimeline: z.array(z.object({
       period: z.string(),
       count: z.number(),
@@ -223,26 +712,121 @@ export const platformDataSchema = z.object({
       category: z.string(),
       severity: z.enum(["low", "medium", "high"]),
     })).optional(),
-    privacyConcerns: z.array(z.object({
-      type: z.string(),
-      description: z.string(),
-      severity: z.enum(["low", "medium", "high"]),
-    })),
+    privacyConcerns: z.array(privacyConcernSchema),
     recommendedActions: z.array(z.string()).optional(),
     platformSpecificMetrics: z.record(z.string(), z.any()).optional(),
+    // How exposureScore was calculated
+    exposureBreakdown: z.array(exposureFactorScoreSchema).optional(),
+    // PII detected across the content and bio
+    piiSummary: z.object({
+      totalFindings: z.number(),
+      itemsWithPii: z.number(),
+      byType: z.record(z.string(), z.number()),
+      bioFindings: z.array(piiFindingSchema),
+      // Why each PII type found is a risk, keyed by type
+      explanations: z.record(z.string(), z.string()).optional(),
+    }).optional(),
   }).optional(),
 });
 
 export type PlatformData = z.infer<typeof platformDataSchema>;
 
+// Evidence that two accounts belong to the same person
+export const linkageSignalEnum = z.enum([
+  "username",
+  "display_name",
+  "bio",
+  "avatar",
+  "profile_link",
+  "location",
+  "writing_style",
+  "posting_times",
+]);
+
+export type LinkageSignal = z.infer<typeof linkageSignalEnum>;
+
+// Which accounts in a footprint can be linked to each other, and why
+export const identityLinkageSchema = z.object({
+  nodes: z.array(z.object({
+    platform: platformEnum,
+    username: z.string(),
+    displayName: z.string().optional(),
+  })),
+  links: z.array(z.object({
+    source: platformEnum,
+    target: platformEnum,
+    // 0-1, combined from the strength of every matching signal
+    confidence: z.number(),
+    signals: z.array(z.object({
+      signal: linkageSignalEnum,
+      // 0-1, how closely the two accounts match on this signal
+      strength: z.number(),
+      detail: z.string(),
+    })),
+  })),
+  // Platforms whose accounts are linkable to each other, directly or through another account
+  clusters: z.array(z.array(platformEnum)),
+});
+
+export type IdentityLinkage = z.infer<typeof identityLinkageSchema>;
+export type IdentityLink = IdentityLinkage["links"][number];
+
+// Kinds of evidence about where the account holder is
+export const locationSourceEnum = z.enum([
+  "profile",
+  "geotag",
+  "check_in",
+  "text",
+  "timezone",
+]);
+
+export type LocationSource = z.infer<typeof locationSourceEnum>;
+
+// A region the account holder can be placed in from their public content
+export const inferredRegionSchema = z.object({
+  name: z.string(),
+  country: z.string().optional(),
+  kind: z.enum(["home", "work", "frequent"]),
+  latitude: z.number().optional(),
+  longitude: z.number().optional(),
+  // Combined strength of the signals placing the account holder here, from 0 to 1
+  confidence: z.number(),
+  signals: z.array(z.object({
+    source: locationSourceEnum,
+    platform: platformEnum,
+    detail: z.string(),
+  })),
+  // Content items that place the account holder here
+  evidence: z.array(insightEvidenceSchema),
+});
+
+export type InferredRegion = z.infer<typeof inferredRegionSchema>;
+
+// Where someone could place the account holder from their footprint
+export const locationInferenceSchema = z.object({
+  // Most confident first
+  regions: z.array(inferredRegionSchema),
+  // Time zone implied by the hours the account holder is active in
+  timezone: z.object({
+    utcOffset: z.number(),
+    confidence: z.number(),
+    itemCount: z.number(),
+  }).optional(),
+});
+
+export type LocationInference = z.infer<typeof locationInferenceSchema>;
+
 // Aggregated response for multiple platforms
 export const digitalFootprintResponseSchema = z.object({
+  searchId: z.number().optional(),
   username: z.string(),
   timestamp: z.string(),
   platforms: z.array(platformEnum),
   platformData: z.array(platformDataSchema),
   summary: z.object({
     exposureScore: z.number(),
+    // How exposureScore was calculated across all platforms
+    exposureBreakdown: z.array(exposureFactorScoreSchema).optional(),
     platformsFound: z.number(),
     totalContentItems: z.number(),
     breakdownByType: z.object({
@@ -254,15 +838,122 @@ export const digitalFootprintResponseSchema = z.object({
     topInsights: z.array(z.object({
       insight: z.string(),
       type: z.enum(["info", "warning"]),
+      // Content items the insight is based on
+      evidence: z.array(insightEvidenceSchema).optional(),
     })),
     recommendations: z.array(z.string()),
+    // Topics extracted from the content of every platform together
+    topTopics: z.array(topicShareSchema).optional(),
+    // Accounts across the found platforms that can be linked to each other
+    identityLinkage: identityLinkageSchema.optional(),
+    // Home, work and other regions the content places the account holder in
+    locationInference: locationInferenceSchema.optional(),
   }),
   noDataMessage: z.string().optional(),
-  platformErrors: z.record(z.string()).optional(),
+  platformErrors: z.record(platformErrorInfoSchema).optional(),
 });
 
 export type DigitalFootprintResponse = z.infer<typeof digitalFootprintResponseSchema>;
 
+// Summary across all platforms in a footprint response
+export type FootprintSummary = DigitalFootprintResponse["summary"];
+export type FootprintInsight = FootprintSummary["topInsights"][number];
+
+// Progress events streamed while a search job runs
+export const searchJobEventSchema = z.discriminatedUnion("type", [
+  z.object({
+    type: z.literal("job_started"),
+    jobId: z.string(),
+    username: z.string(),
+    platforms: z.array(platformEnum),
+  }),
+  z.object({
+    type: z.literal("platform_completed"),
+    platform: platformEnum,
+    data: platformDataSchema.nullable(),
+    // Summary of every platform completed so far
+    summary: digitalFootprintResponseSchema.shape.summary,
+  }),
+  z.object({
+    type: z.literal("platform_failed"),
+    platform: platformEnum,
+    error: platformErrorInfoSchema,
+  }),
+  z.object({
+    type: z.literal("platform_rate_limited"),
+    platform: platformEnum,
+    error: platformErrorInfoSchema,
+  }),
+  z.object({
+    type: z.literal("job_completed"),
+    result: digitalFootprintResponseSchema,
+  }),
+  z.object({
+    type: z.literal("job_failed"),
+    message: z.string(),
+  }),
+]);
+
+export type SearchJobEvent = z.infer<typeof searchJobEventSchema>;
+
+// Movement of a numeric metric between two snapshots
+const metricChangeSchema = z.object({
+  from: z.number().optional(),
+  to: z.number().optional(),
+  change: z.number(),
+});
+
+// Comparison of two saved searches
+export const footprintDiffSchema = z.object({
+  fromSearchId: z.number(),
+  toSearchId: z.number(),
+  fromTimestamp: z.string(),
+  toTimestamp: z.string(),
+  exposureScore: metricChangeSchema,
+  platforms: z.array(z.object({
+    platformId: platformEnum,
+    presence: z.enum(["added", "removed", "unchanged"]),
+    followers: metricChangeSchema,
+    following: metricChangeSchema,
+    exposureScore: metricChangeSchema,
+    newContent: z.array(contentItemSchema),
+    removedContent: z.array(contentItemSchema),
+    newPrivacyConcerns: z.array(privacyConcernSchema),
+  })),
+});
+
+export type FootprintDiff = z.infer<typeof footprintDiffSchema>;
+
+// Items a user's plan lets deletion policies queue this calendar month
+export const deletionQuotaSchema = z.object({
+  planName: z.string().nullable(),
+  // Null means unlimited
+  monthlyLimit: z.number().nullable(),
+  used: z.number(),
+  remaining: z.number().nullable(),
+  // Start of the next month, when the allowance resets
+  resetsAt: z.string(),
+});
+
+export type DeletionQuota = z.infer<typeof deletionQuotaSchema>;
+
+// What deletion policies would do with a snapshot, without queueing anything
+export const deletionPolicyPreviewSchema = z.object({
+  searchId: z.number().optional(),
+  matches: z.array(z.object({
+    platform: platformEnum,
+    username: z.string(),
+    item: contentItemSchema,
+    // Policies the item matched; empty for a policy that isn't saved yet
+    policyIds: z.array(z.number()),
+    // Whether the item would be queued, or why not
+    outcome: z.enum(["queue", "already_requested", "over_quota"]),
+  })),
+  quota: deletionQuotaSchema,
+});
+
+export type DeletionPolicyPreview = z.infer<typeof deletionPolicyPreviewSchema>;
+
 // Mock subscription plans
 export const subscriptionPlansData = [
   {
@@ -305,3 +996,10 @@ export const subscriptionPlansData = [
     description: "Maximum protection for public figures"
   }
 ];
+
+// Items deletion policies may queue each month, by plan ID; null means unlimited
+export const planMonthlyItemLimits: Record<number, number | null> = {
+  1: 50,
+  2: 200,
+  3: null,
+};